@@ -0,0 +1,27 @@
+-- API keys for the /api/v1 REST API
+-- A key belongs to the workspace it was created in: its creator's personal
+-- workspace (team_id NULL) or a team. Requests made with a team key act with
+-- the creator's current team role, so a key stops working when its creator
+-- leaves the team. Only the SHA-256 hash of a key is stored; the key itself is
+-- shown once, when it is created.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_team_id ON api_keys(team_id);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN api_keys.key_hash IS 'SHA-256 of the full key sent as Authorization: Bearer';
+COMMENT ON COLUMN api_keys.key_prefix IS 'First characters of the key, shown to tell keys apart';
+COMMENT ON COLUMN api_keys.scopes IS 'monitors:read, monitors:write, incidents:read, incidents:write, status_pages:read';
@@ -0,0 +1,17 @@
+-- Per-monitor check intervals for the due-monitor scheduler
+-- check_interval (minutes) stays for backwards compatibility; check_interval_seconds
+-- takes precedence when set and allows sub-minute intervals
+
+ALTER TABLE monitors
+ADD COLUMN IF NOT EXISTS check_interval_seconds INTEGER CHECK (check_interval_seconds BETWEEN 30 AND 3600);
+
+-- Backfill from the legacy minutes column
+UPDATE monitors
+SET check_interval_seconds = LEAST(GREATEST(COALESCE(check_interval, 5) * 60, 30), 3600)
+WHERE check_interval_seconds IS NULL
+  AND monitor_type IS DISTINCT FROM 'heartbeat';
+
+-- The scheduler filters on last_checked every tick
+CREATE INDEX IF NOT EXISTS idx_monitors_last_checked ON monitors(last_checked);
+
+COMMENT ON COLUMN monitors.check_interval_seconds IS 'Seconds between checks (30s - 1h). Overrides check_interval when set';
@@ -0,0 +1,22 @@
+-- Degraded state from response time thresholds
+-- A passing check round is degraded when the chosen percentile of location
+-- response times exceeds degraded_threshold_ms. Degraded periods open a
+-- 'minor' incident with incident_type 'degraded'.
+
+ALTER TABLE monitors
+ADD COLUMN IF NOT EXISTS degraded_threshold_ms INTEGER CHECK (degraded_threshold_ms > 0),
+ADD COLUMN IF NOT EXISTS degraded_percentile INTEGER DEFAULT 50 CHECK (degraded_percentile BETWEEN 1 AND 100);
+
+-- Allow the new status and incident type wherever earlier migrations constrained them
+ALTER TABLE monitors DROP CONSTRAINT IF EXISTS monitors_status_check;
+ALTER TABLE monitors ADD CONSTRAINT monitors_status_check
+  CHECK (status IN ('up', 'degraded', 'down', 'unknown'));
+
+ALTER TABLE incidents DROP CONSTRAINT IF EXISTS incidents_incident_type_check;
+ALTER TABLE incidents ADD CONSTRAINT incidents_incident_type_check
+  CHECK (incident_type IN ('monitoring_check', 'downtime', 'degraded', 'missed_heartbeat', 'ssl_issue', 'domain_issue'));
+
+CREATE INDEX IF NOT EXISTS idx_incidents_open_by_type ON incidents(monitor_id, incident_type) WHERE resolved = FALSE;
+
+COMMENT ON COLUMN monitors.degraded_threshold_ms IS 'Response time above which a passing check is degraded (NULL = disabled)';
+COMMENT ON COLUMN monitors.degraded_percentile IS 'Percentile of location response times compared to the threshold (100 = slowest location)';
@@ -0,0 +1,17 @@
+-- Native DNS diagnostics
+-- Incident diagnostics resolve the site through the checker's own resolver and
+-- the zone's authoritative nameservers instead of a DNS-over-HTTPS service,
+-- and flag resolvers whose answers disagree.
+
+ALTER TABLE incident_diagnostics
+ADD COLUMN IF NOT EXISTS dns_ipv6_addresses TEXT[],
+ADD COLUMN IF NOT EXISTS dns_zone TEXT,
+ADD COLUMN IF NOT EXISTS dns_soa_record JSONB,
+ADD COLUMN IF NOT EXISTS dns_caa_records TEXT[],
+ADD COLUMN IF NOT EXISTS dns_resolvers JSONB,
+ADD COLUMN IF NOT EXISTS dns_resolver_disagreements TEXT[];
+
+COMMENT ON COLUMN incident_diagnostics.dns_zone IS 'Closest enclosing domain with NS records';
+COMMENT ON COLUMN incident_diagnostics.dns_caa_records IS 'CAA records from the closest domain that has any';
+COMMENT ON COLUMN incident_diagnostics.dns_resolvers IS 'Per-resolver answers and timing: the system resolver, then authoritative nameservers';
+COMMENT ON COLUMN incident_diagnostics.dns_resolver_disagreements IS 'Resolvers that failed, aliased elsewhere, returned disjoint addresses or served an older zone serial';
@@ -0,0 +1,61 @@
+-- DNS record monitors
+-- A `dns` monitor resolves its URL's hostname for one record type against the
+-- system resolver or a chosen one. It fails when the records disappear or do
+-- not match the expected values, and every change the primary checker sees
+-- is kept in dns_record_changes.
+
+ALTER TABLE monitors DROP CONSTRAINT IF EXISTS monitors_monitor_type_check;
+ALTER TABLE monitors ADD CONSTRAINT monitors_monitor_type_check
+  CHECK (monitor_type IN ('http', 'ping', 'port', 'dns', 'heartbeat'));
+
+ALTER TABLE monitors
+ADD COLUMN IF NOT EXISTS dns_record_type TEXT DEFAULT 'A' CHECK (dns_record_type IN ('A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'CAA')),
+ADD COLUMN IF NOT EXISTS dns_resolver TEXT,
+ADD COLUMN IF NOT EXISTS dns_expected_values TEXT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS dns_match_mode TEXT DEFAULT 'exact' CHECK (dns_match_mode IN ('exact', 'any')),
+ADD COLUMN IF NOT EXISTS dns_current_values TEXT[];
+
+-- What each location saw, next to the check result
+ALTER TABLE uptime_checks
+ADD COLUMN IF NOT EXISTS dns_values TEXT[];
+
+CREATE TABLE IF NOT EXISTS dns_record_changes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  monitor_id UUID NOT NULL REFERENCES monitors(id) ON DELETE CASCADE,
+  record_type TEXT NOT NULL,
+  previous_values TEXT[] NOT NULL,
+  current_values TEXT[] NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dns_record_changes_monitor ON dns_record_changes(monitor_id, changed_at DESC);
+
+ALTER TABLE dns_record_changes ENABLE ROW LEVEL SECURITY;
+
+-- Asking a different question is not a change in the answer: the next check
+-- records a new baseline instead
+CREATE OR REPLACE FUNCTION reset_dns_current_values()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.url IS DISTINCT FROM OLD.url
+     OR NEW.monitor_type IS DISTINCT FROM OLD.monitor_type
+     OR NEW.dns_record_type IS DISTINCT FROM OLD.dns_record_type
+     OR NEW.dns_resolver IS DISTINCT FROM OLD.dns_resolver THEN
+    NEW.dns_current_values := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS monitors_reset_dns_current_values ON monitors;
+CREATE TRIGGER monitors_reset_dns_current_values
+  BEFORE UPDATE ON monitors
+  FOR EACH ROW EXECUTE FUNCTION reset_dns_current_values();
+
+-- Record changes are a notification event channels can subscribe to
+COMMENT ON COLUMN notification_channels.events IS 'down, up, degraded, ssl_expiring, sla_breach, dns_changed';
+
+COMMENT ON COLUMN monitors.dns_resolver IS 'Resolver IP, optionally with :port (NULL = the checker''s system resolver)';
+COMMENT ON COLUMN monitors.dns_expected_values IS 'Expected records in presentation form, e.g. "10 mx.example.com" for MX (empty = any records)';
+COMMENT ON COLUMN monitors.dns_match_mode IS 'exact: the answer must be the expected set; any: at least one expected value must be present';
+COMMENT ON COLUMN monitors.dns_current_values IS 'Last definitive answer from the primary checker, normalized and sorted';
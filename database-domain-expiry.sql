@@ -0,0 +1,25 @@
+-- Domain expiry from RDAP and WHOIS
+-- The daily SSL/domain cron looks registrations up over RDAP, falling back to
+-- WHOIS, and alerts once at each of a monitor's thresholds before expiry and
+-- whenever the registry puts the domain on hold or into redemption.
+
+ALTER TABLE domain_checks
+ADD COLUMN IF NOT EXISTS domain TEXT,
+ADD COLUMN IF NOT EXISTS status_codes TEXT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS lookup_source TEXT;
+
+ALTER TABLE monitors
+ADD COLUMN IF NOT EXISTS domain_status_codes TEXT[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS domain_alert_days INTEGER[] DEFAULT '{30,14,7,1}',
+ADD COLUMN IF NOT EXISTS domain_alerted_days INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_domain_checks_monitor_checked ON domain_checks(monitor_id, checked_at DESC);
+
+-- Domain expiry and registry holds are a notification event channels can subscribe to
+COMMENT ON COLUMN notification_channels.events IS 'down, up, degraded, ssl_expiring, domain_expiring, sla_breach, dns_changed';
+
+COMMENT ON COLUMN domain_checks.domain IS 'Registered domain the data is for, e.g. example.co.uk for www.example.co.uk';
+COMMENT ON COLUMN domain_checks.status_codes IS 'EPP status codes, e.g. clientTransferProhibited, clientHold, redemptionPeriod';
+COMMENT ON COLUMN domain_checks.lookup_source IS 'rdap or whois; NULL when neither answered';
+COMMENT ON COLUMN monitors.domain_alert_days IS 'Days before domain expiry to alert at, once each';
+COMMENT ON COLUMN monitors.domain_alerted_days IS 'Smallest threshold already alerted for the current expiry date (NULL after renewal)';
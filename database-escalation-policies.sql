@@ -0,0 +1,42 @@
+-- Escalation policies
+-- A policy is an ordered list of steps, each notifying notification channels
+-- (database-notification-channels.sql) a number of minutes after the previous
+-- step. When a down incident opens on a monitor with a policy, the steps run
+-- until someone acknowledges the incident, then optional reminders repeat the
+-- last step while it stays open and unacknowledged.
+
+CREATE TABLE IF NOT EXISTS escalation_policies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  steps JSONB NOT NULL DEFAULT '[]',
+  repeat_interval_minutes INTEGER CHECK (repeat_interval_minutes IS NULL OR repeat_interval_minutes >= 5),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_escalation_policies_user_id ON escalation_policies(user_id);
+CREATE INDEX IF NOT EXISTS idx_escalation_policies_team_id ON escalation_policies(team_id);
+
+ALTER TABLE escalation_policies ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE monitors
+ADD COLUMN IF NOT EXISTS escalation_policy_id UUID REFERENCES escalation_policies(id) ON DELETE SET NULL;
+
+-- Escalation state of an open incident
+ALTER TABLE incidents
+ADD COLUMN IF NOT EXISTS escalation_policy_id UUID REFERENCES escalation_policies(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS escalation_step INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS escalation_reminders INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS escalation_next_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS acknowledged_by_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_incidents_escalation_next_at ON incidents(escalation_next_at)
+  WHERE escalation_next_at IS NOT NULL;
+
+COMMENT ON COLUMN escalation_policies.steps IS 'Ordered [{ "delay_minutes": 0, "channel_ids": [...] }]; delays count from the previous step';
+COMMENT ON COLUMN escalation_policies.repeat_interval_minutes IS 'Repeat the last step this often until acknowledged; NULL = no reminders';
+COMMENT ON COLUMN incidents.escalation_step IS 'Number of escalation steps already notified';
+COMMENT ON COLUMN incidents.escalation_next_at IS 'When the next step or reminder is due; NULL = not escalating';
+COMMENT ON COLUMN incidents.acknowledged_by_name IS 'Who acknowledged: the user''s email, or the name given on an acknowledge link';
@@ -0,0 +1,18 @@
+-- Failure confirmation before opening incidents
+-- alert_threshold (added in database-migration.sql) is the number of consecutive
+-- failed check rounds required; a round fails when failure_locations_threshold
+-- locations report a failure (majority when NULL)
+
+ALTER TABLE monitors
+ADD COLUMN IF NOT EXISTS alert_threshold INTEGER DEFAULT 2,
+ADD COLUMN IF NOT EXISTS failure_locations_threshold INTEGER CHECK (failure_locations_threshold > 0),
+ADD COLUMN IF NOT EXISTS confirmation_recheck BOOLEAN DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER DEFAULT 0;
+
+ALTER TABLE monitors DROP CONSTRAINT IF EXISTS check_alert_threshold;
+ALTER TABLE monitors ADD CONSTRAINT check_alert_threshold CHECK (alert_threshold BETWEEN 1 AND 10);
+
+COMMENT ON COLUMN monitors.alert_threshold IS 'Consecutive failed check rounds before the monitor is marked down';
+COMMENT ON COLUMN monitors.failure_locations_threshold IS 'Locations that must fail for a round to count as failed (NULL = majority)';
+COMMENT ON COLUMN monitors.confirmation_recheck IS 'Recheck immediately before declaring a monitor down';
+COMMENT ON COLUMN monitors.consecutive_failures IS 'Failed check rounds in a row, reset by a passing round';
@@ -0,0 +1,13 @@
+-- Reported heartbeat failures
+-- A 'down' ping (or /fail) opens a 'reported_failure' incident right away. The
+-- client's message and metadata (exit code, log tail, run duration) are kept
+-- in incidents.details for responders; they are never shown on status pages.
+
+ALTER TABLE incidents
+ADD COLUMN IF NOT EXISTS details JSONB;
+
+ALTER TABLE incidents DROP CONSTRAINT IF EXISTS incidents_incident_type_check;
+ALTER TABLE incidents ADD CONSTRAINT incidents_incident_type_check
+  CHECK (incident_type IN ('monitoring_check', 'downtime', 'degraded', 'missed_heartbeat', 'reported_failure', 'ssl_issue', 'domain_issue'));
+
+COMMENT ON COLUMN incidents.details IS 'Failure payload reported by the client (message, metadata, run duration); internal only';
@@ -0,0 +1,38 @@
+-- Cron-schedule heartbeat monitors and job run tracking
+-- A heartbeat monitor either expects a ping every heartbeat_interval seconds or
+-- once per occurrence of heartbeat_schedule (cron, in heartbeat_timezone).
+-- /start, /success and /fail pings record job runs in heartbeat_runs so run
+-- durations can be charted and jobs that never finish can be alerted on.
+
+ALTER TABLE monitors
+ADD COLUMN IF NOT EXISTS heartbeat_schedule TEXT,
+ADD COLUMN IF NOT EXISTS heartbeat_timezone TEXT DEFAULT 'UTC',
+ADD COLUMN IF NOT EXISTS heartbeat_grace_seconds INTEGER,
+ADD COLUMN IF NOT EXISTS heartbeat_max_runtime_seconds INTEGER;
+
+ALTER TABLE monitors DROP CONSTRAINT IF EXISTS monitors_heartbeat_grace_range;
+ALTER TABLE monitors ADD CONSTRAINT monitors_heartbeat_grace_range
+  CHECK (heartbeat_grace_seconds IS NULL OR heartbeat_grace_seconds BETWEEN 0 AND 604800);
+
+ALTER TABLE monitors DROP CONSTRAINT IF EXISTS monitors_heartbeat_max_runtime_range;
+ALTER TABLE monitors ADD CONSTRAINT monitors_heartbeat_max_runtime_range
+  CHECK (heartbeat_max_runtime_seconds IS NULL OR heartbeat_max_runtime_seconds BETWEEN 60 AND 604800);
+
+CREATE TABLE IF NOT EXISTS heartbeat_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  monitor_id UUID NOT NULL REFERENCES monitors(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'failed', 'timed_out')),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER,
+  message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_heartbeat_runs_monitor_started ON heartbeat_runs(monitor_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_heartbeat_runs_running ON heartbeat_runs(monitor_id) WHERE status = 'running';
+
+COMMENT ON COLUMN monitors.heartbeat_schedule IS 'Cron expression for when pings are expected (replaces heartbeat_interval when set)';
+COMMENT ON COLUMN monitors.heartbeat_grace_seconds IS 'How late a ping may be before the monitor is down (NULL = default)';
+COMMENT ON COLUMN monitors.heartbeat_max_runtime_seconds IS 'How long a started job may run before it is treated as hung (NULL = grace period)';
+COMMENT ON TABLE heartbeat_runs IS 'Job runs reported through /start, /success and /fail pings';
@@ -0,0 +1,18 @@
+-- Secret heartbeat ping tokens
+-- Heartbeat monitors are pinged at /api/ping/<token>. The token is the only
+-- credential for a ping, so it is random, unique and can be rotated.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE monitors
+ADD COLUMN IF NOT EXISTS heartbeat_token TEXT;
+
+-- Existing heartbeat monitors get a token so their owners can switch to the new ping URL
+UPDATE monitors
+SET heartbeat_token = encode(gen_random_bytes(24), 'hex')
+WHERE monitor_type = 'heartbeat'
+  AND heartbeat_token IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monitors_heartbeat_token ON monitors(heartbeat_token) WHERE heartbeat_token IS NOT NULL;
+
+COMMENT ON COLUMN monitors.heartbeat_token IS 'Secret token in the heartbeat ping URL (/api/ping/<token>); regenerate to revoke the old URL';
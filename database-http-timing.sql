@@ -0,0 +1,23 @@
+-- HTTP phase timing
+-- HTTP checks time each phase of the request from socket events on a fresh
+-- connection. Phases are summed over redirect hops. Ping, port and heartbeat
+-- checks, and HTTP checks that failed before a response, leave them NULL.
+
+ALTER TABLE uptime_checks
+ADD COLUMN IF NOT EXISTS dns_time_ms INTEGER,
+ADD COLUMN IF NOT EXISTS connect_time_ms INTEGER,
+ADD COLUMN IF NOT EXISTS tls_time_ms INTEGER,
+ADD COLUMN IF NOT EXISTS ttfb_ms INTEGER,
+ADD COLUMN IF NOT EXISTS download_time_ms INTEGER;
+
+-- Incident diagnostics record the same phases; connection time is now the
+-- TCP connect alone rather than an estimate that included TLS
+ALTER TABLE incident_diagnostics
+ADD COLUMN IF NOT EXISTS http_dns_time_ms INTEGER,
+ADD COLUMN IF NOT EXISTS http_download_time_ms INTEGER;
+
+COMMENT ON COLUMN uptime_checks.dns_time_ms IS 'DNS lookup (0 when the URL host is an IP address)';
+COMMENT ON COLUMN uptime_checks.connect_time_ms IS 'TCP connect after the lookup';
+COMMENT ON COLUMN uptime_checks.tls_time_ms IS 'TLS handshake after the connect (0 for plain HTTP)';
+COMMENT ON COLUMN uptime_checks.ttfb_ms IS 'Request sent to the first response byte';
+COMMENT ON COLUMN uptime_checks.download_time_ms IS 'First response byte to the end of the body';
@@ -0,0 +1,46 @@
+-- Incident lifecycle: investigating -> identified -> monitoring -> resolved
+-- Each step is an incident_updates row; the incident keeps the current step,
+-- severity and latest public message. Updates can be kept internal.
+
+ALTER TABLE incidents
+ADD COLUMN IF NOT EXISTS severity TEXT DEFAULT 'major',
+ADD COLUMN IF NOT EXISTS status_update TEXT,
+ADD COLUMN IF NOT EXISTS public_message TEXT,
+ADD COLUMN IF NOT EXISTS investigating BOOLEAN DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS identified BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS monitoring BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS resolution_method VARCHAR(20),
+ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS acknowledged_by UUID REFERENCES profiles(id),
+ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES profiles(id);
+
+ALTER TABLE incidents DROP CONSTRAINT IF EXISTS incidents_severity_check;
+ALTER TABLE incidents ADD CONSTRAINT incidents_severity_check
+  CHECK (severity IN ('minor', 'major', 'critical'));
+
+ALTER TABLE incidents DROP CONSTRAINT IF EXISTS incidents_resolution_method_check;
+ALTER TABLE incidents ADD CONSTRAINT incidents_resolution_method_check
+  CHECK (resolution_method IN ('monitoring_check', 'heartbeat', 'manual'));
+
+CREATE TABLE IF NOT EXISTS incident_updates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID REFERENCES incidents(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  message TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_by UUID REFERENCES profiles(id)
+);
+
+ALTER TABLE incident_updates
+ADD COLUMN IF NOT EXISTS severity TEXT CHECK (severity IN ('minor', 'major', 'critical')),
+ADD COLUMN IF NOT EXISTS is_public BOOLEAN DEFAULT TRUE;
+
+ALTER TABLE incident_updates DROP CONSTRAINT IF EXISTS incident_updates_status_check;
+ALTER TABLE incident_updates ADD CONSTRAINT incident_updates_status_check
+  CHECK (status IN ('investigating', 'identified', 'monitoring', 'resolved'));
+
+CREATE INDEX IF NOT EXISTS idx_incident_updates_incident ON incident_updates(incident_id, created_at);
+
+COMMENT ON COLUMN incidents.public_message IS 'Latest public update message, shown on the status page';
+COMMENT ON COLUMN incidents.acknowledged_at IS 'When someone took ownership of the incident';
+COMMENT ON COLUMN incident_updates.is_public IS 'Internal notes (FALSE) are hidden from public status pages';
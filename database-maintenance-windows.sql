@@ -0,0 +1,41 @@
+-- Maintenance windows
+-- Extends the maintenance_windows table from database-migration.sql with owners,
+-- monitor groups and recurrence. A window applies to monitor_id, to every monitor
+-- in monitor_ids, or (when both are empty) to all of the owner's monitors.
+-- Recurring windows start at each recurrence_cron match (in timezone) between
+-- start_time and end_time and last duration_minutes.
+
+ALTER TABLE maintenance_windows
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS monitor_ids UUID[] DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS recurrence_cron TEXT,
+ADD COLUMN IF NOT EXISTS duration_minutes INTEGER CHECK (duration_minutes BETWEEN 1 AND 10080),
+ADD COLUMN IF NOT EXISTS timezone TEXT DEFAULT 'UTC',
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Recurring windows may run indefinitely
+ALTER TABLE maintenance_windows ALTER COLUMN end_time DROP NOT NULL;
+
+ALTER TABLE maintenance_windows DROP CONSTRAINT IF EXISTS check_maintenance_schedule;
+ALTER TABLE maintenance_windows ADD CONSTRAINT check_maintenance_schedule CHECK (
+  (recurrence_cron IS NULL AND end_time IS NOT NULL) OR
+  (recurrence_cron IS NOT NULL AND duration_minutes IS NOT NULL)
+);
+
+-- Backfill owners for existing per-monitor windows
+UPDATE maintenance_windows mw
+SET user_id = m.user_id
+FROM monitors m
+WHERE mw.monitor_id = m.id AND mw.user_id IS NULL;
+
+-- Checks run during maintenance are stored with status 'maintenance'
+ALTER TABLE uptime_checks DROP CONSTRAINT IF EXISTS uptime_checks_status_check;
+ALTER TABLE uptime_checks ADD CONSTRAINT uptime_checks_status_check
+  CHECK (status IN ('up', 'down', 'timeout', 'error', 'maintenance'));
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_windows_active ON maintenance_windows(user_id) WHERE active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_maintenance_windows_monitor ON maintenance_windows(monitor_id);
+
+COMMENT ON COLUMN maintenance_windows.monitor_ids IS 'Monitors covered by a group window (empty with NULL monitor_id = all owner monitors)';
+COMMENT ON COLUMN maintenance_windows.recurrence_cron IS 'Cron expression for the start of each occurrence (NULL = one-off window)';
+COMMENT ON COLUMN maintenance_windows.duration_minutes IS 'Length of each recurring occurrence';
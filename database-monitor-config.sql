@@ -0,0 +1,19 @@
+-- Monitors as code
+-- config_key is the stable key that matches a monitor to its entry in an
+-- imported YAML/JSON config file. Monitors without one have never been
+-- imported; an import adopts them by a key derived from their name and never
+-- deletes them.
+
+ALTER TABLE monitors
+ADD COLUMN IF NOT EXISTS config_key TEXT;
+
+-- Keys are unique within a workspace: a team, or a user's personal monitors
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monitors_team_config_key
+  ON monitors(team_id, config_key)
+  WHERE team_id IS NOT NULL AND config_key IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_monitors_personal_config_key
+  ON monitors(user_id, config_key)
+  WHERE team_id IS NULL AND config_key IS NOT NULL;
+
+COMMENT ON COLUMN monitors.config_key IS 'Stable key from an imported monitor config file; NULL if never imported';
@@ -0,0 +1,50 @@
+-- Reusable notification channels
+-- A channel is a Slack, Discord, webhook, SMS or email destination managed
+-- once per workspace (a user's personal workspace, team_id NULL, or a team)
+-- and routed to monitors directly or through monitor tags. Each channel lists
+-- the events it receives. The per-monitor notification fields keep working
+-- alongside channels.
+
+ALTER TABLE monitors
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_monitors_tags ON monitors USING GIN (tags);
+
+COMMENT ON COLUMN monitors.tags IS 'Labels used to route notification channels to groups of monitors';
+
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('email', 'slack', 'discord', 'webhook', 'sms')),
+  target TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT '{down,up}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_channels_user_id ON notification_channels(user_id);
+CREATE INDEX IF NOT EXISTS idx_notification_channels_team_id ON notification_channels(team_id);
+
+-- A route sends a channel's events for one monitor, or for every monitor in
+-- the channel's workspace carrying a tag
+CREATE TABLE IF NOT EXISTS notification_channel_routes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  channel_id UUID NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+  monitor_id UUID REFERENCES monitors(id) ON DELETE CASCADE,
+  tag TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((monitor_id IS NULL) <> (tag IS NULL)),
+  UNIQUE (channel_id, monitor_id),
+  UNIQUE (channel_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_channel_routes_monitor_id ON notification_channel_routes(monitor_id);
+CREATE INDEX IF NOT EXISTS idx_notification_channel_routes_tag ON notification_channel_routes(tag);
+
+ALTER TABLE notification_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_channel_routes ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN notification_channels.target IS 'Encrypted destination: email address, webhook URL or phone number';
+COMMENT ON COLUMN notification_channels.events IS 'down, up, degraded, ssl_expiring, sla_breach';
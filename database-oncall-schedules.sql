@@ -0,0 +1,64 @@
+-- On-call schedules
+-- A schedule rotates through workspace members daily or weekly, handing off
+-- at a local time in its timezone. Overrides put someone else on call for a
+-- while. Email and SMS notification channels (database-notification-channels.sql)
+-- can target a schedule instead of a fixed address, reaching whoever is on
+-- call when the notification goes out.
+
+CREATE TABLE IF NOT EXISTS oncall_schedules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rotation_type TEXT NOT NULL CHECK (rotation_type IN ('daily', 'weekly')),
+  handoff_time TEXT NOT NULL DEFAULT '09:00',
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  rotation_start DATE NOT NULL,
+  participants UUID[] NOT NULL DEFAULT '{}',
+  ical_token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_oncall_schedules_user_id ON oncall_schedules(user_id);
+CREATE INDEX IF NOT EXISTS idx_oncall_schedules_team_id ON oncall_schedules(team_id);
+
+CREATE TABLE IF NOT EXISTS oncall_overrides (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  schedule_id UUID NOT NULL REFERENCES oncall_schedules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_oncall_overrides_schedule_id ON oncall_overrides(schedule_id, ends_at);
+
+ALTER TABLE oncall_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE oncall_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Where on-call SMS reach each person
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS oncall_phone TEXT;
+
+-- A channel sends to a fixed target or to a schedule's on-call person
+ALTER TABLE notification_channels
+ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES oncall_schedules(id) ON DELETE CASCADE;
+
+ALTER TABLE notification_channels
+ALTER COLUMN target DROP NOT NULL;
+
+ALTER TABLE notification_channels
+DROP CONSTRAINT IF EXISTS notification_channels_target_or_schedule;
+
+ALTER TABLE notification_channels
+ADD CONSTRAINT notification_channels_target_or_schedule CHECK ((target IS NULL) <> (schedule_id IS NULL));
+
+COMMENT ON COLUMN oncall_schedules.handoff_time IS 'HH:MM in the schedule timezone when shifts change';
+COMMENT ON COLUMN oncall_schedules.rotation_start IS 'Date the first participant''s first shift starts; weekly shifts hand off on its weekday';
+COMMENT ON COLUMN oncall_schedules.participants IS 'Profile IDs in rotation order; members who leave the team drop out of the rotation';
+COMMENT ON COLUMN oncall_schedules.ical_token IS 'Secret token in the schedule''s iCal feed URL';
+COMMENT ON COLUMN profiles.oncall_phone IS 'Encrypted phone number for on-call SMS';
+COMMENT ON COLUMN notification_channels.schedule_id IS 'Email or SMS channel that notifies whoever is on call on this schedule';
@@ -0,0 +1,78 @@
+-- Distributed probe agents
+-- Agents register under a location name, claim check jobs over the probe API and
+-- post results back. Each scheduled check becomes a round: the primary checker's
+-- result plus one job per active remote location.
+
+CREATE TABLE IF NOT EXISTS probe_agents (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location TEXT NOT NULL, -- e.g. 'eu-west', 'office-lan'
+  name TEXT,
+  token_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the agent token
+  enabled BOOLEAN DEFAULT TRUE,
+  version TEXT,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS check_rounds (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  monitor_id UUID NOT NULL REFERENCES monitors(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  locations TEXT[] NOT NULL,
+  local_result JSONB, -- result from the primary checker
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS probe_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  round_id UUID NOT NULL REFERENCES check_rounds(id) ON DELETE CASCADE,
+  monitor_id UUID NOT NULL REFERENCES monitors(id) ON DELETE CASCADE,
+  location TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'claimed', 'completed', 'expired')),
+  claimed_by UUID REFERENCES probe_agents(id) ON DELETE SET NULL,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  result JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE uptime_checks
+ADD COLUMN IF NOT EXISTS round_id UUID REFERENCES check_rounds(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS probe_agent_id UUID REFERENCES probe_agents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_probe_agents_location ON probe_agents(location, last_seen_at);
+CREATE INDEX IF NOT EXISTS idx_probe_jobs_pending ON probe_jobs(location, created_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_probe_jobs_round ON probe_jobs(round_id);
+CREATE INDEX IF NOT EXISTS idx_check_rounds_open ON check_rounds(expires_at) WHERE completed_at IS NULL;
+
+-- Atomically claim pending jobs for an agent's location
+CREATE OR REPLACE FUNCTION claim_probe_jobs(p_agent_id UUID, p_location TEXT, p_limit INTEGER)
+RETURNS SETOF probe_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE probe_jobs
+  SET status = 'claimed', claimed_by = p_agent_id, claimed_at = NOW()
+  WHERE id IN (
+    SELECT j.id FROM probe_jobs j
+    JOIN check_rounds r ON r.id = j.round_id
+    WHERE j.location = p_location
+      AND j.status = 'pending'
+      AND r.completed_at IS NULL
+      AND r.expires_at > NOW()
+    ORDER BY j.created_at
+    LIMIT p_limit
+    FOR UPDATE OF j SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Probe tables are only accessed with the service role
+ALTER TABLE probe_agents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE check_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE probe_jobs ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE probe_agents IS 'Self-hosted probe agents that run checks from their location';
+COMMENT ON TABLE check_rounds IS 'One scheduled check of a monitor across all active locations';
+COMMENT ON TABLE probe_jobs IS 'Per-location check jobs claimed and completed by probe agents';
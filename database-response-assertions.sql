@@ -0,0 +1,24 @@
+-- Response assertions for HTTP monitors
+-- assertions holds a JSON array of checks run against the response body:
+--   {"type": "keyword_present" | "keyword_absent", "value": "...", "case_sensitive": false}
+--   {"type": "regex", "pattern": "...", "flags": "i"}
+--   {"type": "json_path_equals" | "json_path_contains", "path": "$.db", "value": "up"}
+-- expected_status_codes replaces the default 2xx check when not empty.
+-- keyword_check (added in database-migration.sql) still works as a "body contains" check.
+
+ALTER TABLE monitors
+ADD COLUMN IF NOT EXISTS assertions JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS expected_status_codes INTEGER[] DEFAULT '{}';
+
+-- Carry over non-default single expected codes
+UPDATE monitors
+SET expected_status_codes = ARRAY[expected_status_code]
+WHERE expected_status_code IS NOT NULL
+  AND expected_status_code <> 200
+  AND (expected_status_codes IS NULL OR expected_status_codes = '{}');
+
+ALTER TABLE monitors DROP CONSTRAINT IF EXISTS check_assertions_array;
+ALTER TABLE monitors ADD CONSTRAINT check_assertions_array CHECK (jsonb_typeof(assertions) = 'array');
+
+COMMENT ON COLUMN monitors.assertions IS 'Checks run against the HTTP response body (keyword, regex, JSONPath)';
+COMMENT ON COLUMN monitors.expected_status_codes IS 'Accepted HTTP status codes (empty = any 2xx)';
@@ -0,0 +1,33 @@
+-- Password-protected and custom-domain status pages
+-- Protected pages are unlocked with a password (scrypt hash in password_hash)
+-- and a signed session cookie checked in middleware. Changing the password
+-- bumps password_updated_at, which invalidates existing sessions.
+-- custom_domain routes requests for that Host header to the page once it is
+-- verified: the owner publishes custom_domain_token in a TXT record and
+-- custom_domain_verified_at is set. Unverified claims never route or block.
+
+ALTER TABLE status_pages
+ADD COLUMN IF NOT EXISTS custom_domain TEXT,
+ADD COLUMN IF NOT EXISTS custom_domain_token TEXT,
+ADD COLUMN IF NOT EXISTS custom_domain_verified_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS password_protected BOOLEAN DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS password_hash TEXT,
+ADD COLUMN IF NOT EXISTS password_updated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE status_pages DROP CONSTRAINT IF EXISTS status_pages_password_required;
+ALTER TABLE status_pages ADD CONSTRAINT status_pages_password_required
+  CHECK (password_protected = FALSE OR password_hash IS NOT NULL);
+
+ALTER TABLE status_pages DROP CONSTRAINT IF EXISTS status_pages_custom_domain_format;
+ALTER TABLE status_pages ADD CONSTRAINT status_pages_custom_domain_format
+  CHECK (custom_domain IS NULL OR custom_domain = LOWER(custom_domain));
+
+-- Only one page can hold a verified domain; any number may claim it unverified
+DROP INDEX IF EXISTS idx_status_pages_custom_domain;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_status_pages_verified_custom_domain ON status_pages(custom_domain)
+  WHERE custom_domain IS NOT NULL AND custom_domain_verified_at IS NOT NULL;
+
+COMMENT ON COLUMN status_pages.custom_domain IS 'Host name (e.g. status.example.com) that serves this page; point a CNAME at the app';
+COMMENT ON COLUMN status_pages.custom_domain_token IS 'Expected in a TXT record at _simple-uptime.<custom_domain>';
+COMMENT ON COLUMN status_pages.custom_domain_verified_at IS 'When the TXT record was found; NULL = the domain does not route yet';
+COMMENT ON COLUMN status_pages.password_updated_at IS 'Sessions issued before this time are rejected';
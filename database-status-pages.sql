@@ -0,0 +1,60 @@
+-- Multi-monitor status pages
+-- A status page is served at /s/<slug> and shows its monitors as components,
+-- optionally organised into named groups. Daily uptime for the 90-day bars is
+-- aggregated in the database so pages with many monitors stay cheap to render.
+
+CREATE TABLE IF NOT EXISTS status_pages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT DEFAULT 'System Status',
+  description TEXT,
+  logo_url TEXT,
+  theme_color TEXT DEFAULT '#2563eb',
+  monitors_to_show UUID[] DEFAULT '{}',
+  show_uptime_percentage BOOLEAN DEFAULT TRUE,
+  show_response_times BOOLEAN DEFAULT TRUE,
+  public BOOLEAN DEFAULT TRUE,
+  password_protected BOOLEAN DEFAULT FALSE,
+  password_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE status_pages
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS slug TEXT,
+ADD COLUMN IF NOT EXISTS component_groups JSONB DEFAULT '[]',
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Earlier pages were addressed by subdomain
+UPDATE status_pages SET slug = subdomain WHERE slug IS NULL AND subdomain IS NOT NULL;
+
+ALTER TABLE status_pages DROP CONSTRAINT IF EXISTS status_pages_slug_format;
+ALTER TABLE status_pages ADD CONSTRAINT status_pages_slug_format
+  CHECK (slug ~ '^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$');
+
+ALTER TABLE status_pages DROP CONSTRAINT IF EXISTS status_pages_component_groups_is_array;
+ALTER TABLE status_pages ADD CONSTRAINT status_pages_component_groups_is_array
+  CHECK (jsonb_typeof(component_groups) = 'array');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_status_pages_slug ON status_pages(slug);
+CREATE INDEX IF NOT EXISTS idx_status_pages_user_id ON status_pages(user_id);
+
+-- Up/total check counts per monitor and UTC day, ignoring maintenance
+CREATE OR REPLACE FUNCTION status_page_daily_uptime(p_monitor_ids UUID[], p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (monitor_id UUID, day DATE, up_count BIGINT, total_count BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT c.monitor_id,
+         (c.checked_at AT TIME ZONE 'UTC')::DATE AS day,
+         COUNT(*) FILTER (WHERE c.status = 'up') AS up_count,
+         COUNT(*) AS total_count
+  FROM uptime_checks c
+  WHERE c.monitor_id = ANY(p_monitor_ids)
+    AND c.checked_at >= p_since
+    AND c.status <> 'maintenance'
+  GROUP BY c.monitor_id, day;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON COLUMN status_pages.slug IS 'Public address of the page: /s/<slug>';
+COMMENT ON COLUMN status_pages.component_groups IS 'Ordered groups: [{"name": "API", "monitor_ids": ["..."]}]';
+COMMENT ON COLUMN status_pages.monitors_to_show IS 'Ordered monitors on the page, including grouped ones';
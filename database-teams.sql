@@ -0,0 +1,65 @@
+-- Team workspaces
+-- Monitors, maintenance windows and status pages created inside a team carry
+-- its team_id and are shared by every member; rows without a team_id stay in
+-- their creator's personal workspace. Roles, lowest to highest:
+--   viewer - read only
+--   member - create, edit and delete monitors, maintenance and status pages
+--   admin  - also notification targets and team membership
+--   owner  - also rename or delete the team
+-- Invitations are accepted through a link carrying a random token; only its
+-- SHA-256 hash is stored.
+
+CREATE TABLE IF NOT EXISTS teams (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  owner_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  plan TEXT DEFAULT 'startup',
+  max_monitors INTEGER DEFAULT 50
+);
+
+CREATE TABLE IF NOT EXISTS team_members (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  role TEXT DEFAULT 'member',
+  joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(team_id, user_id)
+);
+
+ALTER TABLE team_members DROP CONSTRAINT IF EXISTS team_members_role_check;
+ALTER TABLE team_members ADD CONSTRAINT team_members_role_check
+  CHECK (role IN ('owner', 'admin', 'member', 'viewer'));
+
+CREATE TABLE IF NOT EXISTS team_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member', 'viewer')),
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_invitations_team_id ON team_invitations(team_id);
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id);
+
+ALTER TABLE monitors
+ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE CASCADE;
+
+ALTER TABLE maintenance_windows
+ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE CASCADE;
+
+ALTER TABLE status_pages
+ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_monitors_team_id ON monitors(team_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_windows_team_id ON maintenance_windows(team_id);
+CREATE INDEX IF NOT EXISTS idx_status_pages_team_id ON status_pages(team_id);
+
+ALTER TABLE team_invitations ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN monitors.team_id IS 'Owning team; NULL means the personal workspace of user_id';
+COMMENT ON COLUMN team_invitations.token_hash IS 'SHA-256 of the token in the accept link';
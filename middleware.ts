@@ -1,8 +1,15 @@
 import { createServerClient, type CookieOptions } from '@supabase/ssr'
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { routeStatusPageRequest } from '@/lib/status-page-access'
 
 export async function middleware(req: NextRequest) {
+  // Status pages (custom domains and password protection) are handled before auth
+  const statusPageResponse = await routeStatusPageRequest(req)
+  if (statusPageResponse) {
+    return statusPageResponse
+  }
+
   let response = NextResponse.next({
     request: {
       headers: req.headers,
@@ -66,7 +73,8 @@ export async function middleware(req: NextRequest) {
     '/billing',
     '/monitors',
     '/incidents',
-    '/profile'
+    '/profile',
+    '/teams'
   ]
 
   // Define auth routes - routes that should redirect to dashboard if already logged in
@@ -97,17 +105,27 @@ export async function middleware(req: NextRequest) {
     return NextResponse.redirect(new URL('/demo', req.url))
   }
 
+  // Cron routes authenticate with CRON_SECRET themselves
+  const sessionlessCronRoutes = ['/api/cron/check-websites', '/api/cron/escalations']
+
   // For API routes that need authentication
-  if (pathname.startsWith('/api/') && pathname !== '/api/cron/check-websites') {
+  if (pathname.startsWith('/api/') && !sessionlessCronRoutes.includes(pathname)) {
     // Allow certain public API routes
     const publicApiRoutes = [
       '/api/auth/',
-      '/api/demo/'
+      '/api/demo/',
+      '/api/probes/', // probe agents authenticate with their own token
+      '/api/public/',
+      '/api/ping/', // heartbeat pings authenticate with the token in the URL
+      '/api/v1/' // REST API clients authenticate with a bearer API key
     ]
     
     const isPublicApiRoute = publicApiRoutes.some(route => pathname.startsWith(route))
+
+    // Legacy heartbeat pings carry the monitor's ping token instead of a session
+    const isLegacyHeartbeatPing = req.method === 'POST' && /^\/api\/monitors\/[^/]+\/heartbeat$/.test(pathname)
     
-    if (!isPublicApiRoute && !session) {
+    if (!isPublicApiRoute && !isLegacyHeartbeatPing && !session) {
       return NextResponse.json(
         { error: 'Authentication required' },
         { status: 401 }
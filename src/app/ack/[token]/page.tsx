@@ -0,0 +1,141 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertCircle, BellOff, CheckCircle } from 'lucide-react'
+
+interface PageProps {
+  params: { token: string }
+}
+
+interface IncidentSummary {
+  monitor_name: string
+  cause?: string
+  started_at: string
+  resolved: boolean
+  acknowledged_at?: string
+  acknowledged_by_name?: string
+}
+
+// Opening the link only shows the incident; acknowledging takes a click, so
+// chat link previews cannot stop an escalation by themselves
+export default function AcknowledgeIncidentPage({ params }: PageProps) {
+  const { user, loading: authLoading } = useAuth()
+  const [incident, setIncident] = useState<IncidentSummary | null>(null)
+  const [name, setName] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchIncident = async () => {
+      try {
+        const response = await fetch(`/api/public/acknowledge/${params.token}`)
+        const data = await response.json()
+        if (response.ok) {
+          setIncident(data)
+        } else {
+          setError(data.error || 'Failed to load incident')
+        }
+      } catch (err) {
+        setError('Failed to load incident')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchIncident()
+  }, [params.token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/public/acknowledge/${params.token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to acknowledge incident')
+        return
+      }
+
+      setIncident(data)
+    } catch (err) {
+      setError('Failed to acknowledge incident')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center">
+      <div className="bg-card rounded-lg shadow-sm border p-8 max-w-md w-full mx-4">
+        {loading ? (
+          <p className="text-center text-muted-foreground">Loading incident...</p>
+        ) : !incident ? (
+          <div className="flex items-center justify-center gap-2 text-sm text-red-600">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-col items-center text-center mb-6">
+              {incident.acknowledged_at || incident.resolved
+                ? <CheckCircle className="h-8 w-8 text-green-600 mb-3" />
+                : <BellOff className="h-8 w-8 text-muted-foreground mb-3" />}
+              <h1 className="text-2xl font-bold mb-2">{incident.monitor_name} is down</h1>
+              {incident.cause && <p className="text-muted-foreground">{incident.cause}</p>}
+              <p className="text-sm text-muted-foreground mt-1">
+                Since {new Date(incident.started_at).toLocaleString()}
+              </p>
+            </div>
+
+            {incident.resolved ? (
+              <p className="text-center text-sm text-muted-foreground">This incident has been resolved.</p>
+            ) : incident.acknowledged_at ? (
+              <p className="text-center text-sm text-muted-foreground">
+                Acknowledged{incident.acknowledged_by_name ? ` by ${incident.acknowledged_by_name}` : ''} at{' '}
+                {new Date(incident.acknowledged_at).toLocaleString()}. Escalation has stopped.
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {!authLoading && !user && (
+                  <Input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Your name"
+                    maxLength={100}
+                    autoFocus
+                    required
+                  />
+                )}
+
+                {error && (
+                  <div className="flex items-center gap-2 text-sm text-red-600">
+                    <AlertCircle className="h-4 w-4" />
+                    {error}
+                  </div>
+                )}
+
+                <Button type="submit" className="w-full" disabled={submitting || authLoading || (!user && !name.trim())}>
+                  {submitting ? 'Acknowledging...' : 'Acknowledge Incident'}
+                </Button>
+                <p className="text-xs text-center text-muted-foreground">
+                  Acknowledging stops further escalation for this incident.
+                </p>
+              </form>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,110 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
-import { encryptMonitorSecrets, decryptMonitorSecrets } from '@/lib/encryption'
+import {
+  encryptMonitorSecrets,
+  decryptMonitorSecrets,
+  reEncryptMonitorSecrets,
+  reEncryptData,
+  needsReEncryption,
+  monitorSecretNeedsRotation,
+  getEncryptionKeyId,
+  ENCRYPTED_MONITOR_FIELDS
+} from '@/lib/encryption'
+
+interface SecretsResults {
+  processed: number
+  errors: string[]
+  skipped: number
+}
+
+/**
+ * Re-encrypt every stored secret that is in the legacy format or uses a
+ * previous key: monitor secrets, notification channel targets and on-call
+ * phone numbers. Monitor secrets still in plaintext are encrypted as well. Once it reports no errors, previous keys can be removed
+ * from ENCRYPTION_PREVIOUS_KEYS.
+ */
+async function rotateSecrets(monitors: any[], results: SecretsResults): Promise<void> {
+  for (const monitor of monitors) {
+    try {
+      const changes = reEncryptMonitorSecrets(monitor)
+      if (Object.keys(changes).length === 0) {
+        results.skipped++
+        continue
+      }
+
+      const { error: updateError } = await supabaseAdmin!
+        .from('monitors')
+        .update({ ...changes, secrets_encrypted: true })
+        .eq('id', monitor.id)
+
+      if (updateError) {
+        results.errors.push(`Monitor ${monitor.id}: ${updateError.message}`)
+      } else {
+        results.processed++
+      }
+    } catch (error) {
+      results.errors.push(`Monitor ${monitor.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const { data: channels, error: channelsError } = await supabaseAdmin!
+    .from('notification_channels')
+    .select('id, target')
+    .not('target', 'is', null)
+
+  if (channelsError) throw channelsError
+
+  for (const channel of channels || []) {
+    try {
+      if (!needsReEncryption(channel.target)) {
+        results.skipped++
+        continue
+      }
+
+      const { error: updateError } = await supabaseAdmin!
+        .from('notification_channels')
+        .update({ target: reEncryptData(channel.target) })
+        .eq('id', channel.id)
+
+      if (updateError) {
+        results.errors.push(`Notification channel ${channel.id}: ${updateError.message}`)
+      } else {
+        results.processed++
+      }
+    } catch (error) {
+      results.errors.push(`Notification channel ${channel.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const { data: profiles, error: profilesError } = await supabaseAdmin!
+    .from('profiles')
+    .select('id, oncall_phone')
+    .not('oncall_phone', 'is', null)
+
+  if (profilesError) throw profilesError
+
+  for (const profile of profiles || []) {
+    try {
+      if (!needsReEncryption(profile.oncall_phone)) {
+        results.skipped++
+        continue
+      }
+
+      const { error: updateError } = await supabaseAdmin!
+        .from('profiles')
+        .update({ oncall_phone: reEncryptData(profile.oncall_phone) })
+        .eq('id', profile.id)
+
+      if (updateError) {
+        results.errors.push(`Profile ${profile.id}: ${updateError.message}`)
+      } else {
+        results.processed++
+      }
+    } catch (error) {
+      results.errors.push(`Profile ${profile.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,8 +120,8 @@ export async function POST(request: NextRequest) {
 
     const { action } = await request.json()
     
-    if (action !== 'encrypt' && action !== 'decrypt') {
-      return NextResponse.json({ error: 'Invalid action. Must be "encrypt" or "decrypt"' }, { status: 400 })
+    if (action !== 'encrypt' && action !== 'decrypt' && action !== 'rotate') {
+      return NextResponse.json({ error: 'Invalid action. Must be "encrypt", "decrypt" or "rotate"' }, { status: 400 })
     }
 
     // Get all monitors
@@ -27,67 +131,72 @@ export async function POST(request: NextRequest) {
 
     if (fetchError) throw fetchError
 
-    const results = {
+    const results: SecretsResults = {
       processed: 0,
-      errors: [] as string[],
+      errors: [],
       skipped: 0
     }
 
-    for (const monitor of monitors || []) {
-      try {
-        let processedMonitor
-        let shouldUpdate = false
+    if (action === 'rotate') {
+      await rotateSecrets(monitors || [], results)
+    } else {
+      for (const monitor of monitors || []) {
+        try {
+          let processedMonitor
+          let shouldUpdate = false
 
-        if (action === 'encrypt') {
-          // Skip if already encrypted
-          if (monitor.secrets_encrypted) {
-            results.skipped++
-            continue
-          }
+          if (action === 'encrypt') {
+            // Skip if already encrypted
+            if (monitor.secrets_encrypted) {
+              results.skipped++
+              continue
+            }
           
-          processedMonitor = encryptMonitorSecrets(monitor)
-          processedMonitor.secrets_encrypted = true
-          shouldUpdate = true
-        } else {
-          // Skip if not encrypted
-          if (!monitor.secrets_encrypted) {
-            results.skipped++
-            continue
-          }
+            processedMonitor = encryptMonitorSecrets(monitor)
+            processedMonitor.secrets_encrypted = true
+            shouldUpdate = true
+          } else {
+            // Skip if not encrypted
+            if (!monitor.secrets_encrypted) {
+              results.skipped++
+              continue
+            }
           
-          processedMonitor = decryptMonitorSecrets(monitor)
-          processedMonitor.secrets_encrypted = false
-          shouldUpdate = true
-        }
+            processedMonitor = decryptMonitorSecrets(monitor)
+            processedMonitor.secrets_encrypted = false
+            shouldUpdate = true
+          }
 
-        if (shouldUpdate) {
-          const { error: updateError } = await supabaseAdmin
-            .from('monitors')
-            .update({
-              auth_password: processedMonitor.auth_password,
-              auth_token: processedMonitor.auth_token,
-              slack_webhook_url: processedMonitor.slack_webhook_url,
-              discord_webhook_url: processedMonitor.discord_webhook_url,
-              webhook_url: processedMonitor.webhook_url,
-              alert_sms: processedMonitor.alert_sms,
-              secrets_encrypted: processedMonitor.secrets_encrypted
-            })
-            .eq('id', monitor.id)
-
-          if (updateError) {
-            results.errors.push(`Monitor ${monitor.id}: ${updateError.message}`)
-          } else {
-            results.processed++
+          if (shouldUpdate) {
+            const { error: updateError } = await supabaseAdmin
+              .from('monitors')
+              .update({
+                auth_password: processedMonitor.auth_password,
+                auth_token: processedMonitor.auth_token,
+                slack_webhook_url: processedMonitor.slack_webhook_url,
+                discord_webhook_url: processedMonitor.discord_webhook_url,
+                webhook_url: processedMonitor.webhook_url,
+                alert_sms: processedMonitor.alert_sms,
+                secrets_encrypted: processedMonitor.secrets_encrypted
+              })
+              .eq('id', monitor.id)
+
+            if (updateError) {
+              results.errors.push(`Monitor ${monitor.id}: ${updateError.message}`)
+            } else {
+              results.processed++
+            }
           }
+        } catch (error) {
+          results.errors.push(`Monitor ${monitor.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
         }
-      } catch (error) {
-        results.errors.push(`Monitor ${monitor.id}: ${error instanceof Error ? error.message : 'Unknown error'}`)
       }
     }
 
     return NextResponse.json({
       success: true,
       action,
+      key_id: getEncryptionKeyId(),
       results: {
         total_monitors: monitors?.length || 0,
         processed: results.processed,
@@ -118,18 +227,26 @@ export async function GET(request: NextRequest) {
     // Get encryption status
     const { data: monitors, error } = await supabaseAdmin
       .from('monitors')
-      .select('id, name, secrets_encrypted')
+      .select('id, name, secrets_encrypted, auth_password, auth_token, slack_webhook_url, discord_webhook_url, webhook_url, alert_sms')
 
     if (error) throw error
 
     const encrypted = monitors?.filter(m => m.secrets_encrypted).length || 0
     const unencrypted = monitors?.filter(m => !m.secrets_encrypted).length || 0
+    const keySet = !!process.env.ENCRYPTION_KEY
+
+    // Monitors with secrets in plaintext, the legacy format or under a previous key
+    const needsRotation = keySet
+      ? monitors?.filter(m => ENCRYPTED_MONITOR_FIELDS.some(field => monitorSecretNeedsRotation((m as any)[field]))).length || 0
+      : null
 
     return NextResponse.json({
       total_monitors: monitors?.length || 0,
       encrypted,
       unencrypted,
-      encryption_key_set: !!process.env.ENCRYPTION_KEY,
+      encryption_key_set: keySet,
+      encryption_key_id: keySet ? getEncryptionKeyId() : null,
+      needs_rotation: needsRotation,
       monitors: monitors?.map(m => ({
         id: m.id,
         name: m.name,
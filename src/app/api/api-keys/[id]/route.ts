@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse } from '@/lib/session'
+import { revokeApiKey } from '@/lib/api-keys'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+
+    if (!(await revokeApiKey(workspace, params.id))) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'DELETE /api/api-keys/[id]')
+  }
+}
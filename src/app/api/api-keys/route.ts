@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse } from '@/lib/session'
+import { getApiKeys, createApiKey, validateApiKeyInput } from '@/lib/api-keys'
+
+export async function GET() {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+
+    return NextResponse.json(await getApiKeys(workspace))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/api-keys')
+  }
+}
+
+/**
+ * Create a key in the current workspace. The response carries the full key
+ * as `key`; it cannot be retrieved again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { name, scopes } = await request.json()
+
+    const validationError = validateApiKeyInput({ name, scopes })
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const workspace = await getWorkspace(user)
+    const { apiKey, key } = await createApiKey(workspace, name, scopes)
+
+    return NextResponse.json({ ...apiKey, key }, { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/api-keys')
+  }
+}
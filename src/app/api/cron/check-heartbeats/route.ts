@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { sendNotifications } from '@/lib/notifications'
+import { startEscalation, getAcknowledgeUrl } from '@/lib/escalation'
+import { fetchMaintenanceWindows, findActivePeriod, windowAppliesTo } from '@/lib/maintenance'
+import { evaluateHeartbeat, describeHeartbeatSchedule, getNextExpectedHeartbeat } from '@/lib/heartbeat-schedule'
+import { getOpenHeartbeatRuns, markHeartbeatRunTimedOut } from '@/lib/heartbeats'
 
 export async function GET() {
   return POST(new NextRequest('http://localhost:3000/api/cron/check-heartbeats', { method: 'GET' }))
@@ -32,17 +36,34 @@ export async function POST(request: NextRequest) {
 
     const results = []
     const now = new Date()
+    const maintenanceWindows = await fetchMaintenanceWindows(monitors || [])
+    const openRuns = await getOpenHeartbeatRuns((monitors || []).map(monitor => monitor.id))
 
     for (const monitor of monitors || []) {
       try {
-        const heartbeatInterval = monitor.heartbeat_interval || 60 // seconds
-        const gracePeriod = Math.max(30, heartbeatInterval * 0.5) // 50% grace period, min 30s
-        const missedThreshold = now.getTime() - (heartbeatInterval + gracePeriod) * 1000
+        // Missed heartbeats during planned maintenance are not alerted on
+        const maintenance = findActivePeriod(maintenanceWindows.filter(window => windowAppliesTo(window, monitor)), now)
+        if (maintenance) {
+          results.push({
+            monitor: monitor.name,
+            status: 'maintenance',
+            maintenance_window: maintenance.name,
+            maintenance_ends_at: maintenance.end.toISOString()
+          })
+          continue
+        }
 
+        const openRun = openRuns.get(monitor.id)
+        const evaluation = evaluateHeartbeat(monitor, now, openRun?.started_at ? new Date(openRun.started_at) : null)
+        const isOverdue = evaluation.overdue
         const lastHeartbeat = monitor.last_heartbeat ? new Date(monitor.last_heartbeat) : null
-        const isOverdue = !lastHeartbeat || lastHeartbeat.getTime() < missedThreshold
 
-        console.log(`📋 ${monitor.name}: Last heartbeat ${lastHeartbeat ? lastHeartbeat.toISOString() : 'never'}, Expected every ${heartbeatInterval}s, Grace ${gracePeriod}s, Overdue: ${isOverdue}`)
+        console.log(`📋 ${monitor.name}: Last heartbeat ${lastHeartbeat ? lastHeartbeat.toISOString() : 'never'}, Expected ${describeHeartbeatSchedule(monitor)}, Overdue: ${isOverdue}`)
+
+        // A hung run is closed even if the monitor is already down, so it is only alerted on once
+        if (evaluation.timed_out_run && openRun) {
+          await markHeartbeatRunTimedOut(openRun, now)
+        }
 
         if (isOverdue && monitor.status !== 'down') {
           // Heartbeat is missed and monitor isn't already marked down
@@ -66,7 +87,7 @@ export async function POST(request: NextRequest) {
               status: 'timeout',
               response_time: null,
               status_code: null,
-              error_message: `Missed heartbeat (expected every ${heartbeatInterval}s)`,
+              error_message: evaluation.reason,
               checked_at: now.toISOString()
             })
 
@@ -77,7 +98,7 @@ export async function POST(request: NextRequest) {
               monitor_id: monitor.id,
               started_at: now.toISOString(),
               resolved: false,
-              cause: `Missed heartbeat (expected every ${heartbeatInterval}s, last seen ${lastHeartbeat ? Math.round((now.getTime() - lastHeartbeat.getTime()) / 1000) : 'never'}s ago)`,
+              cause: evaluation.reason,
               incident_type: 'missed_heartbeat'
             })
             .select()
@@ -92,7 +113,8 @@ export async function POST(request: NextRequest) {
             monitorName: monitor.name,
             monitorUrl: monitor.url || 'Heartbeat Monitor',
             status: 'down' as const,
-            errorMessage: `Missed heartbeat - last check ${lastHeartbeat ? Math.round((now.getTime() - lastHeartbeat.getTime()) / 1000) : 'never'}s ago`
+            errorMessage: evaluation.reason,
+            acknowledgeUrl: incident ? getAcknowledgeUrl(incident.id) : undefined
           }
 
           const notificationResult = await sendNotifications(monitor, notificationData)
@@ -103,9 +125,16 @@ export async function POST(request: NextRequest) {
             console.error(`Failed to send missed heartbeat alerts:`, notificationResult.results)
           }
 
+          if (incident) {
+            await startEscalation(incident).catch(error => {
+              console.error(`Failed to start escalation for incident ${incident.id}:`, error)
+            })
+          }
+
           results.push({
             monitor: monitor.name,
             status: 'missed_heartbeat',
+            reason: evaluation.reason,
             last_heartbeat: lastHeartbeat?.toISOString(),
             overdue_by_seconds: lastHeartbeat ? Math.round((now.getTime() - lastHeartbeat.getTime()) / 1000) : 'never'
           })
@@ -119,7 +148,7 @@ export async function POST(request: NextRequest) {
             monitor: monitor.name,
             status: 'on_time',
             last_heartbeat: lastHeartbeat?.toISOString(),
-            next_expected: new Date(now.getTime() + heartbeatInterval * 1000).toISOString()
+            next_expected: getNextExpectedHeartbeat(monitor, now)?.toISOString()
           })
         }
       } catch (error) {
@@ -135,6 +164,7 @@ export async function POST(request: NextRequest) {
 
     const missedCount = results.filter(r => r.status === 'missed_heartbeat').length
     const onTimeCount = results.filter(r => r.status === 'on_time').length
+    const maintenanceCount = results.filter(r => r.status === 'maintenance').length
 
     console.log(`✅ Heartbeat check complete: ${onTimeCount} on time, ${missedCount} missed`)
 
@@ -145,6 +175,7 @@ export async function POST(request: NextRequest) {
         total_monitors: monitors?.length || 0,
         on_time: onTimeCount,
         missed: missedCount,
+        maintenance: maintenanceCount,
         errors: results.filter(r => r.status === 'error').length
       },
       results
@@ -3,6 +3,8 @@ import { supabaseAdmin } from '@/lib/supabase'
 import { checkSSLCertificate, checkDomainExpiration, extractDomainFromUrl, extractRootDomain, extractPortFromUrl } from '@/lib/ssl-unified'
 import { analyzeSSLWithSSLLabs } from '@/lib/ssl-labs'
 import { sendSSLAlert, sendDomainAlert } from '@/lib/email'
+import { sendChannelNotifications } from '@/lib/notifications'
+import { DEFAULT_DOMAIN_ALERT_DAYS, getDomainAlertThreshold, findNewProblemStatuses, describeProblemStatuses } from '@/lib/domain-expiry'
 
 export async function GET() {
   return POST(new NextRequest('http://localhost:3000/api/cron/check-ssl', { method: 'GET' }))
@@ -41,7 +43,7 @@ export async function POST(request: NextRequest) {
       const rootDomain = extractRootDomain(hostname)
       const port = extractPortFromUrl(monitor.url)
       
-      console.log(`Checking SSL/Domain for ${monitor.name} (SSL: ${hostname}, Domain: ${rootDomain})`)
+      console.log(`Checking SSL/Domain for ${monitor.name} (${hostname})`)
 
       // SSL Certificate Check
       if (monitor.ssl_enabled) {
@@ -108,6 +110,17 @@ export async function POST(request: NextRequest) {
             })
           }
 
+          // Notification channels that subscribe to SSL expiry
+          if (sslResult.warning_level === 'critical' || sslResult.warning_level === 'warning') {
+            await sendChannelNotifications(monitor.id, {
+              monitorName: monitor.name,
+              monitorUrl: monitor.url,
+              status: 'ssl_expiring',
+              errorMessage: sslResult.error_message ||
+                `Certificate from ${sslResult.issuer || 'unknown issuer'} expires in ${sslResult.days_until_expiry || 0} days`
+            })
+          }
+
           results.push({
             monitor: monitor.name,
             ssl_check: sslResult
@@ -124,44 +137,97 @@ export async function POST(request: NextRequest) {
       // Domain Expiration Check
       if (monitor.domain_enabled) {
         try {
-          const domainResult = await checkDomainExpiration(rootDomain)
+          const domainResult = await checkDomainExpiration(hostname)
+          const domain = domainResult.domain || rootDomain
           
           // Store domain check result
           await supabaseAdmin
             .from('domain_checks')
             .insert({
               monitor_id: monitor.id,
+              domain: domainResult.domain,
               domain_valid: domainResult.domain_valid,
               expires_at: domainResult.expires_at,
               days_until_expiry: domainResult.days_until_expiry,
               registrar: domainResult.registrar,
               name_servers: domainResult.name_servers,
+              status_codes: domainResult.status_codes,
+              lookup_source: domainResult.lookup_source,
               warning_level: domainResult.warning_level,
               error_message: domainResult.error_message
             })
 
-          // Update monitor with domain info
-          await supabaseAdmin
-            .from('monitors')
-            .update({
-              domain_expiry_date: domainResult.expires_at,
-              domain_registrar: domainResult.registrar,
-              domain_days_until_expiry: domainResult.days_until_expiry
-            })
-            .eq('id', monitor.id)
+          // A failed lookup keeps the last known registration and alert state
+          if (domainResult.lookup_source) {
+            const thresholds = monitor.domain_alert_days?.length ? monitor.domain_alert_days : DEFAULT_DOMAIN_ALERT_DAYS
+            const { threshold, alerted } = getDomainAlertThreshold(
+              domainResult.days_until_expiry,
+              thresholds,
+              monitor.domain_alerted_days ?? null
+            )
+            const newProblemStatuses = findNewProblemStatuses(monitor.domain_status_codes || [], domainResult.status_codes)
 
-          // Send domain alerts if needed
-          if (domainResult.warning_level === 'critical' && monitor.alert_email && domainResult.days_until_expiry !== null) {
-            console.log(`🚨 Domain expiring soon for ${monitor.name}`)
-            
-            await sendDomainAlert({
-              recipient: monitor.alert_email,
-              monitorName: monitor.name,
-              domain: rootDomain,
-              alertType: 'domain_expiring',
-              daysUntilExpiry: domainResult.days_until_expiry,
-              registrar: domainResult.registrar || 'Unknown'
-            })
+            // Update monitor with domain info
+            await supabaseAdmin
+              .from('monitors')
+              .update({
+                domain_expiry_date: domainResult.expires_at,
+                domain_registrar: domainResult.registrar,
+                domain_days_until_expiry: domainResult.days_until_expiry,
+                domain_status_codes: domainResult.status_codes,
+                domain_alerted_days: alerted
+              })
+              .eq('id', monitor.id)
+
+            // Send domain alerts once per threshold crossed
+            if (threshold !== null && domainResult.days_until_expiry !== null) {
+              console.log(`🚨 Domain ${domain} expires in ${domainResult.days_until_expiry} days for ${monitor.name}`)
+
+              if (monitor.alert_email) {
+                await sendDomainAlert({
+                  recipient: monitor.alert_email,
+                  monitorName: monitor.name,
+                  domain,
+                  alertType: 'domain_expiring',
+                  daysUntilExpiry: domainResult.days_until_expiry,
+                  registrar: domainResult.registrar || 'Unknown'
+                })
+              }
+
+              await sendChannelNotifications(monitor.id, {
+                monitorName: monitor.name,
+                monitorUrl: monitor.url,
+                status: 'domain_expiring',
+                errorMessage: domainResult.days_until_expiry < 0
+                  ? `${domain} expired ${-domainResult.days_until_expiry} days ago`
+                  : `${domain} expires in ${domainResult.days_until_expiry} days (${domainResult.registrar || 'unknown registrar'})`
+              })
+            }
+
+            // Holds and redemption take the domain offline whatever its expiry date
+            if (newProblemStatuses.length > 0) {
+              const issue = describeProblemStatuses(domain, newProblemStatuses)
+              console.log(`🚨 ${issue}`)
+
+              if (monitor.alert_email) {
+                await sendDomainAlert({
+                  recipient: monitor.alert_email,
+                  monitorName: monitor.name,
+                  domain,
+                  alertType: 'domain_invalid',
+                  daysUntilExpiry: domainResult.days_until_expiry,
+                  registrar: domainResult.registrar || 'Unknown',
+                  issue
+                })
+              }
+
+              await sendChannelNotifications(monitor.id, {
+                monitorName: monitor.name,
+                monitorUrl: monitor.url,
+                status: 'domain_expiring',
+                errorMessage: issue
+              })
+            }
           }
 
           results.push({
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processDueEscalations } from '@/lib/escalation'
+
+// Vercel cron calls GET with the CRON_SECRET bearer token, so pass the request on as is
+export async function GET(request: NextRequest) {
+  return POST(request)
+}
+
+/**
+ * Notify the next escalation step, or a reminder, for incidents nobody has
+ * acknowledged yet
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify this is a cron request (in production, check auth headers)
+    const authHeader = request.headers.get('authorization')
+    if (process.env.NODE_ENV === 'production' && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const results = await processDueEscalations()
+
+    return NextResponse.json({
+      success: true,
+      checked_at: new Date().toISOString(),
+      escalated: results.length,
+      results
+    })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/cron/escalations')
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { hasTeamRole } from '@/lib/teams'
+import {
+  updateEscalationPolicy,
+  deleteEscalationPolicy,
+  validateEscalationPolicyInput,
+  validatePolicyReferences
+} from '@/lib/escalation'
+
+function policyNotFoundResponse() {
+  return NextResponse.json({ error: 'Escalation policy not found' }, { status: 404 })
+}
+
+/**
+ * Replace a policy's steps and monitors. Monitors left out of monitor_ids
+ * stop following the policy.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'admin')) {
+      return forbiddenResponse('admin')
+    }
+
+    const body = await request.json()
+
+    const validationError = validateEscalationPolicyInput(body) || await validatePolicyReferences(workspace, body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const policy = await updateEscalationPolicy(workspace, params.id, body)
+    if (!policy) {
+      return policyNotFoundResponse()
+    }
+
+    return NextResponse.json(policy)
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'PUT /api/escalation-policies/[id]')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'admin')) {
+      return forbiddenResponse('admin')
+    }
+
+    if (!(await deleteEscalationPolicy(workspace, params.id))) {
+      return policyNotFoundResponse()
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'DELETE /api/escalation-policies/[id]')
+  }
+}
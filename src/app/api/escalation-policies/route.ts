@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { hasTeamRole } from '@/lib/teams'
+import {
+  getWorkspaceEscalationPolicies,
+  createEscalationPolicy,
+  validateEscalationPolicyInput,
+  validatePolicyReferences
+} from '@/lib/escalation'
+
+export async function GET() {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+
+    return NextResponse.json(await getWorkspaceEscalationPolicies(workspace))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/escalation-policies')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    // Policies decide who gets paged, like notification targets
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'admin')) {
+      return forbiddenResponse('admin')
+    }
+
+    const body = await request.json()
+
+    const validationError = validateEscalationPolicyInput(body) || await validatePolicyReferences(workspace, body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const policy = await createEscalationPolicy(workspace, body)
+
+    return NextResponse.json(policy, { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/escalation-policies')
+  }
+}
@@ -1,18 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
-
-const DEMO_USER_ID = '550e8400-e29b-41d4-a716-446655440000'
+import { generateHeartbeatToken, getHeartbeatPingUrl } from '@/lib/heartbeats'
+import { validateHeartbeatSchedule, describeHeartbeatSchedule } from '@/lib/heartbeat-schedule'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { scopeToWorkspace, hasTeamRole, hasMonitorCapacity, changesNotificationTargets } from '@/lib/teams'
 
 export async function GET() {
   try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
     if (!supabaseAdmin) {
       throw new Error('Supabase admin client not available')
     }
 
-    const { data: monitors, error } = await supabaseAdmin
-      .from('monitors')
-      .select('*')
-      .eq('user_id', DEMO_USER_ID)
+    const workspace = await getWorkspace(user)
+
+    const { data: monitors, error } = await scopeToWorkspace(
+      supabaseAdmin.from('monitors').select('*'),
+      workspace
+    )
       .eq('monitor_type', 'heartbeat')
       .order('created_at', { ascending: false })
 
@@ -27,6 +36,11 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
     if (!supabaseAdmin) {
       throw new Error('Supabase admin client not available')
     }
@@ -35,6 +49,10 @@ export async function POST(request: NextRequest) {
       name, 
       description,
       heartbeat_interval = 60,
+      heartbeat_schedule,
+      heartbeat_timezone,
+      heartbeat_grace_seconds,
+      heartbeat_max_runtime_seconds,
       alert_email,
       slack_webhook_url,
       discord_webhook_url,
@@ -46,22 +64,48 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Name is required' }, { status: 400 })
     }
 
-    if (heartbeat_interval < 30 || heartbeat_interval > 3600) {
-      return NextResponse.json({ 
-        error: 'Heartbeat interval must be between 30 seconds and 1 hour' 
-      }, { status: 400 })
+    const schedule = {
+      heartbeat_interval,
+      heartbeat_schedule: heartbeat_schedule ? String(heartbeat_schedule).trim() : null,
+      heartbeat_timezone: heartbeat_schedule ? heartbeat_timezone || 'UTC' : 'UTC',
+      heartbeat_grace_seconds: heartbeat_grace_seconds ?? null,
+      heartbeat_max_runtime_seconds: heartbeat_max_runtime_seconds || null
+    }
+
+    const scheduleError = validateHeartbeatSchedule(schedule)
+    if (scheduleError) {
+      return NextResponse.json({ error: scheduleError }, { status: 400 })
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    // Members can add monitors, but alerts beyond their own email need an admin
+    if (!hasTeamRole(workspace.role, 'admin') && changesNotificationTargets(
+      { alert_email: user.email },
+      { alert_email, slack_webhook_url, discord_webhook_url, alert_sms, webhook_url }
+    )) {
+      return forbiddenResponse('admin')
+    }
+
+    if (workspace.teamId && !(await hasMonitorCapacity(workspace.teamId))) {
+      return NextResponse.json({ error: 'This team has reached the monitor limit of its plan' }, { status: 403 })
     }
 
     const { data: monitor, error } = await supabaseAdmin
       .from('monitors')
       .insert({
-        user_id: DEMO_USER_ID,
+        user_id: user.id,
+        team_id: workspace.teamId,
         name,
         url: `heartbeat://${name.toLowerCase().replace(/\s+/g, '-')}`,
         monitor_type: 'heartbeat',
-        heartbeat_interval,
+        ...schedule,
+        heartbeat_token: generateHeartbeatToken(),
         description: description || null,
-        alert_email: alert_email || `demo@example.com`,
+        alert_email: alert_email || user.email || null,
         status: 'unknown',
         ssl_enabled: false,
         domain_enabled: false,
@@ -75,17 +119,17 @@ export async function POST(request: NextRequest) {
 
     if (error) throw error
 
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
-    const heartbeatUrl = `${baseUrl}/api/monitors/${monitor.id}/heartbeat`
+    const heartbeatUrl = getHeartbeatPingUrl(monitor.heartbeat_token)
 
     return NextResponse.json({
       ...monitor,
       heartbeat_url: heartbeatUrl,
       instructions: {
         interval: heartbeat_interval,
+        expected: describeHeartbeatSchedule(schedule),
         url: heartbeatUrl,
-        method: 'POST',
-        example_curl: `curl -X POST ${heartbeatUrl} -H "Content-Type: application/json" -d '{"status": "up"}'`
+        method: 'GET',
+        example_curl: `curl -fsS -m 10 --retry 3 ${heartbeatUrl}`
       }
     }, { status: 201 })
   } catch (error) {
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAccessibleIncident, acknowledgeIncident } from '@/lib/incidents'
+import { getSessionUser, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { hasTeamRole } from '@/lib/teams'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await getAccessibleIncident(params.id, user.id)
+    if (!access) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 })
+    }
+    if (!hasTeamRole(access.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const { incident } = access
+
+    if (incident.resolved) {
+      return NextResponse.json({ error: 'Incident is already resolved' }, { status: 400 })
+    }
+
+    return NextResponse.json(await acknowledgeIncident(incident, user.id, user.email || null))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/incidents/[id]/acknowledge')
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAccessibleIncident, getIncidentUpdates, postIncidentUpdate, validateIncidentUpdate } from '@/lib/incidents'
+import { getSessionUser, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { hasTeamRole } from '@/lib/teams'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await getAccessibleIncident(params.id, user.id)
+    if (!access) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 })
+    }
+
+    const { incident } = access
+
+    const updates = await getIncidentUpdates(incident.id)
+
+    return NextResponse.json({ incident, updates })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/incidents/[id]/updates')
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await getAccessibleIncident(params.id, user.id)
+    if (!access) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 })
+    }
+    if (!hasTeamRole(access.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const { incident } = access
+
+    const body = await request.json()
+    const validationError = validateIncidentUpdate(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (incident.resolved && body.status !== 'resolved') {
+      return NextResponse.json({ error: 'Incident is already resolved' }, { status: 400 })
+    }
+
+    const result = await postIncidentUpdate(incident, {
+      status: body.status,
+      message: body.message,
+      severity: body.severity,
+      is_public: body.is_public
+    }, user.id)
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/incidents/[id]/updates')
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateMaintenanceWindow, ownsMonitors } from '@/lib/maintenance'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { scopeToWorkspace, hasTeamRole } from '@/lib/teams'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+
+    const { data: window, error } = await scopeToWorkspace(
+      supabaseAdmin!.from('maintenance_windows').select('*'),
+      workspace
+    )
+      .eq('id', params.id)
+      .single()
+
+    if (error || !window) {
+      return NextResponse.json({ error: 'Maintenance window not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(window)
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/maintenance-windows/[id]')
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const { data: existing } = await scopeToWorkspace(
+      supabaseAdmin!.from('maintenance_windows').select('*'),
+      workspace
+    )
+      .eq('id', params.id)
+      .single()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Maintenance window not found' }, { status: 404 })
+    }
+
+    const updates = await request.json()
+    const allowedFields = [
+      'name', 'description', 'monitor_id', 'monitor_ids', 'start_time', 'end_time',
+      'recurrence_cron', 'duration_minutes', 'timezone', 'active'
+    ]
+
+    const updateData: any = { updated_at: new Date().toISOString() }
+    for (const field of allowedFields) {
+      if (updates[field] !== undefined) updateData[field] = updates[field]
+    }
+
+    // Validate the window as it will be stored
+    const validationError = validateMaintenanceWindow({ ...existing, ...updateData })
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (!(await ownsMonitors(workspace, { ...existing, ...updateData }))) {
+      return NextResponse.json({ error: 'Monitor not found' }, { status: 404 })
+    }
+
+    const { data: window, error } = await scopeToWorkspace(
+      supabaseAdmin!.from('maintenance_windows').update(updateData),
+      workspace
+    )
+      .eq('id', params.id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json(window)
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'PUT /api/maintenance-windows/[id]')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const { error } = await scopeToWorkspace(
+      supabaseAdmin!.from('maintenance_windows').delete(),
+      workspace
+    )
+      .eq('id', params.id)
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'DELETE /api/maintenance-windows/[id]')
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateMaintenanceWindow, getMaintenancePeriods, windowAppliesTo, ownsMonitors } from '@/lib/maintenance'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { scopeToWorkspace, hasTeamRole } from '@/lib/teams'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+
+    const monitorId = request.nextUrl.searchParams.get('monitor_id')
+
+    const { data: windows, error } = await scopeToWorkspace(
+      supabaseAdmin!.from('maintenance_windows').select('*'),
+      workspace
+    )
+      .order('start_time', { ascending: false })
+
+    if (error) throw error
+
+    const now = new Date()
+    const weekAhead = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
+
+    const result = (windows || [])
+      .filter(window => !monitorId || windowAppliesTo(window, { id: monitorId, user_id: user.id, team_id: workspace.teamId }))
+      .map(window => {
+        const periods = getMaintenancePeriods(window, now, weekAhead)
+        return {
+          ...window,
+          in_progress: periods.some(p => p.start <= now && now < p.end),
+          next_start: periods.find(p => p.start > now)?.start.toISOString() || null
+        }
+      })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/maintenance-windows')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const {
+      name,
+      description,
+      monitor_id,
+      monitor_ids,
+      start_time,
+      end_time,
+      recurrence_cron,
+      duration_minutes,
+      timezone
+    } = await request.json()
+
+    const windowData = {
+      user_id: user.id,
+      team_id: workspace.teamId,
+      name,
+      description: description || null,
+      monitor_id: monitor_id || null,
+      monitor_ids: monitor_ids || [],
+      start_time,
+      end_time: end_time || null,
+      recurrence_cron: recurrence_cron || null,
+      duration_minutes: recurrence_cron ? duration_minutes : null,
+      timezone: timezone || 'UTC',
+      active: true
+    }
+
+    const validationError = validateMaintenanceWindow(windowData)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    // Windows may only target the caller's monitors
+    if (!(await ownsMonitors(workspace, windowData))) {
+      return NextResponse.json({ error: 'Monitor not found' }, { status: 404 })
+    }
+
+    const { data: window, error } = await supabaseAdmin!
+      .from('maintenance_windows')
+      .insert(windowData)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json(window, { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/maintenance-windows')
+  }
+}
@@ -1,11 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { getSessionUser, unauthorizedResponse, authorizeMonitor } from '@/lib/session'
+import { averagePhaseTimings, type HttpPhaseTimings } from '@/lib/http-timing'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMonitor(params.id, user.id)
+    if (access.response) {
+      return access.response
+    }
+
     const { searchParams } = new URL(request.url)
     const days = parseInt(searchParams.get('days') || '7')
     const hours = searchParams.get('hours') // New parameter for today view
@@ -28,7 +40,7 @@ export async function GET(
     // Get uptime checks grouped by day
     const { data: checks, error } = await supabaseAdmin!
       .from('uptime_checks')
-      .select('checked_at, status, response_time')
+      .select('checked_at, status, response_time, dns_time_ms, connect_time_ms, tls_time_ms, ttfb_ms, download_time_ms')
       .eq('monitor_id', id)
       .gte('checked_at', startDate.toISOString())
       .order('checked_at', { ascending: true })
@@ -44,9 +56,17 @@ export async function GET(
     }
     
     // Group checks by date or hour
-    const timeStats = new Map<string, { upCount: number; totalCount: number; responseTimes: number[] }>()
+    const timeStats = new Map<string, {
+      upCount: number
+      totalCount: number
+      responseTimes: number[]
+      phaseRows: Array<Partial<Record<keyof HttpPhaseTimings, number | null>>>
+    }>()
     
     checks?.forEach(check => {
+      // Planned maintenance does not count against uptime
+      if (check.status === 'maintenance') return
+
       const checkDate = new Date(check.checked_at)
       let timeKey: string
       
@@ -59,7 +79,7 @@ export async function GET(
       }
       
       if (!timeStats.has(timeKey)) {
-        timeStats.set(timeKey, { upCount: 0, totalCount: 0, responseTimes: [] })
+        timeStats.set(timeKey, { upCount: 0, totalCount: 0, responseTimes: [], phaseRows: [] })
       }
       
       const stats = timeStats.get(timeKey)!
@@ -70,6 +90,7 @@ export async function GET(
         if (check.response_time) {
           stats.responseTimes.push(check.response_time)
         }
+        stats.phaseRows.push(check)
       }
     })
 
@@ -98,6 +119,8 @@ export async function GET(
         date: displayLabel,
         uptime: Math.round(uptime * 100) / 100,
         avgResponseTime: Math.round(avgResponseTime),
+        // Average HTTP phases of passing checks, when they were timed
+        ...(averagePhaseTimings(stats.phaseRows) || {}),
         timeKey // Keep for debugging
       }
     })
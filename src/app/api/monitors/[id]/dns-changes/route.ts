@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, unauthorizedResponse, authorizeMonitor } from '@/lib/session'
+import { getDnsRecordChanges } from '@/lib/dns-record-changes'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMonitor(params.id, user.id)
+    if (access.response) {
+      return access.response
+    }
+
+    const changes = await getDnsRecordChanges(params.id)
+
+    return NextResponse.json({ changes })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/monitors/[id]/dns-changes')
+  }
+}
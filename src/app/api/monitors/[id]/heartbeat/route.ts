@@ -1,6 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
-
+import {
+  getMonitorByHeartbeatToken,
+  getHeartbeatPingUrl,
+  parseHeartbeatPing,
+  processHeartbeatPing,
+  getClientIp
+} from '@/lib/heartbeats'
+import { getSessionUser, unauthorizedResponse, authorizeMonitor } from '@/lib/session'
+
+/**
+ * Legacy ping endpoint. Pings must carry the monitor's ping token, either as
+ * `Authorization: Bearer <token>` or `?token=`; prefer /api/ping/<token>.
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -10,153 +22,35 @@ export async function POST(
       throw new Error('Supabase admin client not available')
     }
 
-    const monitorId = params.id
-    const body = await request.json().catch(() => ({}))
-    
-    // Extract heartbeat data
-    const {
-      status = 'up',
-      message,
-      response_time,
-      metadata = {}
-    } = body
-
-    // Get client IP for tracking
-    const clientIP = request.headers.get('x-forwarded-for') || 
-                    request.headers.get('x-real-ip') || 
-                    'unknown'
-
-    // Verify monitor exists and is heartbeat type
-    const { data: monitor, error: monitorError } = await supabaseAdmin
-      .from('monitors')
-      .select('id, name, monitor_type, heartbeat_interval, last_heartbeat')
-      .eq('id', monitorId)
-      .single()
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.startsWith('Bearer ')
+      ? authHeader.slice('Bearer '.length).trim()
+      : request.nextUrl.searchParams.get('token')
 
-    if (monitorError || !monitor) {
-      return NextResponse.json(
-        { error: 'Monitor not found' },
-        { status: 404 }
-      )
+    if (!token) {
+      return NextResponse.json({ error: 'Ping token required' }, { status: 401 })
     }
 
-    // Ensure this is a heartbeat monitor
-    if (monitor.monitor_type !== 'heartbeat') {
-      return NextResponse.json(
-        { error: 'Monitor is not configured for heartbeat monitoring' },
-        { status: 400 }
-      )
-    }
+    const monitor = await getMonitorByHeartbeatToken(token)
 
-    const now = new Date()
-
-    // Record the heartbeat in both heartbeats table and uptime_checks for consistency
-    const heartbeatPromises = [
-      // Store in heartbeats table (detailed heartbeat data)
-      supabaseAdmin
-        .from('heartbeats')
-        .insert({
-          monitor_id: monitorId,
-          status: status === 'up' ? 'up' : 'down',
-          message: message || null,
-          response_time: response_time || null,
-          metadata: metadata,
-          source_ip: clientIP,
-          received_at: now.toISOString()
-        }),
-      
-      // Store in uptime_checks table (unified monitoring data for SLA/reporting)
-      supabaseAdmin
-        .from('uptime_checks')
-        .insert({
-          monitor_id: monitorId,
-          location: 'heartbeat',
-          status: status === 'up' ? 'up' : 'down',
-          response_time: response_time || null,
-          status_code: null, // Not applicable for heartbeats
-          error_message: status === 'down' ? message : null,
-          checked_at: now.toISOString()
-        })
-    ]
-
-    const [heartbeatResult, uptimeCheckResult] = await Promise.allSettled(heartbeatPromises)
-
-    if (heartbeatResult.status === 'rejected') {
-      console.error('Failed to record heartbeat:', heartbeatResult.reason)
-    }
-    
-    if (uptimeCheckResult.status === 'rejected') {
-      console.error('Failed to record uptime check for heartbeat:', uptimeCheckResult.reason)
+    if (!monitor || monitor.id !== params.id) {
+      return NextResponse.json({ error: 'Invalid ping token' }, { status: 401 })
     }
 
-    // Continue if at least one storage succeeded
-    if (heartbeatResult.status === 'rejected' && uptimeCheckResult.status === 'rejected') {
+    const ping = await parseHeartbeatPing(request)
+    const result = await processHeartbeatPing(monitor, ping, null, getClientIp(request))
+
+    if (!result.recorded) {
       return NextResponse.json(
         { error: 'Failed to record heartbeat' },
         { status: 500 }
       )
     }
 
-    // Update monitor's last heartbeat and status
-    const updateData: any = {
-      last_heartbeat: now.toISOString(),
-      last_checked: now.toISOString()
-    }
-
-    // Only update status if it's an "up" heartbeat
-    // Down status will be handled by missed heartbeat detection
-    if (status === 'up') {
-      updateData.status = 'up'
-      
-      if (response_time) {
-        updateData.last_response_time = response_time
-      }
-    }
-
-    const { error: updateError } = await supabaseAdmin
-      .from('monitors')
-      .update(updateData)
-      .eq('id', monitorId)
-
-    if (updateError) {
-      console.error('Failed to update monitor:', updateError)
-    }
-
-    // If this heartbeat indicates the service is back up after being down,
-    // resolve any open incidents
-    if (status === 'up') {
-      const { data: openIncident } = await supabaseAdmin
-        .from('incidents')
-        .select('*')
-        .eq('monitor_id', monitorId)
-        .eq('resolved', false)
-        .order('started_at', { ascending: false })
-        .limit(1)
-
-      if (openIncident?.[0]) {
-        const incident = openIncident[0]
-        const durationMinutes = Math.round(
-          (now.getTime() - new Date(incident.started_at).getTime()) / (1000 * 60)
-        )
-
-        await supabaseAdmin
-          .from('incidents')
-          .update({
-            ended_at: now.toISOString(),
-            duration_minutes: durationMinutes,
-            resolved: true,
-            resolution_method: 'heartbeat'
-          })
-          .eq('id', incident.id)
-
-        console.log(`🟢 Heartbeat resolved incident for ${monitor.name} (downtime: ${durationMinutes}m)`)
-      }
-    }
-
     return NextResponse.json({
       success: true,
       message: 'Heartbeat recorded successfully',
-      next_expected: new Date(now.getTime() + (monitor.heartbeat_interval || 60) * 1000).toISOString()
+      next_expected: result.next_expected
     })
 
   } catch (error) {
@@ -165,7 +59,7 @@ export async function POST(
   }
 }
 
-// GET endpoint to provide heartbeat URL and instructions
+// GET endpoint to provide the monitor owner with the ping URL and instructions
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -175,12 +69,22 @@ export async function GET(
       throw new Error('Supabase admin client not available')
     }
 
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMonitor(params.id, user.id)
+    if (access.response) {
+      return access.response
+    }
+
     const monitorId = params.id
 
     // Get monitor details
     const { data: monitor, error: monitorError } = await supabaseAdmin
       .from('monitors')
-      .select('id, name, monitor_type, heartbeat_interval')
+      .select('id, name, monitor_type, heartbeat_interval, heartbeat_schedule, heartbeat_timezone, heartbeat_token')
       .eq('id', monitorId)
       .single()
 
@@ -198,33 +102,53 @@ export async function GET(
       )
     }
 
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
-    const heartbeatUrl = `${baseUrl}/api/monitors/${monitorId}/heartbeat`
+    if (!monitor.heartbeat_token) {
+      return NextResponse.json(
+        { error: 'Monitor has no ping token yet - regenerate it to get a ping URL' },
+        { status: 409 }
+      )
+    }
+
+    const pingUrl = getHeartbeatPingUrl(monitor.heartbeat_token)
 
     return NextResponse.json({
       monitor: {
         id: monitor.id,
         name: monitor.name,
         type: monitor.monitor_type,
-        interval: monitor.heartbeat_interval || 60
+        interval: monitor.heartbeat_interval || 60,
+        schedule: monitor.heartbeat_schedule || null,
+        timezone: monitor.heartbeat_timezone || 'UTC'
       },
-      heartbeat_url: heartbeatUrl,
+      heartbeat_url: pingUrl,
       instructions: {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
+        methods: ['GET', 'HEAD', 'POST'],
+        suffixes: {
+          '/start': 'Job started; the run is timed until /success or /fail',
+          '/success': 'Job finished successfully',
+          '/fail': 'Job failed'
+        },
+        query: {
+          status: 'up | down (default up)',
+          message: 'Optional status message',
+          response_time: 'Optional response time in ms',
+          exit_code: 'Optional exit code of the job'
         },
         body: {
           status: 'up | down',
           message: 'Optional status message',
           response_time: 'Optional response time in ms',
-          metadata: 'Optional object with additional data'
+          exit_code: 'Optional exit code of the job',
+          metadata: 'Optional object with additional data (POST only)'
         },
+        failures: 'A down status or /fail opens an incident and alerts; a non-JSON POST body is attached as the log',
         examples: {
-          curl: `curl -X POST ${heartbeatUrl} \\
+          cron: `*/5 * * * * /path/to/job.sh && curl -fsS -m 10 --retry 3 ${pingUrl} > /dev/null`,
+          job: `curl -fsS -m 10 ${pingUrl}/start && /path/to/backup.sh && curl -fsS -m 10 ${pingUrl}/success || curl -fsS -m 10 ${pingUrl}/fail`,
+          curl: `curl -X POST ${pingUrl} \\
   -H "Content-Type: application/json" \\
   -d '{"status": "up", "response_time": 150, "message": "All systems operational"}'`,
-          javascript: `fetch('${heartbeatUrl}', {
+          javascript: `fetch('${pingUrl}', {
   method: 'POST',
   headers: { 'Content-Type': 'application/json' },
   body: JSON.stringify({
@@ -234,11 +158,7 @@ export async function GET(
   })
 })`,
           python: `import requests
-requests.post('${heartbeatUrl}', json={
-    'status': 'up',
-    'response_time': 150,
-    'message': 'All systems operational'
-})`
+requests.get('${pingUrl}', timeout=10)`
         }
       }
     })
@@ -247,4 +167,4 @@ requests.post('${heartbeatUrl}', json={
     const { createErrorResponse } = await import('@/lib/error-handler')
     return createErrorResponse(error, 500, 'GET /api/monitors/[id]/heartbeat')
   }
-}
\ No newline at end of file
+}
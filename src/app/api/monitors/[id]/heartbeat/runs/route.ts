@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getHeartbeatRuns } from '@/lib/heartbeats'
+import { getSessionUser, unauthorizedResponse, authorizeMonitor } from '@/lib/session'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMonitor(params.id, user.id)
+    if (access.response) {
+      return access.response
+    }
+
+    const limit = Math.min(200, Math.max(1, parseInt(request.nextUrl.searchParams.get('limit') || '50') || 50))
+
+    return NextResponse.json(await getHeartbeatRuns(params.id, limit))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/monitors/[id]/heartbeat/runs')
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { rotateHeartbeatToken, getHeartbeatPingUrl } from '@/lib/heartbeats'
+import { getSessionUser, unauthorizedResponse, authorizeMonitor } from '@/lib/session'
+
+/**
+ * Regenerate the ping token. The previous ping URL stops working immediately.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMonitor(params.id, user.id, 'member')
+    if (access.response) {
+      return access.response
+    }
+
+    const token = await rotateHeartbeatToken(params.id)
+
+    if (!token) {
+      return NextResponse.json({ error: 'Heartbeat monitor not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      heartbeat_token: token,
+      heartbeat_url: getHeartbeatPingUrl(token)
+    })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/monitors/[id]/heartbeat/token')
+  }
+}
@@ -1,11 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { getSessionUser, unauthorizedResponse, authorizeMonitor } from '@/lib/session'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMonitor(params.id, user.id)
+    if (access.response) {
+      return access.response
+    }
+
     const { id } = params
     const { searchParams } = new URL(request.url)
     const incidentId = searchParams.get('incident_id')
@@ -1,13 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { attachIncidentUpdates } from '@/lib/incidents'
+import { getSessionUser, unauthorizedResponse, authorizeMonitor } from '@/lib/session'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMonitor(params.id, user.id)
+    if (access.response) {
+      return access.response
+    }
+
     const { searchParams } = new URL(request.url)
     const limit = parseInt(searchParams.get('limit') || '10')
+    // Status pages only get updates marked public
+    const publicOnly = searchParams.get('public') === 'true'
     const { id } = params
 
     const { data: incidents, error } = await supabaseAdmin!
@@ -19,7 +33,7 @@ export async function GET(
 
     if (error) throw error
 
-    return NextResponse.json(incidents || [])
+    return NextResponse.json(await attachIncidentUpdates(incidents || [], publicOnly))
   } catch (error) {
     const { createErrorResponse } = await import('@/lib/error-handler')
     return createErrorResponse(error, 500, 'GET /api/monitors/[id]/incidents')
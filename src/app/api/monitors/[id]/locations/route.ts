@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { getSessionUser, unauthorizedResponse, authorizeMonitor } from '@/lib/session'
 
 export async function GET(
   request: NextRequest,
@@ -10,6 +11,16 @@ export async function GET(
       throw new Error('Supabase admin client not available')
     }
 
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMonitor(params.id, user.id)
+    if (access.response) {
+      return access.response
+    }
+
     const monitorId = params.id
     const { searchParams } = new URL(request.url)
     const limit = parseInt(searchParams.get('limit') || '1')
@@ -20,7 +31,8 @@ export async function GET(
       .select('location, status, response_time, status_code, error_message, checked_at')
       .eq('monitor_id', monitorId)
       .order('checked_at', { ascending: false })
-      .limit(limit * 5) // Get enough records to have recent data from all locations
+      .neq('location', 'heartbeat')
+      .limit(limit * 50) // Get enough records to have recent data from all probe locations
 
     if (error) {
       console.error('Error fetching location data:', error)
@@ -1,11 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { getSessionUser, unauthorizedResponse, authorizeMonitor } from '@/lib/session'
+import { averagePhaseTimings, type HttpPhaseTimings } from '@/lib/http-timing'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMonitor(params.id, user.id)
+    if (access.response) {
+      return access.response
+    }
+
     const { searchParams } = new URL(request.url)
     const period = searchParams.get('period') || '7d'
     const mode = searchParams.get('mode') || 'days'
@@ -48,7 +60,7 @@ export async function GET(
     // Fetch monitoring checks for the specified period
     const { data: checks, error: checksError } = await supabaseAdmin
       .from('uptime_checks')
-      .select('status, response_time, checked_at')
+      .select('status, response_time, checked_at, dns_time_ms, connect_time_ms, tls_time_ms, ttfb_ms, download_time_ms')
       .eq('monitor_id', monitorId)
       .gte('checked_at', startDate.toISOString())
       .order('checked_at', { ascending: true })
@@ -84,7 +96,7 @@ export async function GET(
       uptime: number
       incidents: number
       avgResponseTime: number
-    }> = []
+    } & Partial<HttpPhaseTimings>> = []
 
     const intervalMs = intervalMinutes * 60 * 1000
     let currentTime = new Date(startDate)
@@ -108,6 +120,7 @@ export async function GET(
       let responseTime = 0
       let uptime = 0
       let avgResponseTime = 0
+      let phases: HttpPhaseTimings | null = null
 
       if (intervalChecks.length > 0) {
         const upCount = intervalChecks.filter(check => check.status === 'up').length
@@ -120,6 +133,7 @@ export async function GET(
         avgResponseTime = responseTimes.length > 0 
           ? responseTimes.reduce((sum, rt) => sum + rt, 0) / responseTimes.length 
           : 0
+        phases = averagePhaseTimings(intervalChecks.filter(check => check.status === 'up'))
       }
 
       intervals.push({
@@ -127,7 +141,9 @@ export async function GET(
         responseTime: Math.round(responseTime),
         uptime: Math.round(uptime * 10) / 10, // Round to 1 decimal place
         incidents: intervalIncidents.length,
-        avgResponseTime: Math.round(avgResponseTime)
+        avgResponseTime: Math.round(avgResponseTime),
+        // Average HTTP phases of passing checks, when they were timed
+        ...(phases || {})
       })
 
       currentTime = new Date(intervalEnd)
@@ -1,12 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
-import { 
-  calculateMultipleSLAs, 
-  SLA_TARGETS, 
-  generateSLAReport,
-  getDateRangeForPeriod,
-  TIME_PERIODS
-} from '@/lib/sla'
+import { SLA_TARGETS, getDateRangeForPeriod, TIME_PERIODS } from '@/lib/sla'
+import { getMonitorSLAReport } from '@/lib/sla-reports'
+import { getSessionUser, unauthorizedResponse, authorizeMonitor } from '@/lib/session'
 
 export async function GET(
   request: NextRequest,
@@ -17,6 +13,16 @@ export async function GET(
       throw new Error('Supabase admin client not available')
     }
 
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMonitor(params.id, user.id)
+    if (access.response) {
+      return access.response
+    }
+
     const { searchParams } = new URL(request.url)
     const period = searchParams.get('period') as keyof typeof TIME_PERIODS || 'monthly'
     const targets = searchParams.get('targets')?.split(',').map(Number) || [99.9, 99.99]
@@ -25,7 +31,7 @@ export async function GET(
     // Get monitor details
     const { data: monitor, error: monitorError } = await supabaseAdmin
       .from('monitors')
-      .select('id, name, url')
+      .select('id, name, url, user_id, team_id')
       .eq('id', monitorId)
       .single()
 
@@ -36,26 +42,6 @@ export async function GET(
       )
     }
 
-    // Get date range for the period
-    const { startDate, endDate } = getDateRangeForPeriod(period)
-
-    // Fetch uptime checks for the period
-    const { data: checks, error: checksError } = await supabaseAdmin
-      .from('uptime_checks')
-      .select('status, checked_at, response_time')
-      .eq('monitor_id', monitorId)
-      .gte('checked_at', startDate.toISOString())
-      .lte('checked_at', endDate.toISOString())
-      .order('checked_at', { ascending: true })
-
-    if (checksError) {
-      console.error('Error fetching uptime checks:', checksError)
-      return NextResponse.json(
-        { error: 'Failed to fetch monitoring data' },
-        { status: 500 }
-      )
-    }
-
     // Filter SLA targets based on request
     const selectedTargets = SLA_TARGETS.filter(target => 
       targets.includes(target.percentage)
@@ -68,30 +54,10 @@ export async function GET(
       )
     }
 
-    // Calculate SLA compliance
-    const calculations = calculateMultipleSLAs(
-      checks || [],
-      selectedTargets,
-      period,
-      startDate,
-      endDate
-    )
-
-    // Generate comprehensive report
-    const report = generateSLAReport(monitorId, monitor.name, calculations)
+    // Get date range for the period
+    const { startDate, endDate } = getDateRangeForPeriod(period)
 
-    // Add additional metadata
-    const response = {
-      ...report,
-      metadata: {
-        period,
-        startDate: startDate.toISOString(),
-        endDate: endDate.toISOString(),
-        totalChecks: checks?.length || 0,
-        monitorUrl: monitor.url,
-        calculatedAt: new Date().toISOString()
-      }
-    }
+    const response = await getMonitorSLAReport(monitor, selectedTargets, period, startDate, endDate)
 
     return NextResponse.json(response)
 
@@ -111,6 +77,16 @@ export async function POST(
       throw new Error('Supabase admin client not available')
     }
 
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMonitor(params.id, user.id)
+    if (access.response) {
+      return access.response
+    }
+
     const body = await request.json()
     const { 
       startDate, 
@@ -141,7 +117,7 @@ export async function POST(
     // Get monitor details
     const { data: monitor, error: monitorError } = await supabaseAdmin
       .from('monitors')
-      .select('id, name, url')
+      .select('id, name, url, user_id, team_id')
       .eq('id', monitorId)
       .single()
 
@@ -152,50 +128,22 @@ export async function POST(
       )
     }
 
-    // Fetch uptime checks for the custom period
-    const { data: checks, error: checksError } = await supabaseAdmin
-      .from('uptime_checks')
-      .select('status, checked_at, response_time')
-      .eq('monitor_id', monitorId)
-      .gte('checked_at', start.toISOString())
-      .lte('checked_at', end.toISOString())
-      .order('checked_at', { ascending: true })
-
-    if (checksError) {
-      console.error('Error fetching uptime checks:', checksError)
-      return NextResponse.json(
-        { error: 'Failed to fetch monitoring data' },
-        { status: 500 }
-      )
-    }
-
     // Filter SLA targets
     const selectedTargets = SLA_TARGETS.filter(target => 
       targets.includes(target.percentage)
     )
 
-    // Calculate SLA compliance for custom period
-    const calculations = calculateMultipleSLAs(
-      checks || [],
+    const report = await getMonitorSLAReport(
+      monitor,
       selectedTargets,
       period as keyof typeof TIME_PERIODS,
       start,
       end
     )
 
-    // Generate report
-    const report = generateSLAReport(monitorId, monitor.name, calculations)
-
     const response = {
       ...report,
-      metadata: {
-        customPeriod: true,
-        startDate: start.toISOString(),
-        endDate: end.toISOString(),
-        totalChecks: checks?.length || 0,
-        monitorUrl: monitor.url,
-        calculatedAt: new Date().toISOString()
-      }
+      metadata: { ...report.metadata, customPeriod: true }
     }
 
     return NextResponse.json(response)
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { getActiveMaintenance } from '@/lib/maintenance'
+import { getSessionUser, unauthorizedResponse, authorizeMonitor } from '@/lib/session'
 
 export async function GET(
   request: NextRequest,
@@ -13,6 +15,16 @@ export async function GET(
       )
     }
 
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMonitor(params.id, user.id)
+    if (access.response) {
+      return access.response
+    }
+
     const { id } = params
     const now = new Date()
     const day24Ago = new Date(now.getTime() - 24 * 60 * 60 * 1000)
@@ -53,9 +65,10 @@ export async function GET(
       .select('*', { count: 'exact', head: true })
       .eq('monitor_id', id)
 
-    // Calculate uptime percentages with sufficient data check
-    const calculateUptime = (checks: any[], minRequiredHours: number) => {
-      if (!checks || checks.length === 0) return null
+    // Calculate uptime percentages with sufficient data check (planned maintenance is excluded)
+    const calculateUptime = (allChecks: any[], minRequiredHours: number) => {
+      const checks = (allChecks || []).filter(check => check.status !== 'maintenance')
+      if (checks.length === 0) return null
       
       // Check if we have sufficient data coverage for the period
       const checkTimes = checks.map(c => new Date(c.checked_at).getTime())
@@ -79,13 +92,22 @@ export async function GET(
       ? validResponseTimes.reduce((sum, time) => sum + time, 0) / validResponseTimes.length
       : 0
 
+    const { data: monitor } = await supabaseAdmin!
+      .from('monitors')
+      .select('id, user_id, team_id')
+      .eq('id', id)
+      .single()
+
+    const maintenance = monitor ? await getActiveMaintenance(monitor) : null
+
     const stats = {
       uptime_24h: calculateUptime(checks24h || [], 12), // Need 12+ hours of data
       uptime_7d: calculateUptime(checks7d || [], 72),   // Need 3+ days of data  
       uptime_30d: calculateUptime(checks30d || [], 168), // Need 7+ days of data
       avg_response_time: Math.round(avgResponseTime),
       total_incidents: totalIncidents || 0,
-      current_incident: currentIncident?.[0] || null
+      current_incident: currentIncident?.[0] || null,
+      current_maintenance: maintenance ? { name: maintenance.name, ends_at: maintenance.end.toISOString() } : null
     }
 
     return NextResponse.json(stats)
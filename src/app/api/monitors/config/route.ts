@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse } from '@/lib/session'
+import { exportMonitorConfig, formatMonitorConfig, importMonitorConfig } from '@/lib/monitor-config'
+
+/**
+ * Export the workspace's monitors as a config file (`format=yaml` or `json`)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const format = new URL(request.url).searchParams.get('format') === 'json' ? 'json' : 'yaml'
+    const workspace = await getWorkspace(user)
+    const config = await exportMonitorConfig(workspace)
+
+    return new NextResponse(formatMonitorConfig(config, format), {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json' : 'application/yaml',
+        'Content-Disposition': `attachment; filename="monitors.${format}"`
+      }
+    })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/monitors/config')
+  }
+}
+
+/**
+ * Import a YAML or JSON config file sent as the request body. With
+ * `dry_run=true` only the plan is returned; with `prune=true` imported
+ * monitors missing from the file are deleted.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const workspace = await getWorkspace(user)
+
+    const result = await importMonitorConfig(workspace, await request.text(), {
+      dryRun: searchParams.get('dry_run') === 'true',
+      prune: searchParams.get('prune') === 'true',
+      creatorEmail: user.email
+    })
+    if (!result.success) {
+      const { success, status, ...body } = result
+      return NextResponse.json(body, { status })
+    }
+
+    const { success, ...body } = result
+    return NextResponse.json(body)
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/monitors/config')
+  }
+}
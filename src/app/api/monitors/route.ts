@@ -1,15 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
-import { updateMonitorSSLInfo } from '@/lib/ssl-unified'
-
-const DEMO_USER_ID = '550e8400-e29b-41d4-a716-446655440000'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { scopeToWorkspace, hasTeamRole, hasMonitorCapacity } from '@/lib/teams'
+import { validateNewMonitor, newMonitorChangesNotificationTargets, createMonitor } from '@/lib/monitors'
 
 export async function GET() {
   try {
-    const { data: monitors, error } = await supabaseAdmin!
-      .from('monitors')
-      .select('*')
-      .eq('user_id', DEMO_USER_ID)
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+
+    const { data: monitors, error } = await scopeToWorkspace(
+      supabaseAdmin!.from('monitors').select('*'),
+      workspace
+    )
       .order('created_at', { ascending: false })
 
     if (error) throw error
@@ -27,60 +34,37 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
-    const { 
-      url, 
-      name, 
-      alert_email, 
-      ssl_enabled, 
-      domain_enabled,
-      slack_webhook_url,
-      discord_webhook_url,
-      alert_sms,
-      webhook_url
-    } = await request.json()
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
 
-    if (!url || !name) {
-      return NextResponse.json({ error: 'URL and name are required' }, { status: 400 })
+    const body = await request.json()
+
+    const validationError = validateNewMonitor(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
     }
 
-    // Encrypt sensitive data before storing
-    const { encryptMonitorSecrets } = await import('@/lib/encryption')
-    const monitorData = {
-      user_id: DEMO_USER_ID,
-      url,
-      name,
-      alert_email: alert_email || `demo@example.com`,
-      status: 'unknown',
-      ssl_enabled: ssl_enabled !== false, // Default to true
-      domain_enabled: domain_enabled !== false, // Default to true
-      slack_webhook_url: slack_webhook_url || null,
-      discord_webhook_url: discord_webhook_url || null,
-      alert_sms: alert_sms || null,
-      webhook_url: webhook_url || null,
-      secrets_encrypted: true
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
     }
-    
-    const encryptedData = encryptMonitorSecrets(monitorData)
-    
-    const { data: monitor, error } = await supabaseAdmin!
-      .from('monitors')
-      .insert(encryptedData)
-      .select()
-      .single()
 
-    if (error) throw error
+    // Members can add monitors, but alerts beyond their own email need an admin
+    if (!hasTeamRole(workspace.role, 'admin') && newMonitorChangesNotificationTargets(body, user.email)) {
+      return forbiddenResponse('admin')
+    }
 
-    // Immediately check SSL if enabled
-    if (monitor.ssl_enabled) {
-      // Run SSL check in background - don't wait for it
-      updateMonitorSSLInfo(monitor.id, monitor.url).catch(error => {
-        console.error(`Background SSL check failed for monitor ${monitor.id}:`, error)
-      })
+    if (workspace.teamId && !(await hasMonitorCapacity(workspace.teamId))) {
+      return NextResponse.json({ error: 'This team has reached the monitor limit of its plan' }, { status: 403 })
     }
 
+    const monitor = await createMonitor(workspace, body, user.email)
+
     return NextResponse.json(monitor, { status: 201 })
   } catch (error) {
     const { createErrorResponse } = await import('@/lib/error-handler')
     return createErrorResponse(error, 500, 'POST /api/monitors')
   }
-}
\ No newline at end of file
+}
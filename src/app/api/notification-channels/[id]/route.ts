@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import {
+  updateNotificationChannel,
+  deleteNotificationChannel,
+  validateNotificationChannelInput,
+  validateChannelMonitors,
+  validateChannelSchedule,
+  canManageNotificationChannels
+} from '@/lib/notification-channels'
+
+function channelNotFoundResponse() {
+  return NextResponse.json({ error: 'Notification channel not found' }, { status: 404 })
+}
+
+/**
+ * Replace a channel's settings and routes. Omitted monitor_ids or tags
+ * remove those routes.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!canManageNotificationChannels(workspace)) {
+      return forbiddenResponse('admin')
+    }
+
+    const body = await request.json()
+
+    const validationError = validateNotificationChannelInput(body) ||
+      await validateChannelMonitors(workspace, body.monitor_ids) ||
+      await validateChannelSchedule(workspace, body.schedule_id)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const channel = await updateNotificationChannel(workspace, params.id, body)
+    if (!channel) {
+      return channelNotFoundResponse()
+    }
+
+    return NextResponse.json(channel)
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'PUT /api/notification-channels/[id]')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!canManageNotificationChannels(workspace)) {
+      return forbiddenResponse('admin')
+    }
+
+    if (!(await deleteNotificationChannel(workspace, params.id))) {
+      return channelNotFoundResponse()
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'DELETE /api/notification-channels/[id]')
+  }
+}
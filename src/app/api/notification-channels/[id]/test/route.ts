@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { getWorkspaceNotificationChannel, canManageNotificationChannels, getOnCallTarget } from '@/lib/notification-channels'
+import { sendChannelNotification } from '@/lib/notifications'
+
+// Last test per channel, so a stuck button cannot flood a channel
+const testCache = new Map<string, number>()
+const RATE_LIMIT_SECONDS = 60
+
+/**
+ * Send a test notification to a channel
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!canManageNotificationChannels(workspace)) {
+      return forbiddenResponse('admin')
+    }
+
+    const channel = await getWorkspaceNotificationChannel(workspace, params.id)
+    if (!channel) {
+      return NextResponse.json({ error: 'Notification channel not found' }, { status: 404 })
+    }
+
+    const target = channel.schedule_id ? await getOnCallTarget(channel.schedule_id, channel.type) : channel.target
+    if (!target) {
+      return NextResponse.json(
+        { error: channel.type === 'sms' ? 'Nobody on call has an on-call phone number set' : 'Nobody is on call right now' },
+        { status: 400 }
+      )
+    }
+
+    const now = Date.now()
+    const lastTestTime = testCache.get(channel.id)
+    if (lastTestTime && now - lastTestTime < RATE_LIMIT_SECONDS * 1000) {
+      return NextResponse.json(
+        { error: `Please wait ${RATE_LIMIT_SECONDS} seconds between test notifications` },
+        { status: 429 }
+      )
+    }
+    testCache.set(channel.id, now)
+
+    const result = await sendChannelNotification({ type: channel.type, target }, {
+      monitorName: channel.name,
+      monitorUrl: request.nextUrl.origin,
+      status: 'test',
+      responseTime: 250,
+      testMode: true
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error || 'Test notification failed' }, { status: 502 })
+    }
+
+    return NextResponse.json({ success: true, message: 'Test notification sent' })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/notification-channels/[id]/test')
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import {
+  getWorkspaceNotificationChannels,
+  createNotificationChannel,
+  validateNotificationChannelInput,
+  validateChannelMonitors,
+  validateChannelSchedule,
+  canManageNotificationChannels
+} from '@/lib/notification-channels'
+
+/**
+ * Channels in the current workspace. Targets are only included for callers
+ * who can manage channels.
+ */
+export async function GET() {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+
+    return NextResponse.json(await getWorkspaceNotificationChannels(workspace))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/notification-channels')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!canManageNotificationChannels(workspace)) {
+      return forbiddenResponse('admin')
+    }
+
+    const body = await request.json()
+
+    const validationError = validateNotificationChannelInput(body) ||
+      await validateChannelMonitors(workspace, body.monitor_ids) ||
+      await validateChannelSchedule(workspace, body.schedule_id)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const channel = await createNotificationChannel(workspace, body)
+
+    return NextResponse.json(channel, { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/notification-channels')
+  }
+}
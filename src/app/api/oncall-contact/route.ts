@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, unauthorizedResponse } from '@/lib/session'
+import { getOnCallPhone, setOnCallPhone, validateOnCallPhone } from '@/lib/oncall'
+
+/**
+ * The signed-in user's on-call phone number, used by SMS channels that
+ * target a schedule while they are on call
+ */
+export async function GET() {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    return NextResponse.json({ phone: await getOnCallPhone(user.id) })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/oncall-contact')
+  }
+}
+
+/**
+ * Set or clear (`phone: null`) the signed-in user's on-call phone number
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { phone } = await request.json()
+
+    const validationError = validateOnCallPhone(phone)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    await setOnCallPhone(user.id, phone || null)
+
+    return NextResponse.json({ phone: phone ? phone.trim() : null })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'PUT /api/oncall-contact')
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { hasTeamRole } from '@/lib/teams'
+import { regenerateIcalToken } from '@/lib/oncall'
+
+/**
+ * Replace the schedule's iCal feed URL. Calendars subscribed to the old URL
+ * stop updating.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'admin')) {
+      return forbiddenResponse('admin')
+    }
+
+    const schedule = await regenerateIcalToken(workspace, params.id)
+    if (!schedule) {
+      return NextResponse.json({ error: 'On-call schedule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(schedule)
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/oncall-schedules/[id]/ical-token')
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { hasTeamRole } from '@/lib/teams'
+import { getWorkspaceOnCallSchedule, deleteOnCallOverride } from '@/lib/oncall'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; overrideId: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const schedule = await getWorkspaceOnCallSchedule(workspace, params.id)
+    if (!schedule || !(await deleteOnCallOverride(schedule.id, params.overrideId))) {
+      return NextResponse.json({ error: 'Override not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'DELETE /api/oncall-schedules/[id]/overrides/[overrideId]')
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { hasTeamRole } from '@/lib/teams'
+import { getWorkspaceOnCallSchedule, createOnCallOverride, validateWorkspaceMembers } from '@/lib/oncall'
+import { validateOverride } from '@/lib/oncall-rotation'
+
+/**
+ * Put someone on call for a while, e.g. to swap a shift. Members can cover
+ * for each other without an admin.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const schedule = await getWorkspaceOnCallSchedule(workspace, params.id)
+    if (!schedule) {
+      return NextResponse.json({ error: 'On-call schedule not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+
+    const validationError = validateOverride(body) || await validateWorkspaceMembers(workspace, [body.user_id])
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const override = await createOnCallOverride(schedule.id, body, user.id)
+
+    return NextResponse.json(override, { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/oncall-schedules/[id]/overrides')
+  }
+}
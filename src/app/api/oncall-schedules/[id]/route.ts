@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { hasTeamRole } from '@/lib/teams'
+import {
+  getWorkspaceOnCallSchedule,
+  updateOnCallSchedule,
+  deleteOnCallSchedule,
+  validateScheduleInput,
+  validateWorkspaceMembers
+} from '@/lib/oncall'
+
+function scheduleNotFoundResponse() {
+  return NextResponse.json({ error: 'On-call schedule not found' }, { status: 404 })
+}
+
+/**
+ * A schedule with who is on call now and the upcoming shifts
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+
+    const schedule = await getWorkspaceOnCallSchedule(workspace, params.id)
+    if (!schedule) {
+      return scheduleNotFoundResponse()
+    }
+
+    return NextResponse.json(schedule)
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/oncall-schedules/[id]')
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'admin')) {
+      return forbiddenResponse('admin')
+    }
+
+    const body = await request.json()
+
+    const validationError = validateScheduleInput(body) || await validateWorkspaceMembers(workspace, body.participants)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const schedule = await updateOnCallSchedule(workspace, params.id, body)
+    if (!schedule) {
+      return scheduleNotFoundResponse()
+    }
+
+    return NextResponse.json(schedule)
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'PUT /api/oncall-schedules/[id]')
+  }
+}
+
+/**
+ * Delete a schedule. Notification channels that target it are deleted too.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'admin')) {
+      return forbiddenResponse('admin')
+    }
+
+    if (!(await deleteOnCallSchedule(workspace, params.id))) {
+      return scheduleNotFoundResponse()
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'DELETE /api/oncall-schedules/[id]')
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { hasTeamRole } from '@/lib/teams'
+import {
+  getWorkspaceOnCallSchedules,
+  getWorkspaceMembers,
+  createOnCallSchedule,
+  validateScheduleInput,
+  validateWorkspaceMembers
+} from '@/lib/oncall'
+
+/**
+ * Schedules in the current workspace, with the members who can be put on call
+ */
+export async function GET() {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+
+    const [schedules, members] = await Promise.all([
+      getWorkspaceOnCallSchedules(workspace),
+      getWorkspaceMembers(workspace)
+    ])
+
+    return NextResponse.json({ schedules, members })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/oncall-schedules')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    // Rotations decide who gets paged, like notification targets
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'admin')) {
+      return forbiddenResponse('admin')
+    }
+
+    const body = await request.json()
+
+    const validationError = validateScheduleInput(body) || await validateWorkspaceMembers(workspace, body.participants)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const schedule = await createOnCallSchedule(workspace, body)
+
+    return NextResponse.json(schedule, { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/oncall-schedules')
+  }
+}
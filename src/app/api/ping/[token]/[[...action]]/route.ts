@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getMonitorByHeartbeatToken,
+  parseHeartbeatPing,
+  processHeartbeatPing,
+  getClientIp,
+  HEARTBEAT_PING_ACTIONS,
+  type HeartbeatPingAction
+} from '@/lib/heartbeats'
+
+// Ping URLs must never be cached by intermediaries
+export const dynamic = 'force-dynamic'
+
+interface PingParams {
+  params: { token: string; action?: string[] }
+}
+
+// /api/ping/<token> plus optional /start, /success or /fail
+async function handlePing(request: NextRequest, { token, action }: PingParams['params'], method: string) {
+  const suffix = action?.join('/') || null
+  if (suffix !== null && !HEARTBEAT_PING_ACTIONS.includes(suffix as HeartbeatPingAction)) {
+    return NextResponse.json({ error: 'Unknown ping action' }, { status: 404 })
+  }
+
+  const monitor = await getMonitorByHeartbeatToken(token)
+
+  if (!monitor) {
+    return NextResponse.json({ error: 'Unknown ping token' }, { status: 404 })
+  }
+
+  const ping = await parseHeartbeatPing(request)
+  const result = await processHeartbeatPing(monitor, ping, suffix as HeartbeatPingAction | null, getClientIp(request))
+
+  if (!result.recorded) {
+    return NextResponse.json({ error: 'Failed to record heartbeat' }, { status: 500 })
+  }
+
+  // HEAD responses carry no body; the status code is the answer
+  if (method === 'HEAD') {
+    return new NextResponse(null, { status: 200 })
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: suffix === 'start' ? 'Run started' : 'Heartbeat recorded successfully',
+    run: result.run ? { id: result.run.id, status: result.run.status, duration_ms: result.run.duration_ms } : undefined,
+    next_expected: result.next_expected
+  })
+}
+
+export async function GET(request: NextRequest, { params }: PingParams) {
+  try {
+    return await handlePing(request, params, 'GET')
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/ping/[token]')
+  }
+}
+
+export async function HEAD(request: NextRequest, { params }: PingParams) {
+  try {
+    return await handlePing(request, params, 'HEAD')
+  } catch (error) {
+    return new NextResponse(null, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest, { params }: PingParams) {
+  try {
+    return await handlePing(request, params, 'POST')
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/ping/[token]')
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateProbe, claimProbeJobs } from '@/lib/probes'
+
+export async function GET(request: NextRequest) {
+  try {
+    const agent = await authenticateProbe(request)
+    if (!agent) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')))
+
+    const jobs = await claimProbeJobs(agent, limit)
+
+    return NextResponse.json({
+      location: agent.location,
+      jobs
+    })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/probes/jobs')
+  }
+}
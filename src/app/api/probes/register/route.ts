@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { registerProbeAgent } from '@/lib/probes'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Registration is gated by a shared secret; the agent token returned here is shown once
+    const registrationSecret = process.env.PROBE_REGISTRATION_SECRET
+    const authHeader = request.headers.get('authorization')
+    if (!registrationSecret || authHeader !== `Bearer ${registrationSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { location, name } = await request.json()
+
+    if (!location || typeof location !== 'string' || !/^[a-z0-9][a-z0-9-]{1,62}$/.test(location)) {
+      return NextResponse.json({ 
+        error: 'Location must be 2-63 lowercase letters, digits or dashes' 
+      }, { status: 400 })
+    }
+
+    const { agent, token } = await registerProbeAgent(location, name)
+
+    return NextResponse.json({
+      agent,
+      token,
+      instructions: 'Store this token as PROBE_TOKEN on the agent. It cannot be retrieved again.'
+    }, { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/probes/register')
+  }
+}
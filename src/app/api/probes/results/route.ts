@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateProbe, recordProbeResults } from '@/lib/probes'
+
+const VALID_STATUSES = ['up', 'down', 'timeout', 'error']
+
+export async function POST(request: NextRequest) {
+  try {
+    const agent = await authenticateProbe(request)
+    if (!agent) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { results } = await request.json()
+
+    if (!Array.isArray(results)) {
+      return NextResponse.json({ error: 'results must be an array' }, { status: 400 })
+    }
+
+    const invalid = results.find(r => !r?.job_id || !VALID_STATUSES.includes(r.status))
+    if (invalid) {
+      return NextResponse.json({ 
+        error: `Each result needs a job_id and a status of ${VALID_STATUSES.join(', ')}` 
+      }, { status: 400 })
+    }
+
+    const summary = await recordProbeResults(agent, results)
+
+    return NextResponse.json({
+      success: true,
+      ...summary
+    })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/probes/results')
+  }
+}
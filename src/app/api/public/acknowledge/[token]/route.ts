@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase'
+import { acknowledgeIncident } from '@/lib/incidents'
+import { verifyAcknowledgeToken } from '@/lib/escalation'
+import { getSessionUser } from '@/lib/session'
+
+const MAX_NAME_LENGTH = 100
+
+// Acknowledge links are sent to channels, not users, so the signed token is
+// the only credential; a signed-in visitor is recorded as themselves
+async function getLinkedIncident(token: string) {
+  const incidentId = verifyAcknowledgeToken(token)
+  if (!incidentId) return null
+
+  const { data } = await getSupabaseAdmin()
+    .from('incidents')
+    .select('*, monitors(name)')
+    .eq('id', incidentId)
+    .maybeSingle()
+
+  return data
+}
+
+function linkNotFoundResponse() {
+  return NextResponse.json({ error: 'Acknowledge link is invalid' }, { status: 404 })
+}
+
+function toSummary(incident: any) {
+  return {
+    monitor_name: incident.monitors?.name || 'Unknown monitor',
+    cause: incident.cause,
+    started_at: incident.started_at,
+    resolved: incident.resolved,
+    acknowledged_at: incident.acknowledged_at,
+    acknowledged_by_name: incident.acknowledged_by_name
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const incident = await getLinkedIncident(params.token)
+    if (!incident) {
+      return linkNotFoundResponse()
+    }
+
+    return NextResponse.json(toSummary(incident))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/public/acknowledge/[token]')
+  }
+}
+
+/**
+ * Acknowledge the incident, which stops its escalation. Visitors who are not
+ * signed in give a name so the incident records who responded.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const incident = await getLinkedIncident(params.token)
+    if (!incident) {
+      return linkNotFoundResponse()
+    }
+
+    if (incident.resolved) {
+      return NextResponse.json({ error: 'Incident is already resolved' }, { status: 400 })
+    }
+
+    const user = await getSessionUser()
+    let name: string | null = user?.email || null
+
+    if (!user) {
+      const body = await request.json().catch(() => ({}))
+      if (typeof body.name !== 'string' || !body.name.trim()) {
+        return NextResponse.json({ error: 'Your name is required' }, { status: 400 })
+      }
+      if (body.name.trim().length > MAX_NAME_LENGTH) {
+        return NextResponse.json({ error: `Name must be at most ${MAX_NAME_LENGTH} characters` }, { status: 400 })
+      }
+      name = body.name.trim()
+    }
+
+    const { monitors, ...row } = incident
+    const acknowledged = await acknowledgeIncident(row, user?.id || null, name)
+
+    return NextResponse.json(toSummary({ ...acknowledged, monitors }))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/public/acknowledge/[token]')
+  }
+}
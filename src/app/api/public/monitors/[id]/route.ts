@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPublicMonitorStatus } from '@/lib/monitor-status'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const data = await getPublicMonitorStatus(params.id)
+
+    // Private pages are indistinguishable from missing monitors
+    if (!data || 'isPrivate' in data) {
+      return NextResponse.json({ error: 'Status page not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(data)
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/public/monitors/[id]')
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getScheduleCalendar } from '@/lib/oncall'
+
+/**
+ * iCal feed of a schedule's shifts. The secret token is the only credential,
+ * so calendar apps can subscribe without signing in. A trailing `.ics` is
+ * accepted for apps that expect one.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const calendar = await getScheduleCalendar(params.token.replace(/\.ics$/, ''))
+    if (!calendar) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 })
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="oncall.ics"',
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/public/oncall/[token]')
+  }
+}
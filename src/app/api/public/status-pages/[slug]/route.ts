@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStatusPageBySlug, getStatusPageData } from '@/lib/status-pages'
+import { getStatusPageCookieName, verifyStatusPageSession } from '@/lib/status-page-session'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const page = await getStatusPageBySlug(params.slug)
+
+    if (!page || !page.public) {
+      return NextResponse.json({ error: 'Status page not found' }, { status: 404 })
+    }
+
+    if (page.password_protected) {
+      const token = request.cookies.get(getStatusPageCookieName(page.id))?.value
+      if (!(await verifyStatusPageSession(token, page))) {
+        return NextResponse.json({ error: 'Password required' }, { status: 401 })
+      }
+    }
+
+    return NextResponse.json(await getStatusPageData(page))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/public/status-pages/[slug]')
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStatusPageBySlug, verifyStatusPagePassword, limitUnlockAttempt } from '@/lib/status-pages'
+import {
+  isStatusPageSessionConfigured,
+  createStatusPageSession,
+  getStatusPageCookieName,
+  STATUS_PAGE_SESSION_TTL_SECONDS
+} from '@/lib/status-page-session'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const page = await getStatusPageBySlug(params.slug)
+
+    if (!page || !page.public || !page.password_protected) {
+      return NextResponse.json({ error: 'Status page not found' }, { status: 404 })
+    }
+
+    if (!isStatusPageSessionConfigured()) {
+      console.error('Status page unlock refused: STATUS_PAGE_SESSION_SECRET is not configured')
+      return NextResponse.json({ error: 'Password-protected pages are not available right now' }, { status: 503 })
+    }
+
+    const forwarded = request.headers.get('x-forwarded-for')
+    const clientIp = forwarded ? forwarded.split(',')[0].trim() : request.headers.get('x-real-ip') || 'unknown'
+    const retryAfter = limitUnlockAttempt(page.id, clientIp)
+    if (retryAfter !== null) {
+      return NextResponse.json(
+        { error: 'Too many attempts. Try again later.' },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+
+    const { password } = await request.json()
+
+    if (typeof password !== 'string' || !password) {
+      return NextResponse.json({ error: 'Password is required' }, { status: 400 })
+    }
+
+    if (!(await verifyStatusPagePassword(password, page.password_hash))) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 401 })
+    }
+
+    const response = NextResponse.json({ success: true })
+    response.cookies.set({
+      name: getStatusPageCookieName(page.id),
+      value: await createStatusPageSession(page.id),
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: STATUS_PAGE_SESSION_TTL_SECONDS
+    })
+
+    return response
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/public/status-pages/[slug]/unlock')
+  }
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { ownsMonitors } from '@/lib/maintenance'
+import {
+  validateStatusPage,
+  validateStatusPagePassword,
+  getStatusPageMonitorIds,
+  isSlugTaken,
+  isCustomDomainTaken,
+  normalizeCustomDomain,
+  getCustomDomainChanges,
+  hashStatusPagePassword,
+  toOwnerStatusPage
+} from '@/lib/status-pages'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { scopeToWorkspace, hasTeamRole } from '@/lib/teams'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+
+    const { data: page, error } = await scopeToWorkspace(
+      supabaseAdmin!.from('status_pages').select('*'),
+      workspace
+    )
+      .eq('id', params.id)
+      .single()
+
+    if (error || !page) {
+      return NextResponse.json({ error: 'Status page not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(toOwnerStatusPage(page))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/status-pages/[id]')
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const { data: existing } = await scopeToWorkspace(
+      supabaseAdmin!.from('status_pages').select('*'),
+      workspace
+    )
+      .eq('id', params.id)
+      .single()
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Status page not found' }, { status: 404 })
+    }
+
+    const updates = await request.json()
+    const allowedFields = [
+      'title', 'slug', 'description', 'logo_url', 'theme_color', 'monitors_to_show',
+      'component_groups', 'show_uptime_percentage', 'show_response_times', 'public',
+      'password_protected', 'custom_domain'
+    ]
+
+    const updateData: any = { updated_at: new Date().toISOString() }
+    for (const field of allowedFields) {
+      if (updates[field] !== undefined) updateData[field] = updates[field]
+    }
+    if (typeof updateData.slug === 'string') {
+      updateData.slug = updateData.slug.trim().toLowerCase()
+    }
+    if (updateData.custom_domain !== undefined) {
+      updateData.custom_domain = normalizeCustomDomain(updateData.custom_domain)
+    }
+
+    const merged = { ...existing, ...updateData }
+    const validationError = validateStatusPage(merged) ||
+      validateStatusPagePassword(updates.password, merged.password_protected === true, !!existing.password_hash)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    updateData.monitors_to_show = getStatusPageMonitorIds(merged)
+
+    if (!(await ownsMonitors(workspace, { monitor_ids: updateData.monitors_to_show }))) {
+      return NextResponse.json({ error: 'Monitor not found' }, { status: 404 })
+    }
+
+    if (merged.slug !== existing.slug && await isSlugTaken(merged.slug, existing.id)) {
+      return NextResponse.json({ error: 'Slug is already taken' }, { status: 409 })
+    }
+
+    if (merged.custom_domain && merged.custom_domain !== existing.custom_domain &&
+        await isCustomDomainTaken(merged.custom_domain, existing.id)) {
+      return NextResponse.json({ error: 'Custom domain is already in use' }, { status: 409 })
+    }
+
+    // A new domain has to be verified again before it routes to the page
+    if ((merged.custom_domain || null) !== (existing.custom_domain || null)) {
+      Object.assign(updateData, getCustomDomainChanges(merged.custom_domain || null))
+    }
+
+    // Changing the password signs out every existing visitor session
+    if (updates.password) {
+      updateData.password_hash = await hashStatusPagePassword(updates.password)
+      updateData.password_updated_at = new Date().toISOString()
+    }
+
+    const { data: page, error } = await scopeToWorkspace(
+      supabaseAdmin!.from('status_pages').update(updateData),
+      workspace
+    )
+      .eq('id', params.id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json(toOwnerStatusPage(page))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'PUT /api/status-pages/[id]')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const { error } = await scopeToWorkspace(
+      supabaseAdmin!.from('status_pages').delete(),
+      workspace
+    )
+      .eq('id', params.id)
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'DELETE /api/status-pages/[id]')
+  }
+}
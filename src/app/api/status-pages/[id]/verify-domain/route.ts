@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import {
+  isCustomDomainTaken,
+  getCustomDomainRecord,
+  hasCustomDomainRecord,
+  toOwnerStatusPage
+} from '@/lib/status-pages'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { scopeToWorkspace, hasTeamRole } from '@/lib/teams'
+
+/**
+ * Verify the page's custom domain by looking up its TXT record. Until this
+ * succeeds the domain does not serve the page.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const { data: page } = await scopeToWorkspace(
+      supabaseAdmin!.from('status_pages').select('*'),
+      workspace
+    )
+      .eq('id', params.id)
+      .single()
+
+    if (!page) {
+      return NextResponse.json({ error: 'Status page not found' }, { status: 404 })
+    }
+
+    const record = getCustomDomainRecord(page)
+    if (!record) {
+      return NextResponse.json({ error: 'Status page has no custom domain' }, { status: 400 })
+    }
+
+    if (page.custom_domain_verified_at) {
+      return NextResponse.json(toOwnerStatusPage(page))
+    }
+
+    if (await isCustomDomainTaken(page.custom_domain, page.id)) {
+      return NextResponse.json({ error: 'Custom domain is already in use' }, { status: 409 })
+    }
+
+    if (!(await hasCustomDomainRecord(page))) {
+      return NextResponse.json(
+        { error: `TXT record ${record.name} with value ${record.value} was not found. DNS changes can take a few minutes to appear.` },
+        { status: 400 }
+      )
+    }
+
+    const { data: verified, error } = await scopeToWorkspace(
+      supabaseAdmin!.from('status_pages').update({ custom_domain_verified_at: new Date().toISOString() }),
+      workspace
+    )
+      .eq('id', page.id)
+      // The domain may have changed while DNS was being checked
+      .eq('custom_domain_token', page.custom_domain_token)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json(toOwnerStatusPage(verified))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/status-pages/[id]/verify-domain')
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { ownsMonitors } from '@/lib/maintenance'
+import {
+  validateStatusPage,
+  validateStatusPagePassword,
+  getStatusPageMonitorIds,
+  isSlugTaken,
+  isCustomDomainTaken,
+  normalizeCustomDomain,
+  getCustomDomainChanges,
+  hashStatusPagePassword,
+  toOwnerStatusPage
+} from '@/lib/status-pages'
+import { getSessionUser, getWorkspace, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { scopeToWorkspace, hasTeamRole } from '@/lib/teams'
+
+export async function GET() {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+
+    const { data: pages, error } = await scopeToWorkspace(
+      supabaseAdmin!.from('status_pages').select('*'),
+      workspace
+    )
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json((pages || []).map(toOwnerStatusPage))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/status-pages')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const workspace = await getWorkspace(user)
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const {
+      title,
+      slug,
+      description,
+      logo_url,
+      theme_color,
+      monitors_to_show,
+      component_groups,
+      show_uptime_percentage,
+      show_response_times,
+      public: isPublic,
+      password_protected,
+      password,
+      custom_domain
+    } = await request.json()
+
+    const pageData = {
+      user_id: user.id,
+      team_id: workspace.teamId,
+      title,
+      slug: typeof slug === 'string' ? slug.trim().toLowerCase() : slug,
+      description: description || null,
+      logo_url: logo_url || null,
+      theme_color: theme_color || '#2563eb',
+      monitors_to_show: monitors_to_show || [],
+      component_groups: component_groups || [],
+      show_uptime_percentage: show_uptime_percentage !== false,
+      show_response_times: show_response_times !== false,
+      public: isPublic !== false,
+      password_protected: password_protected === true,
+      // The domain routes to the page only after POST .../verify-domain
+      ...getCustomDomainChanges(normalizeCustomDomain(custom_domain))
+    }
+
+    const validationError = validateStatusPage(pageData) ||
+      validateStatusPagePassword(password, pageData.password_protected, false)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    pageData.monitors_to_show = getStatusPageMonitorIds(pageData)
+
+    if (!(await ownsMonitors(workspace, { monitor_ids: pageData.monitors_to_show }))) {
+      return NextResponse.json({ error: 'Monitor not found' }, { status: 404 })
+    }
+
+    if (await isSlugTaken(pageData.slug)) {
+      return NextResponse.json({ error: 'Slug is already taken' }, { status: 409 })
+    }
+
+    if (pageData.custom_domain && await isCustomDomainTaken(pageData.custom_domain)) {
+      return NextResponse.json({ error: 'Custom domain is already in use' }, { status: 409 })
+    }
+
+    const passwordData = password
+      ? { password_hash: await hashStatusPagePassword(password), password_updated_at: new Date().toISOString() }
+      : {}
+
+    const { data: page, error } = await supabaseAdmin!
+      .from('status_pages')
+      .insert({ ...pageData, ...passwordData })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json(toOwnerStatusPage(page), { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/status-pages')
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { getTeamRole, hasTeamRole, revokeInvitation } from '@/lib/teams'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; invitationId: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const role = await getTeamRole(params.id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (!hasTeamRole(role, 'admin')) {
+      return forbiddenResponse('admin')
+    }
+
+    if (!(await revokeInvitation(params.id, params.invitationId))) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'DELETE /api/teams/[id]/invitations/[invitationId]')
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import { getTeam, getTeamRole, hasTeamRole, validateInvitation, createInvitation } from '@/lib/teams'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const role = await getTeamRole(params.id, user.id)
+    const team = role ? await getTeam(params.id) : null
+    if (!role || !team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (!hasTeamRole(role, 'admin')) {
+      return forbiddenResponse('admin')
+    }
+
+    const { email, role: invitedRole = 'member' } = await request.json()
+
+    const validationError = validateInvitation({ email, role: invitedRole })
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const { invitation, url, emailed } = await createInvitation(team, email, invitedRole, user)
+
+    // The link is returned so it can be shared by hand when email delivery fails
+    return NextResponse.json({ ...invitation, accept_url: url, emailed }, { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/teams/[id]/invitations')
+  }
+}
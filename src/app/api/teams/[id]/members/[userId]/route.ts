@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import {
+  getTeamRole,
+  hasTeamRole,
+  updateTeamMemberRole,
+  removeTeamMember,
+  ASSIGNABLE_TEAM_ROLES,
+  type TeamRole
+} from '@/lib/teams'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const role = await getTeamRole(params.id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (!hasTeamRole(role, 'admin')) {
+      return forbiddenResponse('admin')
+    }
+
+    const { role: newRole } = await request.json()
+    if (!ASSIGNABLE_TEAM_ROLES.includes(newRole as TeamRole)) {
+      return NextResponse.json({ error: `Role must be one of: ${ASSIGNABLE_TEAM_ROLES.join(', ')}` }, { status: 400 })
+    }
+
+    const memberRole = await getTeamRole(params.id, params.userId)
+    if (!memberRole) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+    }
+    if (memberRole === 'owner') {
+      return NextResponse.json({ error: "The team owner's role cannot be changed" }, { status: 400 })
+    }
+
+    await updateTeamMemberRole(params.id, params.userId, newRole)
+
+    return NextResponse.json({ user_id: params.userId, role: newRole })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'PUT /api/teams/[id]/members/[userId]')
+  }
+}
+
+/**
+ * Remove a member. Admins can remove anyone but the owner; every other
+ * member can remove themselves to leave the team.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const role = await getTeamRole(params.id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (params.userId !== user.id && !hasTeamRole(role, 'admin')) {
+      return forbiddenResponse('admin')
+    }
+
+    const memberRole = await getTeamRole(params.id, params.userId)
+    if (!memberRole) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 })
+    }
+    if (memberRole === 'owner') {
+      return NextResponse.json({ error: 'The team owner cannot leave; delete the team instead' }, { status: 400 })
+    }
+
+    await removeTeamMember(params.id, params.userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'DELETE /api/teams/[id]/members/[userId]')
+  }
+}
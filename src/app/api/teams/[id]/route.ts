@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { getSessionUser, unauthorizedResponse, forbiddenResponse } from '@/lib/session'
+import {
+  getTeam,
+  getTeamRole,
+  getTeamMembers,
+  getPendingInvitations,
+  hasTeamRole,
+  validateTeamName
+} from '@/lib/teams'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const role = await getTeamRole(params.id, user.id)
+    const team = role ? await getTeam(params.id) : null
+    if (!role || !team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+
+    // Pending invitations are only shown to those who can manage them
+    const [members, invitations] = await Promise.all([
+      getTeamMembers(team.id),
+      hasTeamRole(role, 'admin') ? getPendingInvitations(team.id) : Promise.resolve([])
+    ])
+
+    return NextResponse.json({ ...team, role, members, invitations })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/teams/[id]')
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const role = await getTeamRole(params.id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (!hasTeamRole(role, 'owner')) {
+      return forbiddenResponse('owner')
+    }
+
+    const { name } = await request.json()
+
+    const nameError = validateTeamName(name)
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 })
+    }
+
+    const { data: team, error } = await supabaseAdmin!
+      .from('teams')
+      .update({ name: name.trim() })
+      .eq('id', params.id)
+      .select('id, name, owner_id, plan, max_monitors, created_at')
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ ...team, role })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'PUT /api/teams/[id]')
+  }
+}
+
+/**
+ * Delete the team together with its monitors, maintenance windows and status pages
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const role = await getTeamRole(params.id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+    if (!hasTeamRole(role, 'owner')) {
+      return forbiddenResponse('owner')
+    }
+
+    const { error } = await supabaseAdmin!
+      .from('teams')
+      .delete()
+      .eq('id', params.id)
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'DELETE /api/teams/[id]')
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, unauthorizedResponse, CURRENT_TEAM_COOKIE } from '@/lib/session'
+import { getTeamRole } from '@/lib/teams'
+
+/**
+ * Switch workspace. `team_id: null` returns to the personal workspace.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { team_id } = await request.json()
+
+    if (!team_id) {
+      const response = NextResponse.json({ current_team_id: null, role: 'owner' })
+      response.cookies.delete(CURRENT_TEAM_COOKIE)
+      return response
+    }
+
+    const role = await getTeamRole(team_id, user.id)
+    if (!role) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 })
+    }
+
+    const response = NextResponse.json({ current_team_id: team_id, role })
+    response.cookies.set({
+      name: CURRENT_TEAM_COOKIE,
+      value: team_id,
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: 365 * 24 * 60 * 60
+    })
+    return response
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'PUT /api/teams/current')
+  }
+}
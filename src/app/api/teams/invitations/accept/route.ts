@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, unauthorizedResponse } from '@/lib/session'
+import { acceptInvitation } from '@/lib/teams'
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { token } = await request.json()
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: 'Invitation token is required' }, { status: 400 })
+    }
+
+    const result = await acceptInvitation(token, user)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ team: result.team, role: result.role })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/teams/invitations/accept')
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser, getWorkspace, unauthorizedResponse } from '@/lib/session'
+import { getUserTeams, createTeam, validateTeamName } from '@/lib/teams'
+
+export async function GET() {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const [teams, workspace] = await Promise.all([getUserTeams(user.id), getWorkspace(user)])
+
+    return NextResponse.json({ teams, current_team_id: workspace.teamId })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/teams')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    const { name } = await request.json()
+
+    const nameError = validateTeamName(name)
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 })
+    }
+
+    const team = await createTeam(name, user.id)
+
+    return NextResponse.json({ ...team, role: 'owner' }, { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/teams')
+  }
+}
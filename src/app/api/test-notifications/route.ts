@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { sendNotifications } from '@/lib/notifications'
+import { getSessionUser, unauthorizedResponse, authorizeMonitor } from '@/lib/session'
 
 // Rate limiting: store last test times per IP/monitor
 const testCache = new Map<string, number>()
@@ -19,6 +20,11 @@ interface TestNotificationRequest {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
     const body: TestNotificationRequest = await request.json()
     const { monitorId, channels } = body
 
@@ -56,6 +62,12 @@ export async function POST(request: NextRequest) {
       throw new Error('Supabase admin client not available')
     }
 
+    // Sending to the configured targets is part of managing them
+    const access = await authorizeMonitor(monitorId, user.id, 'admin')
+    if (access.response) {
+      return access.response
+    }
+
     // Get monitor details
     const { data: monitor, error: monitorError } = await supabaseAdmin
       .from('monitors')
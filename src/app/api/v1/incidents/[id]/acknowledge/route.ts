@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiRequest } from '@/lib/api-keys'
+import { getWorkspaceIncident, acknowledgeIncident } from '@/lib/incidents'
+import { forbiddenResponse } from '@/lib/session'
+import { hasTeamRole } from '@/lib/teams'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'incidents:write')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { workspace, email } = auth.principal
+    const incident = await getWorkspaceIncident(workspace, params.id)
+    if (!incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 })
+    }
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    if (incident.resolved) {
+      return NextResponse.json({ error: 'Incident is already resolved' }, { status: 400 })
+    }
+
+    return NextResponse.json(await acknowledgeIncident(incident, workspace.userId, email))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/v1/incidents/[id]/acknowledge')
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiRequest } from '@/lib/api-keys'
+import { getWorkspaceIncident, getIncidentUpdates } from '@/lib/incidents'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'incidents:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const incident = await getWorkspaceIncident(auth.principal.workspace, params.id)
+    if (!incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ ...incident, updates: await getIncidentUpdates(incident.id) })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/v1/incidents/[id]')
+  }
+}
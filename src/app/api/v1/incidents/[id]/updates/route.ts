@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiRequest } from '@/lib/api-keys'
+import { getWorkspaceIncident, postIncidentUpdate, validateIncidentUpdate } from '@/lib/incidents'
+import { forbiddenResponse } from '@/lib/session'
+import { hasTeamRole } from '@/lib/teams'
+
+/**
+ * Post a status update; `status: resolved` resolves the incident. Updates are
+ * attributed to the key's creator.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'incidents:write')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { workspace } = auth.principal
+    const incident = await getWorkspaceIncident(workspace, params.id)
+    if (!incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 })
+    }
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const body = await request.json()
+    const validationError = validateIncidentUpdate(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (incident.resolved && body.status !== 'resolved') {
+      return NextResponse.json({ error: 'Incident is already resolved' }, { status: 400 })
+    }
+
+    const result = await postIncidentUpdate(incident, {
+      status: body.status,
+      message: body.message,
+      severity: body.severity,
+      is_public: body.is_public
+    }, workspace.userId)
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/v1/incidents/[id]/updates')
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiRequest } from '@/lib/api-keys'
+import { getWorkspaceIncidents } from '@/lib/incidents'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+/**
+ * Incidents across the key's monitors, newest first. Filter with
+ * `monitor_id` and `status` (open or resolved).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateApiRequest(request, 'incidents:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '') || DEFAULT_LIMIT, MAX_LIMIT)
+
+    if (status && status !== 'open' && status !== 'resolved') {
+      return NextResponse.json({ error: 'Status must be open or resolved' }, { status: 400 })
+    }
+
+    const incidents = await getWorkspaceIncidents(auth.principal.workspace, {
+      monitorId: searchParams.get('monitor_id') || undefined,
+      resolved: status ? status === 'resolved' : undefined,
+      limit
+    })
+
+    return NextResponse.json(incidents)
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/v1/incidents')
+  }
+}
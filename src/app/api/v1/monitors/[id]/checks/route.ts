@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { authenticateApiRequest } from '@/lib/api-keys'
+import { monitorNotFoundResponse } from '@/lib/session'
+import { getWorkspaceMonitor } from '@/lib/monitors'
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 1000
+
+/**
+ * Recent check results, newest first. `since` and `until` (ISO 8601) bound
+ * the time range; `limit` caps the number of results.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'monitors:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    if (!(await getWorkspaceMonitor(auth.principal.workspace, params.id))) {
+      return monitorNotFoundResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '') || DEFAULT_LIMIT, MAX_LIMIT)
+    const since = searchParams.get('since')
+    const until = searchParams.get('until')
+
+    if ((since && isNaN(Date.parse(since))) || (until && isNaN(Date.parse(until)))) {
+      return NextResponse.json({ error: 'since and until must be ISO 8601 timestamps' }, { status: 400 })
+    }
+
+    let query = supabaseAdmin!
+      .from('uptime_checks')
+      .select('id, location, status, response_time, status_code, error_message, checked_at')
+      .eq('monitor_id', params.id)
+      .order('checked_at', { ascending: false })
+      .limit(limit)
+
+    if (since) query = query.gte('checked_at', new Date(since).toISOString())
+    if (until) query = query.lte('checked_at', new Date(until).toISOString())
+
+    const { data: checks, error } = await query
+
+    if (error) throw error
+
+    return NextResponse.json(checks || [])
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/v1/monitors/[id]/checks')
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { authenticateApiRequest } from '@/lib/api-keys'
+import { forbiddenResponse, monitorNotFoundResponse } from '@/lib/session'
+import { hasTeamRole } from '@/lib/teams'
+import {
+  getWorkspaceMonitor,
+  validateMonitorUpdate,
+  updateChangesNotificationTargets,
+  updateMonitor,
+  toApiMonitor
+} from '@/lib/monitors'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'monitors:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const monitor = await getWorkspaceMonitor(auth.principal.workspace, params.id)
+    if (!monitor) {
+      return monitorNotFoundResponse()
+    }
+
+    return NextResponse.json(toApiMonitor(monitor))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/v1/monitors/[id]')
+  }
+}
+
+/**
+ * Update a monitor. Takes the same body as the dashboard: name is required,
+ * and alert email, SSL and domain checks fall back to their defaults when
+ * left out, so send the full settings read from GET.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'monitors:write')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { workspace } = auth.principal
+    if (!(await getWorkspaceMonitor(workspace, params.id))) {
+      return monitorNotFoundResponse()
+    }
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const body = await request.json()
+
+    const validationError = validateMonitorUpdate(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (!hasTeamRole(workspace.role, 'admin') && (await updateChangesNotificationTargets(params.id, body))) {
+      return forbiddenResponse('admin')
+    }
+
+    const monitor = await updateMonitor(params.id, body)
+
+    return NextResponse.json(toApiMonitor(monitor))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'PUT /api/v1/monitors/[id]')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'monitors:write')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { workspace } = auth.principal
+    if (!(await getWorkspaceMonitor(workspace, params.id))) {
+      return monitorNotFoundResponse()
+    }
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const { error } = await supabaseAdmin!
+      .from('monitors')
+      .delete()
+      .eq('id', params.id)
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'DELETE /api/v1/monitors/[id]')
+  }
+}
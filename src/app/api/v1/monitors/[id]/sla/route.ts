@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiRequest } from '@/lib/api-keys'
+import { monitorNotFoundResponse } from '@/lib/session'
+import { getWorkspaceMonitor } from '@/lib/monitors'
+import { SLA_TARGETS, getDateRangeForPeriod, TIME_PERIODS } from '@/lib/sla'
+import { getMonitorSLAReport } from '@/lib/sla-reports'
+
+/**
+ * SLA report for the current `period` (daily, weekly, monthly, quarterly or
+ * yearly, default monthly) against comma-separated `targets` percentages
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'monitors:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const monitor = await getWorkspaceMonitor(auth.principal.workspace, params.id)
+    if (!monitor) {
+      return monitorNotFoundResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const period = (searchParams.get('period') || 'monthly') as keyof typeof TIME_PERIODS
+    const targets = searchParams.get('targets')?.split(',').map(Number) || [99.9, 99.99]
+
+    if (!Object.keys(TIME_PERIODS).includes(period)) {
+      return NextResponse.json(
+        { error: `Period must be one of: ${Object.keys(TIME_PERIODS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const selectedTargets = SLA_TARGETS.filter(target => targets.includes(target.percentage))
+    if (selectedTargets.length === 0) {
+      return NextResponse.json(
+        { error: `Targets must be any of: ${SLA_TARGETS.map(target => target.percentage).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { startDate, endDate } = getDateRangeForPeriod(period)
+
+    return NextResponse.json(await getMonitorSLAReport(monitor, selectedTargets, period, startDate, endDate))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/v1/monitors/[id]/sla')
+  }
+}
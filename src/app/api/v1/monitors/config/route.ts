@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiRequest } from '@/lib/api-keys'
+import { exportMonitorConfig, formatMonitorConfig, importMonitorConfig } from '@/lib/monitor-config'
+
+/**
+ * Export the key's monitors as a config file (`format=yaml` or `json`)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateApiRequest(request, 'monitors:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const format = new URL(request.url).searchParams.get('format') === 'json' ? 'json' : 'yaml'
+    const config = await exportMonitorConfig(auth.principal.workspace)
+
+    return new NextResponse(formatMonitorConfig(config, format), {
+      headers: { 'Content-Type': format === 'json' ? 'application/json' : 'application/yaml' }
+    })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/v1/monitors/config')
+  }
+}
+
+/**
+ * Import a YAML or JSON config file sent as the request body. A dry run
+ * (`dry_run=true`) only needs monitors:read, so plans can be previewed in CI
+ * with a read-only key. With `prune=true` imported monitors missing from the
+ * file are deleted.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const dryRun = searchParams.get('dry_run') === 'true'
+
+    const auth = await authenticateApiRequest(request, dryRun ? 'monitors:read' : 'monitors:write')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const result = await importMonitorConfig(auth.principal.workspace, await request.text(), {
+      dryRun,
+      prune: searchParams.get('prune') === 'true',
+      creatorEmail: auth.principal.email
+    })
+    if (!result.success) {
+      const { success, status, ...body } = result
+      return NextResponse.json(body, { status })
+    }
+
+    const { success, ...body } = result
+    return NextResponse.json(body)
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/v1/monitors/config')
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { authenticateApiRequest } from '@/lib/api-keys'
+import { forbiddenResponse } from '@/lib/session'
+import { scopeToWorkspace, hasTeamRole, hasMonitorCapacity } from '@/lib/teams'
+import { validateNewMonitor, newMonitorChangesNotificationTargets, createMonitor, toApiMonitor } from '@/lib/monitors'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateApiRequest(request, 'monitors:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { data: monitors, error } = await scopeToWorkspace(
+      supabaseAdmin!.from('monitors').select('*'),
+      auth.principal.workspace
+    )
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json((monitors || []).map(toApiMonitor))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/v1/monitors')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateApiRequest(request, 'monitors:write')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { workspace, email } = auth.principal
+    if (!hasTeamRole(workspace.role, 'member')) {
+      return forbiddenResponse('member')
+    }
+
+    const body = await request.json()
+
+    const validationError = validateNewMonitor(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (!hasTeamRole(workspace.role, 'admin') && newMonitorChangesNotificationTargets(body, email)) {
+      return forbiddenResponse('admin')
+    }
+
+    if (workspace.teamId && !(await hasMonitorCapacity(workspace.teamId))) {
+      return NextResponse.json({ error: 'This team has reached the monitor limit of its plan' }, { status: 403 })
+    }
+
+    const monitor = await createMonitor(workspace, body, email)
+
+    return NextResponse.json(toApiMonitor(monitor), { status: 201 })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'POST /api/v1/monitors')
+  }
+}
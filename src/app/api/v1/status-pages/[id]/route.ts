@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { authenticateApiRequest } from '@/lib/api-keys'
+import { toOwnerStatusPage, getStatusPageData } from '@/lib/status-pages'
+import { scopeToWorkspace } from '@/lib/teams'
+
+/**
+ * A status page's settings with its live data: overall status, components,
+ * active incidents and upcoming maintenance, as shown to visitors
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authenticateApiRequest(request, 'status_pages:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { data: page, error } = await scopeToWorkspace(
+      supabaseAdmin!.from('status_pages').select('*'),
+      auth.principal.workspace
+    )
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!page) {
+      return NextResponse.json({ error: 'Status page not found' }, { status: 404 })
+    }
+
+    const ownerPage = toOwnerStatusPage(page)
+    // The page's own fields are already in the settings
+    const { page: summary, ...status } = await getStatusPageData(ownerPage)
+
+    return NextResponse.json({ ...ownerPage, status })
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/v1/status-pages/[id]')
+  }
+}
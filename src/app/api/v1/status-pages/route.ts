@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { authenticateApiRequest } from '@/lib/api-keys'
+import { toOwnerStatusPage } from '@/lib/status-pages'
+import { scopeToWorkspace } from '@/lib/teams'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateApiRequest(request, 'status_pages:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { data: pages, error } = await scopeToWorkspace(
+      supabaseAdmin!.from('status_pages').select('*'),
+      auth.principal.workspace
+    )
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json((pages || []).map(toOwnerStatusPage))
+  } catch (error) {
+    const { createErrorResponse } = await import('@/lib/error-handler')
+    return createErrorResponse(error, 500, 'GET /api/v1/status-pages')
+  }
+}
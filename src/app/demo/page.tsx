@@ -2,10 +2,14 @@
 
 import { useState, useEffect } from 'react'
 import { Monitor, UptimeStats } from '@/types'
+import type { ResponseAssertion } from '@/lib/assertions'
+import type { DnsMatchMode, DnsRecordType } from '@/lib/dns-records'
 import { MonitorCard } from '@/components/MonitorCard'
 import { AddMonitorModal } from '@/components/AddMonitorModal'
+import { MonitorConfigModal } from '@/components/MonitorConfigModal'
 import { EditMonitorDialog } from '@/components/EditMonitorDialog'
 import { HeartbeatDashboard } from '@/components/HeartbeatDashboard'
+import { StatusPagesManager } from '@/components/StatusPagesManager'
 import { LoadingState } from '@/components/ui/loader'
 import { startDevMonitoring, stopDevMonitoring } from '@/lib/dev-monitor'
 
@@ -89,7 +93,7 @@ export default function Dashboard() {
     alert_email: string
     ssl_enabled: boolean
     domain_enabled: boolean
-    monitor_type: 'http' | 'ping' | 'port' | 'heartbeat'
+    monitor_type: 'http' | 'ping' | 'port' | 'dns' | 'heartbeat'
     request_method: string
     request_headers: string
     auth_type: 'none' | 'basic' | 'bearer' | 'header'
@@ -103,6 +107,21 @@ export default function Dashboard() {
     webhook_url: string
     notification_channels: string[]
     status_page_public: boolean
+    check_interval_seconds: number
+    alert_threshold: number
+    failure_locations_threshold: number | null
+    confirmation_recheck: boolean
+    keyword_check: string
+    expected_status_codes: number[]
+    assertions: ResponseAssertion[]
+    degraded_threshold_ms: number | null
+    degraded_percentile: number
+    tags: string[]
+    dns_record_type: DnsRecordType
+    dns_resolver: string | null
+    dns_expected_values: string[]
+    dns_match_mode: DnsMatchMode
+    domain_alert_days: number[] | null
   }) => {
     const response = await fetch(`/api/monitors/${id}`, {
       method: 'PUT',
@@ -142,7 +161,10 @@ export default function Dashboard() {
             Monitor your websites and applications with instant alerts.
           </p>
         </div>
-        <AddMonitorModal onAdd={handleAddMonitor} />
+        <div className="flex items-center gap-2">
+          <MonitorConfigModal onApplied={fetchMonitors} />
+          <AddMonitorModal onAdd={handleAddMonitor} />
+        </div>
       </div>
 
       {/* Website Monitors */}
@@ -182,6 +204,9 @@ export default function Dashboard() {
       {/* Heartbeat Monitors */}
       <HeartbeatDashboard />
 
+      {/* Status Pages */}
+      <StatusPagesManager />
+
       <EditMonitorDialog
         monitor={editingMonitor}
         isOpen={isEditDialogOpen}
@@ -38,7 +38,8 @@ export default function DevTriggersPage() {
     { endpoint: 'check-websites', name: 'Check Websites', description: 'Check all website monitors' },
     { endpoint: 'check-ssl', name: 'Check SSL', description: 'Check SSL certificates and domain expiration' },
     { endpoint: 'check-heartbeats', name: 'Check Heartbeats', description: 'Check heartbeat monitors' },
-    { endpoint: 'check-sla', name: 'Check SLA', description: 'Calculate SLA metrics' }
+    { endpoint: 'check-sla', name: 'Check SLA', description: 'Calculate SLA metrics' },
+    { endpoint: 'escalations', name: 'Escalations', description: 'Notify due escalation steps and reminders' }
   ]
 
   return (
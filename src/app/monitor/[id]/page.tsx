@@ -13,8 +13,12 @@ import { PerformanceTrendsChart } from '@/components/PerformanceTrendsChart'
 import { ResponseTimeDistributionChart } from '@/components/ResponseTimeDistributionChart'
 import { IncidentTimeline } from '@/components/IncidentTimeline'
 import { SLADashboard } from '@/components/SLADashboard'
+import { MaintenanceWindows } from '@/components/MaintenanceWindows'
+import { DnsRecordHistory } from '@/components/DnsRecordHistory'
 import { LoadingState } from '@/components/ui/loader'
-import { formatUptime, formatResponseTime } from '@/lib/utils'
+import { formatUptime, formatResponseTime, formatCheckInterval } from '@/lib/utils'
+import { getCheckIntervalSeconds } from '@/lib/scheduler'
+import { PROBLEM_DOMAIN_STATUSES } from '@/lib/domain-expiry'
 import { ArrowLeft, ExternalLink, Calendar, BarChart3, AlertTriangle, Shield, Target } from 'lucide-react'
 
 interface PageProps {
@@ -314,6 +318,14 @@ export default function MonitorDetailsPage({ params }: PageProps) {
         </CardContent>
       </Card>
 
+      {/* DNS Record History */}
+      {monitor.monitor_type === 'dns' && (
+        <DnsRecordHistory monitorId={monitor.id} currentValues={monitor.dns_current_values} />
+      )}
+
+      {/* Maintenance Windows */}
+      <MaintenanceWindows monitorId={monitor.id} />
+
       {/* Monitor Info */}
       <Card>
         <CardHeader>
@@ -327,7 +339,7 @@ export default function MonitorDetailsPage({ params }: PageProps) {
             </div>
             <div>
               <span className="font-medium text-muted-foreground">Check Interval:</span>
-              <span className="ml-2">{monitor.check_interval} minutes</span>
+              <span className="ml-2">{formatCheckInterval(getCheckIntervalSeconds(monitor))}</span>
             </div>
             <div>
               <span className="font-medium text-muted-foreground">Created:</span>
@@ -396,6 +408,26 @@ export default function MonitorDetailsPage({ params }: PageProps) {
                 </span>
               </div>
             )}
+            {monitor.domain_enabled && monitor.domain_registrar && (
+              <div>
+                <span className="font-medium text-muted-foreground">Registrar:</span>
+                <span className="ml-2">{monitor.domain_registrar}</span>
+              </div>
+            )}
+            {monitor.domain_enabled && monitor.domain_status_codes && monitor.domain_status_codes.length > 0 && (
+              <div className="md:col-span-2">
+                <span className="font-medium text-muted-foreground">Domain Status:</span>
+                <span className="ml-2 inline-flex flex-wrap gap-1 align-middle">
+                  {monitor.domain_status_codes.map(status => (
+                    <span key={status} className={`px-2 py-0.5 rounded text-xs font-mono ${
+                      PROBLEM_DOMAIN_STATUSES.includes(status) ? 'bg-red-100 text-red-700' : 'bg-muted text-muted-foreground'
+                    }`}>
+                      {status}
+                    </span>
+                  ))}
+                </span>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
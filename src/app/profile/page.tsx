@@ -8,6 +8,10 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { LoadingState } from '@/components/ui/loader'
+import { ApiKeysManager } from '@/components/ApiKeysManager'
+import { NotificationChannelsManager } from '@/components/NotificationChannelsManager'
+import { OnCallSchedulesManager } from '@/components/OnCallSchedulesManager'
+import { EscalationPoliciesManager } from '@/components/EscalationPoliciesManager'
 import { 
   User, 
   Calendar, 
@@ -148,6 +152,26 @@ export default function ProfilePage() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* REST API Keys */}
+            <div className="mt-6">
+              <ApiKeysManager />
+            </div>
+
+            {/* Shared notification channels */}
+            <div className="mt-6">
+              <NotificationChannelsManager />
+            </div>
+
+            {/* On-call rotations and overrides */}
+            <div className="mt-6">
+              <OnCallSchedulesManager />
+            </div>
+
+            {/* Escalation policies for down incidents */}
+            <div className="mt-6">
+              <EscalationPoliciesManager />
+            </div>
           </div>
 
           {/* Subscription Sidebar */}
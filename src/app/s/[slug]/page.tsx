@@ -0,0 +1,44 @@
+import { notFound, redirect } from 'next/navigation'
+import { cookies } from 'next/headers'
+import { getStatusPageBySlug, getStatusPageData } from '@/lib/status-pages'
+import { getStatusPageCookieName, verifyStatusPageSession } from '@/lib/status-page-session'
+import { StatusPageView } from './status-page-view'
+
+interface PageProps {
+  params: { slug: string }
+}
+
+export const dynamic = 'force-dynamic'
+
+export default async function PublicStatusPage({ params }: PageProps) {
+  const page = await getStatusPageBySlug(params.slug)
+
+  if (!page) {
+    notFound()
+  }
+
+  if (!page.public) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="bg-card rounded-lg shadow-sm border p-8 max-w-md w-full mx-4 text-center">
+          <h1 className="text-2xl font-bold mb-2">Private Status Page</h1>
+          <p className="text-muted-foreground">
+            This status page is private and not publicly accessible.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  // Middleware already redirects locked visitors; checked again here so the page never renders without a session
+  if (page.password_protected) {
+    const token = cookies().get(getStatusPageCookieName(page.id))?.value
+    if (!(await verifyStatusPageSession(token, page))) {
+      redirect(`/s/${page.slug}/unlock`)
+    }
+  }
+
+  const data = await getStatusPageData(page)
+
+  return <StatusPageView initialData={data} />
+}
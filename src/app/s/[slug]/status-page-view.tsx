@@ -0,0 +1,215 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { StatusPageData, ComponentStatus, OverallStatus } from '@/lib/status-pages'
+import { formatUptime, formatResponseTime, getIncidentStatus, getIncidentStatusLabel } from '@/lib/utils'
+import { RefreshCw, Wrench, AlertTriangle } from 'lucide-react'
+
+interface StatusPageViewProps {
+  initialData: StatusPageData
+}
+
+const OVERALL_MESSAGES: Record<OverallStatus, string> = {
+  operational: 'All Systems Operational',
+  degraded: 'Degraded Performance',
+  partial_outage: 'Partial System Outage',
+  major_outage: 'Major System Outage',
+  maintenance: 'Scheduled Maintenance in Progress'
+}
+
+const COMPONENT_LABELS: Record<ComponentStatus, { label: string; className: string }> = {
+  operational: { label: 'Operational', className: 'text-green-600' },
+  degraded: { label: 'Degraded Performance', className: 'text-yellow-600' },
+  outage: { label: 'Outage', className: 'text-red-600' },
+  maintenance: { label: 'Under Maintenance', className: 'text-blue-600' },
+  unknown: { label: 'Unknown', className: 'text-gray-500' }
+}
+
+function getBarColor(uptime: number | null): string {
+  if (uptime === null) return 'bg-gray-200'
+  if (uptime >= 99.9) return 'bg-green-500'
+  if (uptime >= 99) return 'bg-lime-500'
+  if (uptime >= 95) return 'bg-yellow-500'
+  if (uptime >= 90) return 'bg-orange-500'
+  return 'bg-red-500'
+}
+
+export function StatusPageView({ initialData }: StatusPageViewProps) {
+  const [data, setData] = useState(initialData)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  // Auto-refresh every 60 seconds
+  useEffect(() => {
+    const interval = setInterval(refreshData, 60000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const refreshData = async () => {
+    setIsRefreshing(true)
+    try {
+      const response = await fetch(`/api/public/status-pages/${initialData.page.slug}`)
+      if (response.ok) {
+        setData(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to refresh status page:', error)
+    } finally {
+      setIsRefreshing(false)
+    }
+  }
+
+  const { page, overall_status, groups, incidents, maintenance } = data
+  const isHealthy = overall_status === 'operational'
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 py-10 space-y-8">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            {page.logo_url && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={page.logo_url} alt={page.title} className="h-10 w-auto" />
+            )}
+            <div>
+              <h1 className="text-2xl font-bold">{page.title}</h1>
+              {page.description && (
+                <p className="text-muted-foreground">{page.description}</p>
+              )}
+            </div>
+          </div>
+          <button
+            onClick={refreshData}
+            disabled={isRefreshing}
+            className="text-muted-foreground hover:text-foreground"
+            title="Refresh"
+          >
+            <RefreshCw className={`h-5 w-5 ${isRefreshing ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        {/* Overall Status Banner */}
+        <div
+          className={`rounded-lg p-5 text-white text-lg font-semibold ${
+            isHealthy ? '' :
+            overall_status === 'maintenance' ? 'bg-blue-600' :
+            overall_status === 'degraded' ? 'bg-yellow-500' :
+            overall_status === 'partial_outage' ? 'bg-orange-500' :
+            'bg-red-600'
+          }`}
+          style={isHealthy ? { backgroundColor: page.theme_color } : undefined}
+        >
+          {OVERALL_MESSAGES[overall_status]}
+        </div>
+
+        {/* Active Incidents */}
+        {incidents.map(incident => (
+          <div key={incident.id} className="border rounded-lg overflow-hidden">
+            <div className={`px-5 py-3 flex items-center gap-2 font-medium ${
+              incident.incident_type === 'degraded' ? 'bg-yellow-50 text-yellow-800' : 'bg-red-50 text-red-800'
+            }`}>
+              <AlertTriangle className="h-4 w-4" />
+              {incident.incident_type === 'degraded' ? 'Degraded performance' : 'Service disruption'}: {incident.monitor_name}
+            </div>
+            <div className="px-5 py-4 space-y-3 text-sm">
+              {incident.updates.length > 0 ? (
+                incident.updates.slice().reverse().map(update => (
+                  <div key={update.id}>
+                    <span className="font-semibold">{getIncidentStatusLabel(update.status)}</span>
+                    <span className="text-muted-foreground"> - {update.message}</span>
+                    <div className="text-xs text-muted-foreground">{new Date(update.created_at).toLocaleString()}</div>
+                  </div>
+                ))
+              ) : (
+                <div>
+                  <span className="font-semibold">
+                    {getIncidentStatusLabel(getIncidentStatus({ resolved: false, identified: incident.identified, monitoring: incident.monitoring }))}
+                  </span>
+                  <span className="text-muted-foreground"> - We are looking into issues affecting {incident.monitor_name}.</span>
+                  <div className="text-xs text-muted-foreground">{new Date(incident.started_at).toLocaleString()}</div>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {/* Scheduled Maintenance */}
+        {maintenance.map(period => (
+          <div key={period.window_id} className="border border-blue-200 rounded-lg bg-blue-50 px-5 py-4 text-sm">
+            <div className="flex items-center gap-2 font-medium text-blue-800">
+              <Wrench className="h-4 w-4" />
+              {period.in_progress ? 'Maintenance in progress' : 'Scheduled maintenance'}: {period.name}
+            </div>
+            {period.description && (
+              <p className="text-blue-700 mt-1">{period.description}</p>
+            )}
+            <div className="text-blue-700 mt-1">
+              {new Date(period.start).toLocaleString()} – {new Date(period.end).toLocaleString()}
+            </div>
+            {period.components.length > 0 && (
+              <div className="text-xs text-blue-600 mt-1">Affects: {period.components.join(', ')}</div>
+            )}
+          </div>
+        ))}
+
+        {/* Components */}
+        <div className="space-y-6">
+          {groups.map((group, groupIndex) => (
+            <div key={group.name || `ungrouped-${groupIndex}`} className="border rounded-lg bg-card">
+              {group.name && (
+                <div className="px-5 py-3 border-b font-semibold">{group.name}</div>
+              )}
+              <div className="divide-y">
+                {group.components.map(component => (
+                  <div key={component.id} className="px-5 py-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="font-medium">{component.name}</span>
+                      <div className="flex items-center gap-3 text-sm">
+                        {page.show_response_times && component.response_time !== null && (
+                          <span className="text-muted-foreground">{formatResponseTime(component.response_time)}</span>
+                        )}
+                        <span className={COMPONENT_LABELS[component.status].className}>
+                          {COMPONENT_LABELS[component.status].label}
+                        </span>
+                      </div>
+                    </div>
+
+                    {/* 90-day uptime bars */}
+                    <div className="flex gap-px h-8">
+                      {component.daily.map(day => (
+                        <div
+                          key={day.date}
+                          className={`flex-1 rounded-sm ${getBarColor(day.uptime)}`}
+                          title={`${day.date}: ${day.uptime === null ? 'No data' : `${formatUptime(day.uptime)} uptime`}`}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                      <span>{component.daily.length} days ago</span>
+                      {page.show_uptime_percentage && (
+                        <span>{formatUptime(component.uptime)} uptime</span>
+                      )}
+                      <span>Today</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {groups.length === 0 && (
+            <div className="text-center text-muted-foreground py-12 border rounded-lg">
+              No components have been added to this status page yet.
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="text-center text-sm text-muted-foreground">
+          <p>Last updated {new Date(data.generated_at).toLocaleString()}</p>
+          <p className="mt-1">Powered by SimpleUptime</p>
+        </div>
+      </div>
+    </div>
+  )
+}
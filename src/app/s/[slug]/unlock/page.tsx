@@ -0,0 +1,80 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertCircle, Lock } from 'lucide-react'
+
+interface PageProps {
+  params: { slug: string }
+}
+
+export default function UnlockStatusPage({ params }: PageProps) {
+  const [password, setPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/public/status-pages/${params.slug}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || 'Failed to unlock status page')
+        return
+      }
+
+      // Full navigation so the new session cookie goes through middleware.
+      // On a custom domain this form is served at /unlock and the page at /.
+      window.location.href = window.location.pathname === '/unlock' ? '/' : `/s/${params.slug}`
+    } catch (err) {
+      setError('Failed to unlock status page')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center">
+      <div className="bg-card rounded-lg shadow-sm border p-8 max-w-md w-full mx-4">
+        <div className="flex flex-col items-center text-center mb-6">
+          <Lock className="h-8 w-8 text-muted-foreground mb-3" />
+          <h1 className="text-2xl font-bold mb-2">Password Required</h1>
+          <p className="text-muted-foreground">
+            Enter the password to view this status page.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoFocus
+            required
+          />
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={loading || !password}>
+            {loading ? 'Unlocking...' : 'View Status Page'}
+          </Button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -2,13 +2,15 @@
 
 import { useState, useEffect } from 'react'
 import { StatusIndicator } from '@/components/StatusIndicator'
-import { formatUptime, formatResponseTime, formatDuration } from '@/lib/utils'
-import { Monitor, UptimeStats, Incident } from '@/types'
+import { formatUptime, formatResponseTime, formatDuration, formatCheckInterval, getIncidentStatus, getIncidentStatusLabel } from '@/lib/utils'
+import { getCheckIntervalSeconds } from '@/lib/scheduler'
+import { UptimeStats, Incident } from '@/types'
+import type { PublicMonitor } from '@/lib/monitor-status'
 import { Clock, TrendingUp, AlertTriangle, RefreshCw, Calendar, Bell } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 
 interface StatusPageClientProps {
-  initialMonitor: Monitor
+  initialMonitor: PublicMonitor
   initialStats: UptimeStats
   initialIncidents: Incident[]
 }
@@ -32,25 +34,13 @@ export function StatusPageClient({ initialMonitor, initialStats, initialIncident
   const refreshData = async () => {
     setIsRefreshing(true)
     try {
-      // Fetch updated monitor data
-      const response = await fetch(`/api/monitors/${monitor.id}/stats`)
+      // Public endpoint: status pages are viewed without signing in
+      const response = await fetch(`/api/public/monitors/${monitor.id}`)
       if (response.ok) {
-        const newStats = await response.json()
-        setStats(newStats)
-      }
-
-      // Fetch updated monitor status
-      const monitorResponse = await fetch(`/api/monitors/${monitor.id}`)
-      if (monitorResponse.ok) {
-        const monitorData = await monitorResponse.json()
-        setMonitor(monitorData)
-      }
-
-      // Fetch recent incidents
-      const incidentsResponse = await fetch(`/api/monitors/${monitor.id}/incidents`)
-      if (incidentsResponse.ok) {
-        const incidentsData = await incidentsResponse.json()
-        setIncidents(incidentsData.slice(0, 10)) // Latest 10 incidents
+        const data = await response.json()
+        setMonitor(data.monitor)
+        setStats(data.stats)
+        setIncidents(data.incidents)
       }
 
       setLastUpdated(new Date())
@@ -71,7 +61,7 @@ export function StatusPageClient({ initialMonitor, initialStats, initialIncident
   }
 
   const getOverallStatus = () => {
-    if (stats.current_incident) return 'degraded'
+    if (stats.current_incident || monitor.status === 'degraded') return 'degraded'
     if (monitor.status === 'down') return 'down'
     if (monitor.status === 'up') return 'operational'
     return 'unknown'
@@ -152,15 +142,58 @@ export function StatusPageClient({ initialMonitor, initialStats, initialIncident
                 Service is running normally
               </div>
             )}
+            {monitor.status === 'degraded' && (
+              <div className="text-sm text-yellow-700 mt-1">
+                Responses are slower than usual
+              </div>
+            )}
           </div>
 
+          {/* Scheduled Maintenance */}
+          {stats.current_maintenance && (
+            <div className="bg-blue-50 border border-blue-200 rounded-md p-4 mb-6">
+              <div className="font-medium text-blue-800">
+                Scheduled Maintenance: {stats.current_maintenance.name}
+              </div>
+              <p className="text-blue-700 mt-1">
+                Maintenance is in progress until {new Date(stats.current_maintenance.ends_at).toLocaleString()}
+              </p>
+            </div>
+          )}
+
           {/* Current Incident Alert */}
-          {stats.current_incident && (
+          {stats.current_incident && stats.current_incident.incident_type === 'degraded' && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-6">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-yellow-600" />
+                <span className="font-medium text-yellow-800">Degraded Performance</span>
+              </div>
+              {stats.current_incident.public_message && (
+                <p className="text-yellow-800 mt-2 whitespace-pre-wrap">{stats.current_incident.public_message}</p>
+              )}
+              <p className="text-yellow-700 mt-1">
+                Slow responses since {' '}
+                {new Date(stats.current_incident.started_at).toLocaleString()}
+              </p>
+              {stats.current_incident.cause && (
+                <p className="text-yellow-700 text-sm mt-1">
+                  {stats.current_incident.cause}
+                </p>
+              )}
+            </div>
+          )}
+
+          {stats.current_incident && stats.current_incident.incident_type !== 'degraded' && (
             <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
               <div className="flex items-center gap-2">
                 <AlertTriangle className="h-5 w-5 text-red-600" />
-                <span className="font-medium text-red-800">Active Incident</span>
+                <span className="font-medium text-red-800">
+                  Active Incident · {getIncidentStatusLabel(getIncidentStatus(stats.current_incident))}
+                </span>
               </div>
+              {stats.current_incident.public_message && (
+                <p className="text-red-800 mt-2 whitespace-pre-wrap">{stats.current_incident.public_message}</p>
+              )}
               <p className="text-red-700 mt-1">
                 Service disruption started {' '}
                 {new Date(stats.current_incident.started_at).toLocaleString()}
@@ -234,9 +267,13 @@ export function StatusPageClient({ initialMonitor, initialStats, initialIncident
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-2">
-                        <div className={`w-3 h-3 rounded-full ${incident.resolved ? 'bg-green-500' : 'bg-red-500'}`} />
+                        <div className={`w-3 h-3 rounded-full ${
+                          incident.resolved ? 'bg-green-500' : 
+                          incident.incident_type === 'degraded' ? 'bg-yellow-500' : 
+                          'bg-red-500'
+                        }`} />
                         <span className="font-medium">
-                          {incident.resolved ? 'Resolved' : 'Ongoing'} Incident
+                          {incident.resolved ? 'Resolved' : 'Ongoing'} {incident.incident_type === 'degraded' ? 'Slowdown' : 'Incident'}
                         </span>
                         {incident.duration_minutes && (
                           <span className="text-sm text-muted-foreground">
@@ -261,6 +298,21 @@ export function StatusPageClient({ initialMonitor, initialStats, initialIncident
                           <span className="font-medium">Cause:</span> {incident.cause}
                         </p>
                       )}
+                      {incident.updates && incident.updates.length > 0 && (
+                        <div className="mt-3 space-y-3">
+                          {incident.updates.slice().reverse().map(update => (
+                            <div key={update.id} className="text-sm">
+                              <div>
+                                <span className="font-medium">{getIncidentStatusLabel(update.status)}</span>
+                                <span className="text-muted-foreground"> - {update.message}</span>
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {new Date(update.created_at).toLocaleString()}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -286,7 +338,7 @@ export function StatusPageClient({ initialMonitor, initialStats, initialIncident
         <div className="mt-8 text-center text-sm text-muted-foreground">
           <p>Powered by SimpleUptime • Auto-refreshes every 30 seconds</p>
           <p className="mt-1">
-            Monitor Type: {monitor.monitor_type || 'HTTP'} • Check Interval: {monitor.check_interval || 5} minutes
+            Monitor Type: {monitor.monitor_type || 'HTTP'} • Check Interval: {formatCheckInterval(getCheckIntervalSeconds(monitor))}
           </p>
         </div>
       </div>
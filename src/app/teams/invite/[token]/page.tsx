@@ -0,0 +1,97 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { LoadingState } from '@/components/ui/loader'
+import { Users, AlertTriangle } from 'lucide-react'
+
+type InviteState =
+  | { status: 'accepting' }
+  | { status: 'login' }
+  | { status: 'error'; error: string }
+
+export default function AcceptInvitationPage({ params }: { params: { token: string } }) {
+  const router = useRouter()
+  const [state, setState] = useState<InviteState>({ status: 'accepting' })
+
+  useEffect(() => {
+    acceptInvitation()
+  }, [])
+
+  const acceptInvitation = async () => {
+    try {
+      const response = await fetch('/api/teams/invitations/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: params.token })
+      })
+
+      if (response.status === 401) {
+        setState({ status: 'login' })
+        return
+      }
+
+      const result = await response.json()
+      if (!response.ok) {
+        setState({ status: 'error', error: result.error || 'This invitation could not be accepted' })
+        return
+      }
+
+      // Open the team's workspace straight away
+      await fetch('/api/teams/current', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ team_id: result.team.id })
+      })
+      router.push('/demo')
+    } catch (error) {
+      setState({ status: 'error', error: 'Network error while accepting the invitation' })
+    }
+  }
+
+  if (state.status === 'accepting') {
+    return <LoadingState size="lg" fullScreen />
+  }
+
+  const invitePath = `/teams/invite/${params.token}`
+
+  return (
+    <div className="container mx-auto py-16 px-4">
+      <Card className="max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {state.status === 'login' ? <Users className="h-5 w-5" /> : <AlertTriangle className="h-5 w-5 text-red-600" />}
+            Team Invitation
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {state.status === 'login' ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Sign in with the email address the invitation was sent to, or create an account with it, to join the team.
+              </p>
+              <div className="flex gap-2">
+                <Link href={`/auth/login?redirectTo=${encodeURIComponent(invitePath)}`}>
+                  <Button>Sign In</Button>
+                </Link>
+                <Link href="/auth/signup">
+                  <Button variant="outline">Sign Up</Button>
+                </Link>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-red-700">{state.error}</p>
+              <Link href="/teams">
+                <Button variant="outline">Go to Teams</Button>
+              </Link>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+'use client'
+
+import { useAuth } from '@/contexts/AuthContext'
+import { TeamsManager } from '@/components/TeamsManager'
+import { LoadingState } from '@/components/ui/loader'
+
+export default function TeamsPage() {
+  const { user, loading } = useAuth()
+
+  if (loading) {
+    return <LoadingState size="lg" fullScreen />
+  }
+
+  if (!user) {
+    return (
+      <div className="container mx-auto py-8 px-4">
+        <div className="max-w-2xl mx-auto text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Please Log In</h1>
+          <p className="text-gray-600">You need to be logged in to manage teams.</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Teams</h1>
+          <p className="text-gray-600">
+            Share monitors, status pages and maintenance windows with your team. Switch workspaces from the header.
+          </p>
+        </div>
+
+        <TeamsManager currentUserId={user.id} />
+      </div>
+    </div>
+  )
+}
@@ -13,6 +13,10 @@ interface HeartbeatMonitorFormData {
   name: string
   description: string
   heartbeat_interval: number
+  heartbeat_schedule: string
+  heartbeat_timezone: string
+  heartbeat_grace_seconds: number | null
+  heartbeat_max_runtime_seconds: number | null
   alert_email: string
   slack_webhook_url: string
   discord_webhook_url: string
@@ -35,55 +39,61 @@ const INTERVAL_OPTIONS = [
   { value: 3600, label: '1 hour' }
 ]
 
+const emptyForm: HeartbeatMonitorFormData = {
+  name: '',
+  description: '',
+  heartbeat_interval: 60,
+  heartbeat_schedule: '',
+  heartbeat_timezone: 'UTC',
+  heartbeat_grace_seconds: null,
+  heartbeat_max_runtime_seconds: null,
+  alert_email: 'demo@example.com',
+  slack_webhook_url: '',
+  discord_webhook_url: '',
+  alert_sms: '',
+  webhook_url: ''
+}
+
 export function AddHeartbeatMonitorModal({ onAdd }: AddHeartbeatMonitorModalProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [showAdvanced, setShowAdvanced] = useState(false)
-  
-  const [formData, setFormData] = useState<HeartbeatMonitorFormData>({
-    name: '',
-    description: '',
-    heartbeat_interval: 60,
-    alert_email: 'demo@example.com',
-    slack_webhook_url: '',
-    discord_webhook_url: '',
-    alert_sms: '',
-    webhook_url: ''
-  })
+  const [useSchedule, setUseSchedule] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [formData, setFormData] = useState<HeartbeatMonitorFormData>(emptyForm)
+
+  const openModal = () => {
+    setFormData({ ...emptyForm, heartbeat_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC' })
+    setUseSchedule(false)
+    setError(null)
+    setIsOpen(true)
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsSubmitting(true)
+    setError(null)
     
     try {
-      await onAdd(formData)
+      await onAdd({ ...formData, heartbeat_schedule: useSchedule ? formData.heartbeat_schedule : '' })
       setIsOpen(false)
-      // Reset form
-      setFormData({
-        name: '',
-        description: '',
-        heartbeat_interval: 60,
-        alert_email: 'demo@example.com',
-        slack_webhook_url: '',
-        discord_webhook_url: '',
-        alert_sms: '',
-        webhook_url: ''
-      })
       setShowAdvanced(false)
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to add heartbeat monitor:', error)
+      setError(error.message || 'Failed to add heartbeat monitor')
     } finally {
       setIsSubmitting(false)
     }
   }
 
-  const updateField = (field: keyof HeartbeatMonitorFormData, value: string | number) => {
+  const updateField = (field: keyof HeartbeatMonitorFormData, value: string | number | null) => {
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
   return (
     <>
-      <Button onClick={() => setIsOpen(true)} className="gap-2">
+      <Button onClick={openModal} className="gap-2">
         <Heart className="h-4 w-4" />
         Add Heartbeat Monitor
       </Button>
@@ -115,25 +125,90 @@ export function AddHeartbeatMonitorModal({ onAdd }: AddHeartbeatMonitorModalProp
             </div>
 
             <div>
-              <Label htmlFor="interval">Heartbeat Interval *</Label>
-              <Select 
-                value={formData.heartbeat_interval.toString()} 
-                onValueChange={(value) => updateField('heartbeat_interval', parseInt(value))}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select interval" />
-                </SelectTrigger>
-                <SelectContent>
-                  {INTERVAL_OPTIONS.map(option => (
-                    <SelectItem key={option.value} value={option.value.toString()}>
-                      {option.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <p className="text-xs text-muted-foreground mt-1">
-                How often your application should send heartbeats
-              </p>
+              <Label>Expected Schedule *</Label>
+              <div className="flex gap-4 text-sm mt-1 mb-2">
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={!useSchedule} onChange={() => setUseSchedule(false)} />
+                  Fixed interval
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={useSchedule} onChange={() => setUseSchedule(true)} />
+                  Cron schedule
+                </label>
+              </div>
+
+              {useSchedule ? (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Input
+                      id="schedule"
+                      value={formData.heartbeat_schedule}
+                      onChange={(e) => updateField('heartbeat_schedule', e.target.value)}
+                      placeholder="0 3 * * *"
+                      required
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      minute hour day month weekday
+                    </p>
+                  </div>
+                  <div>
+                    <Input
+                      id="timezone"
+                      value={formData.heartbeat_timezone}
+                      onChange={(e) => updateField('heartbeat_timezone', e.target.value)}
+                      placeholder="Europe/Berlin"
+                      required
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">Timezone</p>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <Select 
+                    value={formData.heartbeat_interval.toString()} 
+                    onValueChange={(value) => updateField('heartbeat_interval', parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select interval" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INTERVAL_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value.toString()}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    How often your application should send heartbeats
+                  </p>
+                </>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="grace">Grace Period (minutes)</Label>
+                <Input
+                  id="grace"
+                  type="number"
+                  min="0"
+                  value={formData.heartbeat_grace_seconds === null ? '' : formData.heartbeat_grace_seconds / 60}
+                  onChange={(e) => updateField('heartbeat_grace_seconds', e.target.value === '' ? null : Math.round(Number(e.target.value) * 60))}
+                  placeholder={useSchedule ? '5' : 'Default'}
+                />
+              </div>
+              <div>
+                <Label htmlFor="max_runtime">Max Run Time (minutes)</Label>
+                <Input
+                  id="max_runtime"
+                  type="number"
+                  min="1"
+                  value={formData.heartbeat_max_runtime_seconds === null ? '' : formData.heartbeat_max_runtime_seconds / 60}
+                  onChange={(e) => updateField('heartbeat_max_runtime_seconds', e.target.value === '' ? null : Math.round(Number(e.target.value) * 60))}
+                  placeholder="Grace period"
+                />
+              </div>
             </div>
 
             <div>
@@ -217,13 +292,20 @@ export function AddHeartbeatMonitorModal({ onAdd }: AddHeartbeatMonitorModalProp
           <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
             <h4 className="font-medium text-blue-900 mb-2">How Heartbeat Monitoring Works</h4>
             <ul className="text-sm text-blue-700 space-y-1">
-              <li>• Your application sends a POST request every {formData.heartbeat_interval} seconds</li>
+              <li>• Your application or cron job requests its secret ping URL {useSchedule ? 'on every run of its schedule' : `every ${formData.heartbeat_interval} seconds`}</li>
               <li>• If no heartbeat is received within the grace period, an alert is triggered</li>
-              <li>• Grace period is 50% of interval (minimum 30 seconds)</li>
-              <li>• You'll receive the heartbeat URL after creating the monitor</li>
+              <li>• The default grace period is {useSchedule ? '5 minutes' : '50% of the interval (minimum 30 seconds)'}</li>
+              <li>• Jobs can also ping /start and /success or /fail to record run durations; a job that starts but does not finish within its max run time is alerted on</li>
+              <li>• You'll receive the ping URL after creating the monitor, and can regenerate it at any time</li>
             </ul>
           </div>
 
+          {error && (
+            <div className="p-3 rounded-md text-sm bg-red-50 text-red-800 border border-red-200">
+              {error}
+            </div>
+          )}
+
           {/* Submit Button */}
           <div className="flex justify-end space-x-2 pt-4">
             <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
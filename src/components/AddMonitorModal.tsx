@@ -5,6 +5,8 @@ import { Modal } from '@/components/ui/modal'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Plus, ChevronDown, ChevronRight } from 'lucide-react'
+import { DnsMonitorFields, DEFAULT_DNS_FORM_SETTINGS, parseDnsExpectedValues, type DnsFormSettings } from '@/components/DnsMonitorFields'
+import type { DnsMonitorSettings } from '@/lib/dns-records'
 
 interface MonitorFormData {
   url: string
@@ -12,7 +14,7 @@ interface MonitorFormData {
   alert_email: string
   ssl_enabled: boolean
   domain_enabled: boolean
-  monitor_type: 'http' | 'ping' | 'port'
+  monitor_type: 'http' | 'ping' | 'port' | 'dns'
   request_method: string
   request_headers: string
   auth_type: 'none' | 'basic' | 'bearer' | 'header'
@@ -28,13 +30,14 @@ interface MonitorFormData {
 }
 
 interface AddMonitorModalProps {
-  onAdd: (data: MonitorFormData) => Promise<void>
+  onAdd: (data: MonitorFormData & DnsMonitorSettings) => Promise<void>
 }
 
 export function AddMonitorModal({ onAdd }: AddMonitorModalProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [showAdvanced, setShowAdvanced] = useState(false)
+  const [dnsSettings, setDnsSettings] = useState<DnsFormSettings>(DEFAULT_DNS_FORM_SETTINGS)
   
   const [formData, setFormData] = useState<MonitorFormData>({
     url: '',
@@ -63,7 +66,13 @@ export function AddMonitorModal({ onAdd }: AddMonitorModalProps) {
 
     setIsSubmitting(true)
     try {
-      await onAdd(formData)
+      await onAdd(formData.monitor_type === 'dns' ? {
+        ...formData,
+        ssl_enabled: false,
+        ...dnsSettings,
+        dns_resolver: dnsSettings.dns_resolver.trim() || null,
+        dns_expected_values: parseDnsExpectedValues(dnsSettings.dns_expected_values)
+      } : formData)
       setFormData({
         url: '',
         name: '',
@@ -84,6 +93,7 @@ export function AddMonitorModal({ onAdd }: AddMonitorModalProps) {
         webhook_url: '',
         notification_channels: ['email']
       })
+      setDnsSettings(DEFAULT_DNS_FORM_SETTINGS)
       setIsOpen(false)
       setShowAdvanced(false)
     } catch (error) {
@@ -136,6 +146,7 @@ export function AddMonitorModal({ onAdd }: AddMonitorModalProps) {
               <option value="http">HTTP/HTTPS Website</option>
               <option value="ping">Ping (Server Connectivity)</option>
               <option value="port">Port (Database, Game Server, etc.)</option>
+              <option value="dns">DNS Records</option>
             </select>
           </div>
 
@@ -144,6 +155,7 @@ export function AddMonitorModal({ onAdd }: AddMonitorModalProps) {
             <label htmlFor="url" className="text-sm font-medium block mb-2">
               {formData.monitor_type === 'http' ? 'Website URL' : 
                formData.monitor_type === 'ping' ? 'Hostname or IP' : 
+               formData.monitor_type === 'dns' ? 'Hostname' : 
                'Host Address'}
             </label>
             <Input
@@ -152,6 +164,7 @@ export function AddMonitorModal({ onAdd }: AddMonitorModalProps) {
               placeholder={
                 formData.monitor_type === 'http' ? 'https://example.com' :
                 formData.monitor_type === 'ping' ? 'example.com or 192.168.1.1' :
+                formData.monitor_type === 'dns' ? 'example.com' :
                 'database.example.com'
               }
               value={formData.url}
@@ -178,6 +191,11 @@ export function AddMonitorModal({ onAdd }: AddMonitorModalProps) {
             </div>
           )}
           
+          {/* Record settings for DNS Monitoring */}
+          {formData.monitor_type === 'dns' && (
+            <DnsMonitorFields settings={dnsSettings} onChange={setDnsSettings} />
+          )}
+
           {/* Display Name */}
           <div>
             <label htmlFor="name" className="text-sm font-medium block mb-2">
@@ -0,0 +1,195 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { ApiKey, ApiKeyScope } from '@/lib/api-keys'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { KeyRound, Plus, Trash2, Copy, X } from 'lucide-react'
+
+// Mirrors API_KEY_SCOPES; the api-keys lib is server-only
+const SCOPE_OPTIONS: Array<{ scope: ApiKeyScope; label: string }> = [
+  { scope: 'monitors:read', label: 'Read monitors, checks and SLA' },
+  { scope: 'monitors:write', label: 'Create, edit and delete monitors' },
+  { scope: 'incidents:read', label: 'Read incidents' },
+  { scope: 'incidents:write', label: 'Post incident updates and acknowledge' },
+  { scope: 'status_pages:read', label: 'Read status pages' }
+]
+
+export function ApiKeysManager() {
+  const [keys, setKeys] = useState<ApiKey[]>([])
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['monitors:read'])
+  const [newKey, setNewKey] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchKeys()
+  }, [])
+
+  const fetchKeys = async () => {
+    try {
+      const response = await fetch('/api/api-keys')
+      if (response.ok) setKeys(await response.json())
+    } catch (err) {
+      console.error('Failed to fetch API keys:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope])
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Failed to create API key')
+        return
+      }
+
+      setNewKey(result.key)
+      setCreating(false)
+      setName('')
+      setScopes(['monitors:read'])
+      await fetchKeys()
+    } catch (err) {
+      setError('Network error while creating API key')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const revokeKey = async (key: ApiKey) => {
+    if (!confirm(`Revoke API key "${key.name}"? Scripts using it stop working immediately.`)) return
+    await fetch(`/api/api-keys/${key.id}`, { method: 'DELETE' })
+    await fetchKeys()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            API Keys
+          </CardTitle>
+          {!creating && (
+            <Button size="sm" onClick={() => { setCreating(true); setError(null) }} className="flex items-center gap-1">
+              <Plus className="h-4 w-4" />
+              New Key
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600">
+          Keys for the REST API at <code>/api/v1</code>, sent as <code>Authorization: Bearer &lt;key&gt;</code>.
+          Keys belong to the current workspace.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newKey && (
+          <div className="p-3 text-sm bg-green-50 border border-green-200 rounded-md space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-green-800 font-medium">Copy your new key now. It will not be shown again.</p>
+              <Button variant="ghost" size="icon" onClick={() => setNewKey(null)} className="h-8 w-8">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate text-xs">{newKey}</code>
+              <Button variant="ghost" size="icon" onClick={() => navigator.clipboard.writeText(newKey)} className="h-8 w-8">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {creating && (
+          <form onSubmit={handleSubmit} className="space-y-4 p-4 border rounded-md">
+            <div>
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                placeholder="Deploy pipeline"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {SCOPE_OPTIONS.map(({ scope, label }) => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    disabled={isSubmitting}
+                  />
+                  <code className="text-xs">{scope}</code>
+                  <span className="text-gray-600">{label}</span>
+                </label>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" disabled={isSubmitting}>
+                {isSubmitting ? 'Creating...' : 'Create Key'}
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => setCreating(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-600">Loading API keys...</p>
+        ) : keys.length === 0 ? (
+          <p className="text-sm text-gray-600">No API keys yet.</p>
+        ) : (
+          keys.map(key => (
+            <div key={key.id} className="flex items-start justify-between gap-3 p-3 border rounded-md">
+              <div className="min-w-0 space-y-1">
+                <p className="font-medium truncate">{key.name}</p>
+                <p className="text-xs text-gray-600">
+                  <code>{key.key_prefix}…</code> · created {new Date(key.created_at).toLocaleDateString()} ·{' '}
+                  {key.last_used_at ? `last used ${new Date(key.last_used_at).toLocaleString()}` : 'never used'}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {key.scopes.map(scope => (
+                    <Badge key={scope} variant="outline" className="text-xs">{scope}</Badge>
+                  ))}
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => revokeKey(key)} className="h-8 w-8">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,8 +10,10 @@ interface ConditionalLayoutProps {
 export function ConditionalLayout({ children }: ConditionalLayoutProps) {
   const pathname = usePathname()
   const isAuthPage = pathname?.startsWith('/auth')
+  // Branded status pages carry their own header
+  const isPublicStatusPage = pathname?.startsWith('/s/')
 
-  if (isAuthPage) {
+  if (isAuthPage || isPublicStatusPage) {
     // For auth pages, render children directly without main wrapper
     return <>{children}</>
   }
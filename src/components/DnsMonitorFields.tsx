@@ -0,0 +1,148 @@
+'use client'
+
+import { useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { DNS_RECORD_TYPES, PUBLIC_DNS_RESOLVERS, type DnsMatchMode, type DnsRecordType } from '@/lib/dns-records'
+
+export interface DnsFormSettings {
+  dns_record_type: DnsRecordType
+  dns_resolver: string // '' for the system resolver
+  dns_expected_values: string // one value per line
+  dns_match_mode: DnsMatchMode
+}
+
+export const DEFAULT_DNS_FORM_SETTINGS: DnsFormSettings = {
+  dns_record_type: 'A',
+  dns_resolver: '',
+  dns_expected_values: '',
+  dns_match_mode: 'exact'
+}
+
+const VALUE_PLACEHOLDERS: Record<DnsRecordType, string> = {
+  A: '203.0.113.10',
+  AAAA: '2001:db8::10',
+  CNAME: 'example.netlify.app',
+  MX: '10 mx1.example.com\n20 mx2.example.com',
+  TXT: 'v=spf1 include:_spf.google.com ~all',
+  NS: 'ns1.example-dns.com',
+  CAA: '0 issue "letsencrypt.org"'
+}
+
+/**
+ * Expected values as the API takes them, one per non-empty line
+ */
+export function parseDnsExpectedValues(text: string): string[] {
+  return text
+    .split('\n')
+    .map(value => value.trim())
+    .filter(Boolean)
+}
+
+interface DnsMonitorFieldsProps {
+  settings: DnsFormSettings
+  onChange: (settings: DnsFormSettings) => void
+}
+
+export function DnsMonitorFields({ settings, onChange }: DnsMonitorFieldsProps) {
+  const [customResolver, setCustomResolver] = useState(false)
+  const isPreset = PUBLIC_DNS_RESOLVERS.some(resolver => resolver.address === settings.dns_resolver)
+  const resolverChoice = customResolver || (settings.dns_resolver !== '' && !isPreset)
+    ? 'custom'
+    : settings.dns_resolver || 'system'
+
+  const update = (changes: Partial<DnsFormSettings>) => onChange({ ...settings, ...changes })
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="dns_record_type" className="text-sm font-medium block mb-2">
+            Record Type
+          </label>
+          <select
+            id="dns_record_type"
+            value={settings.dns_record_type}
+            onChange={(e) => update({ dns_record_type: e.target.value as DnsRecordType })}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            {DNS_RECORD_TYPES.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="dns_resolver_choice" className="text-sm font-medium block mb-2">
+            Resolver
+          </label>
+          <select
+            id="dns_resolver_choice"
+            value={resolverChoice}
+            onChange={(e) => {
+              setCustomResolver(e.target.value === 'custom')
+              update({ dns_resolver: e.target.value === 'system' || e.target.value === 'custom' ? '' : e.target.value })
+            }}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            <option value="system">System resolver</option>
+            {PUBLIC_DNS_RESOLVERS.map(resolver => (
+              <option key={resolver.address} value={resolver.address}>{resolver.label}</option>
+            ))}
+            <option value="custom">Custom...</option>
+          </select>
+        </div>
+      </div>
+
+      {resolverChoice === 'custom' && (
+        <div>
+          <label htmlFor="dns_resolver" className="text-sm font-medium block mb-2">
+            Resolver Address
+          </label>
+          <Input
+            id="dns_resolver"
+            type="text"
+            placeholder="10.0.0.53 or 10.0.0.53:5353"
+            value={settings.dns_resolver}
+            onChange={(e) => update({ dns_resolver: e.target.value })}
+            required
+          />
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="dns_expected_values" className="text-sm font-medium block mb-2">
+          Expected Values - Optional
+        </label>
+        <textarea
+          id="dns_expected_values"
+          placeholder={VALUE_PLACEHOLDERS[settings.dns_record_type]}
+          value={settings.dns_expected_values}
+          onChange={(e) => update({ dns_expected_values: e.target.value })}
+          rows={3}
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          One record per line. Without expected values the monitor only fails when the records disappear.
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="dns_match_mode" className="text-sm font-medium block mb-2">
+          Match
+        </label>
+        <select
+          id="dns_match_mode"
+          value={settings.dns_match_mode}
+          onChange={(e) => update({ dns_match_mode: e.target.value as DnsMatchMode })}
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          disabled={parseDnsExpectedValues(settings.dns_expected_values).length === 0}
+        >
+          <option value="exact">Exactly the expected records</option>
+          <option value="any">Any of the expected records</option>
+        </select>
+        <p className="text-xs text-muted-foreground mt-1">
+          Every change to the records is kept in the monitor&apos;s DNS history, and channels subscribed to DNS changes are alerted.
+        </p>
+      </div>
+    </div>
+  )
+}
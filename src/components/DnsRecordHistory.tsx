@@ -0,0 +1,102 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Globe } from 'lucide-react'
+import { diffDnsValues } from '@/lib/dns-records'
+import type { DnsRecordChange } from '@/types'
+
+interface DnsRecordHistoryProps {
+  monitorId: string
+  currentValues?: string[] | null
+  className?: string
+}
+
+export function DnsRecordHistory({ monitorId, currentValues, className }: DnsRecordHistoryProps) {
+  const [changes, setChanges] = useState<DnsRecordChange[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchChanges()
+  }, [monitorId])
+
+  const fetchChanges = async () => {
+    try {
+      const response = await fetch(`/api/monitors/${monitorId}/dns-changes`)
+      if (response.ok) {
+        const data = await response.json()
+        setChanges(data.changes || [])
+      }
+    } catch (err) {
+      console.error('Failed to fetch DNS changes:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          DNS Record History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-sm">
+          <span className="font-medium text-muted-foreground">Current records:</span>
+          {currentValues ? (
+            currentValues.length > 0 ? (
+              <div className="mt-1 space-y-1">
+                {currentValues.map(value => (
+                  <div key={value} className="font-mono text-xs break-all">{value}</div>
+                ))}
+              </div>
+            ) : (
+              <span className="ml-2 text-red-600">No records</span>
+            )
+          ) : (
+            <span className="ml-2">Waiting for the first check</span>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="text-center text-muted-foreground">Loading DNS history...</div>
+        ) : changes.length === 0 ? (
+          <div className="text-center text-sm text-muted-foreground">No record changes seen</div>
+        ) : (
+          <div className="space-y-2">
+            {changes.map(change => {
+              const { added, removed } = diffDnsValues(change.previous_values, change.current_values)
+              return (
+                <div key={change.id} className="border rounded-md p-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">{change.record_type}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(change.changed_at).toLocaleString()}
+                    </span>
+                    {change.current_values.length === 0 && (
+                      <Badge variant="destructive" className="text-xs">Records removed</Badge>
+                    )}
+                    {change.previous_values.length === 0 && (
+                      <Badge variant="success" className="text-xs">Records restored</Badge>
+                    )}
+                  </div>
+                  <div className="mt-2 space-y-1 font-mono text-xs break-all">
+                    {removed.map(value => (
+                      <div key={`-${value}`} className="text-red-700">- {value}</div>
+                    ))}
+                    {added.map(value => (
+                      <div key={`+${value}`} className="text-green-700">+ {value}</div>
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,7 +5,13 @@ import { Monitor } from '@/types'
 import { Modal } from '@/components/ui/modal'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { ChevronDown, ChevronRight, Send, Loader2 } from 'lucide-react'
+import { ChevronDown, ChevronRight, Send, Loader2, Plus, Trash2 } from 'lucide-react'
+import { CHECK_INTERVAL_OPTIONS, DEFAULT_CHECK_INTERVAL_SECONDS, getCheckIntervalSeconds } from '@/lib/scheduler'
+import { formatCheckInterval } from '@/lib/utils'
+import { ASSERTION_TYPES, MAX_REGEX_PATTERN_LENGTH, getMonitorAssertions, type ResponseAssertion, type ResponseAssertionType } from '@/lib/assertions'
+import type { DnsMatchMode, DnsRecordType } from '@/lib/dns-records'
+import { DnsMonitorFields, DEFAULT_DNS_FORM_SETTINGS, parseDnsExpectedValues, type DnsFormSettings } from '@/components/DnsMonitorFields'
+import { DEFAULT_DOMAIN_ALERT_DAYS } from '@/lib/domain-expiry'
 
 interface EditMonitorDialogProps {
   monitor: Monitor | null
@@ -16,7 +22,7 @@ interface EditMonitorDialogProps {
     alert_email: string
     ssl_enabled: boolean
     domain_enabled: boolean
-    monitor_type: 'http' | 'ping' | 'port' | 'heartbeat'
+    monitor_type: 'http' | 'ping' | 'port' | 'dns' | 'heartbeat'
     request_method: string
     request_headers: string
     auth_type: 'none' | 'basic' | 'bearer' | 'header'
@@ -30,6 +36,21 @@ interface EditMonitorDialogProps {
     webhook_url: string
     notification_channels: string[]
     status_page_public: boolean
+    check_interval_seconds: number
+    alert_threshold: number
+    failure_locations_threshold: number | null
+    confirmation_recheck: boolean
+    keyword_check: string
+    expected_status_codes: number[]
+    assertions: ResponseAssertion[]
+    degraded_threshold_ms: number | null
+    degraded_percentile: number
+    tags: string[]
+    dns_record_type: DnsRecordType
+    dns_resolver: string | null
+    dns_expected_values: string[]
+    dns_match_mode: DnsMatchMode
+    domain_alert_days: number[] | null
   }) => Promise<void>
 }
 
@@ -38,12 +59,16 @@ export function EditMonitorDialog({ monitor, isOpen, onClose, onSave }: EditMoni
   const [isSendingTest, setIsSendingTest] = useState(false)
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null)
   const [showAdvanced, setShowAdvanced] = useState(false)
+  const [statusCodesText, setStatusCodesText] = useState('')
+  const [tagsText, setTagsText] = useState('')
+  const [domainAlertDaysText, setDomainAlertDaysText] = useState('')
+  const [dnsSettings, setDnsSettings] = useState<DnsFormSettings>(DEFAULT_DNS_FORM_SETTINGS)
   const [formData, setFormData] = useState({
     name: '',
     alert_email: '',
     ssl_enabled: true,
     domain_enabled: true,
-    monitor_type: 'http' as 'http' | 'ping' | 'port' | 'heartbeat',
+    monitor_type: 'http' as 'http' | 'ping' | 'port' | 'dns' | 'heartbeat',
     request_method: 'GET',
     request_headers: '',
     auth_type: 'none' as 'none' | 'basic' | 'bearer' | 'header',
@@ -56,7 +81,16 @@ export function EditMonitorDialog({ monitor, isOpen, onClose, onSave }: EditMoni
     alert_sms: '',
     webhook_url: '',
     notification_channels: ['email'] as string[],
-    status_page_public: true
+    status_page_public: true,
+    check_interval_seconds: DEFAULT_CHECK_INTERVAL_SECONDS,
+    alert_threshold: 1,
+    failure_locations_threshold: null as number | null,
+    confirmation_recheck: true,
+    keyword_check: '',
+    expected_status_codes: [] as number[],
+    assertions: [] as ResponseAssertion[],
+    degraded_threshold_ms: null as number | null,
+    degraded_percentile: 50
   })
 
   useEffect(() => {
@@ -66,7 +100,7 @@ export function EditMonitorDialog({ monitor, isOpen, onClose, onSave }: EditMoni
         alert_email: monitor.alert_email || '',
         ssl_enabled: monitor.ssl_enabled !== false,
         domain_enabled: monitor.domain_enabled !== false,
-        monitor_type: (monitor.monitor_type || 'http') as 'http' | 'ping' | 'port' | 'heartbeat',
+        monitor_type: monitor.monitor_type || 'http',
         request_method: monitor.request_method || 'GET',
         request_headers: monitor.request_headers || '',
         auth_type: monitor.auth_type || 'none',
@@ -79,18 +113,84 @@ export function EditMonitorDialog({ monitor, isOpen, onClose, onSave }: EditMoni
         alert_sms: monitor.alert_sms || '',
         webhook_url: monitor.webhook_url || '',
         notification_channels: monitor.notification_channels || ['email'],
-        status_page_public: monitor.status_page_public !== false
+        status_page_public: monitor.status_page_public !== false,
+        check_interval_seconds: getCheckIntervalSeconds(monitor),
+        alert_threshold: monitor.alert_threshold || 1,
+        failure_locations_threshold: monitor.failure_locations_threshold || null,
+        confirmation_recheck: monitor.confirmation_recheck !== false,
+        // The legacy keyword column is edited as a regular assertion
+        keyword_check: '',
+        expected_status_codes: monitor.expected_status_codes || [],
+        assertions: getMonitorAssertions(monitor),
+        degraded_threshold_ms: monitor.degraded_threshold_ms || null,
+        degraded_percentile: monitor.degraded_percentile || 50
+      })
+      setStatusCodesText((monitor.expected_status_codes || []).join(', '))
+      setTagsText((monitor.tags || []).join(', '))
+      setDomainAlertDaysText((monitor.domain_alert_days || []).join(', '))
+      setDnsSettings({
+        dns_record_type: monitor.dns_record_type || 'A',
+        dns_resolver: monitor.dns_resolver || '',
+        dns_expected_values: (monitor.dns_expected_values || []).join('\n'),
+        dns_match_mode: monitor.dns_match_mode || 'exact'
       })
     }
   }, [monitor])
 
+  const createAssertion = (type: ResponseAssertionType): ResponseAssertion => {
+    switch (type) {
+      case 'regex':
+        return { type, pattern: '' }
+      case 'json_path_equals':
+      case 'json_path_contains':
+        return { type, path: '$.', value: '' }
+      default:
+        return { type, value: '' }
+    }
+  }
+
+  const updateAssertion = (index: number, assertion: ResponseAssertion) => {
+    setFormData(prev => ({
+      ...prev,
+      assertions: prev.assertions.map((existing, i) => i === index ? assertion : existing)
+    }))
+  }
+
+  const removeAssertion = (index: number) => {
+    setFormData(prev => ({ ...prev, assertions: prev.assertions.filter((_, i) => i !== index) }))
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!monitor || !formData.name) return
 
+    const expectedStatusCodes = statusCodesText
+      .split(',')
+      .map(code => parseInt(code.trim(), 10))
+      .filter(code => Number.isInteger(code))
+
+    const tags = tagsText
+      .split(',')
+      .map(tag => tag.trim().toLowerCase())
+      .filter((tag, index, all) => tag && all.indexOf(tag) === index)
+
+    // Left blank, the default thresholds apply
+    const domainAlertDays = domainAlertDaysText
+      .split(',')
+      .map(day => parseInt(day.trim(), 10))
+      .filter((day, index, all) => Number.isInteger(day) && all.indexOf(day) === index)
+
     setIsSubmitting(true)
     try {
-      await onSave(monitor.id, formData)
+      await onSave(monitor.id, {
+        ...formData,
+        expected_status_codes: expectedStatusCodes,
+        tags,
+        domain_alert_days: domainAlertDays.length > 0 ? domainAlertDays : null,
+        ...dnsSettings,
+        dns_resolver: dnsSettings.dns_resolver.trim() || null,
+        dns_expected_values: parseDnsExpectedValues(dnsSettings.dns_expected_values)
+      })
       onClose()
     } catch (error) {
       console.error('Failed to update monitor:', error)
@@ -169,6 +269,7 @@ export function EditMonitorDialog({ monitor, isOpen, onClose, onSave }: EditMoni
             <option value="http">HTTP/HTTPS Website</option>
             <option value="ping">Ping (Server Connectivity)</option>
             <option value="port">Port (Database, Game Server, etc.)</option>
+            <option value="dns">DNS Records</option>
           </select>
           <p className="text-xs text-muted-foreground mt-1">Monitor type cannot be changed after creation</p>
         </div>
@@ -178,6 +279,7 @@ export function EditMonitorDialog({ monitor, isOpen, onClose, onSave }: EditMoni
           <label className="text-sm font-medium block mb-2">
             {formData.monitor_type === 'http' ? 'Website URL' : 
              formData.monitor_type === 'ping' ? 'Hostname or IP' : 
+             formData.monitor_type === 'dns' ? 'Hostname' : 
              'Host Address'} (read-only)
           </label>
           <Input
@@ -204,6 +306,11 @@ export function EditMonitorDialog({ monitor, isOpen, onClose, onSave }: EditMoni
             />
           </div>
         )}
+
+        {/* Record settings for DNS Monitoring */}
+        {formData.monitor_type === 'dns' && (
+          <DnsMonitorFields settings={dnsSettings} onChange={setDnsSettings} />
+        )}
         
         <div>
           <label htmlFor="edit-name" className="text-sm font-medium block mb-2">
@@ -232,6 +339,124 @@ export function EditMonitorDialog({ monitor, isOpen, onClose, onSave }: EditMoni
           />
         </div>
 
+        <div>
+          <label htmlFor="edit-tags" className="text-sm font-medium block mb-2">
+            Tags
+          </label>
+          <Input
+            id="edit-tags"
+            placeholder="production, api"
+            value={tagsText}
+            onChange={(e) => setTagsText(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Comma-separated. Notification channels routed to a tag alert for every monitor carrying it.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="edit-check-interval" className="text-sm font-medium block mb-2">
+            Check Interval
+          </label>
+          <select
+            id="edit-check-interval"
+            value={formData.check_interval_seconds}
+            onChange={(e) => setFormData(prev => ({ ...prev, check_interval_seconds: parseInt(e.target.value, 10) }))}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            {CHECK_INTERVAL_OPTIONS.map(seconds => (
+              <option key={seconds} value={seconds}>Every {formatCheckInterval(seconds)}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Failure confirmation */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="edit-alert-threshold" className="text-sm font-medium block mb-2">
+              Alert After
+            </label>
+            <select
+              id="edit-alert-threshold"
+              value={formData.alert_threshold}
+              onChange={(e) => setFormData(prev => ({ ...prev, alert_threshold: parseInt(e.target.value, 10) }))}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              {[1, 2, 3, 4, 5].map(count => (
+                <option key={count} value={count}>
+                  {count === 1 ? 'First failed check' : `${count} failed checks in a row`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="edit-failure-locations" className="text-sm font-medium block mb-2">
+              Failing Locations Required
+            </label>
+            <Input
+              id="edit-failure-locations"
+              type="number"
+              min={1}
+              placeholder="Majority"
+              value={formData.failure_locations_threshold ?? ''}
+              onChange={(e) => setFormData(prev => ({ 
+                ...prev, 
+                failure_locations_threshold: e.target.value ? parseInt(e.target.value, 10) : null 
+              }))}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <input
+            id="edit-confirmation-recheck"
+            type="checkbox"
+            checked={formData.confirmation_recheck}
+            onChange={(e) => setFormData(prev => ({ ...prev, confirmation_recheck: e.target.checked }))}
+            className="rounded border-gray-300"
+          />
+          <label htmlFor="edit-confirmation-recheck" className="text-sm font-medium">
+            Recheck immediately before alerting
+          </label>
+        </div>
+
+        {/* Response time threshold */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="edit-degraded-threshold" className="text-sm font-medium block mb-2">
+              Degraded Above (ms)
+            </label>
+            <Input
+              id="edit-degraded-threshold"
+              type="number"
+              min={1}
+              placeholder="Disabled"
+              value={formData.degraded_threshold_ms ?? ''}
+              onChange={(e) => setFormData(prev => ({ 
+                ...prev, 
+                degraded_threshold_ms: e.target.value ? parseInt(e.target.value, 10) : null 
+              }))}
+            />
+          </div>
+          <div>
+            <label htmlFor="edit-degraded-percentile" className="text-sm font-medium block mb-2">
+              Measured At
+            </label>
+            <select
+              id="edit-degraded-percentile"
+              value={formData.degraded_percentile}
+              onChange={(e) => setFormData(prev => ({ ...prev, degraded_percentile: parseInt(e.target.value, 10) }))}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              disabled={!formData.degraded_threshold_ms}
+            >
+              <option value={50}>Median location (p50)</option>
+              <option value={75}>p75 of locations</option>
+              <option value={90}>p90 of locations</option>
+              <option value={100}>Slowest location</option>
+            </select>
+          </div>
+        </div>
+
         {/* SSL/Domain Options (only for HTTP) */}
         {formData.monitor_type === 'http' && (
           <div className="space-y-3">
@@ -260,6 +485,24 @@ export function EditMonitorDialog({ monitor, isOpen, onClose, onSave }: EditMoni
                 Monitor Domain Expiration
               </label>
             </div>
+
+            {formData.domain_enabled && (
+              <div className="pl-6">
+                <label htmlFor="edit-domain-alert-days" className="text-sm font-medium block mb-2">
+                  Domain Alert Days
+                </label>
+                <Input
+                  id="edit-domain-alert-days"
+                  type="text"
+                  placeholder={DEFAULT_DOMAIN_ALERT_DAYS.join(', ')}
+                  value={domainAlertDaysText}
+                  onChange={(e) => setDomainAlertDaysText(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Days before expiry to alert at, once each. Holds and redemption are alerted as soon as they appear.
+                </p>
+              </div>
+            )}
           </div>
         )}
 
@@ -368,6 +611,95 @@ export function EditMonitorDialog({ monitor, isOpen, onClose, onSave }: EditMoni
                     className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
                   />
                 </div>
+
+                {/* Response Checks */}
+                <div className="space-y-3">
+                  <h4 className="font-medium text-sm">Response Checks (Optional)</h4>
+                  <div>
+                    <label htmlFor="expected_status_codes" className="text-sm font-medium block mb-2">
+                      Expected Status Codes
+                    </label>
+                    <Input
+                      id="expected_status_codes"
+                      type="text"
+                      placeholder="Any 2xx (e.g. 200, 204, 301)"
+                      value={statusCodesText}
+                      onChange={(e) => setStatusCodesText(e.target.value)}
+                    />
+                  </div>
+
+                  {formData.assertions.map((assertion, index) => (
+                    <div key={index} className="flex gap-2 items-start">
+                      <select
+                        value={assertion.type}
+                        onChange={(e) => updateAssertion(index, createAssertion(e.target.value as ResponseAssertionType))}
+                        className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      >
+                        {ASSERTION_TYPES.map(option => (
+                          <option key={option.type} value={option.type}>{option.label}</option>
+                        ))}
+                      </select>
+
+                      {assertion.type === 'regex' ? (
+                        <Input
+                          type="text"
+                          placeholder="status:\s*ok"
+                          maxLength={MAX_REGEX_PATTERN_LENGTH}
+                          value={assertion.pattern}
+                          onChange={(e) => updateAssertion(index, { ...assertion, pattern: e.target.value })}
+                        />
+                      ) : assertion.type === 'json_path_equals' || assertion.type === 'json_path_contains' ? (
+                        <>
+                          <Input
+                            type="text"
+                            placeholder="$.db"
+                            value={assertion.path}
+                            onChange={(e) => updateAssertion(index, { ...assertion, path: e.target.value })}
+                          />
+                          <Input
+                            type="text"
+                            placeholder="up"
+                            value={String(assertion.value ?? '')}
+                            onChange={(e) => updateAssertion(index, { ...assertion, value: e.target.value })}
+                          />
+                        </>
+                      ) : (
+                        <Input
+                          type="text"
+                          placeholder="Keyword"
+                          value={assertion.value}
+                          onChange={(e) => updateAssertion(index, { ...assertion, value: e.target.value })}
+                        />
+                      )}
+
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeAssertion(index)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFormData(prev => ({ 
+                      ...prev, 
+                      assertions: [...prev.assertions, createAssertion('keyword_present')] 
+                    }))}
+                    className="flex items-center gap-2"
+                  >
+                    <Plus className="h-3 w-3" />
+                    Add Check
+                  </Button>
+                  <p className="text-xs text-muted-foreground">
+                    The monitor is marked down when any check fails, even on a 2xx response.
+                  </p>
+                </div>
               </>
             )}
 
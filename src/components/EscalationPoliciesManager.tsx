@@ -0,0 +1,326 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { EscalationPolicy } from '@/lib/escalation'
+import type { NotificationChannel } from '@/lib/notification-channels'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Siren, Plus, Pencil, Trash2, X } from 'lucide-react'
+
+interface StepForm {
+  delay_minutes: string
+  channel_ids: string[]
+}
+
+interface PolicyForm {
+  name: string
+  steps: StepForm[]
+  repeat_interval_minutes: string
+  monitor_ids: string[]
+}
+
+const EMPTY_FORM: PolicyForm = {
+  name: '',
+  steps: [{ delay_minutes: '0', channel_ids: [] }],
+  repeat_interval_minutes: '',
+  monitor_ids: []
+}
+
+export function EscalationPoliciesManager() {
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([])
+  const [channels, setChannels] = useState<NotificationChannel[]>([])
+  const [monitors, setMonitors] = useState<Array<{ id: string; name: string }>>([])
+  const [loading, setLoading] = useState(true)
+  // Policy being edited: an ID, 'new', or null when the form is closed
+  const [editing, setEditing] = useState<string | null>(null)
+  const [form, setForm] = useState<PolicyForm>(EMPTY_FORM)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchPolicies()
+    fetchChannels()
+    fetchMonitors()
+  }, [])
+
+  const fetchPolicies = async () => {
+    try {
+      const response = await fetch('/api/escalation-policies')
+      if (response.ok) setPolicies(await response.json())
+    } catch (err) {
+      console.error('Failed to fetch escalation policies:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchChannels = async () => {
+    try {
+      const response = await fetch('/api/notification-channels')
+      if (response.ok) setChannels(await response.json())
+    } catch (err) {
+      console.error('Failed to fetch notification channels:', err)
+    }
+  }
+
+  const fetchMonitors = async () => {
+    try {
+      const response = await fetch('/api/monitors')
+      if (response.ok) setMonitors(await response.json())
+    } catch (err) {
+      console.error('Failed to fetch monitors:', err)
+    }
+  }
+
+  const openForm = (policy?: EscalationPolicy) => {
+    setForm(policy ? {
+      name: policy.name,
+      steps: policy.steps.map(step => ({ delay_minutes: String(step.delay_minutes), channel_ids: step.channel_ids })),
+      repeat_interval_minutes: policy.repeat_interval_minutes ? String(policy.repeat_interval_minutes) : '',
+      monitor_ids: policy.monitor_ids
+    } : EMPTY_FORM)
+    setEditing(policy ? policy.id : 'new')
+    setError(null)
+  }
+
+  const toggle = <T,>(values: T[], value: T): T[] =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+
+  const updateStep = (index: number, update: Partial<StepForm>) => {
+    setForm(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => i === index ? { ...step, ...update } : step)
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(
+        editing === 'new' ? '/api/escalation-policies' : `/api/escalation-policies/${editing}`,
+        {
+          method: editing === 'new' ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: form.name,
+            steps: form.steps.map(step => ({
+              delay_minutes: Number(step.delay_minutes),
+              channel_ids: step.channel_ids
+            })),
+            repeat_interval_minutes: form.repeat_interval_minutes ? Number(form.repeat_interval_minutes) : null,
+            monitor_ids: form.monitor_ids
+          })
+        }
+      )
+
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Failed to save escalation policy')
+        return
+      }
+
+      setEditing(null)
+      await fetchPolicies()
+    } catch (err) {
+      setError('Network error while saving escalation policy')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const deletePolicy = async (policy: EscalationPolicy) => {
+    if (!confirm(`Delete escalation policy "${policy.name}"? Its monitors stop escalating.`)) return
+    await fetch(`/api/escalation-policies/${policy.id}`, { method: 'DELETE' })
+    await fetchPolicies()
+  }
+
+  const channelName = (id: string) => channels.find(channel => channel.id === id)?.name || 'Unknown channel'
+  const monitorName = (id: string) => monitors.find(monitor => monitor.id === id)?.name || 'Unknown monitor'
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Siren className="h-5 w-5" />
+            Escalation Policies
+          </CardTitle>
+          {!editing && (
+            <Button size="sm" onClick={() => openForm()} className="flex items-center gap-1">
+              <Plus className="h-4 w-4" />
+              New Policy
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600">
+          When a monitor goes down, notify each step&apos;s channels in turn until someone acknowledges the incident
+          from the dashboard or an alert&apos;s acknowledge link.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editing && (
+          <form onSubmit={handleSubmit} className="space-y-4 p-4 border rounded-md">
+            <div>
+              <Label htmlFor="policy-name">Name</Label>
+              <Input
+                id="policy-name"
+                placeholder="Production on-call"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+
+            {channels.length === 0 && (
+              <p className="text-sm text-gray-600">Create a notification channel first; steps notify channels.</p>
+            )}
+
+            {form.steps.map((step, index) => (
+              <div key={index} className="space-y-2 p-3 border rounded-md">
+                <div className="flex items-center justify-between">
+                  <Label>Step {index + 1}</Label>
+                  {form.steps.length > 1 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setForm(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }))}
+                      className="h-6 w-6"
+                      disabled={isSubmitting}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <span>After</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-24"
+                    value={step.delay_minutes}
+                    onChange={(e) => updateStep(index, { delay_minutes: e.target.value })}
+                    disabled={isSubmitting}
+                    required
+                  />
+                  <span>{index === 0 ? 'minutes down, notify:' : 'more minutes unacknowledged, notify:'}</span>
+                </div>
+                <div className="flex flex-wrap gap-4">
+                  {channels.map(channel => (
+                    <label key={channel.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={step.channel_ids.includes(channel.id)}
+                        onChange={() => updateStep(index, { channel_ids: toggle(step.channel_ids, channel.id) })}
+                        disabled={isSubmitting}
+                      />
+                      {channel.name}
+                      <span className="text-xs text-gray-500">({channel.type})</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setForm(prev => ({ ...prev, steps: [...prev.steps, { delay_minutes: '15', channel_ids: [] }] }))}
+              disabled={isSubmitting}
+            >
+              Add Step
+            </Button>
+
+            <div>
+              <Label htmlFor="policy-repeat">Repeat last step every (minutes)</Label>
+              <Input
+                id="policy-repeat"
+                type="number"
+                min={5}
+                placeholder="No reminders"
+                value={form.repeat_interval_minutes}
+                onChange={(e) => setForm(prev => ({ ...prev, repeat_interval_minutes: e.target.value }))}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            {monitors.length > 0 && (
+              <div className="space-y-2">
+                <Label>Monitors</Label>
+                <div className="max-h-48 overflow-y-auto space-y-1">
+                  {monitors.map(monitor => (
+                    <label key={monitor.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={form.monitor_ids.includes(monitor.id)}
+                        onChange={() => setForm(prev => ({ ...prev, monitor_ids: toggle(prev.monitor_ids, monitor.id) }))}
+                        disabled={isSubmitting}
+                      />
+                      {monitor.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : editing === 'new' ? 'Create Policy' : 'Save Policy'}
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => setEditing(null)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-600">Loading escalation policies...</p>
+        ) : policies.length === 0 ? (
+          <p className="text-sm text-gray-600">No escalation policies yet.</p>
+        ) : (
+          policies.map(policy => (
+            <div key={policy.id} className="flex items-start justify-between gap-3 p-3 border rounded-md">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium truncate">{policy.name}</p>
+                  {policy.repeat_interval_minutes && (
+                    <Badge variant="outline" className="text-xs">Repeats every {policy.repeat_interval_minutes}m</Badge>
+                  )}
+                </div>
+                <ol className="text-xs text-gray-600 list-decimal list-inside">
+                  {policy.steps.map((step, index) => (
+                    <li key={index}>
+                      +{step.delay_minutes}m: {step.channel_ids.map(channelName).join(', ')}
+                    </li>
+                  ))}
+                </ol>
+                <p className="text-xs text-gray-600">
+                  {policy.monitor_ids.length === 0 ? 'Not applied to any monitor' : policy.monitor_ids.map(monitorName).join(', ')}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => openForm(policy)} className="h-8 w-8">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => deletePolicy(policy)} className="h-8 w-8">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
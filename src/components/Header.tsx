@@ -5,6 +5,7 @@ import Link from 'next/link'
 import { useRouter, usePathname } from 'next/navigation'
 import { useAuth } from '@/contexts/AuthContext'
 import { Button } from '@/components/ui/button'
+import { TeamSwitcher } from '@/components/TeamSwitcher'
 import { getTrialDaysRemaining, hasActiveSubscription } from '@/lib/auth'
 import { 
   Shield, 
@@ -84,6 +85,9 @@ export function Header() {
             
             {user ? (
               <div className="flex items-center gap-3">
+                {/* Workspace */}
+                <TeamSwitcher />
+
                 {/* Trial/Subscription Status */}
                 {user.subscription_status === 'trial' && (
                   <div className="flex items-center gap-1 px-2 py-1 bg-yellow-100 text-yellow-800 rounded-md text-xs">
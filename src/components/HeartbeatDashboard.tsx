@@ -4,13 +4,19 @@ import { useState, useEffect } from 'react'
 import { Monitor, UptimeStats } from '@/types'
 import { HeartbeatMonitorCard } from '@/components/HeartbeatMonitorCard'
 import { AddHeartbeatMonitorModal } from '@/components/AddHeartbeatMonitorModal'
+import { HeartbeatRunsChart } from '@/components/HeartbeatRunsChart'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { LoadingState } from '@/components/ui/loader'
-import { Heart } from 'lucide-react'
+import { Heart, Timer } from 'lucide-react'
 
 interface HeartbeatMonitorFormData {
   name: string
   description: string
   heartbeat_interval: number
+  heartbeat_schedule: string
+  heartbeat_timezone: string
+  heartbeat_grace_seconds: number | null
+  heartbeat_max_runtime_seconds: number | null
   alert_email: string
   slack_webhook_url: string
   discord_webhook_url: string
@@ -22,6 +28,7 @@ export function HeartbeatDashboard() {
   const [heartbeatMonitors, setHeartbeatMonitors] = useState<Monitor[]>([])
   const [stats, setStats] = useState<Record<string, UptimeStats>>({})
   const [loading, setLoading] = useState(true)
+  const [runsMonitorId, setRunsMonitorId] = useState<string | null>(null)
 
   const fetchHeartbeatMonitors = async () => {
     try {
@@ -59,7 +66,10 @@ export function HeartbeatDashboard() {
       body: JSON.stringify(data)
     })
     
-    if (!response.ok) throw new Error('Failed to add heartbeat monitor')
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}))
+      throw new Error(result.error || 'Failed to add heartbeat monitor')
+    }
     
     await fetchHeartbeatMonitors()
   }
@@ -108,17 +118,43 @@ export function HeartbeatDashboard() {
       </div>
 
       {heartbeatMonitors.length > 0 ? (
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {heartbeatMonitors.map((monitor) => (
-            <HeartbeatMonitorCard
-              key={monitor.id}
-              monitor={monitor}
-              stats={stats[monitor.id]}
-              onDelete={handleDeleteHeartbeatMonitor}
-              onEdit={handleEditHeartbeatMonitor}
-            />
-          ))}
-        </div>
+        <>
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {heartbeatMonitors.map((monitor) => (
+              <HeartbeatMonitorCard
+                key={monitor.id}
+                monitor={monitor}
+                stats={stats[monitor.id]}
+                onDelete={handleDeleteHeartbeatMonitor}
+                onEdit={handleEditHeartbeatMonitor}
+              />
+            ))}
+          </div>
+
+          {/* Job run durations from /start and /success or /fail pings */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Timer className="h-5 w-5" />
+                  Job Run Durations
+                </CardTitle>
+                <select
+                  value={runsMonitorId || heartbeatMonitors[0].id}
+                  onChange={(e) => setRunsMonitorId(e.target.value)}
+                  className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                >
+                  {heartbeatMonitors.map(monitor => (
+                    <option key={monitor.id} value={monitor.id}>{monitor.name}</option>
+                  ))}
+                </select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <HeartbeatRunsChart monitorId={runsMonitorId || heartbeatMonitors[0].id} />
+            </CardContent>
+          </Card>
+        </>
       ) : (
         <div className="text-center py-12 border-2 border-dashed border-gray-200 rounded-lg">
           <Heart className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -8,7 +8,8 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { StatusIndicator } from '@/components/StatusIndicator'
 import { formatUptime, formatDuration } from '@/lib/utils'
-import { Trash2, Heart, Clock, Copy, Code2, Settings, Activity } from 'lucide-react'
+import { evaluateHeartbeat, describeHeartbeatSchedule } from '@/lib/heartbeat-schedule'
+import { Trash2, Heart, Clock, Copy, Code2, Settings, Activity, RefreshCw } from 'lucide-react'
 
 interface HeartbeatMonitorCardProps {
   monitor: Monitor
@@ -21,6 +22,8 @@ export function HeartbeatMonitorCard({ monitor, stats, onDelete, onEdit }: Heart
   const router = useRouter()
   const [isDeleting, setIsDeleting] = useState(false)
   const [showInstructions, setShowInstructions] = useState(false)
+  const [heartbeatToken, setHeartbeatToken] = useState(monitor.heartbeat_token || null)
+  const [isRegenerating, setIsRegenerating] = useState(false)
 
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this heartbeat monitor?')) return
@@ -47,7 +50,28 @@ export function HeartbeatMonitorCard({ monitor, stats, onDelete, onEdit }: Heart
 
   const getHeartbeatUrl = () => {
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || window.location.origin
-    return `${baseUrl}/api/monitors/${monitor.id}/heartbeat`
+    return `${baseUrl}/api/ping/${heartbeatToken}`
+  }
+
+  const getJobRunExample = () => {
+    const url = getHeartbeatUrl()
+    return `curl -fsS -m 10 ${url}/start && ./job.sh && curl -fsS -m 10 ${url}/success || curl -fsS -m 10 ${url}/fail`
+  }
+
+  const handleRegenerateToken = async () => {
+    if (heartbeatToken && !confirm('Regenerate the ping URL? The current URL will stop working immediately.')) return
+
+    setIsRegenerating(true)
+    try {
+      const response = await fetch(`/api/monitors/${monitor.id}/heartbeat/token`, { method: 'POST' })
+      if (!response.ok) throw new Error('Failed to regenerate ping token')
+      const data = await response.json()
+      setHeartbeatToken(data.heartbeat_token)
+    } catch (error) {
+      console.error('Failed to regenerate ping token:', error)
+    } finally {
+      setIsRegenerating(false)
+    }
   }
 
   const copyToClipboard = async (text: string) => {
@@ -66,10 +90,8 @@ export function HeartbeatMonitorCard({ monitor, stats, onDelete, onEdit }: Heart
     const lastHeartbeat = new Date(monitor.last_heartbeat)
     const now = new Date()
     const secondsAgo = Math.floor((now.getTime() - lastHeartbeat.getTime()) / 1000)
-    const expectedInterval = monitor.heartbeat_interval || 60
-    const gracePeriod = Math.max(30, expectedInterval * 0.5)
 
-    if (secondsAgo <= expectedInterval + gracePeriod) {
+    if (!evaluateHeartbeat(monitor, now).overdue) {
       return { 
         text: `${formatDuration(secondsAgo)} ago`, 
         color: 'text-green-600' 
@@ -95,7 +117,7 @@ export function HeartbeatMonitorCard({ monitor, stats, onDelete, onEdit }: Heart
               <span className="truncate">{monitor.name}</span>
             </CardTitle>
             <p className="text-sm text-muted-foreground mt-1">
-              Heartbeat Monitor • Expected every {monitor.heartbeat_interval || 60}s
+              Heartbeat Monitor • Expected {describeHeartbeatSchedule(monitor)}
             </p>
           </div>
           <div className="flex items-center gap-1 ml-4">
@@ -189,61 +211,113 @@ export function HeartbeatMonitorCard({ monitor, stats, onDelete, onEdit }: Heart
             
             {showInstructions && (
               <div className="mt-3 space-y-3 text-sm">
-                <div>
-                  <span className="font-medium">Heartbeat URL:</span>
-                  <div className="flex items-center gap-1 mt-1">
-                    <code className="bg-muted px-2 py-1 rounded text-xs flex-1 break-all">
-                      {getHeartbeatUrl()}
-                    </code>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => copyToClipboard(getHeartbeatUrl())}
-                      className="h-6 w-6 p-0"
-                    >
-                      <Copy className="h-3 w-3" />
-                    </Button>
-                  </div>
-                </div>
-                
-                <div>
-                  <span className="font-medium">HTTP Method:</span>
-                  <code className="bg-muted px-2 py-1 rounded text-xs ml-2">POST</code>
-                </div>
-                
-                <div>
-                  <span className="font-medium">cURL Example:</span>
-                  <div className="flex items-center gap-1 mt-1">
-                    <code className="bg-muted px-2 py-1 rounded text-xs flex-1 break-all">
-                      {`curl -X POST ${getHeartbeatUrl()} -H "Content-Type: application/json" -d '{"status": "up"}'`}
-                    </code>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => copyToClipboard(`curl -X POST ${getHeartbeatUrl()} -H "Content-Type: application/json" -d '{"status": "up"}'`)}
-                      className="h-6 w-6 p-0"
-                    >
-                      <Copy className="h-3 w-3" />
-                    </Button>
-                  </div>
-                </div>
-                
-                <div>
-                  <span className="font-medium">Request Body (JSON):</span>
-                  <div className="flex items-center gap-1 mt-1">
-                    <code className="bg-muted px-2 py-1 rounded text-xs flex-1">
-                      {`{"status": "up", "message": "optional", "response_time": 100}`}
-                    </code>
+                {heartbeatToken ? (
+                  <>
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">Ping URL:</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={handleRegenerateToken}
+                          disabled={isRegenerating}
+                          className="h-6 text-xs flex items-center gap-1"
+                        >
+                          <RefreshCw className={`h-3 w-3 ${isRegenerating ? 'animate-spin' : ''}`} />
+                          Regenerate
+                        </Button>
+                      </div>
+                      <div className="flex items-center gap-1 mt-1">
+                        <code className="bg-muted px-2 py-1 rounded text-xs flex-1 break-all">
+                          {getHeartbeatUrl()}
+                        </code>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => copyToClipboard(getHeartbeatUrl())}
+                          className="h-6 w-6 p-0"
+                        >
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Keep this URL secret - anyone who has it can send heartbeats.
+                      </p>
+                    </div>
+
+                    <div>
+                      <span className="font-medium">HTTP Method:</span>
+                      <code className="bg-muted px-2 py-1 rounded text-xs ml-2">GET, HEAD or POST</code>
+                    </div>
+
+                    <div>
+                      <span className="font-medium">Cron Example:</span>
+                      <div className="flex items-center gap-1 mt-1">
+                        <code className="bg-muted px-2 py-1 rounded text-xs flex-1 break-all">
+                          {`curl -fsS -m 10 --retry 3 ${getHeartbeatUrl()}`}
+                        </code>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => copyToClipboard(`curl -fsS -m 10 --retry 3 ${getHeartbeatUrl()}`)}
+                          className="h-6 w-6 p-0"
+                        >
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div>
+                      <span className="font-medium">Job Run Example:</span>
+                      <div className="flex items-center gap-1 mt-1">
+                        <code className="bg-muted px-2 py-1 rounded text-xs flex-1 break-all">
+                          {getJobRunExample()}
+                        </code>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => copyToClipboard(getJobRunExample())}
+                          className="h-6 w-6 p-0"
+                        >
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        /start, /success and /fail record how long each run takes.
+                      </p>
+                    </div>
+
+                    <div>
+                      <span className="font-medium">Request Body (JSON, optional):</span>
+                      <div className="flex items-center gap-1 mt-1">
+                        <code className="bg-muted px-2 py-1 rounded text-xs flex-1">
+                          {`{"status": "up", "message": "optional", "response_time": 100}`}
+                        </code>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => copyToClipboard(`{"status": "up", "message": "optional", "response_time": 100}`)}
+                          className="h-6 w-6 p-0"
+                        >
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">This monitor has no ping URL yet.</span>
                     <Button
-                      variant="ghost"
+                      variant="outline"
                       size="sm"
-                      onClick={() => copyToClipboard(`{"status": "up", "message": "optional", "response_time": 100}`)}
-                      className="h-6 w-6 p-0"
+                      onClick={handleRegenerateToken}
+                      disabled={isRegenerating}
+                      className="h-7 text-xs"
                     >
-                      <Copy className="h-3 w-3" />
+                      Generate Ping URL
                     </Button>
                   </div>
-                </div>
+                )}
               </div>
             )}
           </div>
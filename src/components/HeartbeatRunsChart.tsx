@@ -0,0 +1,125 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { Loader } from '@/components/ui/loader'
+import { formatDuration } from '@/lib/utils'
+import type { HeartbeatRun } from '@/lib/heartbeats'
+
+interface HeartbeatRunsChartProps {
+  monitorId: string
+}
+
+const RUN_COLORS: Record<HeartbeatRun['status'], string> = {
+  running: '#3b82f6',
+  success: '#22c55e',
+  failed: '#ef4444',
+  timed_out: '#f97316'
+}
+
+function formatRunTime(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+  return formatDuration(Math.round(seconds / 60))
+}
+
+export function HeartbeatRunsChart({ monitorId }: HeartbeatRunsChartProps) {
+  const [runs, setRuns] = useState<HeartbeatRun[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchRuns()
+  }, [monitorId])
+
+  const fetchRuns = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/monitors/${monitorId}/heartbeat/runs?limit=50`)
+      const data = await response.json()
+      setRuns(Array.isArray(data) ? data : [])
+    } catch (error) {
+      console.error('Failed to fetch heartbeat runs:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="h-64 flex items-center justify-center">
+        <Loader size="lg" />
+      </div>
+    )
+  }
+
+  // Oldest first; runs still in progress have no duration yet
+  const data = runs
+    .filter(run => run.started_at && run.duration_ms !== null)
+    .reverse()
+    .map(run => ({
+      date: new Date(run.started_at!).toLocaleString(),
+      seconds: Math.round(run.duration_ms! / 1000),
+      status: run.status
+    }))
+
+  if (data.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-muted-foreground text-sm text-center px-4">
+        No job runs recorded yet. Ping /start before the job and /success or /fail after it to track run durations.
+      </div>
+    )
+  }
+
+  const failedCount = data.filter(run => run.status !== 'success').length
+  const averageSeconds = Math.round(data.reduce((sum, run) => sum + run.seconds, 0) / data.length)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-6 text-sm text-muted-foreground">
+        <span>{data.length} runs</span>
+        <span>Average {formatRunTime(averageSeconds)}</span>
+        <span className={failedCount > 0 ? 'text-red-600' : ''}>{failedCount} failed or timed out</span>
+      </div>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} margin={{ top: 10, right: 30, left: 60, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" className="opacity-20" />
+            <XAxis
+              dataKey="date"
+              tick={{ fontSize: 11 }}
+              axisLine={{ stroke: '#e5e7eb' }}
+              tickLine={{ stroke: '#e5e7eb' }}
+              interval="preserveStartEnd"
+              angle={-45}
+              textAnchor="end"
+              height={60}
+            />
+            <YAxis
+              tick={{ fontSize: 11 }}
+              axisLine={{ stroke: '#e5e7eb' }}
+              tickLine={{ stroke: '#e5e7eb' }}
+              label={{ value: 'Duration (s)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }}
+              width={55}
+            />
+            <Tooltip
+              formatter={(value: number) => [formatRunTime(value), 'Run Time']}
+              labelFormatter={(label) => `Started: ${label}`}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #e5e7eb',
+                borderRadius: '8px',
+                fontSize: '12px',
+                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+              }}
+            />
+            <Bar dataKey="seconds">
+              {data.map((run, index) => (
+                <Cell key={index} fill={RUN_COLORS[run.status]} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
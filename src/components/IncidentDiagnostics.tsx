@@ -190,6 +190,81 @@ export function IncidentDiagnostics({ monitorId, incidentId, isOpen, onClose }:
                           </div>
                         )}
                         
+                        {selectedDiagnostic.dns_ipv6_addresses?.length > 0 && (
+                          <div>
+                            <div className="font-medium text-sm mb-2">IPv6 Addresses:</div>
+                            <div className="flex flex-wrap gap-2">
+                              {selectedDiagnostic.dns_ipv6_addresses.map((ip: string, index: number) => (
+                                <span key={index} className="px-2 py-1 bg-gray-100 rounded text-sm font-mono">
+                                  {ip}
+                                </span>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                        
+                        {selectedDiagnostic.dns_cname_chain?.length > 0 && (
+                          <div>
+                            <div className="font-medium text-sm mb-2">CNAME Chain:</div>
+                            <div className="text-sm font-mono break-all">
+                              {selectedDiagnostic.dns_cname_chain.join(' → ')}
+                            </div>
+                          </div>
+                        )}
+                        
+                        {selectedDiagnostic.dns_zone && (
+                          <div className="text-sm">
+                            <span className="font-medium">Zone:</span>{' '}
+                            <span className="font-mono">{selectedDiagnostic.dns_zone}</span>
+                            {selectedDiagnostic.dns_soa_record && (
+                              <span className="text-muted-foreground">
+                                {' '}(serial {selectedDiagnostic.dns_soa_record.serial}, primary {selectedDiagnostic.dns_soa_record.nsname})
+                              </span>
+                            )}
+                            {selectedDiagnostic.dns_caa_records?.length > 0 && (
+                              <div className="text-muted-foreground font-mono mt-1">
+                                CAA: {selectedDiagnostic.dns_caa_records.join('; ')}
+                              </div>
+                            )}
+                          </div>
+                        )}
+                        
+                        {selectedDiagnostic.dns_resolver_disagreements?.length > 0 && (
+                          <div className="bg-yellow-50 border border-yellow-200 rounded p-3">
+                            <div className="font-medium text-yellow-800 text-sm mb-1">Resolvers Disagree:</div>
+                            <div className="space-y-1">
+                              {selectedDiagnostic.dns_resolver_disagreements.map((disagreement: string, index: number) => (
+                                <div key={index} className="text-yellow-700 text-sm">{disagreement}</div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                        
+                        {selectedDiagnostic.dns_resolvers?.length > 0 && (
+                          <div>
+                            <div className="font-medium text-sm mb-2">Resolvers:</div>
+                            <div className="space-y-1">
+                              {selectedDiagnostic.dns_resolvers.map((resolver: any, index: number) => (
+                                <div key={index} className="flex items-center justify-between gap-4 text-sm border-b last:border-0 py-1">
+                                  <div className="min-w-0">
+                                    <div className="font-mono truncate">
+                                      {resolver.authoritative ? resolver.resolver : 'System resolver'}
+                                    </div>
+                                    <div className="text-muted-foreground font-mono text-xs break-all">
+                                      {resolver.error
+                                        ? resolver.error
+                                        : resolver.cname
+                                          ? `CNAME ${resolver.cname}`
+                                          : resolver.addresses.join(', ')}
+                                    </div>
+                                  </div>
+                                  <div className="text-muted-foreground whitespace-nowrap">{resolver.time_ms}ms</div>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                        
                         {selectedDiagnostic.dns_errors?.length > 0 && (
                           <div className="bg-red-50 border border-red-200 rounded p-3">
                             <div className="font-medium text-red-800 text-sm mb-1">DNS Errors:</div>
@@ -2,11 +2,12 @@
 
 import { useState, useEffect } from 'react'
 import { Incident } from '@/types'
-import { formatDuration } from '@/lib/utils'
+import { formatDuration, getIncidentStatus, getIncidentStatusLabel, getSeverityColor } from '@/lib/utils'
 import { Loader } from '@/components/ui/loader'
 import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
 import { IncidentDiagnostics } from '@/components/IncidentDiagnostics'
-import { AlertTriangle, CheckCircle, Clock, Activity } from 'lucide-react'
+import { AlertTriangle, CheckCircle, Clock, Activity, MessageSquare, UserCheck } from 'lucide-react'
 
 interface IncidentTimelineProps {
   monitorId: string
@@ -18,6 +19,10 @@ export function IncidentTimeline({ monitorId, limit = 10 }: IncidentTimelineProp
   const [loading, setLoading] = useState(true)
   const [selectedIncidentId, setSelectedIncidentId] = useState<string | null>(null)
   const [showDiagnostics, setShowDiagnostics] = useState(false)
+  const [updatingIncidentId, setUpdatingIncidentId] = useState<string | null>(null)
+  const [updateForm, setUpdateForm] = useState({ status: 'investigating', severity: 'major', message: '', is_public: true })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [updateError, setUpdateError] = useState<string | null>(null)
 
   useEffect(() => {
     fetchIncidents()
@@ -45,6 +50,54 @@ export function IncidentTimeline({ monitorId, limit = 10 }: IncidentTimelineProp
     setSelectedIncidentId(null)
   }
 
+  const openUpdateForm = (incident: Incident) => {
+    const current = getIncidentStatus(incident)
+    setUpdateForm({
+      status: current === 'investigating' ? 'identified' : current,
+      severity: incident.severity || 'major',
+      message: '',
+      is_public: true
+    })
+    setUpdateError(null)
+    setUpdatingIncidentId(incident.id)
+  }
+
+  const handlePostUpdate = async (e: React.FormEvent, incident: Incident) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setUpdateError(null)
+
+    try {
+      const response = await fetch(`/api/incidents/${incident.id}/updates`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updateForm)
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        setUpdateError(result.error || 'Failed to post update')
+        return
+      }
+
+      setUpdatingIncidentId(null)
+      await fetchIncidents()
+    } catch (error) {
+      setUpdateError('Network error while posting update')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleAcknowledge = async (incident: Incident) => {
+    try {
+      await fetch(`/api/incidents/${incident.id}/acknowledge`, { method: 'POST' })
+      await fetchIncidents()
+    } catch (error) {
+      console.error('Failed to acknowledge incident:', error)
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -88,13 +141,20 @@ export function IncidentTimeline({ monitorId, limit = 10 }: IncidentTimelineProp
                 <h4 className="font-medium">
                   {incident.resolved ? 'Service Restored' : 'Service Disruption'}
                 </h4>
-                <span className={`text-xs px-2 py-1 rounded-full ${
-                  incident.resolved 
-                    ? 'bg-green-100 text-green-700' 
-                    : 'bg-red-100 text-red-700'
-                }`}>
-                  {incident.resolved ? 'Resolved' : 'Ongoing'}
-                </span>
+                <div className="flex items-center gap-2">
+                  {incident.severity && (
+                    <span className={`text-xs px-2 py-1 rounded-full capitalize ${getSeverityColor(incident.severity)}`}>
+                      {incident.severity}
+                    </span>
+                  )}
+                  <span className={`text-xs px-2 py-1 rounded-full ${
+                    incident.resolved 
+                      ? 'bg-green-100 text-green-700' 
+                      : 'bg-red-100 text-red-700'
+                  }`}>
+                    {getIncidentStatusLabel(getIncidentStatus(incident))}
+                  </span>
+                </div>
               </div>
               
               <div className="text-sm text-muted-foreground space-y-1">
@@ -118,15 +178,134 @@ export function IncidentTimeline({ monitorId, limit = 10 }: IncidentTimelineProp
                   </div>
                 )}
                 
+                {incident.acknowledged_at && (
+                  <div className="flex items-center gap-2">
+                    <UserCheck className="h-3 w-3" />
+                    <span>
+                      Acknowledged: {new Date(incident.acknowledged_at).toLocaleString()}
+                      {incident.acknowledged_by_name && ` by ${incident.acknowledged_by_name}`}
+                    </span>
+                  </div>
+                )}
+
+                {incident.resolution_method === 'manual' && (
+                  <div className="text-xs">Resolved manually</div>
+                )}
+                
                 {incident.cause && (
                   <div className="mt-2 p-2 bg-gray-50 rounded text-xs">
                     <span className="font-medium">Cause:</span> {incident.cause}
                   </div>
                 )}
+
+                {/* Payload sent with a failure heartbeat */}
+                {incident.details && (
+                  <div className="mt-2 p-2 bg-red-50 border border-red-100 rounded text-xs space-y-1">
+                    <div className="font-medium text-red-800">Reported failure</div>
+                    {incident.details.message && (
+                      <p className="whitespace-pre-wrap text-gray-700">{incident.details.message}</p>
+                    )}
+                    {Object.keys(incident.details.metadata || {})
+                      .filter(key => key !== 'log')
+                      .map(key => (
+                        <div key={key}>
+                          <span className="font-medium">{key}:</span>{' '}
+                          <span className="font-mono">{JSON.stringify(incident.details!.metadata![key])}</span>
+                        </div>
+                      ))}
+                    {incident.details.metadata?.log && (
+                      <pre className="mt-1 p-2 bg-white border rounded max-h-48 overflow-auto whitespace-pre-wrap font-mono">
+                        {String(incident.details.metadata.log)}
+                      </pre>
+                    )}
+                  </div>
+                )}
               </div>
+
+              {/* Status Updates */}
+              {incident.updates && incident.updates.length > 0 && (
+                <div className="mt-3 space-y-2 border-l-2 border-gray-200 pl-3">
+                  {incident.updates.map(update => (
+                    <div key={update.id} className="text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{getIncidentStatusLabel(update.status)}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(update.created_at).toLocaleString()}
+                        </span>
+                        {!update.is_public && (
+                          <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">Internal</span>
+                        )}
+                      </div>
+                      <p className="text-muted-foreground whitespace-pre-wrap">{update.message}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Post Update Form */}
+              {updatingIncidentId === incident.id && (
+                <form onSubmit={(e) => handlePostUpdate(e, incident)} className="mt-3 pt-3 border-t space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label htmlFor={`update-status-${incident.id}`} className="text-xs font-medium block mb-1">Status</label>
+                      <select
+                        id={`update-status-${incident.id}`}
+                        value={updateForm.status}
+                        onChange={(e) => setUpdateForm(prev => ({ ...prev, status: e.target.value }))}
+                        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      >
+                        <option value="investigating">Investigating</option>
+                        <option value="identified">Identified</option>
+                        <option value="monitoring">Monitoring</option>
+                        <option value="resolved">Resolved</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor={`update-severity-${incident.id}`} className="text-xs font-medium block mb-1">Severity</label>
+                      <select
+                        id={`update-severity-${incident.id}`}
+                        value={updateForm.severity}
+                        onChange={(e) => setUpdateForm(prev => ({ ...prev, severity: e.target.value }))}
+                        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      >
+                        <option value="minor">Minor</option>
+                        <option value="major">Major</option>
+                        <option value="critical">Critical</option>
+                      </select>
+                    </div>
+                  </div>
+                  <Textarea
+                    placeholder="What's happening?"
+                    value={updateForm.message}
+                    onChange={(e) => setUpdateForm(prev => ({ ...prev, message: e.target.value }))}
+                    required
+                  />
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={updateForm.is_public}
+                      onChange={(e) => setUpdateForm(prev => ({ ...prev, is_public: e.target.checked }))}
+                    />
+                    Show on public status page
+                  </label>
+                  {updateError && (
+                    <div className="p-2 rounded-md text-xs bg-red-50 text-red-800 border border-red-200">
+                      {updateError}
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <Button type="submit" size="sm" disabled={isSubmitting}>
+                      {isSubmitting ? 'Posting...' : 'Post Update'}
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" onClick={() => setUpdatingIncidentId(null)} disabled={isSubmitting}>
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              )}
               
               {/* Enhanced Diagnostics Button */}
-              <div className="mt-3 pt-3 border-t">
+              <div className="mt-3 pt-3 border-t flex flex-wrap gap-2">
                 <Button
                   variant="outline"
                   size="sm"
@@ -136,6 +315,28 @@ export function IncidentTimeline({ monitorId, limit = 10 }: IncidentTimelineProp
                   <Activity className="h-3 w-3 mr-1" />
                   View Diagnostics
                 </Button>
+                {updatingIncidentId !== incident.id && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openUpdateForm(incident)}
+                    className="text-xs"
+                  >
+                    <MessageSquare className="h-3 w-3 mr-1" />
+                    Post Update
+                  </Button>
+                )}
+                {!incident.resolved && !incident.acknowledged_at && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleAcknowledge(incident)}
+                    className="text-xs"
+                  >
+                    <UserCheck className="h-3 w-3 mr-1" />
+                    Acknowledge
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,330 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Wrench, Plus, Trash2, Pause, Play } from 'lucide-react'
+
+interface MaintenanceWindowItem {
+  id: string
+  name: string
+  description?: string | null
+  monitor_id?: string | null
+  monitor_ids?: string[] | null
+  start_time: string
+  end_time?: string | null
+  recurrence_cron?: string | null
+  duration_minutes?: number | null
+  timezone?: string | null
+  active: boolean
+  in_progress: boolean
+  next_start: string | null
+}
+
+interface MaintenanceWindowsProps {
+  monitorId: string
+  className?: string
+}
+
+const emptyForm = {
+  name: '',
+  scope: 'monitor' as 'monitor' | 'all',
+  schedule: 'once' as 'once' | 'recurring',
+  start_time: '',
+  end_time: '',
+  recurrence_cron: '0 2 * * 0',
+  duration_minutes: 60,
+  timezone: 'UTC'
+}
+
+export function MaintenanceWindows({ monitorId, className }: MaintenanceWindowsProps) {
+  const [windows, setWindows] = useState<MaintenanceWindowItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+
+  useEffect(() => {
+    fetchWindows()
+  }, [monitorId])
+
+  const fetchWindows = async () => {
+    try {
+      const response = await fetch(`/api/maintenance-windows?monitor_id=${monitorId}`)
+      if (response.ok) {
+        setWindows(await response.json())
+      }
+    } catch (err) {
+      console.error('Failed to fetch maintenance windows:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openForm = () => {
+    setFormData({ ...emptyForm, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC' })
+    setError(null)
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    const recurring = formData.schedule === 'recurring'
+    try {
+      const response = await fetch('/api/maintenance-windows', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          monitor_id: formData.scope === 'monitor' ? monitorId : null,
+          start_time: formData.start_time ? new Date(formData.start_time).toISOString() : new Date().toISOString(),
+          end_time: formData.end_time ? new Date(formData.end_time).toISOString() : null,
+          recurrence_cron: recurring ? formData.recurrence_cron : null,
+          duration_minutes: recurring ? formData.duration_minutes : null,
+          timezone: formData.timezone
+        })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Failed to create maintenance window')
+        return
+      }
+
+      setShowForm(false)
+      await fetchWindows()
+    } catch (err) {
+      setError('Network error while creating maintenance window')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const toggleActive = async (window: MaintenanceWindowItem) => {
+    await fetch(`/api/maintenance-windows/${window.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ active: !window.active })
+    })
+    await fetchWindows()
+  }
+
+  const deleteWindow = async (window: MaintenanceWindowItem) => {
+    if (!confirm(`Delete maintenance window "${window.name}"?`)) return
+    await fetch(`/api/maintenance-windows/${window.id}`, { method: 'DELETE' })
+    await fetchWindows()
+  }
+
+  const describeSchedule = (window: MaintenanceWindowItem) => {
+    if (window.recurrence_cron) {
+      return `"${window.recurrence_cron}" (${window.timezone || 'UTC'}) for ${window.duration_minutes} min`
+    }
+    return `${new Date(window.start_time).toLocaleString()} – ${window.end_time ? new Date(window.end_time).toLocaleString() : ''}`
+  }
+
+  const getStatusBadge = (window: MaintenanceWindowItem) => {
+    if (!window.active) return <Badge variant="outline" className="text-xs">Paused</Badge>
+    if (window.in_progress) return <Badge variant="warning" className="text-xs">In progress</Badge>
+    if (window.next_start || new Date(window.start_time) > new Date()) {
+      return <Badge variant="secondary" className="text-xs">Scheduled</Badge>
+    }
+    return <Badge variant="outline" className="text-xs">{window.recurrence_cron ? 'Recurring' : 'Finished'}</Badge>
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Wrench className="h-5 w-5" />
+            Maintenance Windows
+          </CardTitle>
+          {!showForm && (
+            <Button variant="outline" size="sm" onClick={openForm} className="flex items-center gap-2">
+              <Plus className="h-3 w-3" />
+              Schedule
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Checks during maintenance are recorded but raise no incidents or alerts, and the time is excluded from uptime and SLA.
+        </p>
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="space-y-3 border rounded-md p-4 bg-muted/30">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="mw-name" className="text-sm font-medium block mb-2">Name</label>
+                <Input
+                  id="mw-name"
+                  placeholder="Database upgrade"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="mw-scope" className="text-sm font-medium block mb-2">Applies To</label>
+                <select
+                  id="mw-scope"
+                  value={formData.scope}
+                  onChange={(e) => setFormData(prev => ({ ...prev, scope: e.target.value as any }))}
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="monitor">This monitor</option>
+                  <option value="all">All my monitors</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="mw-schedule" className="text-sm font-medium block mb-2">Schedule</label>
+              <select
+                id="mw-schedule"
+                value={formData.schedule}
+                onChange={(e) => setFormData(prev => ({ ...prev, schedule: e.target.value as any }))}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="once">One-off</option>
+                <option value="recurring">Recurring (cron)</option>
+              </select>
+            </div>
+
+            {formData.schedule === 'recurring' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label htmlFor="mw-cron" className="text-sm font-medium block mb-2">Starts At (cron)</label>
+                  <Input
+                    id="mw-cron"
+                    placeholder="0 2 * * 0"
+                    value={formData.recurrence_cron}
+                    onChange={(e) => setFormData(prev => ({ ...prev, recurrence_cron: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="mw-duration" className="text-sm font-medium block mb-2">Duration (minutes)</label>
+                  <Input
+                    id="mw-duration"
+                    type="number"
+                    min={1}
+                    value={formData.duration_minutes}
+                    onChange={(e) => setFormData(prev => ({ ...prev, duration_minutes: parseInt(e.target.value, 10) || 0 }))}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="mw-timezone" className="text-sm font-medium block mb-2">Timezone</label>
+                  <Input
+                    id="mw-timezone"
+                    value={formData.timezone}
+                    onChange={(e) => setFormData(prev => ({ ...prev, timezone: e.target.value }))}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="mw-start" className="text-sm font-medium block mb-2">
+                  {formData.schedule === 'recurring' ? 'First Active From (optional)' : 'Start'}
+                </label>
+                <Input
+                  id="mw-start"
+                  type="datetime-local"
+                  value={formData.start_time}
+                  onChange={(e) => setFormData(prev => ({ ...prev, start_time: e.target.value }))}
+                  required={formData.schedule === 'once'}
+                />
+              </div>
+              <div>
+                <label htmlFor="mw-end" className="text-sm font-medium block mb-2">
+                  {formData.schedule === 'recurring' ? 'Repeat Until (optional)' : 'End'}
+                </label>
+                <Input
+                  id="mw-end"
+                  type="datetime-local"
+                  value={formData.end_time}
+                  onChange={(e) => setFormData(prev => ({ ...prev, end_time: e.target.value }))}
+                  required={formData.schedule === 'once'}
+                />
+              </div>
+            </div>
+
+            {error && (
+              <div className="p-3 rounded-md text-sm bg-red-50 text-red-800 border border-red-200">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : 'Save Window'}
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => setShowForm(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <div className="text-center text-muted-foreground">Loading maintenance windows...</div>
+        ) : windows.length === 0 ? (
+          <div className="text-center text-sm text-muted-foreground">No maintenance windows scheduled</div>
+        ) : (
+          <div className="space-y-2">
+            {windows.map(window => (
+              <div key={window.id} className="flex items-center justify-between border rounded-md p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm truncate">{window.name}</span>
+                    {getStatusBadge(window)}
+                    {!window.monitor_id && (
+                      <Badge variant="outline" className="text-xs">
+                        {window.monitor_ids?.length ? `${window.monitor_ids.length} monitors` : 'All monitors'}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">{describeSchedule(window)}</div>
+                  {window.next_start && (
+                    <div className="text-xs text-muted-foreground">
+                      Next: {new Date(window.next_start).toLocaleString()}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 ml-2">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => toggleActive(window)}
+                    className="h-8 w-8"
+                    title={window.active ? 'Pause' : 'Resume'}
+                  >
+                    {window.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteWindow(window)}
+                    className="h-8 w-8 text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -219,7 +219,21 @@ export function MonitorCard({ monitor, stats, onDelete, onEdit }: MonitorCardPro
             </div>
 
             {/* Current Incident */}
-            {stats.current_incident && (
+            {stats.current_incident && (stats.current_incident.incident_type === 'degraded' ? (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
+                <div className="text-sm font-medium text-yellow-800">
+                  Degraded Performance
+                </div>
+                <div className="text-xs text-yellow-700 mt-1">
+                  Started {new Date(stats.current_incident.started_at).toLocaleString()}
+                </div>
+                {stats.current_incident.cause && (
+                  <div className="text-xs text-yellow-700 mt-1">
+                    {stats.current_incident.cause}
+                  </div>
+                )}
+              </div>
+            ) : (
               <div className="bg-red-50 border border-red-200 rounded-md p-3">
                 <div className="text-sm font-medium text-red-800">
                   Currently Down
@@ -233,6 +247,18 @@ export function MonitorCard({ monitor, stats, onDelete, onEdit }: MonitorCardPro
                   </div>
                 )}
               </div>
+            ))}
+
+            {/* Maintenance */}
+            {stats.current_maintenance && (
+              <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
+                <div className="text-sm font-medium text-blue-800">
+                  Under Maintenance: {stats.current_maintenance.name}
+                </div>
+                <div className="text-xs text-blue-700 mt-1">
+                  Until {new Date(stats.current_maintenance.ends_at).toLocaleString()}
+                </div>
+              </div>
             )}
 
             {/* SSL/Domain Info */}
@@ -0,0 +1,222 @@
+'use client'
+
+import { useState } from 'react'
+import type { MonitorConfigPlan } from '@/lib/monitor-config'
+import { Modal } from '@/components/ui/modal'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { FileCode, Download, Upload } from 'lucide-react'
+
+interface PlanResponse {
+  dry_run: boolean
+  applied: boolean
+  summary: Record<string, number>
+  plan: MonitorConfigPlan
+}
+
+interface MonitorConfigModalProps {
+  onApplied: () => Promise<void>
+}
+
+const ACTION_STYLES: Record<string, string> = {
+  create: 'text-green-700 border-green-300',
+  update: 'text-blue-700 border-blue-300',
+  delete: 'text-red-700 border-red-300'
+}
+
+export function MonitorConfigModal({ onApplied }: MonitorConfigModalProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [config, setConfig] = useState('')
+  const [prune, setPrune] = useState(false)
+  const [plan, setPlan] = useState<PlanResponse | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+
+  const close = () => {
+    setIsOpen(false)
+    setPlan(null)
+    setError(null)
+    setErrors([])
+  }
+
+  const updateConfig = (text: string) => {
+    setConfig(text)
+    // A preview only applies to the text it was made from
+    setPlan(null)
+  }
+
+  const updatePrune = (value: boolean) => {
+    setPrune(value)
+    setPlan(null)
+  }
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) updateConfig(await file.text())
+    e.target.value = ''
+  }
+
+  const submit = async (dryRun: boolean) => {
+    setIsSubmitting(true)
+    setError(null)
+    setErrors([])
+
+    try {
+      const params = new URLSearchParams()
+      if (dryRun) params.set('dry_run', 'true')
+      if (prune) params.set('prune', 'true')
+      const query = params.toString()
+
+      const response = await fetch(`/api/monitors/config${query ? `?${query}` : ''}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/yaml' },
+        body: config
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Failed to import monitor config')
+        setErrors(result.errors || [])
+        setPlan(null)
+        return
+      }
+
+      if (dryRun) {
+        setPlan(result)
+      } else {
+        await onApplied()
+        close()
+        setConfig('')
+      }
+    } catch (err) {
+      setError('Network error while importing monitor config')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsOpen(true)} className="flex items-center gap-2">
+        <FileCode className="h-4 w-4" />
+        Import / Export
+      </Button>
+
+      <Modal isOpen={isOpen} onClose={close} title="Monitors as Code" size="xl">
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Keep monitors in a YAML or JSON file in your repository. Monitors are matched by <code>key</code>;
+            settings left out of an entry keep their current value. Monitors that were imported before and are
+            no longer in the file are kept unless you choose to delete them. Heartbeat monitors are not included.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            <a href="/api/monitors/config?format=yaml">
+              <Button type="button" variant="outline" size="sm" className="flex items-center gap-2">
+                <Download className="h-4 w-4" />
+                Export YAML
+              </Button>
+            </a>
+            <a href="/api/monitors/config?format=json">
+              <Button type="button" variant="outline" size="sm" className="flex items-center gap-2">
+                <Download className="h-4 w-4" />
+                Export JSON
+              </Button>
+            </a>
+            <label className="inline-flex">
+              <input type="file" accept=".yaml,.yml,.json" onChange={loadFile} className="hidden" />
+              <span className="inline-flex items-center gap-2 h-8 rounded-md px-3 text-xs border border-input bg-background hover:bg-accent cursor-pointer">
+                <Upload className="h-4 w-4" />
+                Load File
+              </span>
+            </label>
+          </div>
+
+          <Textarea
+            value={config}
+            onChange={(e) => updateConfig(e.target.value)}
+            placeholder={'version: 1\nmonitors:\n  - key: api-health\n    name: API health\n    url: https://api.example.com/health\n    check_interval_seconds: 60'}
+            className="font-mono text-xs min-h-[240px]"
+            disabled={isSubmitting}
+          />
+
+          <div className="flex items-center space-x-2">
+            <input
+              id="config-prune"
+              type="checkbox"
+              checked={prune}
+              onChange={(e) => updatePrune(e.target.checked)}
+              className="rounded border-gray-300"
+              disabled={isSubmitting}
+            />
+            <label htmlFor="config-prune" className="text-sm">
+              Delete imported monitors that are missing from the file, with their check history (admins only)
+            </label>
+          </div>
+
+          {error && (
+            <div className="p-3 text-sm text-red-800 bg-red-50 border border-red-200 rounded-md space-y-1">
+              <p>{error}</p>
+              {errors.length > 0 && (
+                <ul className="list-disc pl-5 text-xs">
+                  {errors.map(message => <li key={message}>{message}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {plan && (
+            <div className="p-3 border rounded-md space-y-3">
+              <p className="text-sm font-medium">
+                Plan: {plan.summary.create} to create, {plan.summary.update} to update, {plan.summary.delete} to delete,{' '}
+                {plan.summary.unchanged} unchanged
+              </p>
+              {plan.plan.changes.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {plan.plan.changes.map(change => (
+                    <li key={`${change.action}-${change.key}`} className="flex items-center gap-2">
+                      <Badge variant="outline" className={`capitalize ${ACTION_STYLES[change.action]}`}>{change.action}</Badge>
+                      <code className="text-xs">{change.key}</code>
+                      <span className="text-muted-foreground truncate">
+                        {change.name}
+                        {change.action === 'update' && ` (${change.fields.join(', ')})`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {plan.plan.undeclared.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Kept (imported before, not in the file): {plan.plan.undeclared.map(monitor => monitor.name).join(', ')}
+                </p>
+              )}
+              {plan.plan.unmanaged.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Left alone (never imported, not in the file): {plan.plan.unmanaged.map(monitor => monitor.name).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => submit(true)} disabled={isSubmitting || !config.trim()}>
+              {isSubmitting && !plan ? 'Planning...' : 'Preview Changes'}
+            </Button>
+            <Button
+              type="button"
+              onClick={() => submit(false)}
+              disabled={isSubmitting || !plan || plan.plan.changes.length === 0}
+            >
+              {isSubmitting && plan ? 'Applying...' : 'Apply'}
+            </Button>
+            <Button type="button" variant="ghost" onClick={close} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  )
+}
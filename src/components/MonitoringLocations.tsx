@@ -19,7 +19,8 @@ interface MonitoringLocationsProps {
   className?: string
 }
 
-const LOCATION_INFO = {
+const LOCATION_INFO: Record<string, { name: string; flag: string; region: string }> = {
+  'primary': { name: 'Primary', flag: '🖥️', region: 'Central checker' },
   'us-east': { name: 'US East', flag: '🇺🇸', region: 'North America' },
   'us-west': { name: 'US West', flag: '🇺🇸', region: 'North America' },
   'europe': { name: 'Europe', flag: '🇪🇺', region: 'Europe' },
@@ -27,6 +28,11 @@ const LOCATION_INFO = {
   'south-america': { name: 'South America', flag: '🌎', region: 'South America' }
 }
 
+// Probe agents can register any location name
+function getLocationInfo(location: string) {
+  return LOCATION_INFO[location] || { name: location, flag: '📡', region: 'Probe agent' }
+}
+
 export function MonitoringLocations({ monitorId, className }: MonitoringLocationsProps) {
   const [locations, setLocations] = useState<LocationCheck[]>([])
   const [loading, setLoading] = useState(true)
@@ -135,13 +141,14 @@ export function MonitoringLocations({ monitorId, className }: MonitoringLocation
           Monitoring Locations
         </CardTitle>
         <p className="text-sm text-muted-foreground">
-          Global monitoring from {Object.keys(LOCATION_INFO).length} locations
+          Monitoring from {locations.length} {locations.length === 1 ? 'location' : 'locations'}
         </p>
       </CardHeader>
       <CardContent>
         <div className="space-y-3">
-          {Object.entries(LOCATION_INFO).map(([locationKey, info]) => {
-            const locationData = locations.find(l => l.location === locationKey)
+          {locations.map((locationData) => {
+            const locationKey = locationData.location
+            const info = getLocationInfo(locationKey)
             
             return (
               <div
@@ -150,7 +157,7 @@ export function MonitoringLocations({ monitorId, className }: MonitoringLocation
               >
                 <div className="flex items-center gap-3">
                   <div className="flex items-center gap-2">
-                    {getStatusIcon(locationData?.status || 'unknown')}
+                    {getStatusIcon(locationData.status)}
                     <span className="text-lg">{info.flag}</span>
                   </div>
                   <div>
@@ -160,7 +167,7 @@ export function MonitoringLocations({ monitorId, className }: MonitoringLocation
                 </div>
                 
                 <div className="flex items-center gap-2">
-                  {locationData?.response_time && (
+                  {locationData.response_time && (
                     <div className="text-right">
                       <div className="text-sm font-medium">
                         {formatResponseTime(locationData.response_time)}
@@ -170,7 +177,7 @@ export function MonitoringLocations({ monitorId, className }: MonitoringLocation
                       </div>
                     </div>
                   )}
-                  {getStatusBadge(locationData?.status || 'unknown')}
+                  {getStatusBadge(locationData.status)}
                 </div>
               </div>
             )
@@ -183,7 +190,7 @@ export function MonitoringLocations({ monitorId, className }: MonitoringLocation
               Last checked: {new Date(locations[0]?.checked_at).toLocaleString()}
             </div>
             <div className="text-xs text-muted-foreground mt-1">
-              Status determined by majority consensus ({Math.ceil(Object.keys(LOCATION_INFO).length / 2)}+ locations must agree)
+              Status determined by majority consensus ({Math.floor(locations.length / 2) + 1}+ locations must agree)
             </div>
           </div>
         )}
@@ -0,0 +1,383 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { NotificationChannel, NotificationChannelType, NotificationEvent } from '@/lib/notification-channels'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { BellRing, Plus, Pencil, Trash2, Send } from 'lucide-react'
+
+// Mirror NOTIFICATION_CHANNEL_TYPES and NOTIFICATION_EVENTS; the lib is server-only
+const TYPE_OPTIONS: Array<{ type: NotificationChannelType; label: string; placeholder: string }> = [
+  { type: 'slack', label: 'Slack', placeholder: 'https://hooks.slack.com/services/...' },
+  { type: 'discord', label: 'Discord', placeholder: 'https://discord.com/api/webhooks/...' },
+  { type: 'webhook', label: 'Webhook', placeholder: 'https://your-api.com/webhook' },
+  { type: 'email', label: 'Email', placeholder: 'oncall@example.com' },
+  { type: 'sms', label: 'SMS', placeholder: '+14155550123' }
+]
+
+const EVENT_OPTIONS: Array<{ event: NotificationEvent; label: string }> = [
+  { event: 'down', label: 'Down' },
+  { event: 'up', label: 'Recovered' },
+  { event: 'degraded', label: 'Degraded' },
+  { event: 'ssl_expiring', label: 'SSL expiring' },
+  { event: 'domain_expiring', label: 'Domain expiring or on hold' },
+  { event: 'sla_breach', label: 'SLA breach' },
+  { event: 'dns_changed', label: 'DNS records changed' }
+]
+
+interface ChannelForm {
+  name: string
+  type: NotificationChannelType
+  target: string
+  schedule_id: string // '' for a fixed target
+  events: NotificationEvent[]
+  monitor_ids: string[]
+  tags: string
+}
+
+const EMPTY_FORM: ChannelForm = {
+  name: '',
+  type: 'slack',
+  target: '',
+  schedule_id: '',
+  events: ['down', 'up'],
+  monitor_ids: [],
+  tags: ''
+}
+
+export function NotificationChannelsManager() {
+  const [channels, setChannels] = useState<NotificationChannel[]>([])
+  const [monitors, setMonitors] = useState<Array<{ id: string; name: string }>>([])
+  const [schedules, setSchedules] = useState<Array<{ id: string; name: string }>>([])
+  const [loading, setLoading] = useState(true)
+  // Channel being edited: an ID, 'new', or null when the form is closed
+  const [editing, setEditing] = useState<string | null>(null)
+  const [form, setForm] = useState<ChannelForm>(EMPTY_FORM)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchChannels()
+    fetchMonitors()
+    fetchSchedules()
+  }, [])
+
+  const fetchChannels = async () => {
+    try {
+      const response = await fetch('/api/notification-channels')
+      if (response.ok) setChannels(await response.json())
+    } catch (err) {
+      console.error('Failed to fetch notification channels:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchMonitors = async () => {
+    try {
+      const response = await fetch('/api/monitors')
+      if (response.ok) setMonitors(await response.json())
+    } catch (err) {
+      console.error('Failed to fetch monitors:', err)
+    }
+  }
+
+  const fetchSchedules = async () => {
+    try {
+      const response = await fetch('/api/oncall-schedules')
+      if (response.ok) setSchedules((await response.json()).schedules)
+    } catch (err) {
+      console.error('Failed to fetch on-call schedules:', err)
+    }
+  }
+
+  const openForm = (channel?: NotificationChannel) => {
+    setForm(channel ? {
+      name: channel.name,
+      type: channel.type,
+      target: channel.target || '',
+      schedule_id: channel.schedule_id || '',
+      events: channel.events,
+      monitor_ids: channel.monitor_ids,
+      tags: channel.tags.join(', ')
+    } : EMPTY_FORM)
+    setEditing(channel ? channel.id : 'new')
+    setError(null)
+    setMessage(null)
+  }
+
+  // Mirrors SCHEDULE_CHANNEL_TYPES
+  const canTargetSchedule = form.type === 'email' || form.type === 'sms'
+
+  const toggle = <T,>(values: T[], value: T): T[] =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    // A schedule picked before switching to another type no longer applies
+    const scheduleId = canTargetSchedule && form.schedule_id ? form.schedule_id : null
+
+    try {
+      const response = await fetch(
+        editing === 'new' ? '/api/notification-channels' : `/api/notification-channels/${editing}`,
+        {
+          method: editing === 'new' ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...form,
+            target: scheduleId ? null : form.target,
+            schedule_id: scheduleId,
+            tags: form.tags
+              .split(',')
+              .map(tag => tag.trim().toLowerCase())
+              .filter((tag, index, all) => tag && all.indexOf(tag) === index)
+          })
+        }
+      )
+
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Failed to save notification channel')
+        return
+      }
+
+      setEditing(null)
+      await fetchChannels()
+    } catch (err) {
+      setError('Network error while saving notification channel')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const deleteChannel = async (channel: NotificationChannel) => {
+    if (!confirm(`Delete notification channel "${channel.name}"? Monitors routed to it stop alerting there.`)) return
+    await fetch(`/api/notification-channels/${channel.id}`, { method: 'DELETE' })
+    await fetchChannels()
+  }
+
+  const testChannel = async (channel: NotificationChannel) => {
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/notification-channels/${channel.id}/test`, { method: 'POST' })
+      const result = await response.json()
+      setMessage(response.ok ? `Test notification sent to ${channel.name}` : result.error || 'Test notification failed')
+    } catch (err) {
+      setMessage('Network error while sending test notification')
+    }
+  }
+
+  const monitorName = (id: string) => monitors.find(monitor => monitor.id === id)?.name || 'Unknown monitor'
+  const scheduleName = (id: string) => schedules.find(schedule => schedule.id === id)?.name || 'Unknown schedule'
+  const typeOption = TYPE_OPTIONS.find(option => option.type === form.type) || TYPE_OPTIONS[0]
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Notification Channels
+          </CardTitle>
+          {!editing && (
+            <Button size="sm" onClick={() => openForm()} className="flex items-center gap-1">
+              <Plus className="h-4 w-4" />
+              New Channel
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600">
+          Destinations shared by the monitors in the current workspace. Route a channel to monitors, or to a tag to
+          cover every monitor carrying it, and pick the events it receives.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && <p className="text-sm text-gray-600">{message}</p>}
+
+        {editing && (
+          <form onSubmit={handleSubmit} className="space-y-4 p-4 border rounded-md">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="channel-name">Name</Label>
+                <Input
+                  id="channel-name"
+                  placeholder="Ops Slack"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="channel-type">Type</Label>
+                <select
+                  id="channel-type"
+                  value={form.type}
+                  onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value as NotificationChannelType }))}
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  disabled={isSubmitting}
+                >
+                  {TYPE_OPTIONS.map(option => (
+                    <option key={option.type} value={option.type}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {canTargetSchedule && schedules.length > 0 && (
+              <div>
+                <Label htmlFor="channel-schedule">Send to</Label>
+                <select
+                  id="channel-schedule"
+                  value={form.schedule_id}
+                  onChange={(e) => setForm(prev => ({ ...prev, schedule_id: e.target.value }))}
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  disabled={isSubmitting}
+                >
+                  <option value="">{form.type === 'email' ? 'A fixed email address' : 'A fixed phone number'}</option>
+                  {schedules.map(schedule => (
+                    <option key={schedule.id} value={schedule.id}>Whoever is on call: {schedule.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {canTargetSchedule && form.schedule_id ? (
+              <p className="text-sm text-gray-600">
+                {form.type === 'email'
+                  ? 'Sent to the email address of whoever is on call.'
+                  : 'Sent to the on-call phone number of whoever is on call, set under On-call Schedules.'}
+              </p>
+            ) : (
+              <div>
+                <Label htmlFor="channel-target">{form.type === 'email' ? 'Email address' : form.type === 'sms' ? 'Phone number' : 'Webhook URL'}</Label>
+                <Input
+                  id="channel-target"
+                  placeholder={typeOption.placeholder}
+                  value={form.target}
+                  onChange={(e) => setForm(prev => ({ ...prev, target: e.target.value }))}
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="flex flex-wrap gap-4">
+                {EVENT_OPTIONS.map(({ event, label }) => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.events.includes(event)}
+                      onChange={() => setForm(prev => ({ ...prev, events: toggle(prev.events, event) }))}
+                      disabled={isSubmitting}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="channel-tags">Tags</Label>
+              <Input
+                id="channel-tags"
+                placeholder="production, api"
+                value={form.tags}
+                onChange={(e) => setForm(prev => ({ ...prev, tags: e.target.value }))}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            {monitors.length > 0 && (
+              <div className="space-y-2">
+                <Label>Monitors</Label>
+                <div className="max-h-48 overflow-y-auto space-y-1">
+                  {monitors.map(monitor => (
+                    <label key={monitor.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={form.monitor_ids.includes(monitor.id)}
+                        onChange={() => setForm(prev => ({ ...prev, monitor_ids: toggle(prev.monitor_ids, monitor.id) }))}
+                        disabled={isSubmitting}
+                      />
+                      {monitor.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : editing === 'new' ? 'Create Channel' : 'Save Channel'}
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => setEditing(null)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-600">Loading notification channels...</p>
+        ) : channels.length === 0 ? (
+          <p className="text-sm text-gray-600">No notification channels yet.</p>
+        ) : (
+          channels.map(channel => (
+            <div key={channel.id} className="flex items-start justify-between gap-3 p-3 border rounded-md">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium truncate">{channel.name}</p>
+                  <Badge variant="outline" className="text-xs capitalize">{channel.type}</Badge>
+                </div>
+                {channel.schedule_id
+                  ? <p className="text-xs text-gray-600 truncate">On call: {scheduleName(channel.schedule_id)}</p>
+                  : channel.target && <p className="text-xs text-gray-600 truncate">{channel.target}</p>}
+                <p className="text-xs text-gray-600">
+                  {channel.monitor_ids.length === 0 && channel.tags.length === 0
+                    ? 'Not routed to any monitor'
+                    : [
+                        ...channel.tags.map(tag => `#${tag}`),
+                        ...channel.monitor_ids.map(monitorName)
+                      ].join(', ')}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {channel.events.map(event => (
+                    <Badge key={event} variant="outline" className="text-xs">
+                      {EVENT_OPTIONS.find(option => option.event === event)?.label || event}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              {/* Targets are only returned to those who can manage channels */}
+              {(channel.target || channel.schedule_id) && (
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => testChannel(channel)} className="h-8 w-8">
+                    <Send className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openForm(channel)} className="h-8 w-8">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => deleteChannel(channel)} className="h-8 w-8">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
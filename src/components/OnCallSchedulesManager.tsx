@@ -0,0 +1,456 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { OnCallSchedule, WorkspaceMember } from '@/lib/oncall'
+import type { RotationType } from '@/lib/oncall-rotation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { CalendarClock, Plus, Pencil, Trash2, Copy, X } from 'lucide-react'
+
+interface ScheduleForm {
+  name: string
+  rotation_type: RotationType
+  handoff_time: string
+  timezone: string
+  rotation_start: string
+  participants: string[]
+}
+
+interface OverrideForm {
+  user_id: string
+  starts_at: string
+  ends_at: string
+}
+
+const emptyForm = (): ScheduleForm => ({
+  name: '',
+  rotation_type: 'weekly',
+  handoff_time: '09:00',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  rotation_start: new Date().toISOString().slice(0, 10),
+  participants: []
+})
+
+const formatShiftTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+export function OnCallSchedulesManager() {
+  const [schedules, setSchedules] = useState<OnCallSchedule[]>([])
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [loading, setLoading] = useState(true)
+  // Schedule being edited: an ID, 'new', or null when the form is closed
+  const [editing, setEditing] = useState<string | null>(null)
+  const [form, setForm] = useState<ScheduleForm>(emptyForm)
+  // Schedule whose override form is open
+  const [overriding, setOverriding] = useState<string | null>(null)
+  const [overrideForm, setOverrideForm] = useState<OverrideForm>({ user_id: '', starts_at: '', ends_at: '' })
+  const [phone, setPhone] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSchedules()
+    fetchPhone()
+  }, [])
+
+  const fetchSchedules = async () => {
+    try {
+      const response = await fetch('/api/oncall-schedules')
+      if (response.ok) {
+        const data = await response.json()
+        setSchedules(data.schedules)
+        setMembers(data.members)
+      }
+    } catch (err) {
+      console.error('Failed to fetch on-call schedules:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchPhone = async () => {
+    try {
+      const response = await fetch('/api/oncall-contact')
+      if (response.ok) setPhone((await response.json()).phone || '')
+    } catch (err) {
+      console.error('Failed to fetch on-call phone number:', err)
+    }
+  }
+
+  const savePhone = async () => {
+    setMessage(null)
+    try {
+      const response = await fetch('/api/oncall-contact', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone: phone.trim() || null })
+      })
+      const result = await response.json()
+      setMessage(response.ok ? 'On-call phone number saved' : result.error || 'Failed to save phone number')
+    } catch (err) {
+      setMessage('Network error while saving phone number')
+    }
+  }
+
+  const openForm = (schedule?: OnCallSchedule) => {
+    setForm(schedule ? {
+      name: schedule.name,
+      rotation_type: schedule.rotation_type,
+      handoff_time: schedule.handoff_time,
+      timezone: schedule.timezone,
+      rotation_start: schedule.rotation_start,
+      participants: schedule.participants
+    } : emptyForm())
+    setEditing(schedule ? schedule.id : 'new')
+    setOverriding(null)
+    setError(null)
+    setMessage(null)
+  }
+
+  const openOverrideForm = (schedule: OnCallSchedule) => {
+    setOverrideForm({ user_id: members[0]?.user_id || '', starts_at: '', ends_at: '' })
+    setOverriding(schedule.id)
+    setEditing(null)
+    setError(null)
+    setMessage(null)
+  }
+
+  // Selection order is rotation order
+  const toggleParticipant = (userId: string) => {
+    setForm(prev => ({
+      ...prev,
+      participants: prev.participants.includes(userId)
+        ? prev.participants.filter(id => id !== userId)
+        : [...prev.participants, userId]
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(
+        editing === 'new' ? '/api/oncall-schedules' : `/api/oncall-schedules/${editing}`,
+        {
+          method: editing === 'new' ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(form)
+        }
+      )
+
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Failed to save on-call schedule')
+        return
+      }
+
+      setEditing(null)
+      await fetchSchedules()
+    } catch (err) {
+      setError('Network error while saving on-call schedule')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOverrideSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      // datetime-local inputs are in the browser's timezone
+      const response = await fetch(`/api/oncall-schedules/${overriding}/overrides`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          user_id: overrideForm.user_id,
+          starts_at: new Date(overrideForm.starts_at).toISOString(),
+          ends_at: new Date(overrideForm.ends_at).toISOString()
+        })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Failed to add override')
+        return
+      }
+
+      setOverriding(null)
+      await fetchSchedules()
+    } catch (err) {
+      setError('Network error while adding override')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const deleteSchedule = async (schedule: OnCallSchedule) => {
+    if (!confirm(`Delete on-call schedule "${schedule.name}"? Notification channels that notify it are deleted too.`)) return
+    const response = await fetch(`/api/oncall-schedules/${schedule.id}`, { method: 'DELETE' })
+    if (!response.ok) setMessage((await response.json()).error || 'Failed to delete on-call schedule')
+    await fetchSchedules()
+  }
+
+  const deleteOverride = async (schedule: OnCallSchedule, overrideId: string) => {
+    await fetch(`/api/oncall-schedules/${schedule.id}/overrides/${overrideId}`, { method: 'DELETE' })
+    await fetchSchedules()
+  }
+
+  const copyCalendarUrl = async (schedule: OnCallSchedule) => {
+    await navigator.clipboard.writeText(schedule.ical_url)
+    setMessage(`Calendar URL for ${schedule.name} copied`)
+  }
+
+  const memberEmail = (id: string) => members.find(member => member.user_id === id)?.email || 'Former member'
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            On-call Schedules
+          </CardTitle>
+          {!editing && (
+            <Button size="sm" onClick={() => openForm()} className="flex items-center gap-1">
+              <Plus className="h-4 w-4" />
+              New Schedule
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600">
+          Rotate members on call daily or weekly. Email and SMS notification channels can notify whoever is on call,
+          and escalation steps reach them through those channels.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Label htmlFor="oncall-phone">Your on-call phone number</Label>
+            <Input
+              id="oncall-phone"
+              placeholder="+14155550123"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+            />
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={savePhone}>
+            Save
+          </Button>
+        </div>
+
+        {message && <p className="text-sm text-gray-600">{message}</p>}
+
+        {editing && (
+          <form onSubmit={handleSubmit} className="space-y-4 p-4 border rounded-md">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="schedule-name">Name</Label>
+                <Input
+                  id="schedule-name"
+                  placeholder="Primary on-call"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="schedule-rotation">Rotation</Label>
+                <select
+                  id="schedule-rotation"
+                  value={form.rotation_type}
+                  onChange={(e) => setForm(prev => ({ ...prev, rotation_type: e.target.value as RotationType }))}
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  disabled={isSubmitting}
+                >
+                  <option value="weekly">Weekly</option>
+                  <option value="daily">Daily</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="schedule-start">First shift starts on</Label>
+                <Input
+                  id="schedule-start"
+                  type="date"
+                  value={form.rotation_start}
+                  onChange={(e) => setForm(prev => ({ ...prev, rotation_start: e.target.value }))}
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="schedule-handoff">Handoff time</Label>
+                <Input
+                  id="schedule-handoff"
+                  type="time"
+                  value={form.handoff_time}
+                  onChange={(e) => setForm(prev => ({ ...prev, handoff_time: e.target.value }))}
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <Label htmlFor="schedule-timezone">Timezone</Label>
+                <Input
+                  id="schedule-timezone"
+                  placeholder="Europe/Berlin"
+                  value={form.timezone}
+                  onChange={(e) => setForm(prev => ({ ...prev, timezone: e.target.value }))}
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Participants, in rotation order</Label>
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {members.map(member => {
+                  const position = form.participants.indexOf(member.user_id)
+                  return (
+                    <label key={member.user_id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={position !== -1}
+                        onChange={() => toggleParticipant(member.user_id)}
+                        disabled={isSubmitting}
+                      />
+                      {member.email || member.user_id}
+                      {position !== -1 && <Badge variant="outline" className="text-xs">#{position + 1}</Badge>}
+                    </label>
+                  )
+                })}
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : editing === 'new' ? 'Create Schedule' : 'Save Schedule'}
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => setEditing(null)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-600">Loading on-call schedules...</p>
+        ) : schedules.length === 0 ? (
+          <p className="text-sm text-gray-600">No on-call schedules yet.</p>
+        ) : (
+          schedules.map(schedule => (
+            <div key={schedule.id} className="space-y-2 p-3 border rounded-md">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium truncate">{schedule.name}</p>
+                  <p className="text-xs text-gray-600">
+                    {schedule.rotation_type === 'weekly' ? 'Weekly' : 'Daily'} handoff at {schedule.handoff_time} ({schedule.timezone})
+                    {' · '}{schedule.participants.map(memberEmail).join(' → ')}
+                  </p>
+                  <p className="text-sm">
+                    On call now:{' '}
+                    {schedule.on_call ? (
+                      <>
+                        <span className="font-medium">{schedule.on_call.email || 'Unknown member'}</span>
+                        {schedule.on_call.override && <Badge variant="outline" className="ml-1 text-xs">Override</Badge>}
+                        <span className="text-xs text-gray-600"> until {formatShiftTime(schedule.on_call.ends_at)}</span>
+                      </>
+                    ) : (
+                      <span className="text-gray-600">nobody</span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => copyCalendarUrl(schedule)} className="h-8 w-8" title="Copy iCal feed URL">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openForm(schedule)} className="h-8 w-8">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => deleteSchedule(schedule)} className="h-8 w-8">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {schedule.upcoming_shifts.length > 1 && (
+                <ul className="text-xs text-gray-600">
+                  {schedule.upcoming_shifts.slice(1, 4).map(shift => (
+                    <li key={shift.starts_at}>
+                      {formatShiftTime(shift.starts_at)}: {shift.email || 'Unknown member'}{shift.override ? ' (override)' : ''}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {schedule.overrides.map(override => (
+                <div key={override.id} className="flex items-center gap-2 text-xs text-gray-600">
+                  <Badge variant="outline" className="text-xs">Override</Badge>
+                  {memberEmail(override.user_id)}: {formatShiftTime(override.starts_at)} – {formatShiftTime(override.ends_at)}
+                  <Button variant="ghost" size="icon" onClick={() => deleteOverride(schedule, override.id)} className="h-6 w-6">
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+
+              {overriding === schedule.id ? (
+                <form onSubmit={handleOverrideSubmit} className="space-y-2 p-3 border rounded-md">
+                  <div className="grid gap-2 sm:grid-cols-3">
+                    <select
+                      value={overrideForm.user_id}
+                      onChange={(e) => setOverrideForm(prev => ({ ...prev, user_id: e.target.value }))}
+                      className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      disabled={isSubmitting}
+                    >
+                      {members.map(member => (
+                        <option key={member.user_id} value={member.user_id}>{member.email || member.user_id}</option>
+                      ))}
+                    </select>
+                    <Input
+                      type="datetime-local"
+                      value={overrideForm.starts_at}
+                      onChange={(e) => setOverrideForm(prev => ({ ...prev, starts_at: e.target.value }))}
+                      disabled={isSubmitting}
+                      required
+                    />
+                    <Input
+                      type="datetime-local"
+                      value={overrideForm.ends_at}
+                      onChange={(e) => setOverrideForm(prev => ({ ...prev, ends_at: e.target.value }))}
+                      disabled={isSubmitting}
+                      required
+                    />
+                  </div>
+                  {error && <p className="text-sm text-red-600">{error}</p>}
+                  <div className="flex gap-2">
+                    <Button type="submit" size="sm" disabled={isSubmitting}>
+                      {isSubmitting ? 'Saving...' : 'Add Override'}
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" onClick={() => setOverriding(null)} disabled={isSubmitting}>
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => openOverrideForm(schedule)}>
+                  Add Override
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
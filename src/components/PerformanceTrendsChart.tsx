@@ -12,8 +12,27 @@ interface PerformanceData {
   uptime: number
   incidents: number
   avgResponseTime: number
+  // Average HTTP phases, present when the interval's checks were timed
+  dns_time_ms?: number
+  connect_time_ms?: number
+  tls_time_ms?: number
+  ttfb_ms?: number
+  download_time_ms?: number
 }
 
+type PhaseKey = 'dns_time_ms' | 'connect_time_ms' | 'tls_time_ms' | 'ttfb_ms' | 'download_time_ms'
+
+// Mirrors HTTP_PHASES in lib/http-timing, in request order
+const PHASES: Array<{ key: PhaseKey; label: string; color: string }> = [
+  { key: 'dns_time_ms', label: 'DNS', color: '#8b5cf6' },
+  { key: 'connect_time_ms', label: 'TCP connect', color: '#06b6d4' },
+  { key: 'tls_time_ms', label: 'TLS', color: '#10b981' },
+  { key: 'ttfb_ms', label: 'Time to first byte', color: '#3b82f6' },
+  { key: 'download_time_ms', label: 'Download', color: '#f59e0b' }
+]
+
+const PHASE_LABELS = PHASES.map(phase => phase.label)
+
 interface PerformanceTrendsChartProps {
   monitorId: string
 }
@@ -86,7 +105,7 @@ export function PerformanceTrendsChart({ monitorId }: PerformanceTrendsChartProp
               />
               <span className="text-gray-600">{entry.name}:</span>
               <span className="font-medium">
-                {entry.name === 'Response Time' || entry.name === 'Avg Response Time' 
+                {entry.name === 'Response Time' || entry.name === 'Avg Response Time' || PHASE_LABELS.includes(entry.name)
                   ? `${entry.value}ms`
                   : entry.name === 'Uptime'
                   ? `${entry.value}%`
@@ -137,6 +156,9 @@ export function PerformanceTrendsChart({ monitorId }: PerformanceTrendsChartProp
     )
   }
 
+  // Timed HTTP checks show the average broken down into stacked phases
+  const hasPhases = data.some(point => point.ttfb_ms !== undefined)
+
   return (
     <Card>
       <CardHeader>
@@ -198,17 +220,29 @@ export function PerformanceTrendsChart({ monitorId }: PerformanceTrendsChartProp
                 name="Response Time"
               />
               
-              {/* Average Response Time Line */}
-              <Line
-                yAxisId="left"
-                type="monotone"
-                dataKey="avgResponseTime"
-                stroke="#06b6d4"
-                strokeWidth={2}
-                strokeDasharray="5 5"
-                dot={{ fill: '#06b6d4', strokeWidth: 2, r: 3 }}
-                name="Avg Response Time"
-              />
+              {/* Average Response Time, by phase when timed */}
+              {hasPhases ? PHASES.map(phase => (
+                <Bar
+                  key={phase.key}
+                  yAxisId="left"
+                  dataKey={phase.key}
+                  stackId="phases"
+                  fill={phase.color}
+                  opacity={0.8}
+                  name={phase.label}
+                />
+              )) : (
+                <Line
+                  yAxisId="left"
+                  type="monotone"
+                  dataKey="avgResponseTime"
+                  stroke="#06b6d4"
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={{ fill: '#06b6d4', strokeWidth: 2, r: 3 }}
+                  name="Avg Response Time"
+                />
+              )}
               
               {/* Uptime Line */}
               <Line
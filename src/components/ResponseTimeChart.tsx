@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Area, AreaChart } from 'recharts'
 import { Loader } from '@/components/ui/loader'
 
 interface ResponseTimeChartProps {
@@ -14,6 +14,27 @@ interface ChartDataPoint {
   date: string
   avgResponseTime: number
   timeKey: string
+  // Average HTTP phases, present when the bucket's checks were timed
+  dns_time_ms?: number
+  connect_time_ms?: number
+  tls_time_ms?: number
+  ttfb_ms?: number
+  download_time_ms?: number
+}
+
+type PhaseKey = 'dns_time_ms' | 'connect_time_ms' | 'tls_time_ms' | 'ttfb_ms' | 'download_time_ms'
+
+// Mirrors HTTP_PHASES in lib/http-timing, in request order
+const PHASES: Array<{ key: PhaseKey; label: string; color: string }> = [
+  { key: 'dns_time_ms', label: 'DNS', color: '#8b5cf6' },
+  { key: 'connect_time_ms', label: 'TCP connect', color: '#06b6d4' },
+  { key: 'tls_time_ms', label: 'TLS', color: '#10b981' },
+  { key: 'ttfb_ms', label: 'Time to first byte', color: '#3b82f6' },
+  { key: 'download_time_ms', label: 'Download', color: '#f59e0b' }
+]
+
+function phaseTotal(point: ChartDataPoint): number {
+  return PHASES.reduce((sum, phase) => sum + (point[phase.key] || 0), 0)
 }
 
 export function ResponseTimeChart({ monitorId, days = 7, hours }: ResponseTimeChartProps) {
@@ -62,6 +83,68 @@ export function ResponseTimeChart({ monitorId, days = 7, hours }: ResponseTimeCh
     )
   }
 
+  // Timed HTTP checks break down into stacked phases; other monitors keep
+  // the single response time series
+  const hasPhases = data.some(point => point.ttfb_ms !== undefined)
+
+  if (hasPhases) {
+    return (
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart 
+            data={data}
+            margin={{ top: 10, right: 30, left: 60, bottom: 10 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" className="opacity-20" />
+            <XAxis 
+              dataKey="date" 
+              tick={{ fontSize: 11 }}
+              axisLine={{ stroke: '#e5e7eb' }}
+              tickLine={{ stroke: '#e5e7eb' }}
+              interval="preserveStartEnd"
+              angle={-45}
+              textAnchor="end"
+              height={60}
+            />
+            <YAxis 
+              domain={[0, Math.max(...data.map(phaseTotal)) * 1.1]}
+              tick={{ fontSize: 11 }}
+              axisLine={{ stroke: '#e5e7eb' }}
+              tickLine={{ stroke: '#e5e7eb' }}
+              label={{ value: 'Response Time (ms)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle' } }}
+              tickFormatter={(value) => `${Math.round(value)}`}
+              width={55}
+            />
+            <Tooltip 
+              formatter={(value: number, name: string) => [`${Math.round(value)}ms`, name]}
+              labelFormatter={(label) => `Time: ${label}`}
+              contentStyle={{
+                backgroundColor: 'white',
+                border: '1px solid #e5e7eb',
+                borderRadius: '8px',
+                fontSize: '12px',
+                boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+            {PHASES.map(phase => (
+              <Area
+                key={phase.key}
+                type="monotone"
+                dataKey={phase.key}
+                name={phase.label}
+                stackId="phases"
+                stroke={phase.color}
+                fill={phase.color}
+                fillOpacity={0.35}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    )
+  }
+
   // Calculate min and max response times for better Y-axis scaling
   const responseTimes = data.map(d => d.avgResponseTime)
   const minTime = Math.min(...responseTimes)
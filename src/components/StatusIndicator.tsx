@@ -3,7 +3,7 @@
 import { cn, getStatusColor, getStatusDot } from '@/lib/utils'
 
 interface StatusIndicatorProps {
-  status: 'up' | 'down' | 'unknown'
+  status: 'up' | 'degraded' | 'down' | 'unknown'
   size?: 'sm' | 'md' | 'lg'
   showText?: boolean
 }
@@ -35,6 +35,7 @@ export function StatusIndicator({ status, size = 'md', showText = true }: Status
           'font-medium capitalize',
           textSizes[size],
           status === 'up' ? 'text-green-600' : 
+          status === 'degraded' ? 'text-yellow-600' : 
           status === 'down' ? 'text-red-600' : 
           'text-gray-600'
         )}>
@@ -0,0 +1,517 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Monitor } from '@/types'
+import type { OwnerStatusPage } from '@/lib/status-pages'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Globe, Plus, Trash2, Edit, ExternalLink, X, Lock } from 'lucide-react'
+
+// Where a monitor appears on the page: hidden, ungrouped or in a named group
+const HIDDEN = 'hidden'
+const UNGROUPED = 'ungrouped'
+
+interface EditorState {
+  id: string | null
+  title: string
+  slug: string
+  description: string
+  logo_url: string
+  theme_color: string
+  show_uptime_percentage: boolean
+  show_response_times: boolean
+  public: boolean
+  password_protected: boolean
+  password: string
+  hasPassword: boolean
+  custom_domain: string
+  groupNames: string[]
+  placement: Record<string, string>
+}
+
+function toEditorState(page: OwnerStatusPage | null): EditorState {
+  const placement: Record<string, string> = {}
+  const groupNames = (page?.component_groups || []).map(group => group.name)
+
+  page?.component_groups?.forEach((group, index) => {
+    group.monitor_ids.forEach(id => {
+      if (!placement[id]) placement[id] = String(index)
+    })
+  })
+  page?.monitors_to_show?.forEach(id => {
+    if (!placement[id]) placement[id] = UNGROUPED
+  })
+
+  return {
+    id: page?.id || null,
+    title: page?.title || 'System Status',
+    slug: page?.slug || '',
+    description: page?.description || '',
+    logo_url: page?.logo_url || '',
+    theme_color: page?.theme_color || '#2563eb',
+    show_uptime_percentage: page?.show_uptime_percentage ?? true,
+    show_response_times: page?.show_response_times ?? true,
+    public: page?.public ?? true,
+    password_protected: page?.password_protected ?? false,
+    password: '',
+    hasPassword: !!page?.password_updated_at,
+    custom_domain: page?.custom_domain || '',
+    groupNames,
+    placement
+  }
+}
+
+export function StatusPagesManager() {
+  const [pages, setPages] = useState<OwnerStatusPage[]>([])
+  const [monitors, setMonitors] = useState<Monitor[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editor, setEditor] = useState<EditorState | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [domainErrors, setDomainErrors] = useState<Record<string, string>>({})
+  const [verifyingId, setVerifyingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      const [pagesResponse, monitorsResponse] = await Promise.all([
+        fetch('/api/status-pages'),
+        fetch('/api/monitors')
+      ])
+      if (pagesResponse.ok) setPages(await pagesResponse.json())
+      if (monitorsResponse.ok) {
+        const data = await monitorsResponse.json()
+        setMonitors(Array.isArray(data) ? data : [])
+      }
+    } catch (err) {
+      console.error('Failed to fetch status pages:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openEditor = (page: OwnerStatusPage | null) => {
+    setEditor(toEditorState(page))
+    setError(null)
+  }
+
+  const updateEditor = (changes: Partial<EditorState>) => {
+    setEditor(prev => prev ? { ...prev, ...changes } : prev)
+  }
+
+  const removeGroup = (index: number) => {
+    if (!editor) return
+    const placement: Record<string, string> = {}
+    Object.keys(editor.placement).forEach(id => {
+      const value = editor.placement[id]
+      if (value === String(index)) placement[id] = UNGROUPED
+      else if (value !== HIDDEN && value !== UNGROUPED && Number(value) > index) placement[id] = String(Number(value) - 1)
+      else placement[id] = value
+    })
+    updateEditor({ groupNames: editor.groupNames.filter((_, i) => i !== index), placement })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editor) return
+    setIsSubmitting(true)
+    setError(null)
+
+    const shown = monitors.filter(monitor => (editor.placement[monitor.id] || HIDDEN) !== HIDDEN)
+    const payload = {
+      title: editor.title,
+      slug: editor.slug,
+      description: editor.description || null,
+      logo_url: editor.logo_url || null,
+      theme_color: editor.theme_color,
+      show_uptime_percentage: editor.show_uptime_percentage,
+      show_response_times: editor.show_response_times,
+      public: editor.public,
+      password_protected: editor.password_protected,
+      // Blank keeps the current password
+      password: editor.password || undefined,
+      custom_domain: editor.custom_domain || null,
+      component_groups: editor.groupNames.map((name, index) => ({
+        name,
+        monitor_ids: shown.filter(monitor => editor.placement[monitor.id] === String(index)).map(monitor => monitor.id)
+      })),
+      monitors_to_show: shown.map(monitor => monitor.id)
+    }
+
+    try {
+      const response = await fetch(editor.id ? `/api/status-pages/${editor.id}` : '/api/status-pages', {
+        method: editor.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Failed to save status page')
+        return
+      }
+
+      setEditor(null)
+      await fetchData()
+    } catch (err) {
+      setError('Network error while saving status page')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const verifyDomain = async (page: OwnerStatusPage) => {
+    setVerifyingId(page.id)
+    setDomainErrors(prev => ({ ...prev, [page.id]: '' }))
+    try {
+      const response = await fetch(`/api/status-pages/${page.id}/verify-domain`, { method: 'POST' })
+      const result = await response.json()
+      if (!response.ok) {
+        setDomainErrors(prev => ({ ...prev, [page.id]: result.error || 'Failed to verify the domain' }))
+        return
+      }
+      await fetchData()
+    } catch (err) {
+      setDomainErrors(prev => ({ ...prev, [page.id]: 'Network error while verifying the domain' }))
+    } finally {
+      setVerifyingId(null)
+    }
+  }
+
+  const deletePage = async (page: OwnerStatusPage) => {
+    if (!confirm(`Delete status page "${page.title}"?`)) return
+    await fetch(`/api/status-pages/${page.id}`, { method: 'DELETE' })
+    await fetchData()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Status Pages</h2>
+          <p className="text-muted-foreground mt-1">
+            Public pages showing the status of several monitors, with your own branding.
+          </p>
+        </div>
+        {!editor && (
+          <Button onClick={() => openEditor(null)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            New Status Page
+          </Button>
+        )}
+      </div>
+
+      {editor && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>{editor.id ? 'Edit Status Page' : 'New Status Page'}</CardTitle>
+              <Button variant="ghost" size="icon" onClick={() => setEditor(null)} className="h-8 w-8">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="sp-title" className="text-sm font-medium block mb-2">Title</label>
+                  <Input
+                    id="sp-title"
+                    value={editor.title}
+                    onChange={(e) => updateEditor({ title: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="sp-slug" className="text-sm font-medium block mb-2">Address</label>
+                  <div className="flex items-center gap-1">
+                    <span className="text-sm text-muted-foreground">/s/</span>
+                    <Input
+                      id="sp-slug"
+                      placeholder="acme"
+                      value={editor.slug}
+                      onChange={(e) => updateEditor({ slug: e.target.value.toLowerCase() })}
+                      required
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="sp-description" className="text-sm font-medium block mb-2">Description</label>
+                <Input
+                  id="sp-description"
+                  value={editor.description}
+                  onChange={(e) => updateEditor({ description: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="sp-logo" className="text-sm font-medium block mb-2">Logo URL</label>
+                  <Input
+                    id="sp-logo"
+                    type="url"
+                    placeholder="https://example.com/logo.png"
+                    value={editor.logo_url}
+                    onChange={(e) => updateEditor({ logo_url: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="sp-color" className="text-sm font-medium block mb-2">Theme Color</label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={editor.theme_color}
+                      onChange={(e) => updateEditor({ theme_color: e.target.value })}
+                      className="h-10 w-12 rounded border"
+                    />
+                    <Input
+                      id="sp-color"
+                      value={editor.theme_color}
+                      onChange={(e) => updateEditor({ theme_color: e.target.value })}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-6 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={editor.public}
+                    onChange={(e) => updateEditor({ public: e.target.checked })}
+                  />
+                  Public
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={editor.show_uptime_percentage}
+                    onChange={(e) => updateEditor({ show_uptime_percentage: e.target.checked })}
+                  />
+                  Show uptime percentages
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={editor.show_response_times}
+                    onChange={(e) => updateEditor({ show_response_times: e.target.checked })}
+                  />
+                  Show response times
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={editor.password_protected}
+                    onChange={(e) => updateEditor({ password_protected: e.target.checked })}
+                  />
+                  Password protect
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {editor.password_protected && (
+                  <div>
+                    <label htmlFor="sp-password" className="text-sm font-medium block mb-2">Password</label>
+                    <Input
+                      id="sp-password"
+                      type="password"
+                      autoComplete="new-password"
+                      placeholder={editor.hasPassword ? 'Leave blank to keep the current password' : 'At least 8 characters'}
+                      value={editor.password}
+                      onChange={(e) => updateEditor({ password: e.target.value })}
+                      required={!editor.hasPassword}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="sp-domain" className="text-sm font-medium block mb-2">Custom Domain</label>
+                  <Input
+                    id="sp-domain"
+                    placeholder="status.example.com"
+                    value={editor.custom_domain}
+                    onChange={(e) => updateEditor({ custom_domain: e.target.value.toLowerCase() })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Point a CNAME record for this host at this app. After saving, add the TXT record shown on the page&apos;s card and verify it; the domain serves the page only once verified.
+                  </p>
+                </div>
+              </div>
+
+              {/* Component Groups */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Component Groups</span>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateEditor({ groupNames: [...editor.groupNames, `Group ${editor.groupNames.length + 1}`] })}
+                    className="flex items-center gap-1"
+                  >
+                    <Plus className="h-3 w-3" />
+                    Add Group
+                  </Button>
+                </div>
+                {editor.groupNames.map((name, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={name}
+                      onChange={(e) => updateEditor({
+                        groupNames: editor.groupNames.map((n, i) => i === index ? e.target.value : n)
+                      })}
+                      required
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeGroup(index)}
+                      className="h-8 w-8 text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              {/* Components */}
+              <div className="space-y-2">
+                <span className="text-sm font-medium block">Components</span>
+                {monitors.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Add monitors first to show them on a status page.</p>
+                )}
+                {monitors.map(monitor => (
+                  <div key={monitor.id} className="flex items-center justify-between gap-4 border rounded-md px-3 py-2">
+                    <span className="text-sm truncate">{monitor.name}</span>
+                    <select
+                      value={editor.placement[monitor.id] || HIDDEN}
+                      onChange={(e) => updateEditor({ placement: { ...editor.placement, [monitor.id]: e.target.value } })}
+                      className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                    >
+                      <option value={HIDDEN}>Not shown</option>
+                      <option value={UNGROUPED}>No group</option>
+                      {editor.groupNames.map((name, index) => (
+                        <option key={index} value={String(index)}>{name || `Group ${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {error && (
+                <div className="p-3 rounded-md text-sm bg-red-50 text-red-800 border border-red-200">
+                  {error}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? 'Saving...' : 'Save Status Page'}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setEditor(null)} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="text-center text-muted-foreground">Loading status pages...</div>
+      ) : pages.length === 0 && !editor ? (
+        <div className="text-center py-12 border-2 border-dashed border-gray-200 rounded-lg">
+          <h3 className="text-lg font-medium text-muted-foreground mb-2">No status pages yet</h3>
+          <p className="text-muted-foreground">Create one to share the status of your services.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {pages.map(page => (
+            <Card key={page.id} style={{ borderTopColor: page.theme_color, borderTopWidth: 4 }}>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Globe className="h-4 w-4" />
+                    {page.title}
+                  </CardTitle>
+                  <div className="flex items-center gap-1">
+                    {page.password_protected && (
+                      <Badge variant="outline" className="text-xs flex items-center gap-1">
+                        <Lock className="h-3 w-3" />
+                        Password
+                      </Badge>
+                    )}
+                    <Badge variant={page.public ? 'success' : 'outline'} className="text-xs">
+                      {page.public ? 'Public' : 'Private'}
+                    </Badge>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="text-sm text-muted-foreground">
+                  {page.monitors_to_show?.length || 0} components
+                  {page.component_groups?.length ? ` in ${page.component_groups.length} groups` : ''}
+                </div>
+                {page.custom_domain && (
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <span className="truncate">{page.custom_domain}</span>
+                      <Badge variant={page.custom_domain_verified_at ? 'success' : 'outline'} className="text-xs">
+                        {page.custom_domain_verified_at ? 'Verified' : 'Unverified'}
+                      </Badge>
+                    </div>
+                    {!page.custom_domain_verified_at && page.custom_domain_record && (
+                      <div className="text-xs text-muted-foreground space-y-1">
+                        <div>Add a TXT record, then verify:</div>
+                        <div className="font-mono break-all">{page.custom_domain_record.name}</div>
+                        <div className="font-mono break-all">{page.custom_domain_record.value}</div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => verifyDomain(page)}
+                          disabled={verifyingId === page.id}
+                        >
+                          {verifyingId === page.id ? 'Verifying...' : 'Verify domain'}
+                        </Button>
+                        {domainErrors[page.id] && (
+                          <div className="text-red-600">{domainErrors[page.id]}</div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/s/${page.slug}`} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1">
+                      <ExternalLink className="h-3 w-3" />
+                      /s/{page.slug}
+                    </a>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openEditor(page)} className="h-8 w-8">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deletePage(page)}
+                    className="h-8 w-8 text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
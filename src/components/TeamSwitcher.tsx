@@ -0,0 +1,119 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import type { TeamWithRole } from '@/lib/teams'
+import { Users, User, ChevronDown, Check, Settings } from 'lucide-react'
+
+export function TeamSwitcher() {
+  const [teams, setTeams] = useState<TeamWithRole[]>([])
+  const [currentTeamId, setCurrentTeamId] = useState<string | null>(null)
+  const [open, setOpen] = useState(false)
+  const [switching, setSwitching] = useState(false)
+
+  useEffect(() => {
+    fetchTeams()
+  }, [])
+
+  const fetchTeams = async () => {
+    try {
+      const response = await fetch('/api/teams')
+      if (!response.ok) return
+      const data = await response.json()
+      setTeams(data.teams || [])
+      setCurrentTeamId(data.current_team_id || null)
+    } catch (error) {
+      console.error('Failed to fetch teams:', error)
+    }
+  }
+
+  const switchTo = async (teamId: string | null) => {
+    setOpen(false)
+    if (teamId === currentTeamId) return
+
+    setSwitching(true)
+    try {
+      const response = await fetch('/api/teams/current', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ team_id: teamId })
+      })
+      if (response.ok) {
+        // Every dashboard view loads its data for the workspace on mount
+        window.location.reload()
+      }
+    } catch (error) {
+      console.error('Failed to switch team:', error)
+    } finally {
+      setSwitching(false)
+    }
+  }
+
+  const currentTeam = teams.find(team => team.id === currentTeamId)
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={switching}
+        className="flex items-center gap-2 px-3 py-2 text-sm rounded-md border hover:bg-muted transition-colors disabled:opacity-50"
+      >
+        {currentTeam ? <Users className="h-4 w-4" /> : <User className="h-4 w-4" />}
+        <span className="max-w-[10rem] truncate">{currentTeam ? currentTeam.name : 'Personal'}</span>
+        {currentTeam && (
+          <span className="text-xs text-muted-foreground capitalize hidden md:inline">{currentTeam.role}</span>
+        )}
+        <ChevronDown className="h-4 w-4" />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+
+          <div className="absolute right-0 mt-2 w-64 bg-background border rounded-lg shadow-lg z-20">
+            <div className="py-1">
+              <p className="px-4 py-2 text-xs font-medium text-muted-foreground uppercase">Workspaces</p>
+
+              <button
+                onClick={() => switchTo(null)}
+                className="flex items-center justify-between w-full px-4 py-2 text-sm hover:bg-muted transition-colors"
+              >
+                <span className="flex items-center gap-2">
+                  <User className="h-4 w-4" />
+                  Personal
+                </span>
+                {!currentTeamId && <Check className="h-4 w-4 text-primary" />}
+              </button>
+
+              {teams.map(team => (
+                <button
+                  key={team.id}
+                  onClick={() => switchTo(team.id)}
+                  className="flex items-center justify-between w-full px-4 py-2 text-sm hover:bg-muted transition-colors"
+                >
+                  <span className="flex items-center gap-2 min-w-0">
+                    <Users className="h-4 w-4 flex-shrink-0" />
+                    <span className="truncate">{team.name}</span>
+                    <span className="text-xs text-muted-foreground capitalize">{team.role}</span>
+                  </span>
+                  {team.id === currentTeamId && <Check className="h-4 w-4 text-primary" />}
+                </button>
+              ))}
+
+              <div className="border-t my-1" />
+
+              <Link
+                href="/teams"
+                className="flex items-center gap-2 px-4 py-2 text-sm hover:bg-muted transition-colors"
+                onClick={() => setOpen(false)}
+              >
+                <Settings className="h-4 w-4" />
+                Manage Teams
+              </Link>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
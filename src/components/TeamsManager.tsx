@@ -0,0 +1,403 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { TeamWithRole, TeamMember, TeamInvitation, TeamRole } from '@/lib/teams'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Users, Plus, Trash2, Mail, LogOut, X, Copy } from 'lucide-react'
+
+// Mirrors ASSIGNABLE_TEAM_ROLES; the teams lib is server-only
+const ASSIGNABLE_ROLES: TeamRole[] = ['admin', 'member', 'viewer']
+
+const ROLE_DESCRIPTIONS: Record<TeamRole, string> = {
+  owner: 'Full control, including renaming and deleting the team',
+  admin: 'Manages members, invitations and notification targets',
+  member: 'Creates and edits monitors, status pages and maintenance windows',
+  viewer: 'Read-only access'
+}
+
+interface TeamDetails extends TeamWithRole {
+  members: TeamMember[]
+  invitations: TeamInvitation[]
+}
+
+interface TeamsManagerProps {
+  currentUserId: string
+}
+
+export function TeamsManager({ currentUserId }: TeamsManagerProps) {
+  const [teams, setTeams] = useState<TeamWithRole[]>([])
+  const [selected, setSelected] = useState<TeamDetails | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [newTeamName, setNewTeamName] = useState('')
+  const [teamName, setTeamName] = useState('')
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<TeamRole>('member')
+  const [inviteLink, setInviteLink] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchTeams()
+  }, [])
+
+  const fetchTeams = async () => {
+    try {
+      const response = await fetch('/api/teams')
+      if (response.ok) {
+        const data = await response.json()
+        setTeams(data.teams || [])
+      }
+    } catch (err) {
+      console.error('Failed to fetch teams:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectTeam = async (teamId: string) => {
+    setError(null)
+    setInviteLink(null)
+    try {
+      const response = await fetch(`/api/teams/${teamId}`)
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Failed to load team')
+        return
+      }
+      setSelected(result)
+      setTeamName(result.name)
+    } catch (err) {
+      setError('Network error while loading team')
+    }
+  }
+
+  /** Sends a team request, surfacing its error; returns the parsed body or null. */
+  const submit = async (url: string, method: string, body?: object): Promise<any | null> => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Request failed')
+        return null
+      }
+      return result
+    } catch (err) {
+      setError('Network error')
+      return null
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const createTeam = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const team = await submit('/api/teams', 'POST', { name: newTeamName })
+    if (!team) return
+    setNewTeamName('')
+    await fetchTeams()
+    await selectTeam(team.id)
+  }
+
+  const renameTeam = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selected) return
+    if (await submit(`/api/teams/${selected.id}`, 'PUT', { name: teamName })) {
+      await fetchTeams()
+      await selectTeam(selected.id)
+    }
+  }
+
+  const deleteTeam = async () => {
+    if (!selected) return
+    if (!confirm(`Delete team "${selected.name}"? Its monitors, status pages and maintenance windows are deleted too.`)) return
+    if (await submit(`/api/teams/${selected.id}`, 'DELETE')) {
+      setSelected(null)
+      await fetchTeams()
+    }
+  }
+
+  const invite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selected) return
+    const invitation = await submit(`/api/teams/${selected.id}/invitations`, 'POST', {
+      email: inviteEmail,
+      role: inviteRole
+    })
+    if (!invitation) return
+    setInviteEmail('')
+    await selectTeam(selected.id)
+    // Shown after the reload so it is not cleared; shared by hand if the email did not go out
+    setInviteLink(invitation.emailed ? null : invitation.accept_url)
+  }
+
+  const revokeInvitation = async (invitation: TeamInvitation) => {
+    if (!selected) return
+    if (await submit(`/api/teams/${selected.id}/invitations/${invitation.id}`, 'DELETE')) {
+      await selectTeam(selected.id)
+    }
+  }
+
+  const changeRole = async (member: TeamMember, role: TeamRole) => {
+    if (!selected) return
+    if (await submit(`/api/teams/${selected.id}/members/${member.user_id}`, 'PUT', { role })) {
+      await selectTeam(selected.id)
+    }
+  }
+
+  const removeMember = async (member: TeamMember) => {
+    if (!selected) return
+    const leaving = member.user_id === currentUserId
+    if (!confirm(leaving ? `Leave team "${selected.name}"?` : `Remove ${member.email || 'this member'} from the team?`)) return
+    if (!(await submit(`/api/teams/${selected.id}/members/${member.user_id}`, 'DELETE'))) return
+
+    if (leaving) {
+      setSelected(null)
+      await fetchTeams()
+    } else {
+      await selectTeam(selected.id)
+    }
+  }
+
+  const isAdmin = selected?.role === 'owner' || selected?.role === 'admin'
+
+  if (loading) {
+    return <div className="text-muted-foreground">Loading teams...</div>
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Your Teams
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {teams.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                You are not a member of any team yet.
+              </p>
+            )}
+            {teams.map(team => (
+              <button
+                key={team.id}
+                onClick={() => selectTeam(team.id)}
+                className={`flex items-center justify-between w-full p-3 text-left rounded-md border transition-colors hover:bg-muted ${
+                  selected?.id === team.id ? 'border-primary' : ''
+                }`}
+              >
+                <span className="font-medium truncate">{team.name}</span>
+                <Badge variant="outline" className="capitalize">{team.role}</Badge>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New Team</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={createTeam} className="space-y-3">
+              <Input
+                placeholder="Team name"
+                value={newTeamName}
+                onChange={(e) => setNewTeamName(e.target.value)}
+                disabled={isSubmitting}
+                required
+              />
+              <Button type="submit" disabled={isSubmitting} className="w-full flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                Create Team
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="lg:col-span-2 space-y-6">
+        {error && (
+          <div className="p-3 text-sm text-red-800 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {!selected && (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Select a team to manage its members and invitations.
+            </CardContent>
+          </Card>
+        )}
+
+        {selected && (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>{selected.name}</CardTitle>
+                  <Button variant="ghost" size="icon" onClick={() => setSelected(null)} className="h-8 w-8">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Your role: <span className="capitalize">{selected.role}</span> — {ROLE_DESCRIPTIONS[selected.role]}
+                </p>
+              </CardHeader>
+              {selected.role === 'owner' && (
+                <CardContent>
+                  <form onSubmit={renameTeam} className="flex gap-2">
+                    <Input
+                      value={teamName}
+                      onChange={(e) => setTeamName(e.target.value)}
+                      disabled={isSubmitting}
+                      required
+                    />
+                    <Button type="submit" variant="outline" disabled={isSubmitting || teamName === selected.name}>
+                      Rename
+                    </Button>
+                    <Button type="button" variant="destructive" onClick={deleteTeam} disabled={isSubmitting}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </form>
+                </CardContent>
+              )}
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Members</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {selected.members.map(member => {
+                  const isSelf = member.user_id === currentUserId
+                  const canManage = isAdmin && member.role !== 'owner' && !isSelf
+
+                  return (
+                    <div key={member.user_id} className="flex items-center justify-between gap-3 p-3 border rounded-md">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">
+                          {member.email || member.user_id}
+                          {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Joined {new Date(member.joined_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {canManage ? (
+                          <select
+                            value={member.role}
+                            onChange={(e) => changeRole(member, e.target.value as TeamRole)}
+                            disabled={isSubmitting}
+                            className="rounded-md border border-input bg-background px-3 py-2 text-sm capitalize"
+                          >
+                            {ASSIGNABLE_ROLES.map(role => (
+                              <option key={role} value={role}>{role}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <Badge variant="outline" className="capitalize">{member.role}</Badge>
+                        )}
+                        {canManage && (
+                          <Button variant="ghost" size="icon" onClick={() => removeMember(member)} disabled={isSubmitting} className="h-8 w-8">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {isSelf && member.role !== 'owner' && (
+                          <Button variant="outline" size="sm" onClick={() => removeMember(member)} disabled={isSubmitting} className="flex items-center gap-1">
+                            <LogOut className="h-4 w-4" />
+                            Leave
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+
+            {isAdmin && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Mail className="h-5 w-5" />
+                    Invitations
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <form onSubmit={invite} className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      type="email"
+                      placeholder="teammate@example.com"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      disabled={isSubmitting}
+                      required
+                    />
+                    <select
+                      value={inviteRole}
+                      onChange={(e) => setInviteRole(e.target.value as TeamRole)}
+                      disabled={isSubmitting}
+                      className="rounded-md border border-input bg-background px-3 py-2 text-sm capitalize"
+                    >
+                      {ASSIGNABLE_ROLES.map(role => (
+                        <option key={role} value={role}>{role}</option>
+                      ))}
+                    </select>
+                    <Button type="submit" disabled={isSubmitting}>
+                      Invite
+                    </Button>
+                  </form>
+
+                  {inviteLink && (
+                    <div className="p-3 text-sm bg-yellow-50 border border-yellow-200 rounded-md space-y-2">
+                      <p className="text-yellow-800">
+                        The invitation email could not be sent. Share this link with your teammate instead:
+                      </p>
+                      <div className="flex items-center gap-2">
+                        <code className="flex-1 truncate text-xs">{inviteLink}</code>
+                        <Button variant="ghost" size="icon" onClick={() => navigator.clipboard.writeText(inviteLink)} className="h-8 w-8">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {selected.invitations.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No pending invitations.</p>
+                  ) : (
+                    selected.invitations.map(invitation => (
+                      <div key={invitation.id} className="flex items-center justify-between gap-3 p-3 border rounded-md">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{invitation.email}</p>
+                          <p className="text-xs text-muted-foreground">
+                            <span className="capitalize">{invitation.role}</span> · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <Button variant="ghost" size="sm" onClick={() => revokeInvitation(invitation)} disabled={isSubmitting}>
+                          Revoke
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+// API keys for the /api/v1 REST API. A key belongs to a workspace (personal
+// or team), carries a set of scopes and is sent as `Authorization: Bearer`.
+
+import crypto from 'crypto'
+import { NextResponse } from 'next/server'
+import { getSupabaseAdmin } from './supabase'
+import { getTeamRole, hasTeamRole, scopeToWorkspace, type TeamRole, type Workspace } from './teams'
+
+export type ApiKeyScope =
+  | 'monitors:read'
+  | 'monitors:write'
+  | 'incidents:read'
+  | 'incidents:write'
+  | 'status_pages:read'
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  'monitors:read',
+  'monitors:write',
+  'incidents:read',
+  'incidents:write',
+  'status_pages:read'
+]
+
+export const MAX_API_KEY_NAME_LENGTH = 100
+
+// Keys are recognisable in logs and secret scanners by this prefix
+const API_KEY_PREFIX = 'upk_'
+
+// Characters of the key kept in clear to tell keys apart in the dashboard
+const DISPLAY_PREFIX_LENGTH = 12
+
+// last_used_at is only rewritten when older than this, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+
+const API_KEY_FIELDS = 'id, user_id, team_id, name, key_prefix, scopes, last_used_at, created_at'
+
+export interface ApiKey {
+  id: string
+  user_id: string
+  team_id: string | null
+  name: string
+  key_prefix: string
+  scopes: ApiKeyScope[]
+  last_used_at: string | null
+  created_at: string
+}
+
+/**
+ * Who a v1 request acts as: the key's workspace, with the creator's current
+ * role in it. Scopes narrow what the key can do within that role.
+ */
+export interface ApiPrincipal {
+  key: ApiKey
+  workspace: Workspace
+  email: string | null
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && API_KEY_SCOPES.includes(value as ApiKeyScope)
+}
+
+export function validateApiKeyInput(input: { name?: unknown; scopes?: unknown }): string | null {
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    return 'Key name is required'
+  }
+  if (input.name.trim().length > MAX_API_KEY_NAME_LENGTH) {
+    return `Key name must be at most ${MAX_API_KEY_NAME_LENGTH} characters`
+  }
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    return 'At least one scope is required'
+  }
+  if (!input.scopes.every(isApiKeyScope)) {
+    return `Scopes must be any of: ${API_KEY_SCOPES.join(', ')}`
+  }
+  return null
+}
+
+function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * Create a key in the workspace. The returned `key` is the only time the
+ * full secret is available; only its hash is stored.
+ */
+export async function createApiKey(
+  workspace: Workspace,
+  name: string,
+  scopes: ApiKeyScope[]
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = API_KEY_PREFIX + crypto.randomBytes(24).toString('hex')
+
+  const { data: apiKey, error } = await getSupabaseAdmin()
+    .from('api_keys')
+    .insert({
+      user_id: workspace.userId,
+      team_id: workspace.teamId,
+      name: name.trim(),
+      key_prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      key_hash: hashApiKey(key),
+      // Duplicates are dropped so scopes read cleanly in the dashboard
+      scopes: API_KEY_SCOPES.filter(scope => scopes.includes(scope))
+    })
+    .select(API_KEY_FIELDS)
+    .single()
+
+  if (error) throw error
+  return { apiKey, key }
+}
+
+/**
+ * Keys the caller can manage: all of a team's keys for team admins, otherwise
+ * only the caller's own keys in the workspace.
+ */
+export async function getApiKeys(workspace: Workspace): Promise<ApiKey[]> {
+  let query = scopeToWorkspace(
+    getSupabaseAdmin().from('api_keys').select(API_KEY_FIELDS),
+    workspace
+  )
+  if (workspace.teamId && !hasTeamRole(workspace.role, 'admin')) {
+    query = query.eq('user_id', workspace.userId)
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Revoke a key. Returns false when it does not exist or the caller may not
+ * manage it.
+ */
+export async function revokeApiKey(workspace: Workspace, keyId: string): Promise<boolean> {
+  let query = scopeToWorkspace(
+    getSupabaseAdmin().from('api_keys').delete().eq('id', keyId),
+    workspace
+  )
+  if (workspace.teamId && !hasTeamRole(workspace.role, 'admin')) {
+    query = query.eq('user_id', workspace.userId)
+  }
+
+  const { data, error } = await query.select('id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+/**
+ * Resolve a bearer token to the principal it acts as, or null when the key is
+ * unknown or its creator is no longer a member of the key's team.
+ */
+export async function authenticateApiKey(token: string): Promise<ApiPrincipal | null> {
+  if (!token.startsWith(API_KEY_PREFIX)) return null
+
+  const supabase = getSupabaseAdmin()
+  const { data } = await supabase
+    .from('api_keys')
+    .select('id, user_id, team_id, name, key_prefix, scopes, last_used_at, created_at, profiles(email)')
+    .eq('key_hash', hashApiKey(token))
+    .maybeSingle()
+
+  if (!data) return null
+
+  const { profiles, ...key } = data as any
+  const apiKey: ApiKey = { ...key, scopes: (key.scopes || []).filter(isApiKeyScope) }
+
+  let role: TeamRole = 'owner'
+  if (apiKey.team_id) {
+    const teamRole = await getTeamRole(apiKey.team_id, apiKey.user_id)
+    if (!teamRole) return null
+    role = teamRole
+  }
+
+  const now = Date.now()
+  if (!apiKey.last_used_at || now - new Date(apiKey.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+    await supabase
+      .from('api_keys')
+      .update({ last_used_at: new Date(now).toISOString() })
+      .eq('id', apiKey.id)
+  }
+
+  return {
+    key: apiKey,
+    workspace: { userId: apiKey.user_id, teamId: apiKey.team_id, role },
+    email: (Array.isArray(profiles) ? profiles[0]?.email : profiles?.email) ?? null
+  }
+}
+
+/**
+ * Authenticate a v1 request and check that its key carries the scope.
+ * Missing or unknown keys get 401, keys without the scope get 403.
+ */
+export async function authenticateApiRequest(
+  request: Request,
+  scope: ApiKeyScope
+): Promise<{ principal: ApiPrincipal; response?: never } | { principal?: never; response: NextResponse }> {
+  const match = (request.headers.get('authorization') || '').match(/^Bearer\s+(\S+)$/i)
+  const principal = match ? await authenticateApiKey(match[1]) : null
+
+  if (!principal) {
+    return {
+      response: NextResponse.json(
+        { error: 'A valid API key is required as Authorization: Bearer <key>' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+      )
+    }
+  }
+  if (!principal.key.scopes.includes(scope)) {
+    return { response: NextResponse.json({ error: `This API key lacks the ${scope} scope` }, { status: 403 }) }
+  }
+  return { principal }
+}
@@ -0,0 +1,82 @@
+// Runs response assertions on the server. Regex assertions are user-supplied
+// and can backtrack catastrophically, so they run in a worker thread that is
+// terminated after REGEX_TIMEOUT_MS instead of blocking the check cron.
+
+import { Worker } from 'worker_threads'
+import {
+  evaluateAssertions,
+  MAX_REGEX_BODY_BYTES,
+  MAX_REGEX_PATTERN_LENGTH,
+  type AssertionResult,
+  type RegexOutcome,
+  type ResponseAssertion
+} from './assertions'
+
+// Budget for all of a check's regexes together
+const REGEX_TIMEOUT_MS = 250
+
+// Reports each outcome as soon as it is known, so a timeout only fails the
+// regexes that had not finished
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads')
+workerData.regexes.forEach(({ pattern, flags }, index) => {
+  let outcome
+  try {
+    outcome = { matched: new RegExp(pattern, flags).test(workerData.body) }
+  } catch (error) {
+    outcome = { error: error.message }
+  }
+  parentPort.postMessage({ index, outcome })
+})
+`
+
+function testRegexes(body: string, regexes: Array<{ pattern: string; flags?: string }>): Promise<RegexOutcome[]> {
+  const outcomes: RegexOutcome[] = regexes.map(() => ({ timedOut: true }))
+
+  return new Promise(resolve => {
+    let settled = false
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { body: body.slice(0, MAX_REGEX_BODY_BYTES), regexes }
+    })
+
+    const finish = () => {
+      if (settled) return
+      settled = true
+      clearTimeout(timeoutId)
+      worker.terminate().catch(() => {})
+      resolve(outcomes)
+    }
+
+    const timeoutId = setTimeout(finish, REGEX_TIMEOUT_MS)
+
+    worker.on('message', ({ index, outcome }: { index: number; outcome: RegexOutcome }) => {
+      outcomes[index] = outcome
+    })
+    worker.on('error', error => {
+      console.error('Regex assertion worker failed:', error)
+      finish()
+    })
+    worker.on('exit', finish)
+  })
+}
+
+/**
+ * Run a monitor's assertions against a response body
+ */
+export async function runAssertions(body: string, assertions: ResponseAssertion[]): Promise<AssertionResult> {
+  const regexes = assertions.filter(
+    (assertion): assertion is Extract<ResponseAssertion, { type: 'regex' }> => assertion.type === 'regex'
+  )
+
+  let regexOutcomes: RegexOutcome[] = []
+  if (regexes.length > 0) {
+    const runnable = regexes.filter(regex => regex.pattern.length <= MAX_REGEX_PATTERN_LENGTH)
+    const results = runnable.length > 0 ? await testRegexes(body, runnable) : []
+    regexOutcomes = regexes.map(regex => regex.pattern.length <= MAX_REGEX_PATTERN_LENGTH
+      ? results[runnable.indexOf(regex)]
+      : { error: `pattern is longer than ${MAX_REGEX_PATTERN_LENGTH} characters` })
+  }
+
+  return evaluateAssertions(body, assertions, regexOutcomes)
+}
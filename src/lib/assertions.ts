@@ -0,0 +1,263 @@
+// Response assertions for HTTP monitors: keywords, regex and JSONPath checks
+
+export type ResponseAssertion =
+  | { type: 'keyword_present'; value: string; case_sensitive?: boolean }
+  | { type: 'keyword_absent'; value: string; case_sensitive?: boolean }
+  | { type: 'regex'; pattern: string; flags?: string }
+  | { type: 'json_path_equals'; path: string; value: unknown }
+  | { type: 'json_path_contains'; path: string; value: string }
+
+export type ResponseAssertionType = ResponseAssertion['type']
+
+export const ASSERTION_TYPES: Array<{ type: ResponseAssertionType; label: string }> = [
+  { type: 'keyword_present', label: 'Body contains' },
+  { type: 'keyword_absent', label: 'Body does not contain' },
+  { type: 'regex', label: 'Body matches regex' },
+  { type: 'json_path_equals', label: 'JSONPath equals' },
+  { type: 'json_path_contains', label: 'JSONPath contains' }
+]
+
+// Bodies larger than this are truncated before assertions run
+export const MAX_ASSERTION_BODY_BYTES = 1024 * 1024
+
+// Regexes can backtrack catastrophically, so they see a smaller slice of the
+// body and run off the main thread (see ./assertion-runner)
+export const MAX_REGEX_BODY_BYTES = 64 * 1024
+export const MAX_REGEX_PATTERN_LENGTH = 500
+
+// Outcome of one regex assertion, evaluated ahead of the other assertions
+export interface RegexOutcome {
+  matched?: boolean
+  error?: string
+  timedOut?: boolean
+}
+
+export interface AssertionResult {
+  passed: boolean
+  failures: string[]
+}
+
+/**
+ * Collect a monitor's assertions, including the legacy `keyword_check` column
+ */
+export function getMonitorAssertions(monitor: {
+  assertions?: ResponseAssertion[] | string | null
+  keyword_check?: string | null
+}): ResponseAssertion[] {
+  let assertions: ResponseAssertion[] = []
+
+  if (Array.isArray(monitor.assertions)) {
+    assertions = monitor.assertions
+  } else if (typeof monitor.assertions === 'string' && monitor.assertions) {
+    try {
+      const parsed = JSON.parse(monitor.assertions)
+      if (Array.isArray(parsed)) assertions = parsed
+    } catch {
+      console.warn('Ignoring invalid assertions JSON')
+    }
+  }
+
+  if (monitor.keyword_check) {
+    assertions = [{ type: 'keyword_present', value: monitor.keyword_check }, ...assertions]
+  }
+
+  return assertions
+}
+
+/**
+ * Validate user-supplied assertions. Returns an error message or null.
+ */
+export function validateAssertions(assertions: unknown): string | null {
+  if (!Array.isArray(assertions)) {
+    return 'Assertions must be an array'
+  }
+
+  for (let index = 0; index < assertions.length; index++) {
+    const assertion = assertions[index]
+    const label = `Assertion ${index + 1}`
+
+    if (!assertion || typeof assertion !== 'object') {
+      return `${label} must be an object`
+    }
+
+    switch (assertion.type) {
+      case 'keyword_present':
+      case 'keyword_absent':
+        if (typeof assertion.value !== 'string' || !assertion.value) {
+          return `${label}: keyword is required`
+        }
+        break
+      case 'regex':
+        if (typeof assertion.pattern !== 'string' || !assertion.pattern) {
+          return `${label}: pattern is required`
+        }
+        if (assertion.pattern.length > MAX_REGEX_PATTERN_LENGTH) {
+          return `${label}: pattern must be at most ${MAX_REGEX_PATTERN_LENGTH} characters`
+        }
+        try {
+          new RegExp(assertion.pattern, assertion.flags)
+        } catch (error: any) {
+          return `${label}: invalid regex - ${error.message}`
+        }
+        break
+      case 'json_path_equals':
+      case 'json_path_contains':
+        if (typeof assertion.path !== 'string' || !assertion.path.startsWith('$')) {
+          return `${label}: JSONPath must start with $`
+        }
+        if (parseJsonPath(assertion.path) === null) {
+          return `${label}: unsupported JSONPath ${assertion.path}`
+        }
+        if (assertion.type === 'json_path_contains' && typeof assertion.value !== 'string') {
+          return `${label}: value must be a string`
+        }
+        break
+      default:
+        return `${label}: unknown type ${assertion.type}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validate an expected status code set. Returns an error message or null.
+ */
+export function validateStatusCodes(codes: unknown): string | null {
+  if (!Array.isArray(codes)) {
+    return 'Expected status codes must be an array'
+  }
+  if (codes.some(code => !Number.isInteger(code) || code < 100 || code > 599)) {
+    return 'Expected status codes must be between 100 and 599'
+  }
+  return null
+}
+
+/**
+ * Split a JSONPath such as `$.services[0].db` or `$['health']` into segments.
+ * Only dot, bracket and index access are supported.
+ */
+export function parseJsonPath(path: string): Array<string | number> | null {
+  if (!path.startsWith('$')) return null
+
+  const segments: Array<string | number> = []
+  const pattern = /^(?:\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[['"]([^'"]+)['"]\])/
+  let rest = path.slice(1)
+
+  while (rest.length > 0) {
+    const match = pattern.exec(rest)
+    if (!match) return null
+    if (match[1] !== undefined) segments.push(match[1])
+    else if (match[2] !== undefined) segments.push(parseInt(match[2], 10))
+    else segments.push(match[3])
+    rest = rest.slice(match[0].length)
+  }
+
+  return segments
+}
+
+export function getJsonPathValue(data: unknown, path: string): { found: boolean; value?: unknown } {
+  const segments = parseJsonPath(path)
+  if (!segments) return { found: false }
+
+  let current: any = data
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object' || !(segment in current)) {
+      return { found: false }
+    }
+    current = current[segment]
+  }
+  return { found: true, value: current }
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value)
+}
+
+function valuesEqual(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === 'object' || typeof expected === 'object') {
+    return JSON.stringify(actual) === JSON.stringify(expected)
+  }
+  // Lenient scalar comparison so "200" matches 200 and "true" matches true
+  return String(actual) === String(expected)
+}
+
+/**
+ * Run assertions against a response body. Each failure yields a readable reason.
+ * Regex assertions are not run here: `regexOutcomes` holds their results, in
+ * the order the regex assertions appear.
+ */
+export function evaluateAssertions(
+  body: string,
+  assertions: ResponseAssertion[],
+  regexOutcomes: RegexOutcome[] = []
+): AssertionResult {
+  const failures: string[] = []
+  let regexIndex = 0
+  let json: unknown
+  let jsonError: string | null = null
+
+  const getJson = () => {
+    if (json === undefined && jsonError === null) {
+      try {
+        json = JSON.parse(body)
+      } catch {
+        jsonError = 'Response body is not valid JSON'
+      }
+    }
+    return json
+  }
+
+  for (const assertion of assertions) {
+    switch (assertion.type) {
+      case 'keyword_present':
+      case 'keyword_absent': {
+        const haystack = assertion.case_sensitive ? body : body.toLowerCase()
+        const needle = assertion.case_sensitive ? assertion.value : assertion.value.toLowerCase()
+        const found = haystack.includes(needle)
+        if (assertion.type === 'keyword_present' && !found) {
+          failures.push(`Keyword "${assertion.value}" not found in response`)
+        } else if (assertion.type === 'keyword_absent' && found) {
+          failures.push(`Keyword "${assertion.value}" found in response`)
+        }
+        break
+      }
+
+      case 'regex': {
+        const outcome = regexOutcomes[regexIndex++] || { timedOut: true }
+        if (outcome.error) {
+          failures.push(`Invalid regex /${assertion.pattern}/: ${outcome.error}`)
+        } else if (outcome.timedOut) {
+          failures.push(`Regex /${assertion.pattern}/ took too long to evaluate`)
+        } else if (!outcome.matched) {
+          failures.push(`Response does not match /${assertion.pattern}/${assertion.flags || ''}`)
+        }
+        break
+      }
+
+      case 'json_path_equals':
+      case 'json_path_contains': {
+        const data = getJson()
+        if (jsonError) {
+          failures.push(`${assertion.path}: ${jsonError}`)
+          break
+        }
+
+        const { found, value } = getJsonPathValue(data, assertion.path)
+        if (!found) {
+          failures.push(`${assertion.path} not found in response`)
+        } else if (assertion.type === 'json_path_equals' && !valuesEqual(value, assertion.value)) {
+          failures.push(`${assertion.path} expected ${describe(assertion.value)}, got ${describe(value)}`)
+        } else if (assertion.type === 'json_path_contains') {
+          const text = typeof value === 'string' ? value : JSON.stringify(value)
+          if (!text.includes(assertion.value)) {
+            failures.push(`${assertion.path} does not contain "${assertion.value}" (got ${describe(value)})`)
+          }
+        }
+        break
+      }
+    }
+  }
+
+  return { passed: failures.length === 0, failures }
+}
@@ -0,0 +1,520 @@
+// Evaluates a completed round of location checks: updates the monitor status,
+// opens or resolves incidents and sends notifications
+
+import { getSupabaseAdmin } from './supabase'
+import { sendDownAlert, sendUpAlert, sendSlackAlert, sendDiscordAlert } from './email'
+import { sendNotifications } from './notifications'
+import { startEscalation, getAcknowledgeUrl } from './escalation'
+import { runNetworkDiagnostics, type NetworkDiagnostics } from './network-diagnostics'
+import { checkMonitor, determineOverallStatus, getResponseTimePercentile, type MonitorCheckResult } from './monitoring'
+import { cronLogger } from './logger'
+
+// Location name reported for checks run by the central checker itself
+export const PRIMARY_LOCATION = process.env.CHECK_LOCATION || 'primary'
+
+// Median location response time unless the monitor sets its own percentile
+export const DEFAULT_DEGRADED_PERCENTILE = 50
+
+export interface LocationCheckResult extends MonitorCheckResult {
+  location: string
+}
+
+function isFailure(result: { status: string }) {
+  return result.status === 'down' || result.status === 'timeout' || result.status === 'error'
+}
+
+/**
+ * Re-run the primary location's check right away before declaring a monitor down,
+ * so a single transient failure does not open an incident.
+ */
+async function confirmFailure(monitor: any, locationResults: LocationCheckResult[]): Promise<LocationCheckResult[]> {
+  const primaryIndex = locationResults.findIndex(r => r.location === PRIMARY_LOCATION && isFailure(r))
+  if (primaryIndex === -1) {
+    return locationResults
+  }
+
+  const recheck: LocationCheckResult = {
+    location: PRIMARY_LOCATION,
+    ...(await checkMonitor(monitor, PRIMARY_LOCATION))
+  }
+
+  await getSupabaseAdmin()
+    .from('uptime_checks')
+    .insert({
+      monitor_id: monitor.id,
+      checked_at: new Date().toISOString(),
+      ...recheck
+    })
+
+  cronLogger.info(`Confirmation recheck for ${monitor.name}: ${recheck.status}`, { monitorId: monitor.id })
+
+  const confirmed = [...locationResults]
+  confirmed[primaryIndex] = recheck
+  return confirmed
+}
+
+export async function evaluateCheckResults(monitor: any, locationResults: LocationCheckResult[]) {
+  const supabaseAdmin = getSupabaseAdmin()
+
+  // N consecutive failed rounds before opening an incident (alert_threshold),
+  // where a round fails when M of the reporting locations fail (majority by default)
+  const alertThreshold = Math.max(1, monitor.alert_threshold || 1)
+  const requiredDownLocations = monitor.failure_locations_threshold || null
+  const previousFailures = monitor.consecutive_failures || 0
+
+  let roundFailed = determineOverallStatus(locationResults, requiredDownLocations) === 'down'
+  const wouldOpenIncident = roundFailed && monitor.status !== 'down' && previousFailures + 1 >= alertThreshold
+
+  if (wouldOpenIncident && monitor.confirmation_recheck !== false) {
+    locationResults = await confirmFailure(monitor, locationResults)
+    roundFailed = determineOverallStatus(locationResults, requiredDownLocations) === 'down'
+  }
+
+  // A passing round is degraded when the latency percentile across locations
+  // exceeds the monitor's threshold
+  const degradedThreshold = monitor.degraded_threshold_ms || null
+  const degradedPercentile = monitor.degraded_percentile || DEFAULT_DEGRADED_PERCENTILE
+  const latency = degradedThreshold ? getResponseTimePercentile(locationResults, degradedPercentile) : null
+  const isSlow = latency !== null && latency > degradedThreshold
+
+  const consecutiveFailures = roundFailed ? previousFailures + 1 : 0
+  const newStatus = !roundFailed
+    ? (isSlow ? 'degraded' : 'up')
+    : consecutiveFailures >= alertThreshold ? 'down' : (monitor.status || 'unknown')
+  
+  // Calculate average response time for successful checks
+  const successfulChecks = locationResults.filter(r => r.status === 'up' && r.response_time)
+  const avgResponseTime = successfulChecks.length > 0 
+    ? Math.round(successfulChecks.reduce((sum, r) => sum + r.response_time, 0) / successfulChecks.length)
+    : null
+
+  // Update monitor status
+  const updateData: any = {
+    last_checked: new Date().toISOString(),
+    status: newStatus,
+    consecutive_failures: consecutiveFailures
+  }
+
+  if (avgResponseTime) {
+    updateData.last_response_time = avgResponseTime
+  }
+
+  if (locationResults.some(r => r.status_code)) {
+    updateData.last_status_code = locationResults.find(r => r.status_code)?.status_code
+  }
+
+  await supabaseAdmin
+    .from('monitors')
+    .update(updateData)
+    .eq('id', monitor.id)
+
+  // Handle incidents
+  if (monitor.status !== newStatus) {
+    if (monitor.status === 'degraded') {
+      await resolveDegradedIncident(monitor, newStatus === 'up' ? avgResponseTime : null)
+    }
+
+    if (newStatus === 'down' && monitor.status !== 'down') {
+      // Site went down - create incident
+      const { data: incident, error: incidentError } = await supabaseAdmin
+        .from('incidents')
+        .insert({
+          monitor_id: monitor.id,
+          started_at: new Date().toISOString(),
+          resolved: false,
+          cause: locationResults.find(r => r.error_message)?.error_message || 'Unknown'
+        })
+        .select()
+        .single()
+      
+      if (incidentError) {
+        console.error('Failed to create incident:', incidentError)
+      } else {
+        console.log(`🔴 ${monitor.name} went DOWN - capturing diagnostics...`)
+        
+        // Capture enhanced network diagnostics for each location that failed
+        const failedLocations = locationResults
+          .filter(r => r.status === 'down' || r.status === 'timeout' || r.status === 'error')
+          .map(r => r.location)
+        
+        // Run diagnostics for failed locations (limit to prevent overload)
+        if (failedLocations.length > 0) {
+          const diagnosticsPromises = failedLocations.slice(0, 2).map(async (location) => {
+            try {
+              console.log(`🔬 Running diagnostics for ${monitor.name} from ${location}`)
+              const diagnostics = await runNetworkDiagnostics(monitor.url, location)
+              
+              // Validate diagnostics data before storing
+              if (diagnostics && diagnostics.timestamp) {
+                await storeDiagnostics(incident.id, monitor.id, location, diagnostics)
+                console.log(`✅ Diagnostics captured for ${location}`)
+              } else {
+                console.warn(`⚠️ Invalid diagnostics data for ${location}`)
+              }
+            } catch (error: any) {
+              console.error(`❌ Failed to capture diagnostics for ${location}:`, error.message)
+              // Store basic error info even if full diagnostics fail
+              try {
+                await supabaseAdmin
+                  .from('incident_diagnostics')
+                  .insert({
+                    incident_id: incident.id,
+                    monitor_id: monitor.id,
+                    location,
+                    captured_at: new Date().toISOString(),
+                    dns_resolution: { success: false, dns_errors: [error.message] },
+                    traceroute: { success: false, total_hops: 0, total_time_ms: 0, hops: [], packet_loss: 100, max_timeout_reached: true },
+                    http_details: { error_details: error.message, status_code: 0, total_time_ms: 0 },
+                    ssl_verification: { certificate_valid: false, ssl_errors: [error.message] },
+                    geo_analysis: { server_location: { country: 'Unknown', city: 'Unknown' } },
+                    network_path: JSON.stringify([]),
+                    performance_metrics: { total_time_ms: 0, dns_time_ms: 0, connect_time_ms: 0, ssl_time_ms: 0, first_byte_time_ms: 0 }
+                  })
+                console.log(`📝 Stored error diagnostic for ${location}`)
+              } catch (storageError) {
+                console.error(`Failed to store error diagnostic for ${location}:`, storageError)
+              }
+            }
+          })
+          
+          // Run diagnostics in background with timeout
+          Promise.race([
+            Promise.all(diagnosticsPromises),
+            new Promise((_, reject) => setTimeout(() => reject(new Error('Diagnostics timeout')), 60000))
+          ]).catch(error => {
+            console.error('⏰ Diagnostics capture timed out or failed:', error.message)
+          })
+        }
+      }
+      
+      // Send notifications via all configured channels
+      const notificationData = {
+        monitorName: monitor.name,
+        monitorUrl: monitor.url,
+        status: 'down' as const,
+        statusCode: locationResults.find(r => r.status_code)?.status_code ?? undefined,
+        errorMessage: locationResults.find(r => r.error_message)?.error_message ?? undefined,
+        acknowledgeUrl: incident ? getAcknowledgeUrl(incident.id) : undefined
+      }
+      
+      const notificationResult = await sendNotifications(monitor, notificationData)
+      
+      if (notificationResult.success) {
+        console.log(`📢 Down alerts sent via:`, Object.keys(notificationResult.results).join(', '))
+      } else {
+        console.error(`Failed to send down alerts:`, notificationResult.results)
+      }
+
+      if (incident) {
+        await startEscalation(incident).catch(error => {
+          console.error(`Failed to start escalation for incident ${incident.id}:`, error)
+        })
+      }
+      
+      // Send notifications via all configured channels
+      const alertMessage = `${monitor.name} (${monitor.url}) is DOWN`
+      
+      // Email alert
+      if (monitor.alert_email) {
+        const alertResult = await sendDownAlert({
+          recipient: monitor.alert_email,
+          monitorName: monitor.name,
+          monitorUrl: monitor.url,
+          alertType: 'down',
+          timestamp: new Date().toISOString(),
+        })
+        
+        if (!alertResult.success) {
+          console.error(`Failed to send email alert:`, alertResult.error)
+        }
+      }
+      
+      // Slack alert
+      if (monitor.slack_webhook_url) {
+        const slackResult = await sendSlackAlert(monitor.slack_webhook_url, alertMessage, 'down')
+        if (!slackResult.success) {
+          console.error(`Failed to send Slack alert:`, slackResult.error)
+        }
+      }
+      
+      // Discord alert  
+      if (monitor.discord_webhook_url) {
+        const discordResult = await sendDiscordAlert(monitor.discord_webhook_url, alertMessage, 'down')
+        if (!discordResult.success) {
+          console.error(`Failed to send Discord alert:`, discordResult.error)
+        }
+      }
+    } else if ((newStatus === 'up' || newStatus === 'degraded') && monitor.status === 'down') {
+      // Site came back up - resolve incident
+      const { data: openIncident } = await supabaseAdmin
+        .from('incidents')
+        .select('*')
+        .eq('monitor_id', monitor.id)
+        .eq('resolved', false)
+        .order('started_at', { ascending: false })
+        .limit(1)
+
+      if (openIncident?.[0]) {
+        const incident = openIncident[0]
+        const durationMinutes = Math.round(
+          (new Date().getTime() - new Date(incident.started_at).getTime()) / (1000 * 60)
+        )
+
+        await supabaseAdmin
+          .from('incidents')
+          .update({
+            ended_at: new Date().toISOString(),
+            duration_minutes: durationMinutes,
+            resolved: true,
+            resolution_method: 'monitoring_check'
+          })
+          .eq('id', incident.id)
+
+        console.log(`🟢 ${monitor.name} came back UP (downtime: ${durationMinutes}m)`)
+        
+        // Send recovery notifications via all configured channels
+        const notificationData = {
+          monitorName: monitor.name,
+          monitorUrl: monitor.url,
+          status: 'up' as const,
+          responseTime: avgResponseTime || undefined,
+          downtime: `${durationMinutes} minutes`
+        }
+        
+        const notificationResult = await sendNotifications(monitor, notificationData)
+        
+        if (notificationResult.success) {
+          console.log(`📢 Recovery alerts sent via:`, Object.keys(notificationResult.results).join(', '))
+        } else {
+          console.error(`Failed to send recovery alerts:`, notificationResult.results)
+        }
+        
+        // Send recovery notifications via all configured channels
+        const recoveryMessage = `${monitor.name} (${monitor.url}) is back UP after ${durationMinutes} minutes`
+        
+        // Email alert
+        if (monitor.alert_email) {
+          const alertResult = await sendUpAlert({
+            recipient: monitor.alert_email,
+            monitorName: monitor.name,
+            monitorUrl: monitor.url,
+            alertType: 'up',
+            timestamp: new Date().toISOString(),
+            incident: {
+              id: incident.id,
+              duration: durationMinutes,
+              cause: incident.cause
+            }
+          })
+          
+          if (!alertResult.success) {
+            console.error(`Failed to send email alert:`, alertResult.error)
+          }
+        }
+        
+        // Slack alert
+        if (monitor.slack_webhook_url) {
+          const slackResult = await sendSlackAlert(monitor.slack_webhook_url, recoveryMessage, 'up')
+          if (!slackResult.success) {
+            console.error(`Failed to send Slack recovery alert:`, slackResult.error)
+          }
+        }
+        
+        // Discord alert
+        if (monitor.discord_webhook_url) {
+          const discordResult = await sendDiscordAlert(monitor.discord_webhook_url, recoveryMessage, 'up')
+          if (!discordResult.success) {
+            console.error(`Failed to send Discord recovery alert:`, discordResult.error)
+          }
+        }
+      }
+    }
+  }
+
+  if (newStatus === 'degraded' && monitor.status !== 'degraded') {
+    await openDegradedIncident(monitor, latency!, degradedThreshold!, degradedPercentile)
+  }
+
+  return {
+    monitor: monitor.name,
+    status: newStatus,
+    consecutive_failures: consecutiveFailures,
+    checks: locationResults
+  }
+}
+
+function describePercentile(percentile: number) {
+  return percentile === 100 ? 'slowest location' : `p${percentile}`
+}
+
+/**
+ * Open a minor incident when the monitor starts responding slowly
+ */
+async function openDegradedIncident(monitor: any, latency: number, threshold: number, percentile: number) {
+  const cause = `Response time ${latency}ms (${describePercentile(percentile)}) exceeded ${threshold}ms`
+
+  const { error } = await getSupabaseAdmin()
+    .from('incidents')
+    .insert({
+      monitor_id: monitor.id,
+      started_at: new Date().toISOString(),
+      resolved: false,
+      cause,
+      incident_type: 'degraded',
+      severity: 'minor'
+    })
+
+  if (error) {
+    console.error('Failed to create degraded incident:', error)
+  }
+
+  console.log(`🟡 ${monitor.name} is DEGRADED: ${cause}`)
+
+  const notificationResult = await sendNotifications(monitor, {
+    monitorName: monitor.name,
+    monitorUrl: monitor.url,
+    status: 'degraded',
+    responseTime: latency,
+    errorMessage: cause
+  })
+
+  if (!notificationResult.success) {
+    console.error(`Failed to send degraded alerts:`, notificationResult.results)
+  }
+}
+
+/**
+ * Close the open degraded incident. Recovery is only announced when the monitor is
+ * back up; a monitor that went down gets the down alert instead.
+ */
+async function resolveDegradedIncident(monitor: any, recoveredResponseTime: number | null) {
+  const supabaseAdmin = getSupabaseAdmin()
+
+  const { data: openIncident } = await supabaseAdmin
+    .from('incidents')
+    .select('*')
+    .eq('monitor_id', monitor.id)
+    .eq('incident_type', 'degraded')
+    .eq('resolved', false)
+    .order('started_at', { ascending: false })
+    .limit(1)
+
+  const incident = openIncident?.[0]
+  if (!incident) return
+
+  const durationMinutes = Math.round(
+    (new Date().getTime() - new Date(incident.started_at).getTime()) / (1000 * 60)
+  )
+
+  await supabaseAdmin
+    .from('incidents')
+    .update({
+      ended_at: new Date().toISOString(),
+      duration_minutes: durationMinutes,
+      resolved: true,
+      resolution_method: 'monitoring_check'
+    })
+    .eq('id', incident.id)
+
+  if (recoveredResponseTime === null) return
+
+  console.log(`🟢 ${monitor.name} response times back to normal after ${durationMinutes}m`)
+
+  const notificationResult = await sendNotifications(monitor, {
+    monitorName: monitor.name,
+    monitorUrl: monitor.url,
+    status: 'up',
+    responseTime: recoveredResponseTime
+  })
+
+  if (!notificationResult.success) {
+    console.error(`Failed to send degraded recovery alerts:`, notificationResult.results)
+  }
+}
+
+// Helper function to store network diagnostics in database
+async function storeDiagnostics(incidentId: string, monitorId: string, location: string, diagnostics: NetworkDiagnostics) {
+  try {
+    const { error } = await getSupabaseAdmin()
+      .from('incident_diagnostics')
+      .insert({
+        incident_id: incidentId,
+        monitor_id: monitorId,
+        location: location,
+        
+        // DNS Resolution Data
+        dns_success: diagnostics.dns_resolution.success,
+        dns_resolved_ips: diagnostics.dns_resolution.resolved_ips,
+        dns_resolution_time_ms: diagnostics.dns_resolution.resolution_time_ms,
+        dns_nameservers: diagnostics.dns_resolution.nameservers,
+        dns_errors: diagnostics.dns_resolution.dns_errors,
+        dns_cname_chain: diagnostics.dns_resolution.cname_chain,
+        dns_mx_records: diagnostics.dns_resolution.mx_records,
+        dns_txt_records: diagnostics.dns_resolution.txt_records,
+        dns_ipv6_addresses: diagnostics.dns_resolution.ipv6_addresses,
+        dns_zone: diagnostics.dns_resolution.zone,
+        dns_soa_record: diagnostics.dns_resolution.soa_record,
+        dns_caa_records: diagnostics.dns_resolution.caa_records,
+        dns_resolvers: diagnostics.dns_resolution.resolvers,
+        dns_resolver_disagreements: diagnostics.dns_resolution.resolver_disagreements,
+        
+        // Traceroute Data
+        traceroute_success: diagnostics.traceroute.success,
+        traceroute_total_hops: diagnostics.traceroute.total_hops,
+        traceroute_total_time_ms: diagnostics.traceroute.total_time_ms,
+        traceroute_packet_loss: diagnostics.traceroute.packet_loss,
+        traceroute_hops: diagnostics.traceroute.hops,
+        
+        // HTTP Diagnostics
+        http_dns_time_ms: diagnostics.http_details.dns_time_ms,
+        http_connection_time_ms: diagnostics.http_details.connection_time_ms,
+        http_ssl_handshake_time_ms: diagnostics.http_details.ssl_handshake_time_ms,
+        http_first_byte_time_ms: diagnostics.http_details.first_byte_time_ms,
+        http_download_time_ms: diagnostics.http_details.download_time_ms,
+        http_total_time_ms: diagnostics.http_details.total_time_ms,
+        http_response_headers: diagnostics.http_details.response_headers,
+        http_status_code: diagnostics.http_details.status_code,
+        http_status_text: diagnostics.http_details.status_text,
+        http_response_size_bytes: diagnostics.http_details.response_size_bytes,
+        http_redirect_chain: diagnostics.http_details.redirect_chain,
+        http_content_type: diagnostics.http_details.content_type,
+        http_server_info: diagnostics.http_details.server_info,
+        http_error_details: diagnostics.http_details.error_details,
+        
+        // SSL/TLS Diagnostics
+        ssl_certificate_valid: diagnostics.ssl_verification.certificate_valid,
+        ssl_certificate_chain_length: diagnostics.ssl_verification.certificate_chain_length,
+        ssl_cipher_suite: diagnostics.ssl_verification.cipher_suite,
+        ssl_tls_version: diagnostics.ssl_verification.tls_version,
+        ssl_certificate_issuer: diagnostics.ssl_verification.certificate_issuer,
+        ssl_certificate_expiry: diagnostics.ssl_verification.certificate_expiry,
+        ssl_san_domains: diagnostics.ssl_verification.san_domains,
+        ssl_errors: diagnostics.ssl_verification.ssl_errors,
+        ssl_ocsp_status: diagnostics.ssl_verification.ocsp_status,
+        
+        // Geographic Analysis
+        geo_server_country: diagnostics.geo_analysis.server_location.country,
+        geo_server_city: diagnostics.geo_analysis.server_location.city,
+        geo_server_latitude: diagnostics.geo_analysis.server_location.latitude,
+        geo_server_longitude: diagnostics.geo_analysis.server_location.longitude,
+        geo_is_cdn: diagnostics.geo_analysis.cdn_detection.is_cdn,
+        geo_cdn_provider: diagnostics.geo_analysis.cdn_detection.cdn_provider,
+        geo_edge_location: diagnostics.geo_analysis.cdn_detection.edge_location,
+        geo_asn: diagnostics.geo_analysis.network_info.asn,
+        geo_isp: diagnostics.geo_analysis.network_info.isp,
+        geo_organization: diagnostics.geo_analysis.network_info.organization,
+        
+        // Metadata
+        captured_at: new Date().toISOString(),
+        diagnostic_version: '1.0'
+      })
+    
+    if (error) {
+      console.error('Failed to store diagnostics:', error)
+    } else {
+      console.log(`✅ Stored diagnostics for incident ${incidentId} from ${location}`)
+    }
+  } catch (error) {
+    console.error('Error storing diagnostics:', error)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,127 @@
+// Bounded-concurrency runner for scheduled monitor checks
+
+import { getSupabaseAdmin } from './supabase'
+import { cronLogger } from './logger'
+
+export interface CheckRunnerOptions {
+  concurrency: number
+  deadline: number // epoch ms; no new job starts at or after this time
+}
+
+export interface RunnableJob {
+  runAt: Date
+  key?: string // jobs sharing a key never run at the same time
+}
+
+export interface RunSummary {
+  scheduled: number
+  checked: number
+  skipped: number // never started because the deadline had passed
+  overran: number // started before the deadline but finished after it
+  failed: number
+  duration_ms: number
+}
+
+export type JobOutcome<R> =
+  | { status: 'fulfilled'; value: R }
+  | { status: 'rejected'; error: string }
+
+/**
+ * Run jobs through a fixed-size worker pool. Jobs are taken in order and each
+ * waits until its `runAt` before starting. Once the deadline passes, remaining
+ * jobs are skipped rather than started.
+ */
+export async function runChecks<T extends RunnableJob, R>(
+  jobs: T[],
+  worker: (job: T) => Promise<R>,
+  options: CheckRunnerOptions
+): Promise<{ outcomes: JobOutcome<R>[]; summary: RunSummary }> {
+  const startedAt = Date.now()
+  const outcomes: JobOutcome<R>[] = []
+  const summary: RunSummary = {
+    scheduled: jobs.length,
+    checked: 0,
+    skipped: 0,
+    overran: 0,
+    failed: 0,
+    duration_ms: 0
+  }
+
+  let nextIndex = 0
+  const lastByKey = new Map<string, Promise<unknown>>()
+
+  const runWorker = async () => {
+    while (nextIndex < jobs.length) {
+      const job = jobs[nextIndex++]
+
+      if (job.runAt.getTime() >= options.deadline || Date.now() >= options.deadline) {
+        summary.skipped++
+        continue
+      }
+
+      const waitMs = job.runAt.getTime() - Date.now()
+      if (waitMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, waitMs))
+      }
+
+      const previous = job.key ? lastByKey.get(job.key) : undefined
+      const run = (previous || Promise.resolve()).then(() => worker(job))
+      if (job.key) {
+        lastByKey.set(job.key, run.catch(() => undefined))
+      }
+
+      try {
+        outcomes.push({ status: 'fulfilled', value: await run })
+        summary.checked++
+      } catch (error) {
+        outcomes.push({ status: 'rejected', error: error instanceof Error ? error.message : String(error) })
+        summary.failed++
+      }
+
+      if (Date.now() > options.deadline) {
+        summary.overran++
+      }
+    }
+  }
+
+  const poolSize = Math.max(1, Math.min(options.concurrency, jobs.length))
+  await Promise.all(Array.from({ length: poolSize }, runWorker))
+
+  summary.duration_ms = Date.now() - startedAt
+  return { outcomes, summary }
+}
+
+/**
+ * Buffer rows and insert them in batches instead of one round-trip per row.
+ */
+export function createInsertBuffer<Row extends Record<string, unknown>>(table: string, batchSize: number = 100) {
+  let pending: Row[] = []
+  const inFlight: Promise<void>[] = []
+
+  const insertBatch = async (rows: Row[]) => {
+    const { error } = await getSupabaseAdmin().from(table).insert(rows)
+    if (error) {
+      cronLogger.error(`Failed to insert ${rows.length} rows into ${table}`, undefined, { error: error.message })
+    }
+  }
+
+  return {
+    add(row: Row) {
+      pending.push(row)
+      if (pending.length >= batchSize) {
+        const rows = pending
+        pending = []
+        inFlight.push(insertBatch(rows))
+      }
+    },
+
+    async flush() {
+      if (pending.length > 0) {
+        const rows = pending
+        pending = []
+        inFlight.push(insertBatch(rows))
+      }
+      await Promise.all(inFlight.splice(0))
+    }
+  }
+}
@@ -0,0 +1,300 @@
+// Minimal 5-field cron expressions (minute hour day-of-month month day-of-week)
+// evaluated in an IANA timezone. Supports *, lists, ranges and steps.
+
+export interface CronSchedule {
+  expression: string
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Standard cron: when both day fields are restricted, either may match
+  restrictedDayOfMonth: boolean
+  restrictedDayOfWeek: boolean
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+]
+
+const MINUTE_MS = 60 * 1000
+
+function parseField(field: string, { name, min, max }: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/')
+    const step = stepPart === undefined ? 1 : Number(stepPart)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in ${name} field`)
+    }
+
+    let start: number
+    let end: number
+    if (rangePart === '*') {
+      start = min
+      end = max
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-').map(Number)
+      start = from
+      end = to
+    } else {
+      start = Number(rangePart)
+      // "5/15" means every 15 starting at 5
+      end = stepPart === undefined ? start : max
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid ${name} value "${part}" (allowed ${min}-${max})`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a cron expression. Throws with a readable message when invalid.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week')
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELD_RANGES[i]))
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    expression: fields.join(' '),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictedDayOfMonth: fields[2] !== '*',
+    restrictedDayOfWeek: fields[4] !== '*'
+  }
+}
+
+/**
+ * Validate a cron expression. Returns an error message or null.
+ */
+export function validateCronExpression(expression: unknown): string | null {
+  if (typeof expression !== 'string' || !expression.trim()) {
+    return 'Cron expression is required'
+  }
+  try {
+    parseCronExpression(expression)
+    return null
+  } catch (error: any) {
+    return error.message
+  }
+}
+
+/**
+ * Validate an IANA timezone name. Returns an error message or null.
+ */
+export function validateTimezone(timezone: unknown): string | null {
+  if (typeof timezone !== 'string' || !timezone) {
+    return 'Timezone is required'
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return null
+  } catch {
+    return `Unknown timezone "${timezone}"`
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+interface ZonedParts {
+  minute: number
+  hour: number
+  day: number
+  month: number
+  weekday: number
+}
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  if (timezone === 'UTC') {
+    return {
+      minute: date.getUTCMinutes(),
+      hour: date.getUTCHours(),
+      day: date.getUTCDate(),
+      month: date.getUTCMonth() + 1,
+      weekday: date.getUTCDay()
+    }
+  }
+
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      minute: 'numeric',
+      hour: 'numeric',
+      day: 'numeric',
+      month: 'numeric',
+      weekday: 'short'
+    })
+    formatters.set(timezone, formatter)
+  }
+
+  const parts: Record<string, string> = {}
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value
+  }
+
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday)
+  }
+}
+
+function matchesDay(schedule: CronSchedule, { day, month, weekday }: ZonedParts): boolean {
+  if (!schedule.months.has(month)) return false
+
+  const dayOfMonthMatches = schedule.daysOfMonth.has(day)
+  const dayOfWeekMatches = schedule.daysOfWeek.has(weekday)
+
+  if (schedule.restrictedDayOfMonth && schedule.restrictedDayOfWeek) {
+    return dayOfMonthMatches || dayOfWeekMatches
+  }
+  return dayOfMonthMatches && dayOfWeekMatches
+}
+
+/**
+ * Whether the minute containing `date` matches the schedule
+ */
+export function cronMatches(schedule: CronSchedule, date: Date, timezone: string = 'UTC'): boolean {
+  const parts = getZonedParts(date, timezone)
+  return schedule.minutes.has(parts.minute) && schedule.hours.has(parts.hour) && matchesDay(schedule, parts)
+}
+
+const sortedMinutesCache = new WeakMap<CronSchedule, number[]>()
+
+function getSortedMinutes(schedule: CronSchedule): number[] {
+  let sorted = sortedMinutesCache.get(schedule)
+  if (!sorted) {
+    sorted = Array.from(schedule.minutes).sort((a, b) => a - b)
+    sortedMinutesCache.set(schedule, sorted)
+  }
+  return sorted
+}
+
+/**
+ * How many minutes to move from the minute containing `date` (forwards for
+ * direction 1, backwards for -1) without passing a match: 0 when it matches,
+ * otherwise to the edge of the non-matching day, hour or minute run. Day
+ * jumps stop an hour short so a DST change cannot carry them past midnight.
+ */
+function getSkipMinutes(schedule: CronSchedule, date: Date, timezone: string, direction: 1 | -1): number {
+  const parts = getZonedParts(date, timezone)
+  const { minute, hour } = parts
+
+  if (!matchesDay(schedule, parts)) {
+    const minuteOfDay = hour * 60 + minute
+    const distance = direction === 1 ? 24 * 60 - minuteOfDay : minuteOfDay + 1
+    return distance > 60 ? distance - 60 : distance
+  }
+
+  if (!schedule.hours.has(hour)) {
+    return direction === 1 ? 60 - minute : minute + 1
+  }
+
+  if (!schedule.minutes.has(minute)) {
+    const sorted = getSortedMinutes(schedule)
+    if (direction === 1) {
+      const next = sorted.find(value => value > minute)
+      return next === undefined ? 60 - minute : next - minute
+    }
+    const previous = sorted.filter(value => value < minute).pop()
+    return previous === undefined ? minute + 1 : minute - previous
+  }
+
+  return 0
+}
+
+function floorToMinute(date: Date): number {
+  return Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS
+}
+
+/**
+ * Occurrences with start <= t < end, oldest first
+ */
+export function getCronOccurrences(schedule: CronSchedule, start: Date, end: Date, timezone: string = 'UTC'): Date[] {
+  const occurrences: Date[] = []
+  let time = Math.ceil(start.getTime() / MINUTE_MS) * MINUTE_MS
+
+  while (time < end.getTime()) {
+    const candidate = new Date(time)
+    const skip = getSkipMinutes(schedule, candidate, timezone, 1)
+    if (skip === 0) {
+      occurrences.push(candidate)
+    }
+    time += Math.max(skip, 1) * MINUTE_MS
+  }
+
+  return occurrences
+}
+
+/**
+ * First occurrence strictly after `after`, searching up to `maxDays` ahead
+ */
+export function getNextCronOccurrence(
+  schedule: CronSchedule,
+  after: Date,
+  timezone: string = 'UTC',
+  maxDays: number = 366
+): Date | null {
+  const limit = after.getTime() + maxDays * 24 * 60 * MINUTE_MS
+
+  for (let time = floorToMinute(after) + MINUTE_MS; time <= limit;) {
+    const candidate = new Date(time)
+    const skip = getSkipMinutes(schedule, candidate, timezone, 1)
+    if (skip === 0) {
+      return candidate
+    }
+    time += skip * MINUTE_MS
+  }
+  return null
+}
+
+/**
+ * Latest occurrence at or before `at`, searching up to `maxDays` back
+ */
+export function getPreviousCronOccurrence(
+  schedule: CronSchedule,
+  at: Date,
+  timezone: string = 'UTC',
+  maxDays: number = 366
+): Date | null {
+  const limit = at.getTime() - maxDays * 24 * 60 * MINUTE_MS
+
+  for (let time = floorToMinute(at); time >= limit;) {
+    const candidate = new Date(time)
+    const skip = getSkipMinutes(schedule, candidate, timezone, -1)
+    if (skip === 0) {
+      return candidate
+    }
+    time -= skip * MINUTE_MS
+  }
+  return null
+}
@@ -0,0 +1,284 @@
+// DNS diagnostics with Node's own resolver: what the checker's system
+// resolver answers, what the zone's authoritative nameservers answer, and
+// where they disagree. Server-side only; no DNS-over-HTTPS service involved.
+
+import { Resolver } from 'dns/promises'
+import { formatCaaRecord } from './dns-records'
+
+export interface SOARecord {
+  nsname: string
+  hostmaster: string
+  serial: number
+  refresh: number
+  retry: number
+  expire: number
+  minttl: number
+}
+
+export interface DNSResolverResult {
+  resolver: string // 'system', or the authoritative nameserver's name
+  server: string | null // address queried; null for the system resolver
+  authoritative: boolean
+  addresses: string[] // A and AAAA, sorted
+  cname: string | null // first CNAME hop, when the answer is an alias
+  soa_serial: number | null // zone serial, authoritative servers only
+  time_ms: number
+  error: string | null // resolver error code, e.g. ENOTFOUND, ESERVFAIL, ETIMEOUT
+}
+
+export interface DNSResult {
+  success: boolean
+  resolved_ips: string[]
+  ipv6_addresses: string[]
+  resolution_time_ms: number
+  zone: string | null
+  nameservers: string[]
+  dns_errors: string[]
+  cname_chain: string[]
+  mx_records: string[]
+  txt_records: string[]
+  soa_record: SOARecord | null
+  caa_records: string[]
+  resolvers: DNSResolverResult[]
+  resolver_disagreements: string[]
+}
+
+// Per try; each query gets two tries
+const QUERY_TIMEOUT_MS = 2000
+
+const MAX_CNAME_DEPTH = 10
+
+// Authoritative nameservers compared with the system resolver
+const MAX_AUTHORITATIVE_SERVERS = 4
+
+function createResolver(server?: string): Resolver {
+  const resolver = new Resolver({ timeout: QUERY_TIMEOUT_MS, tries: 2 })
+  if (server) resolver.setServers([server])
+  return resolver
+}
+
+function errorCode(error: any): string {
+  return error?.code || error?.message || 'Unknown DNS error'
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\.$/, '')
+}
+
+// The hostname and each parent domain, stopping above the top-level domain
+function parentDomains(hostname: string): string[] {
+  const labels = hostname.split('.')
+  const domains: string[] = []
+  for (let i = 0; i < labels.length - 1; i++) {
+    domains.push(labels.slice(i).join('.'))
+  }
+  return domains
+}
+
+async function walkCnameChain(resolver: Resolver, hostname: string): Promise<string[]> {
+  const chain: string[] = []
+  let name = hostname
+  while (chain.length < MAX_CNAME_DEPTH) {
+    let targets: string[]
+    try {
+      targets = await resolver.resolveCname(name)
+    } catch {
+      break
+    }
+    if (targets.length === 0) break
+
+    const target = normalizeName(targets[0])
+    if (target === hostname || chain.includes(target)) break // alias loop
+    chain.push(target)
+    name = target
+  }
+  return chain
+}
+
+// The zone that owns a name: the closest enclosing domain with NS records
+async function findZone(resolver: Resolver, hostname: string): Promise<{ zone: string; nameservers: string[] } | null> {
+  for (const domain of parentDomains(hostname)) {
+    try {
+      const nameservers = await resolver.resolveNs(domain)
+      if (nameservers.length > 0) {
+        return { zone: domain, nameservers: nameservers.map(normalizeName).sort() }
+      }
+    } catch {
+      // Not a zone apex; try the parent
+    }
+  }
+  return null
+}
+
+// CAA records apply from the closest domain that has any (RFC 8659)
+async function findCaaRecords(resolver: Resolver, hostname: string): Promise<string[]> {
+  for (const domain of parentDomains(hostname)) {
+    try {
+      const records = await resolver.resolveCaa(domain)
+      if (records.length > 0) {
+        return records.map(formatCaaRecord)
+      }
+    } catch {
+      // No CAA here; look further up
+    }
+  }
+  return []
+}
+
+async function settle<T>(promise: Promise<T>, fallback: T): Promise<{ value: T; error: string | null }> {
+  try {
+    return { value: await promise, error: null }
+  } catch (error) {
+    return { value: fallback, error: errorCode(error) }
+  }
+}
+
+// Ask one resolver for the hostname's addresses, timing the answer
+async function queryResolver(
+  resolver: Resolver,
+  hostname: string,
+  label: string,
+  server: string | null,
+  zone: string | null
+): Promise<DNSResolverResult> {
+  const startTime = Date.now()
+  const [ipv4, ipv6] = await Promise.all([
+    settle(resolver.resolve4(hostname), [] as string[]),
+    settle(resolver.resolve6(hostname), [] as string[])
+  ])
+  const time_ms = Date.now() - startTime
+
+  const addresses = ipv4.value.concat(ipv6.value).sort()
+
+  // An authoritative server answers an alias into another zone with just the
+  // CNAME; the system resolver follows it, so both report the first hop
+  const cname = await settle(resolver.resolveCname(hostname), [] as string[])
+
+  // Missing AAAA (or A) records are normal; the query failed when neither resolved
+  const failed = addresses.length === 0 && cname.value.length === 0
+  const error = failed ? (ipv4.error && ipv4.error !== 'ENODATA' ? ipv4.error : ipv6.error || ipv4.error) : null
+
+  let soa_serial: number | null = null
+  if (server && zone) {
+    const soa = await settle(resolver.resolveSoa(zone), null)
+    soa_serial = soa.value ? soa.value.serial : null
+  }
+
+  return {
+    resolver: label,
+    server,
+    authoritative: server !== null,
+    addresses,
+    cname: cname.value.length > 0 ? normalizeName(cname.value[0]) : null,
+    soa_serial,
+    time_ms,
+    error
+  }
+}
+
+/**
+ * Flag resolvers whose answers disagree with the system resolver's. Round
+ * robin and geo DNS hand out different subsets of addresses, so only answers
+ * with no address in common count, along with differing aliases, one side
+ * failing and authoritative servers serving different zone serials.
+ */
+export function findResolverDisagreements(results: DNSResolverResult[]): string[] {
+  const system = results.find(result => !result.authoritative)
+  const disagreements: string[] = []
+
+  if (system) {
+    results.filter(result => result !== system).forEach(result => {
+      if (result.error && !system.error) {
+        disagreements.push(`${result.resolver} failed (${result.error}) while the system resolver answered`)
+      } else if (!result.error && system.error) {
+        disagreements.push(`${result.resolver} answered while the system resolver failed (${system.error})`)
+      } else if (!result.error && !system.error) {
+        if (result.cname || system.cname) {
+          if (result.cname !== system.cname) {
+            disagreements.push(`${result.resolver} aliases to ${result.cname || 'no CNAME'}, the system resolver to ${system.cname || 'no CNAME'}`)
+          }
+        } else if (!result.addresses.some(address => system.addresses.includes(address))) {
+          disagreements.push(`${result.resolver} returned ${result.addresses.join(', ')}, the system resolver ${system.addresses.join(', ')}`)
+        }
+      }
+    })
+  }
+
+  // A lagging secondary serves an older copy of the zone
+  const serials = results.filter(result => result.soa_serial !== null)
+  const newest = Math.max(...serials.map(result => result.soa_serial as number))
+  serials.filter(result => result.soa_serial !== newest).forEach(result => {
+    disagreements.push(`${result.resolver} serves zone serial ${result.soa_serial}, others ${newest}`)
+  })
+
+  return disagreements
+}
+
+/**
+ * Resolve a hostname through the system resolver and its zone's
+ * authoritative nameservers, collecting the records useful when a site is
+ * unreachable
+ */
+export async function runDNSDiagnostics(hostname: string): Promise<DNSResult> {
+  const name = normalizeName(hostname)
+  const system = createResolver()
+  const dns_errors: string[] = []
+
+  const [systemResult, cname_chain, zoneInfo, caa_records, mx, txt] = await Promise.all([
+    queryResolver(system, name, 'system', null, null),
+    walkCnameChain(system, name),
+    findZone(system, name),
+    findCaaRecords(system, name),
+    settle(system.resolveMx(name), []),
+    settle(system.resolveTxt(name), [])
+  ])
+
+  if (systemResult.error) {
+    dns_errors.push(`System resolver: ${systemResult.error}`)
+  }
+  if (!zoneInfo) {
+    dns_errors.push(`No nameservers found for ${name} or its parent domains`)
+  }
+
+  let soa_record: SOARecord | null = null
+  const authoritativeResults: DNSResolverResult[] = []
+
+  if (zoneInfo) {
+    const soa = await settle(system.resolveSoa(zoneInfo.zone), null)
+    soa_record = soa.value
+
+    const nameservers = zoneInfo.nameservers.slice(0, MAX_AUTHORITATIVE_SERVERS)
+    const results = await Promise.all(nameservers.map(async nameserver => {
+      const addresses = await settle(system.resolve4(nameserver), [] as string[])
+      if (addresses.value.length === 0) {
+        dns_errors.push(`Could not resolve nameserver ${nameserver}: ${addresses.error}`)
+        return null
+      }
+      return queryResolver(createResolver(addresses.value[0]), name, nameserver, addresses.value[0], zoneInfo.zone)
+    }))
+    results.forEach(result => {
+      if (result) authoritativeResults.push(result)
+    })
+  }
+
+  const resolvers = [systemResult, ...authoritativeResults]
+  const resolved_ips = systemResult.addresses.filter(address => !address.includes(':'))
+  const ipv6_addresses = systemResult.addresses.filter(address => address.includes(':'))
+
+  return {
+    success: systemResult.addresses.length > 0,
+    resolved_ips,
+    ipv6_addresses,
+    resolution_time_ms: systemResult.time_ms,
+    zone: zoneInfo ? zoneInfo.zone : null,
+    nameservers: zoneInfo ? zoneInfo.nameservers : [],
+    dns_errors,
+    cname_chain,
+    mx_records: mx.value.sort((a, b) => a.priority - b.priority).map(record => `${record.priority} ${record.exchange}`),
+    txt_records: txt.value.map(chunks => chunks.join('')),
+    soa_record,
+    caa_records,
+    resolvers,
+    resolver_disagreements: findResolverDisagreements(resolvers)
+  }
+}
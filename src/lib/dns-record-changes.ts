@@ -0,0 +1,89 @@
+// History of DNS monitor answers: each time the primary checker sees a
+// different set of records it is stored, and changes between non-empty
+// answers are announced. Records disappearing fail the check instead, so
+// they alert through the usual down and up notifications.
+
+import { getSupabaseAdmin } from './supabase'
+import { sendNotifications } from './notifications'
+import { describeDnsChange, getDnsHostname, sameDnsValues, type DnsRecordType } from './dns-records'
+import type { MonitorCheckResult } from './monitoring'
+import type { DnsRecordChange } from '@/types'
+
+export const DNS_CHANGE_HISTORY_LIMIT = 100
+
+/**
+ * Compare a primary check's answer with the monitor's last one, storing the
+ * change and notifying unless `notify` is off (e.g. during maintenance).
+ * Answers the resolver failed to give are ignored. Returns the change, or
+ * null when there was none.
+ */
+export async function trackDnsRecordChange(
+  monitor: any,
+  result: MonitorCheckResult,
+  options: { notify: boolean }
+): Promise<DnsRecordChange | null> {
+  if (monitor.monitor_type !== 'dns' || !Array.isArray(result.dns_values)) return null
+
+  const supabaseAdmin = getSupabaseAdmin()
+  const previous: string[] | null = monitor.dns_current_values ?? null
+  const current = result.dns_values
+
+  if (previous && sameDnsValues(previous, current)) return null
+
+  await supabaseAdmin
+    .from('monitors')
+    .update({ dns_current_values: current })
+    .eq('id', monitor.id)
+
+  // Later slots for the same monitor in this run compare against the fresh answer
+  monitor.dns_current_values = current
+
+  // The first answer, or the first since the question changed, is the baseline
+  if (!previous) return null
+
+  const recordType: DnsRecordType = monitor.dns_record_type || 'A'
+  const { data: change, error } = await supabaseAdmin
+    .from('dns_record_changes')
+    .insert({
+      monitor_id: monitor.id,
+      record_type: recordType,
+      previous_values: previous,
+      current_values: current
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error(`Failed to record DNS change for monitor ${monitor.id}:`, error)
+  }
+
+  if (options.notify && previous.length > 0 && current.length > 0) {
+    const notificationResult = await sendNotifications(monitor, {
+      monitorName: monitor.name,
+      monitorUrl: monitor.url,
+      status: 'dns_changed',
+      errorMessage: describeDnsChange(recordType, getDnsHostname(monitor.url), previous, current)
+    })
+
+    if (!notificationResult.success) {
+      console.error(`Failed to send DNS change alerts:`, notificationResult.results)
+    }
+  }
+
+  return change || null
+}
+
+/**
+ * A monitor's recorded DNS changes, newest first
+ */
+export async function getDnsRecordChanges(monitorId: string, limit: number = DNS_CHANGE_HISTORY_LIMIT): Promise<DnsRecordChange[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('dns_record_changes')
+    .select('id, monitor_id, record_type, previous_values, current_values, changed_at')
+    .eq('monitor_id', monitorId)
+    .order('changed_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []) as DnsRecordChange[]
+}
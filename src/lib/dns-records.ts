@@ -0,0 +1,188 @@
+// DNS record monitors: settings, validation and how answers are compared
+// with expected values and with the previous answer. Pure functions, shared
+// by the checker, the monitor APIs and the monitor forms.
+
+export type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS' | 'CAA'
+
+export const DNS_RECORD_TYPES: DnsRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'CAA']
+
+// exact: the answer is the expected set; any: at least one expected value is in it
+export type DnsMatchMode = 'exact' | 'any'
+
+export const DNS_MATCH_MODES: DnsMatchMode[] = ['exact', 'any']
+
+export const MAX_DNS_EXPECTED_VALUES = 20
+
+export const MAX_DNS_VALUE_LENGTH = 500
+
+// Well-known public resolvers offered in the monitor forms; any IP works
+export const PUBLIC_DNS_RESOLVERS = [
+  { address: '1.1.1.1', label: 'Cloudflare (1.1.1.1)' },
+  { address: '8.8.8.8', label: 'Google (8.8.8.8)' },
+  { address: '9.9.9.9', label: 'Quad9 (9.9.9.9)' }
+]
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/
+const IPV4_PATTERN = /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$/
+const IPV6_PATTERN = /^[0-9a-f:.]+$/i
+
+// Types whose values are names or addresses and so compare case-insensitively
+const CASE_INSENSITIVE_TYPES: DnsRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'NS']
+
+export interface DnsMonitorSettings {
+  dns_record_type?: DnsRecordType | null
+  dns_resolver?: string | null // IP address, optionally with :port; null uses the system resolver
+  dns_expected_values?: string[] | null
+  dns_match_mode?: DnsMatchMode | null
+}
+
+/**
+ * The name a DNS monitor resolves: its URL's hostname, or the URL itself
+ * when it is a bare name
+ */
+export function getDnsHostname(url: string): string {
+  const value = (url || '').trim()
+  let hostname = value
+  if (value.includes('://')) {
+    try {
+      hostname = new URL(value).hostname
+    } catch {
+      hostname = value
+    }
+  }
+  return hostname.toLowerCase().replace(/\.$/, '')
+}
+
+function isValidResolverAddress(resolver: string): boolean {
+  // [IPv6]:port, IPv4:port, or a bare address
+  const bracketed = /^\[([^\]]+)\](?::(\d{1,5}))?$/.exec(resolver)
+  if (bracketed) {
+    return IPV6_PATTERN.test(bracketed[1]) && (!bracketed[2] || Number(bracketed[2]) <= 65535)
+  }
+  const withPort = /^([\d.]+):(\d{1,5})$/.exec(resolver)
+  if (withPort) {
+    return IPV4_PATTERN.test(withPort[1]) && Number(withPort[2]) <= 65535
+  }
+  return IPV4_PATTERN.test(resolver) || (resolver.includes(':') && IPV6_PATTERN.test(resolver))
+}
+
+/**
+ * A value in the canonical form answers are compared in: names lowercased
+ * without the trailing dot, runs of spaces collapsed
+ */
+export function normalizeDnsValue(recordType: DnsRecordType, value: string): string {
+  let normalized = value.trim().replace(/\s+/g, ' ')
+  if (CASE_INSENSITIVE_TYPES.includes(recordType)) {
+    normalized = normalized.toLowerCase().replace(/\.$/, '')
+  }
+  if (recordType === 'CAA') {
+    // "0 issue "ca.example"" with the tag lowercased; the value keeps its case
+    normalized = normalized.replace(/^(\d+) (\S+)/, (_, flags, tag) => `${flags} ${tag.toLowerCase()}`)
+  }
+  return normalized
+}
+
+/**
+ * Validate DNS monitor settings. Fields are only checked when present; the
+ * hostname is checked when the input makes or keeps the monitor a DNS
+ * monitor and has a URL. Returns an error message or null.
+ */
+export function validateDnsMonitorSettings(input: Record<string, any>): string | null {
+  const { monitor_type, url, dns_record_type, dns_resolver, dns_expected_values, dns_match_mode } = input
+
+  if (monitor_type === 'dns' && typeof url === 'string' && !HOSTNAME_PATTERN.test(getDnsHostname(url))) {
+    return 'A DNS monitor needs a hostname to resolve, e.g. example.com'
+  }
+
+  if (dns_record_type !== undefined && dns_record_type !== null && !DNS_RECORD_TYPES.includes(dns_record_type)) {
+    return `DNS record type must be one of: ${DNS_RECORD_TYPES.join(', ')}`
+  }
+
+  if (dns_resolver !== undefined && dns_resolver !== null && dns_resolver !== '' &&
+      (typeof dns_resolver !== 'string' || !isValidResolverAddress(dns_resolver.trim()))) {
+    return 'DNS resolver must be an IP address, optionally with a port'
+  }
+
+  if (dns_expected_values !== undefined && dns_expected_values !== null) {
+    if (!Array.isArray(dns_expected_values) || !dns_expected_values.every(value => typeof value === 'string' && value.trim())) {
+      return 'Expected DNS values must be a list of non-empty strings'
+    }
+    if (dns_expected_values.length > MAX_DNS_EXPECTED_VALUES) {
+      return `A DNS monitor can expect at most ${MAX_DNS_EXPECTED_VALUES} values`
+    }
+    if (dns_expected_values.some(value => value.length > MAX_DNS_VALUE_LENGTH)) {
+      return `Expected DNS values can be at most ${MAX_DNS_VALUE_LENGTH} characters`
+    }
+  }
+
+  if (dns_match_mode !== undefined && dns_match_mode !== null && !DNS_MATCH_MODES.includes(dns_match_mode)) {
+    return `DNS match mode must be one of: ${DNS_MATCH_MODES.join(', ')}`
+  }
+
+  return null
+}
+
+/**
+ * Check an answer against the expected values. With none expected, any
+ * answer with records passes. Returns a failure message or null.
+ */
+export function evaluateDnsAnswer(
+  recordType: DnsRecordType,
+  values: string[],
+  expected: string[],
+  mode: DnsMatchMode
+): string | null {
+  if (expected.length === 0) return null
+
+  const expectedValues = expected.map(value => normalizeDnsValue(recordType, value))
+  const got = values.length > 0 ? values.join(', ') : 'no records'
+
+  if (mode === 'any') {
+    return expectedValues.some(value => values.includes(value))
+      ? null
+      : `Expected any of ${expectedValues.join(', ')}; got ${got}`
+  }
+
+  return sameDnsValues(values, expectedValues)
+    ? null
+    : `Expected ${expectedValues.join(', ')}; got ${got}`
+}
+
+/**
+ * Whether two answers hold the same records, ignoring order and duplicates
+ */
+export function sameDnsValues(a: string[], b: string[]): boolean {
+  const left = Array.from(new Set(a)).sort()
+  const right = Array.from(new Set(b)).sort()
+  return left.length === right.length && left.every((value, index) => value === right[index])
+}
+
+/**
+ * Records added and removed between two answers
+ */
+export function diffDnsValues(previous: string[], current: string[]): { added: string[]; removed: string[] } {
+  return {
+    added: current.filter(value => !previous.includes(value)),
+    removed: previous.filter(value => !current.includes(value))
+  }
+}
+
+/**
+ * One line describing a change, for alerts
+ */
+export function describeDnsChange(recordType: DnsRecordType, hostname: string, previous: string[], current: string[]): string {
+  const { added, removed } = diffDnsValues(previous, current)
+  const parts: string[] = []
+  if (added.length > 0) parts.push(`added ${added.join(', ')}`)
+  if (removed.length > 0) parts.push(`removed ${removed.join(', ')}`)
+  return `${recordType} records for ${hostname} changed: ${parts.join('; ')}`
+}
+
+/**
+ * A CAA record as presentation text, e.g. 0 issue "letsencrypt.org"
+ */
+export function formatCaaRecord(record: { critical: number } & Record<string, any>): string {
+  const { critical, ...tags } = record
+  const tag = Object.keys(tags)[0]
+  return `${critical} ${tag} "${tags[tag]}"`
+}
@@ -0,0 +1,243 @@
+// Domain registration data: parsing RDAP and WHOIS answers into one shape,
+// and deciding when expiry and registry status changes are worth an alert.
+// Pure functions; the lookups themselves are in domain-lookup.ts.
+
+export interface DomainRegistration {
+  domain: string // the registered domain the data is for, e.g. example.co.uk
+  source: 'rdap' | 'whois'
+  expires_at: string | null
+  registrar: string | null
+  status_codes: string[] // EPP status codes, e.g. clientTransferProhibited, clientHold
+  name_servers: string[]
+}
+
+// Days before expiry an alert is sent at, unless the monitor sets its own
+export const DEFAULT_DOMAIN_ALERT_DAYS = [30, 14, 7, 1]
+
+export const MAX_DOMAIN_ALERT_THRESHOLDS = 10
+
+// Statuses that take a domain, and its website and email, offline or mean it
+// is about to be released
+export const PROBLEM_DOMAIN_STATUSES = [
+  'clientHold',
+  'serverHold',
+  'redemptionPeriod',
+  'pendingRestore',
+  'pendingDelete',
+  'inactive'
+]
+
+const STATUS_DESCRIPTIONS: Record<string, string> = {
+  clientHold: 'suspended by the registrar and not resolving',
+  serverHold: 'suspended by the registry and not resolving',
+  redemptionPeriod: 'expired and in the redemption period',
+  pendingRestore: 'being restored from redemption',
+  pendingDelete: 'about to be deleted and released',
+  inactive: 'has no nameservers delegated'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Registrations under public suffixes such as co.uk or pvt.k12.ma.us
+const MAX_REGISTRABLE_LABELS = 4
+
+/**
+ * An RDAP status (RFC 8056, e.g. "client hold") or WHOIS status
+ * (e.g. "clientHold https://icann.org/epp#clientHold") as its EPP code
+ */
+export function normalizeDomainStatus(status: string): string {
+  const code = status.trim().split(/\s+https?:\/\//)[0].trim()
+  if (code.toLowerCase() === 'active') return 'ok'
+  if (!code.includes(' ')) return code
+  return code
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+}
+
+function normalizeNameServer(name: string): string {
+  return name.trim().split(/\s+/)[0].toLowerCase().replace(/\.$/, '')
+}
+
+function unique(values: string[]): string[] {
+  return values.filter((value, index) => value && values.indexOf(value) === index)
+}
+
+// WHOIS dates come as ISO 8601, 2025-08-13, 2025.08.13, 2025/08/13 or 13-Aug-2025
+function parseWhoisDate(value: string): Date | null {
+  const text = value.trim().replace(/^(\d{4})[./](\d{2})[./](\d{2})/, '$1-$2-$3')
+  const date = new Date(text)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * The registration in an RDAP domain response (RFC 9083), or null when it
+ * holds no domain object
+ */
+export function parseRdapDomain(domain: string, response: any): DomainRegistration | null {
+  if (!response || response.objectClassName !== 'domain') return null
+
+  const events: any[] = Array.isArray(response.events) ? response.events : []
+  const expiration = events.find(event => event && event.eventAction === 'expiration' && event.eventDate)
+  const expiresAt = expiration ? new Date(expiration.eventDate) : null
+
+  const entities: any[] = Array.isArray(response.entities) ? response.entities : []
+  const registrarEntity = entities.find(entity => Array.isArray(entity?.roles) && entity.roles.includes('registrar'))
+  let registrar: string | null = null
+  if (registrarEntity) {
+    // vcardArray: ["vcard", [["version", {}, "text", "4.0"], ["fn", {}, "text", "Example Registrar, Inc."], ...]]
+    const vcard = Array.isArray(registrarEntity.vcardArray) ? registrarEntity.vcardArray[1] : null
+    const fn = Array.isArray(vcard) ? vcard.find((property: any) => Array.isArray(property) && property[0] === 'fn') : null
+    registrar = (fn && typeof fn[3] === 'string' && fn[3].trim()) || registrarEntity.handle || null
+  }
+
+  return {
+    domain: (response.ldhName || domain).toLowerCase(),
+    source: 'rdap',
+    expires_at: expiresAt && !isNaN(expiresAt.getTime()) ? expiresAt.toISOString() : null,
+    registrar,
+    status_codes: unique((Array.isArray(response.status) ? response.status : []).map(normalizeDomainStatus)),
+    name_servers: unique((Array.isArray(response.nameservers) ? response.nameservers : [])
+      .map((nameserver: any) => nameserver && nameserver.ldhName ? normalizeNameServer(nameserver.ldhName) : ''))
+  }
+}
+
+const WHOIS_NOT_FOUND_PATTERN = /^(no match|not found|no data found|no entries found|no object found|domain not found|status:\s*(free|available))|is available for registration/im
+
+const WHOIS_EXPIRY_KEYS = /^(registry expiry date|registrar registration expiration date|expiration date|expiry date|expiration time|expires on|expires|expire date|expire|paid-till|renewal date|valid until)$/i
+const WHOIS_REGISTRAR_KEYS = /^(registrar|sponsoring registrar|registrar name|registrar organization)$/i
+const WHOIS_STATUS_KEYS = /^(domain status|status|state)$/i
+const WHOIS_NAME_SERVER_KEYS = /^(name servers?|nserver|nameservers?|dns)$/i
+
+/**
+ * Whether a WHOIS answer says the domain is not registered
+ */
+export function isWhoisNotFound(text: string): boolean {
+  return WHOIS_NOT_FOUND_PATTERN.test(text)
+}
+
+/**
+ * The registration in a WHOIS answer. Formats vary by registry: "Key: value"
+ * lines, repeated for statuses and nameservers, and blocks where a key line
+ * is followed by indented values (as .uk does).
+ */
+export function parseWhoisResponse(domain: string, text: string): DomainRegistration {
+  let expiresAt: Date | null = null
+  let registrar: string | null = null
+  const statusCodes: string[] = []
+  const nameServers: string[] = []
+
+  const lines = text.split(/\r?\n/)
+  lines.forEach((line, index) => {
+    const match = /^\s*([^:]{2,60}?)\s*:\s*(.*)$/.exec(line)
+    if (!match || line.trim().startsWith('%') || line.trim().startsWith('#')) return
+
+    const key = match[1].trim()
+    const values = [match[2].trim()].filter(Boolean)
+    if (values.length === 0) {
+      // A block: the values are the indented lines that follow
+      for (let i = index + 1; i < lines.length && /^\s+\S/.test(lines[i]) && !/^\s*[^:\s][^:]*:\s*\S/.test(lines[i]); i++) {
+        values.push(lines[i].trim())
+      }
+    }
+    if (values.length === 0) return
+
+    if (!expiresAt && WHOIS_EXPIRY_KEYS.test(key)) {
+      expiresAt = parseWhoisDate(values[0])
+    } else if (!registrar && WHOIS_REGISTRAR_KEYS.test(key)) {
+      registrar = values[0].replace(/\s*\[Tag = .*\]$/, '')
+    } else if (WHOIS_STATUS_KEYS.test(key)) {
+      values.forEach(value => {
+        value.split(/,\s*/).forEach(status => statusCodes.push(normalizeDomainStatus(status)))
+      })
+    } else if (WHOIS_NAME_SERVER_KEYS.test(key)) {
+      values.forEach(value => nameServers.push(normalizeNameServer(value)))
+    }
+  })
+
+  const expires = expiresAt as Date | null
+  return {
+    domain: domain.toLowerCase(),
+    source: 'whois',
+    expires_at: expires ? expires.toISOString() : null,
+    registrar,
+    status_codes: unique(statusCodes),
+    name_servers: unique(nameServers)
+  }
+}
+
+/**
+ * Whole days from now until a domain expires; negative once it has
+ */
+export function getDaysUntilExpiry(expiresAt: string | null, now: Date = new Date()): number | null {
+  if (!expiresAt) return null
+  return Math.floor((new Date(expiresAt).getTime() - now.getTime()) / DAY_MS)
+}
+
+/**
+ * Validate a list of alert thresholds in days. Returns an error message or null.
+ */
+export function validateDomainAlertDays(days: unknown): string | null {
+  if (!Array.isArray(days) || days.length === 0) {
+    return 'Domain alert days must be a list of days before expiry'
+  }
+  if (days.length > MAX_DOMAIN_ALERT_THRESHOLDS) {
+    return `A monitor can have at most ${MAX_DOMAIN_ALERT_THRESHOLDS} domain alert thresholds`
+  }
+  if (!days.every(day => Number.isInteger(day) && day >= 0 && day <= 365)) {
+    return 'Domain alert days must be whole numbers of days between 0 and 365'
+  }
+  return null
+}
+
+/**
+ * Which threshold, if any, to alert at now. `alerted` is the threshold last
+ * alerted at for the current expiry date; each threshold alerts once, and a
+ * renewal that moves the expiry past every threshold starts over. Returns the
+ * threshold to alert at (or null) and the value to store as `alerted`.
+ */
+export function getDomainAlertThreshold(
+  daysUntilExpiry: number | null,
+  thresholds: number[],
+  alerted: number | null
+): { threshold: number | null; alerted: number | null } {
+  if (daysUntilExpiry === null) return { threshold: null, alerted }
+
+  const crossed = thresholds.filter(days => daysUntilExpiry <= days)
+  if (crossed.length === 0) return { threshold: null, alerted: null }
+
+  const threshold = Math.min(...crossed)
+  if (alerted !== null && threshold >= alerted) return { threshold: null, alerted }
+
+  return { threshold, alerted: threshold }
+}
+
+/**
+ * Problem statuses present now that were not at the previous check
+ */
+export function findNewProblemStatuses(previous: string[], current: string[]): string[] {
+  return current.filter(status => PROBLEM_DOMAIN_STATUSES.includes(status) && !previous.includes(status))
+}
+
+/**
+ * One line describing problem statuses, for alerts
+ */
+export function describeProblemStatuses(domain: string, statuses: string[]): string {
+  return `${domain} is ${statuses.map(status => `${STATUS_DESCRIPTIONS[status] || status} (${status})`).join('; ')}`
+}
+
+/**
+ * The names a hostname might be registered as, shortest first: for
+ * www.example.co.uk that is co.uk, example.co.uk and www.example.co.uk.
+ * Registries only answer for registered names, so the first one found is
+ * the registration. Deeper names are never registrations.
+ */
+export function getRegistrableDomainCandidates(hostname: string): string[] {
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.')
+  const candidates: string[] = []
+  for (let count = 2; count <= Math.min(labels.length, MAX_REGISTRABLE_LABELS); count++) {
+    candidates.push(labels.slice(-count).join('.'))
+  }
+  return candidates
+}
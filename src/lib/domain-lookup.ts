@@ -0,0 +1,202 @@
+// Domain registration lookups: RDAP (RFC 9224) with the registry found from
+// IANA's bootstrap file, falling back to WHOIS for TLDs without RDAP or when
+// their RDAP server fails. Server-side only.
+
+import * as net from 'net'
+import * as os from 'os'
+import * as path from 'path'
+import { promises as fs } from 'fs'
+import {
+  getRegistrableDomainCandidates,
+  isWhoisNotFound,
+  parseRdapDomain,
+  parseWhoisResponse,
+  type DomainRegistration
+} from './domain-expiry'
+
+const RDAP_BOOTSTRAP_URL = 'https://data.iana.org/rdap/dns.json'
+
+// IANA asks clients to cache the bootstrap file; it changes a few times a month
+const BOOTSTRAP_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+const BOOTSTRAP_CACHE_FILE = path.join(os.tmpdir(), 'simpleuptime-rdap-dns.json')
+
+const IANA_WHOIS_SERVER = 'whois.iana.org'
+
+const LOOKUP_TIMEOUT_MS = 10000
+
+// WHOIS answers are a few KB; anything far larger is not one
+const MAX_WHOIS_RESPONSE_BYTES = 256 * 1024
+
+interface RdapBootstrap {
+  fetchedAt: number
+  services: Record<string, string> // TLD -> RDAP base URL
+}
+
+let bootstrapCache: RdapBootstrap | null = null
+const whoisServerCache: Record<string, string | null> = {}
+
+export class DomainNotFoundError extends Error {
+  constructor(domain: string) {
+    super(`${domain} is not registered`)
+    this.name = 'DomainNotFoundError'
+  }
+}
+
+function toBootstrap(file: any, fetchedAt: number): RdapBootstrap {
+  const services: Record<string, string> = {}
+  ;(Array.isArray(file?.services) ? file.services : []).forEach((service: any) => {
+    const [tlds, urls] = service
+    if (!Array.isArray(tlds) || !Array.isArray(urls)) return
+    // Prefer HTTPS when a registry lists both
+    const url = urls.find((candidate: string) => candidate.startsWith('https://')) || urls[0]
+    if (!url) return
+    tlds.forEach((tld: string) => {
+      services[tld.toLowerCase()] = url.endsWith('/') ? url : `${url}/`
+    })
+  })
+  return { fetchedAt, services }
+}
+
+/**
+ * TLD to RDAP server map, from memory, the local cache file or IANA. A stale
+ * copy is used when IANA cannot be reached.
+ */
+async function getRdapBootstrap(): Promise<RdapBootstrap | null> {
+  if (bootstrapCache && Date.now() - bootstrapCache.fetchedAt < BOOTSTRAP_MAX_AGE_MS) {
+    return bootstrapCache
+  }
+
+  if (!bootstrapCache) {
+    try {
+      const cached = JSON.parse(await fs.readFile(BOOTSTRAP_CACHE_FILE, 'utf8'))
+      bootstrapCache = toBootstrap(cached.file, cached.fetchedAt)
+      if (Date.now() - bootstrapCache.fetchedAt < BOOTSTRAP_MAX_AGE_MS) {
+        return bootstrapCache
+      }
+    } catch {
+      // No cache file yet
+    }
+  }
+
+  try {
+    const response = await fetch(RDAP_BOOTSTRAP_URL, { signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) })
+    if (!response.ok) throw new Error(`IANA bootstrap returned ${response.status}`)
+
+    const file = await response.json()
+    const fetchedAt = Date.now()
+    bootstrapCache = toBootstrap(file, fetchedAt)
+    await fs.writeFile(BOOTSTRAP_CACHE_FILE, JSON.stringify({ fetchedAt, file })).catch(() => {})
+  } catch (error: any) {
+    console.warn('RDAP bootstrap refresh failed:', error.message)
+  }
+
+  return bootstrapCache
+}
+
+// The RDAP server for a TLD, or null when the registry has none
+async function getRdapServer(tld: string): Promise<string | null> {
+  const bootstrap = await getRdapBootstrap()
+  return bootstrap ? bootstrap.services[tld] || null : null
+}
+
+async function queryRdap(server: string, domain: string): Promise<DomainRegistration | null> {
+  const response = await fetch(`${server}domain/${encodeURIComponent(domain)}`, {
+    headers: { Accept: 'application/rdap+json, application/json' },
+    signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS)
+  })
+
+  if (response.status === 404) return null
+  if (!response.ok) throw new Error(`RDAP server returned ${response.status}`)
+
+  return parseRdapDomain(domain, await response.json())
+}
+
+/**
+ * Send one WHOIS query (RFC 3912) and return the answer
+ */
+function queryWhois(server: string, query: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    const socket = net.connect({ host: server, port: 43 })
+
+    socket.setTimeout(LOOKUP_TIMEOUT_MS)
+    socket.on('connect', () => socket.end(`${query}\r\n`))
+    socket.on('data', chunk => {
+      size += chunk.length
+      if (size > MAX_WHOIS_RESPONSE_BYTES) {
+        socket.destroy(new Error(`WHOIS answer from ${server} is too large`))
+        return
+      }
+      chunks.push(chunk)
+    })
+    socket.on('timeout', () => socket.destroy(new Error(`WHOIS server ${server} timed out`)))
+    socket.on('error', reject)
+    socket.on('close', hadError => {
+      if (!hadError) resolve(Buffer.concat(chunks).toString('utf8'))
+    })
+  })
+}
+
+// The registry's WHOIS server for a TLD, as listed by IANA
+async function getWhoisServer(tld: string): Promise<string | null> {
+  if (tld in whoisServerCache) return whoisServerCache[tld]
+
+  const answer = await queryWhois(IANA_WHOIS_SERVER, tld)
+  const match = /^(?:whois|refer):\s*(\S+)/im.exec(answer)
+  whoisServerCache[tld] = match ? match[1].toLowerCase() : null
+  return whoisServerCache[tld]
+}
+
+async function lookupWhois(tld: string, domain: string): Promise<DomainRegistration | null> {
+  const server = await getWhoisServer(tld)
+  if (!server) throw new Error(`No WHOIS server is listed for .${tld}`)
+
+  const answer = await queryWhois(server, domain)
+  if (isWhoisNotFound(answer)) return null
+
+  const registration = parseWhoisResponse(domain, answer)
+  // A bare "not found" some registries give without any of the usual wording
+  if (!registration.expires_at && !registration.registrar && registration.name_servers.length === 0) {
+    return null
+  }
+  return registration
+}
+
+async function lookupDomain(tld: string, domain: string): Promise<DomainRegistration | null> {
+  const server = await getRdapServer(tld)
+  if (server) {
+    try {
+      return await queryRdap(server, domain)
+    } catch (error: any) {
+      console.warn(`RDAP lookup for ${domain} failed, trying WHOIS:`, error.message)
+    }
+  }
+  return lookupWhois(tld, domain)
+}
+
+/**
+ * Look up the registration covering a hostname: the shortest name under it
+ * that a registry knows, e.g. example.co.uk for www.example.co.uk. Throws
+ * DomainNotFoundError when no such name is registered, and other errors when
+ * neither RDAP nor WHOIS answered.
+ */
+export async function lookupDomainRegistration(hostname: string): Promise<DomainRegistration> {
+  if (net.isIP(hostname)) {
+    throw new Error(`${hostname} is an IP address, which has no domain registration`)
+  }
+
+  const candidates = getRegistrableDomainCandidates(hostname)
+  if (candidates.length === 0) {
+    throw new DomainNotFoundError(hostname)
+  }
+
+  const tld = candidates[0].split('.').pop() as string
+  for (const domain of candidates) {
+    const registration = await lookupDomain(tld, domain)
+    if (registration) return registration
+  }
+
+  throw new DomainNotFoundError(candidates[candidates.length - 1])
+}
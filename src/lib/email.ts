@@ -63,6 +63,7 @@ interface AlertEmailData {
     duration?: number
     cause?: string
   }
+  acknowledgeUrl?: string
 }
 
 export async function sendDownAlert({
@@ -70,7 +71,8 @@ export async function sendDownAlert({
   monitorName,
   monitorUrl,
   timestamp,
-  incident
+  incident,
+  acknowledgeUrl
 }: AlertEmailData & { recipient: string }) {
   try {
     const { data, error } = await resend.emails.send({
@@ -91,6 +93,14 @@ export async function sendDownAlert({
             
             ${incident?.cause ? `<p><strong>Cause:</strong> ${incident.cause}</p>` : ''}
             
+            ${acknowledgeUrl ? `
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${acknowledgeUrl}" style="background-color: #dc2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+                Acknowledge Incident
+              </a>
+            </div>
+            ` : ''}
+            
             <p style="margin-top: 30px; color: #666;">
               We'll notify you when your website comes back online.
             </p>
@@ -193,8 +203,9 @@ interface DomainAlertData {
   monitorName: string
   domain: string
   alertType: 'domain_expiring' | 'domain_invalid'
-  daysUntilExpiry: number
+  daysUntilExpiry: number | null
   registrar: string
+  issue?: string // domain_invalid: what is wrong, e.g. the registry statuses
 }
 
 export async function sendSSLAlert({
@@ -270,13 +281,22 @@ export async function sendDomainAlert({
   domain,
   alertType,
   daysUntilExpiry,
-  registrar
+  registrar,
+  issue
 }: DomainAlertData) {
   try {
-    const isCritical = daysUntilExpiry <= 7
-    const subject = isCritical 
+    const isInvalid = alertType === 'domain_invalid'
+    const isCritical = isInvalid || (daysUntilExpiry !== null && daysUntilExpiry <= 7)
+    const subject = isInvalid
+      ? `🚨 Domain problem - ${domain}`
+      : isCritical 
       ? `🚨 Domain EXPIRING in ${daysUntilExpiry} days - ${domain}`
       : `⚠️ Domain expiring soon - ${domain}`
+    const heading = isInvalid
+      ? `Domain ${domain} needs attention`
+      : daysUntilExpiry !== null && daysUntilExpiry < 0
+      ? `Domain ${domain} expired ${-daysUntilExpiry} days ago`
+      : `Domain ${domain} expires in ${daysUntilExpiry} days`
 
     const { data, error } = await resend.emails.send({
       from: 'SimpleUptime <alerts@resend.dev>',
@@ -290,17 +310,21 @@ export async function sendDomainAlert({
           
           <div style="background-color: #f9f9f9; padding: 20px; border-radius: 0 0 8px 8px;">
             <h2 style="color: ${isCritical ? '#dc2626' : '#f59e0b'}; margin-top: 0;">
-              Domain ${domain} expires in ${daysUntilExpiry} days
+              ${heading}
             </h2>
             
             <p><strong>Domain:</strong> ${domain}</p>
             <p><strong>Monitor:</strong> ${monitorName}</p>
-            <p><strong>Days until expiry:</strong> ${daysUntilExpiry}</p>
+            <p><strong>Days until expiry:</strong> ${daysUntilExpiry !== null ? daysUntilExpiry : 'Unknown'}</p>
             <p><strong>Registrar:</strong> ${registrar}</p>
             
+            ${issue ? `<p><strong>Issue:</strong> ${issue}</p>` : ''}
+            
             <div style="background-color: ${isCritical ? '#fef2f2' : '#fefbf2'}; border-left: 4px solid ${isCritical ? '#dc2626' : '#f59e0b'}; padding: 15px; margin: 20px 0;">
               <p style="margin: 0; font-weight: bold;">
-                ${isCritical 
+                ${isInvalid
+                  ? 'URGENT: Contact your registrar to restore the domain before your website and email go offline.'
+                  : isCritical 
                   ? 'URGENT: Renew your domain immediately to prevent website downtime and email service interruption.'
                   : 'Please renew your domain soon to avoid service interruption.'
                 }
@@ -308,7 +332,7 @@ export async function sendDomainAlert({
             </div>
             
             <p style="margin-top: 30px; color: #666;">
-              Contact your registrar (${registrar}) to renew your domain registration.
+              Contact your registrar (${registrar}) to ${isInvalid ? 'resolve the issue' : 'renew your domain registration'}.
             </p>
             
             <hr style="border: none; border-top: 1px solid #ddd; margin: 20px 0;">
@@ -330,4 +354,59 @@ export async function sendDomainAlert({
     console.error('Failed to send domain alert:', error)
     return { success: false, error }
   }
-}
\ No newline at end of file
+}
+interface TeamInvitationEmailData {
+  recipient: string
+  teamName: string
+  role: string
+  acceptUrl: string
+  inviterEmail?: string | null
+  expiresInDays: number
+}
+
+export async function sendTeamInvitation({
+  recipient,
+  teamName,
+  role,
+  acceptUrl,
+  inviterEmail,
+  expiresInDays
+}: TeamInvitationEmailData) {
+  try {
+    const { data, error } = await resend.emails.send({
+      from: 'SimpleUptime <alerts@resend.dev>',
+      to: [recipient],
+      subject: `You've been invited to join ${teamName} on SimpleUptime`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background-color: #2563eb; color: white; padding: 20px; border-radius: 8px 8px 0 0;">
+            <h1 style="margin: 0; font-size: 24px;">Join ${teamName}</h1>
+          </div>
+          
+          <div style="background-color: #f9f9f9; padding: 20px; border-radius: 0 0 8px 8px;">
+            <p>${inviterEmail || 'A team admin'} invited you to join <strong>${teamName}</strong> on SimpleUptime with the <strong>${role}</strong> role.</p>
+            
+            <p style="margin: 30px 0;">
+              <a href="${acceptUrl}" style="background-color: #2563eb; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none;">Accept invitation</a>
+            </p>
+            
+            <hr style="border: none; border-top: 1px solid #ddd; margin: 20px 0;">
+            <p style="font-size: 12px; color: #999; margin: 0;">
+              This link expires in ${expiresInDays} days. Sign in as ${recipient} to accept it.
+            </p>
+          </div>
+        </div>
+      `,
+    })
+
+    if (error) {
+      console.error('Failed to send team invitation:', error)
+      return { success: false, error }
+    }
+
+    return { success: true, data }
+  } catch (error) {
+    console.error('Failed to send team invitation:', error)
+    return { success: false, error }
+  }
+}
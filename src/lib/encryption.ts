@@ -1,33 +1,100 @@
 // Encryption utility for sensitive data storage
+//
+// Values are stored as v2:<key id>:<iv>:<auth tag>:<ciphertext> (hex), so
+// several keys can be configured at once: ENCRYPTION_KEY encrypts, and keys
+// listed in ENCRYPTION_PREVIOUS_KEYS still decrypt until everything has been
+// re-encrypted with POST /api/admin/encrypt-secrets { "action": "rotate" }.
 
 import crypto from 'crypto'
 
 const ALGORITHM = 'aes-256-gcm'
 const KEY_LENGTH = 32 // 256 bits
+const IV_LENGTH = 12 // 96 bits, the IV size GCM is designed for
+const FORMAT_VERSION = 'v2'
+
+// Passphrases are stretched with scrypt; a fixed salt keeps the derived key,
+// and so its ID, the same across processes
+const KEY_DERIVATION_SALT = 'simpleuptime-encryption-key'
+
+const DEV_KEY = 'dev-key-not-secure-32-chars-min'
+
+const ENCRYPTED_PATTERN = /^v2:[0-9a-f]+:[0-9a-f]+:[0-9a-f]+:[0-9a-f]+$/i
+
+// Monitor fields holding credentials or PII
+export const ENCRYPTED_MONITOR_FIELDS = [
+  'auth_password',
+  'auth_token',
+  'slack_webhook_url',
+  'discord_webhook_url',
+  'webhook_url',
+  'alert_sms' // Phone numbers are PII
+]
+
+interface EncryptionKey {
+  id: string
+  key: Buffer
+  legacyKey: Buffer // what values written before v2 were encrypted with
+}
+
+interface Keyring {
+  source: string
+  current: EncryptionKey
+  keys: EncryptionKey[] // current first, then previous keys
+}
+
+let keyringCache: Keyring | null = null
+
+function toEncryptionKey(secret: string): EncryptionKey {
+  const isHex = secret.length === KEY_LENGTH * 2 && /^[0-9a-f]+$/i.test(secret)
+  const key = isHex
+    ? Buffer.from(secret, 'hex')
+    : crypto.scryptSync(secret, KEY_DERIVATION_SALT, KEY_LENGTH)
+
+  return {
+    // Derived from the key itself, so an ID can never point at the wrong key
+    id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 8),
+    key,
+    legacyKey: isHex ? key : Buffer.from(secret, 'utf8').subarray(0, KEY_LENGTH)
+  }
+}
 
 /**
- * Get or generate encryption key from environment
+ * The encryption key and any previous keys from the environment
  */
-function getEncryptionKey(): Buffer {
-  const key = process.env.ENCRYPTION_KEY
-  
-  if (!key) {
+function getKeyring(): Keyring {
+  const secret = process.env.ENCRYPTION_KEY
+  const previous = process.env.ENCRYPTION_PREVIOUS_KEYS || ''
+
+  // Deriving passphrase keys is slow, so the keyring is built once per configuration
+  const source = `${secret || ''}|${previous}`
+  if (keyringCache && keyringCache.source === source) {
+    return keyringCache
+  }
+
+  if (!secret) {
     // In development, generate a warning
-    if (process.env.NODE_ENV !== 'production') {
-      console.warn('⚠️  ENCRYPTION_KEY not set - using default key for development only')
-      return Buffer.from('dev-key-not-secure-32-chars-min', 'utf8').subarray(0, KEY_LENGTH)
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('ENCRYPTION_KEY environment variable is required in production')
     }
-    throw new Error('ENCRYPTION_KEY environment variable is required in production')
-  }
-  
-  // Convert hex string to buffer or use as UTF-8
-  if (key.length === KEY_LENGTH * 2) {
-    // Assume hex string
-    return Buffer.from(key, 'hex')
-  } else {
-    // Use UTF-8 and pad/truncate to correct length
-    return Buffer.from(key, 'utf8').subarray(0, KEY_LENGTH)
+    console.warn('⚠️  ENCRYPTION_KEY not set - using default key for development only')
   }
+
+  const current = toEncryptionKey(secret || DEV_KEY)
+  const keys = [current]
+  previous.split(',').map(key => key.trim()).filter(Boolean).forEach(key => {
+    const previousKey = toEncryptionKey(key)
+    if (!keys.some(existing => existing.id === previousKey.id)) keys.push(previousKey)
+  })
+
+  keyringCache = { source, current, keys }
+  return keyringCache
+}
+
+/**
+ * ID of the key new values are encrypted with
+ */
+export function getEncryptionKeyId(): string {
+  return getKeyring().current.id
 }
 
 /**
@@ -37,28 +104,50 @@ export function encryptData(plaintext: string): string {
   if (!plaintext) {
     return ''
   }
-  
+
   try {
-    const key = getEncryptionKey()
-    const iv = crypto.randomBytes(16) // 128-bit IV
-    const cipher = crypto.createCipher(ALGORITHM, key)
-    
+    const { current } = getKeyring()
+    const iv = crypto.randomBytes(IV_LENGTH)
+    const cipher = crypto.createCipheriv(ALGORITHM, current.key, iv)
+
     let encrypted = cipher.update(plaintext, 'utf8', 'hex')
     encrypted += cipher.final('hex')
-    
+
     // Get the authentication tag
     const tag = cipher.getAuthTag()
-    
-    // Combine IV + tag + encrypted data
-    const combined = iv.toString('hex') + ':' + tag.toString('hex') + ':' + encrypted
-    
-    return combined
+
+    return [FORMAT_VERSION, current.id, iv.toString('hex'), tag.toString('hex'), encrypted].join(':')
   } catch (error) {
     console.error('Encryption failed:', error)
     throw new Error('Failed to encrypt data')
   }
 }
 
+/**
+ * Decrypt a value written before v2 (iv:tag:ciphertext). Those came from
+ * crypto.createCipher, which ignored the stored IV and derived both key and
+ * IV from the key bytes with OpenSSL's EVP_BytesToKey (MD5, one round).
+ */
+function decryptLegacy(parts: string[], legacyKey: Buffer): string {
+  let derived: Buffer = Buffer.alloc(0)
+  let block: Buffer = Buffer.alloc(0)
+  while (derived.length < KEY_LENGTH + IV_LENGTH) {
+    block = crypto.createHash('md5').update(Buffer.concat([block, legacyKey])).digest()
+    derived = Buffer.concat([derived, block])
+  }
+
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    derived.subarray(0, KEY_LENGTH),
+    derived.subarray(KEY_LENGTH, KEY_LENGTH + IV_LENGTH)
+  )
+  decipher.setAuthTag(Buffer.from(parts[1], 'hex'))
+
+  let decrypted = decipher.update(parts[2], 'hex', 'utf8')
+  decrypted += decipher.final('utf8')
+  return decrypted
+}
+
 /**
  * Decrypt sensitive data
  */
@@ -66,25 +155,39 @@ export function decryptData(encryptedData: string): string {
   if (!encryptedData) {
     return ''
   }
-  
+
   try {
-    const key = getEncryptionKey()
+    const { keys } = getKeyring()
     const parts = encryptedData.split(':')
-    
-    if (parts.length !== 3) {
+
+    if (parts.length === 3) {
+      // Legacy values do not say which key they used; the auth tag only
+      // verifies under the right one
+      for (let i = 0; i < keys.length; i++) {
+        try {
+          return decryptLegacy(parts, keys[i].legacyKey)
+        } catch {
+          // Try the next key
+        }
+      }
+      throw new Error('No configured key decrypts this value')
+    }
+
+    if (parts.length !== 5 || parts[0] !== FORMAT_VERSION) {
       throw new Error('Invalid encrypted data format')
     }
-    
-    const iv = Buffer.from(parts[0], 'hex')
-    const tag = Buffer.from(parts[1], 'hex')
-    const encrypted = parts[2]
-    
-    const decipher = crypto.createDecipher(ALGORITHM, key)
-    decipher.setAuthTag(tag)
-    
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8')
+
+    const encryptionKey = keys.find(key => key.id === parts[1])
+    if (!encryptionKey) {
+      throw new Error(`Encryption key ${parts[1]} is not configured`)
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey.key, Buffer.from(parts[2], 'hex'))
+    decipher.setAuthTag(Buffer.from(parts[3], 'hex'))
+
+    let decrypted = decipher.update(parts[4], 'hex', 'utf8')
     decrypted += decipher.final('utf8')
-    
+
     return decrypted
   } catch (error) {
     console.error('Decryption failed:', error)
@@ -97,30 +200,38 @@ export function decryptData(encryptedData: string): string {
  */
 export function isEncrypted(data: string): boolean {
   if (!data) return false
-  
-  // Check for our encryption format (hex:hex:hex)
+  if (ENCRYPTED_PATTERN.test(data)) return true
+
+  // Check for the legacy format (hex:hex:hex)
   const parts = data.split(':')
-  return parts.length === 3 && 
+  return parts.length === 3 &&
          parts.every(part => /^[0-9a-f]+$/i.test(part))
 }
 
+/**
+ * Whether an encrypted value was written in the legacy format or with a key
+ * other than the current one
+ */
+export function needsReEncryption(data: string): boolean {
+  return isEncrypted(data) && !data.startsWith(`${FORMAT_VERSION}:${getEncryptionKeyId()}:`)
+}
+
+/**
+ * Re-encrypt a value with the current key. Values that are not encrypted, or
+ * already use the current key, are returned unchanged. Throws when no
+ * configured key decrypts the value.
+ */
+export function reEncryptData(data: string): string {
+  return needsReEncryption(data) ? encryptData(decryptData(data)) : data
+}
+
 /**
  * Encrypt sensitive monitor data
  */
 export function encryptMonitorSecrets(monitor: any): any {
   const encryptedMonitor = { ...monitor }
-  
-  // List of fields that should be encrypted
-  const sensitiveFields = [
-    'auth_password',
-    'auth_token',
-    'slack_webhook_url',
-    'discord_webhook_url',
-    'webhook_url',
-    'alert_sms' // Phone numbers are PII
-  ]
-  
-  for (const field of sensitiveFields) {
+
+  for (const field of ENCRYPTED_MONITOR_FIELDS) {
     if (encryptedMonitor[field] && typeof encryptedMonitor[field] === 'string') {
       // Only encrypt if not already encrypted
       if (!isEncrypted(encryptedMonitor[field])) {
@@ -128,7 +239,7 @@ export function encryptMonitorSecrets(monitor: any): any {
       }
     }
   }
-  
+
   return encryptedMonitor
 }
 
@@ -137,18 +248,8 @@ export function encryptMonitorSecrets(monitor: any): any {
  */
 export function decryptMonitorSecrets(monitor: any): any {
   const decryptedMonitor = { ...monitor }
-  
-  // List of fields that should be decrypted
-  const sensitiveFields = [
-    'auth_password',
-    'auth_token',
-    'slack_webhook_url',
-    'discord_webhook_url',
-    'webhook_url',
-    'alert_sms'
-  ]
-  
-  for (const field of sensitiveFields) {
+
+  for (const field of ENCRYPTED_MONITOR_FIELDS) {
     if (decryptedMonitor[field] && typeof decryptedMonitor[field] === 'string') {
       // Only decrypt if encrypted
       if (isEncrypted(decryptedMonitor[field])) {
@@ -161,10 +262,37 @@ export function decryptMonitorSecrets(monitor: any): any {
       }
     }
   }
-  
+
   return decryptedMonitor
 }
 
+/**
+ * Whether a monitor secret still has to be written under the current key:
+ * plaintext, the legacy format or a previous key
+ */
+export function monitorSecretNeedsRotation(value: unknown): boolean {
+  return typeof value === 'string' && !!value && (!isEncrypted(value) || needsReEncryption(value))
+}
+
+/**
+ * The monitor's secret fields that need writing under the current key,
+ * already encrypted with it; plaintext values are encrypted too. Empty when
+ * nothing needs to change; throws when a value cannot be decrypted, so
+ * nothing is half-rotated.
+ */
+export function reEncryptMonitorSecrets(monitor: any): Record<string, string> {
+  const changes: Record<string, string> = {}
+
+  for (const field of ENCRYPTED_MONITOR_FIELDS) {
+    const value = monitor[field]
+    if (monitorSecretNeedsRotation(value)) {
+      changes[field] = isEncrypted(value) ? reEncryptData(value) : encryptData(value)
+    }
+  }
+
+  return changes
+}
+
 /**
  * Generate a new encryption key (for initial setup)
  */
@@ -177,16 +305,16 @@ export function generateEncryptionKey(): string {
  */
 export function validateEncryptionKey(key: string): boolean {
   if (!key) return false
-  
+
   // Check if it's a hex string of correct length
   if (key.length === KEY_LENGTH * 2 && /^[0-9a-f]+$/i.test(key)) {
     return true
   }
-  
-  // Check if it's a UTF-8 string of sufficient length
+
+  // Check if it's a passphrase of sufficient length
   if (key.length >= KEY_LENGTH) {
     return true
   }
-  
+
   return false
-}
\ No newline at end of file
+}
@@ -137,6 +137,18 @@ export const COMMON_ENV_CONFIGS = {
     required: ['NEXT_PUBLIC_APP_URL'] as string[],
     optional: ['CRON_SECRET', 'NODE_ENV'] as string[]
   },
+
+  // Signs password-protected status page sessions; never falls back to another secret
+  statusPages: {
+    required: ['STATUS_PAGE_SESSION_SECRET'] as string[],
+    optional: [] as string[]
+  },
+
+  // Signs incident acknowledge links; never falls back to another secret
+  escalation: {
+    required: ['ACKNOWLEDGE_LINK_SECRET'] as string[],
+    optional: [] as string[]
+  },
   
   ssl: {
     required: [] as string[],
@@ -0,0 +1,469 @@
+// Escalation policies: when a down incident opens on a monitor with a policy,
+// its steps notify notification channels one after another until someone
+// acknowledges the incident, then reminders repeat the last step while it
+// stays open. Steps are advanced by the /api/cron/escalations job.
+
+import crypto from 'crypto'
+import { getSupabaseAdmin } from './supabase'
+import { getChannelRecipientsByIds } from './notification-channels'
+import { sendToChannels } from './notifications'
+import { scopeToWorkspace, type Workspace } from './teams'
+
+export const MAX_ESCALATION_STEPS = 10
+
+export const MAX_STEP_DELAY_MINUTES = 24 * 60
+
+export const MIN_REPEAT_INTERVAL_MINUTES = 5
+
+export const MAX_POLICY_NAME_LENGTH = 100
+
+// Incidents advanced per cron run; the rest wait for the next minute
+const ESCALATION_BATCH_SIZE = 100
+
+const MINUTE_MS = 60 * 1000
+
+const POLICY_FIELDS = 'id, user_id, team_id, name, steps, repeat_interval_minutes, created_at, updated_at, monitors(id)'
+
+export interface EscalationStep {
+  delay_minutes: number // after the previous step, or after the incident opened for the first step
+  channel_ids: string[]
+}
+
+export interface EscalationPolicy {
+  id: string
+  user_id: string
+  team_id: string | null
+  name: string
+  steps: EscalationStep[]
+  repeat_interval_minutes: number | null
+  monitor_ids: string[]
+  created_at: string
+  updated_at: string
+}
+
+export interface EscalationPolicyInput {
+  name: string
+  steps: EscalationStep[]
+  repeat_interval_minutes?: number | null
+  monitor_ids?: string[]
+}
+
+export interface EscalationResult {
+  incident_id: string
+  step: number // 1-based step notified; reminders repeat the last step
+  reminder: boolean
+  success: boolean
+}
+
+function isMinutes(value: unknown, min: number, max: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+}
+
+/**
+ * Validate a policy to create or replace. Returns an error message or null.
+ */
+export function validateEscalationPolicyInput(input: Record<string, any>): string | null {
+  const { name, steps, repeat_interval_minutes, monitor_ids } = input
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Policy name is required'
+  }
+  if (name.trim().length > MAX_POLICY_NAME_LENGTH) {
+    return `Policy name must be at most ${MAX_POLICY_NAME_LENGTH} characters`
+  }
+
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return 'At least one step is required'
+  }
+  if (steps.length > MAX_ESCALATION_STEPS) {
+    return `A policy can have at most ${MAX_ESCALATION_STEPS} steps`
+  }
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i]
+    if (!step || !isMinutes(step.delay_minutes, 0, MAX_STEP_DELAY_MINUTES)) {
+      return `Step ${i + 1} delay must be between 0 and ${MAX_STEP_DELAY_MINUTES} minutes`
+    }
+    if (!Array.isArray(step.channel_ids) || step.channel_ids.length === 0 ||
+        !step.channel_ids.every((id: unknown) => typeof id === 'string')) {
+      return `Step ${i + 1} needs at least one notification channel`
+    }
+  }
+
+  if (repeat_interval_minutes !== undefined && repeat_interval_minutes !== null &&
+      !isMinutes(repeat_interval_minutes, MIN_REPEAT_INTERVAL_MINUTES, MAX_STEP_DELAY_MINUTES)) {
+    return `Reminders must repeat every ${MIN_REPEAT_INTERVAL_MINUTES} to ${MAX_STEP_DELAY_MINUTES} minutes`
+  }
+
+  if (monitor_ids !== undefined && (!Array.isArray(monitor_ids) || !monitor_ids.every(id => typeof id === 'string'))) {
+    return 'monitor_ids must be a list of monitor IDs'
+  }
+
+  return null
+}
+
+function unique(values: string[]): string[] {
+  return values.filter((value, index) => values.indexOf(value) === index)
+}
+
+/**
+ * Check that the policy's channels and monitors belong to the workspace.
+ * Returns an error message or null.
+ */
+export async function validatePolicyReferences(workspace: Workspace, input: EscalationPolicyInput): Promise<string | null> {
+  const supabase = getSupabaseAdmin()
+
+  const channelIds = unique(input.steps.reduce<string[]>((ids, step) => ids.concat(step.channel_ids), []))
+  const { data: channels, error: channelsError } = await scopeToWorkspace(
+    supabase.from('notification_channels').select('id').in('id', channelIds),
+    workspace
+  )
+
+  if (channelsError) throw channelsError
+  if ((channels || []).length !== channelIds.length) {
+    return 'Steps can only notify channels in the current workspace'
+  }
+
+  const monitorIds = unique(input.monitor_ids || [])
+  if (monitorIds.length === 0) return null
+
+  const { data: monitors, error: monitorsError } = await scopeToWorkspace(
+    supabase.from('monitors').select('id').in('id', monitorIds),
+    workspace
+  )
+
+  if (monitorsError) throw monitorsError
+  return (monitors || []).length === monitorIds.length ? null : 'Policies can only be applied to monitors in the current workspace'
+}
+
+function toEscalationPolicy(row: any): EscalationPolicy {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    team_id: row.team_id,
+    name: row.name,
+    steps: row.steps || [],
+    repeat_interval_minutes: row.repeat_interval_minutes,
+    monitor_ids: (row.monitors || []).map((monitor: { id: string }) => monitor.id),
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  }
+}
+
+function toPolicyRow(input: EscalationPolicyInput) {
+  return {
+    name: input.name.trim(),
+    steps: input.steps.map(step => ({ delay_minutes: step.delay_minutes, channel_ids: unique(step.channel_ids) })),
+    repeat_interval_minutes: input.repeat_interval_minutes ?? null
+  }
+}
+
+// A monitor follows one policy, so selecting it here moves it off any other
+async function setPolicyMonitors(workspace: Workspace, policyId: string, monitorIds: string[] = []): Promise<void> {
+  const supabase = getSupabaseAdmin()
+
+  const { error: clearError } = await supabase
+    .from('monitors')
+    .update({ escalation_policy_id: null })
+    .eq('escalation_policy_id', policyId)
+
+  if (clearError) throw clearError
+
+  const ids = unique(monitorIds)
+  if (ids.length === 0) return
+
+  const { error } = await scopeToWorkspace(
+    supabase.from('monitors').update({ escalation_policy_id: policyId }).in('id', ids),
+    workspace
+  )
+
+  if (error) throw error
+}
+
+export async function getWorkspaceEscalationPolicies(workspace: Workspace): Promise<EscalationPolicy[]> {
+  const { data, error } = await scopeToWorkspace(
+    getSupabaseAdmin().from('escalation_policies').select(POLICY_FIELDS),
+    workspace
+  ).order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map(toEscalationPolicy)
+}
+
+/**
+ * Load a policy that belongs to the workspace, or null
+ */
+export async function getWorkspaceEscalationPolicy(workspace: Workspace, policyId: string): Promise<EscalationPolicy | null> {
+  const { data } = await scopeToWorkspace(
+    getSupabaseAdmin().from('escalation_policies').select(POLICY_FIELDS).eq('id', policyId),
+    workspace
+  ).maybeSingle()
+
+  return data ? toEscalationPolicy(data) : null
+}
+
+/**
+ * Create a policy and apply it to its monitors. Callers validate the input,
+ * its references and the caller's role.
+ */
+export async function createEscalationPolicy(workspace: Workspace, input: EscalationPolicyInput): Promise<EscalationPolicy> {
+  const { data: policy, error } = await getSupabaseAdmin()
+    .from('escalation_policies')
+    .insert({ ...toPolicyRow(input), user_id: workspace.userId, team_id: workspace.teamId })
+    .select('id')
+    .single()
+
+  if (error) throw error
+
+  await setPolicyMonitors(workspace, policy.id, input.monitor_ids)
+  return (await getWorkspaceEscalationPolicy(workspace, policy.id)) as EscalationPolicy
+}
+
+/**
+ * Replace a policy's steps and monitors. Incidents already escalating pick up
+ * the new steps at their next step. Returns null when the policy is not in
+ * the workspace.
+ */
+export async function updateEscalationPolicy(
+  workspace: Workspace,
+  policyId: string,
+  input: EscalationPolicyInput
+): Promise<EscalationPolicy | null> {
+  const { data: policy, error } = await scopeToWorkspace(
+    getSupabaseAdmin()
+      .from('escalation_policies')
+      .update({ ...toPolicyRow(input), updated_at: new Date().toISOString() })
+      .eq('id', policyId),
+    workspace
+  )
+    .select('id')
+    .maybeSingle()
+
+  if (error) throw error
+  if (!policy) return null
+
+  await setPolicyMonitors(workspace, policyId, input.monitor_ids)
+  return getWorkspaceEscalationPolicy(workspace, policyId)
+}
+
+/**
+ * Delete a policy. Its monitors stop escalating, and so do open incidents
+ * following it. Returns false when it is not in the workspace.
+ */
+export async function deleteEscalationPolicy(workspace: Workspace, policyId: string): Promise<boolean> {
+  const { data, error } = await scopeToWorkspace(
+    getSupabaseAdmin().from('escalation_policies').delete().eq('id', policyId),
+    workspace
+  ).select('id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+// A shorter secret could be brute-forced from a single link
+const MIN_ACKNOWLEDGE_SECRET_LENGTH = 32
+
+/**
+ * Whether acknowledge links can be signed. Without a dedicated secret alerts
+ * go out without links, and no link is accepted.
+ */
+export function isAcknowledgeLinkConfigured(): boolean {
+  const secret = process.env.ACKNOWLEDGE_LINK_SECRET
+  return !!secret && secret.length >= MIN_ACKNOWLEDGE_SECRET_LENGTH
+}
+
+function getAcknowledgeSecret(): string {
+  if (!isAcknowledgeLinkConfigured()) {
+    throw new Error(`ACKNOWLEDGE_LINK_SECRET must be set to at least ${MIN_ACKNOWLEDGE_SECRET_LENGTH} characters`)
+  }
+  return process.env.ACKNOWLEDGE_LINK_SECRET as string
+}
+
+function signIncidentId(incidentId: string): string {
+  // Truncated to keep SMS links short; 128 bits is plenty for an HMAC tag
+  return crypto.createHmac('sha256', getAcknowledgeSecret()).update(`ack:${incidentId}`).digest('base64url').slice(0, 22)
+}
+
+/**
+ * Token for an incident's acknowledge link: `<incidentId>.<signature>`. It
+ * stays valid until the incident is acknowledged or resolved.
+ */
+export function createAcknowledgeToken(incidentId: string): string {
+  return `${incidentId}.${signIncidentId(incidentId)}`
+}
+
+/**
+ * The incident a token acknowledges, or null when the token is not genuine
+ */
+export function verifyAcknowledgeToken(token: string): string | null {
+  if (!isAcknowledgeLinkConfigured()) return null
+
+  const [incidentId, signature, ...rest] = token.split('.')
+  if (!incidentId || !signature || rest.length > 0) return null
+
+  const expected = Buffer.from(signIncidentId(incidentId))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null
+
+  return incidentId
+}
+
+/**
+ * The incident's acknowledge link, or undefined when links are not configured
+ */
+export function getAcknowledgeUrl(incidentId: string): string | undefined {
+  if (!isAcknowledgeLinkConfigured()) {
+    console.warn('ACKNOWLEDGE_LINK_SECRET is not configured; sending alerts without acknowledge links')
+    return undefined
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  return `${baseUrl.replace(/\/$/, '')}/ack/${createAcknowledgeToken(incidentId)}`
+}
+
+// When the step after `stepIndex` is due, or the first reminder once the
+// last step has gone out; null when nothing follows
+function getNextEscalationAt(policy: { steps: EscalationStep[]; repeat_interval_minutes: number | null }, stepIndex: number, from: Date): Date | null {
+  const next = policy.steps[stepIndex + 1]
+  if (next) return new Date(from.getTime() + next.delay_minutes * MINUTE_MS)
+  return policy.repeat_interval_minutes ? new Date(from.getTime() + policy.repeat_interval_minutes * MINUTE_MS) : null
+}
+
+/**
+ * Start escalating a newly opened incident when its monitor has a policy.
+ * A first step without delay is sent right away.
+ */
+export async function startEscalation(incident: { id: string; monitor_id: string; started_at: string }): Promise<void> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: monitor } = await supabase
+    .from('monitors')
+    .select('escalation_policy_id, escalation_policies(steps)')
+    .eq('id', incident.monitor_id)
+    .maybeSingle()
+
+  const policy: any = monitor?.escalation_policies
+  const firstStep: EscalationStep | undefined = policy?.steps?.[0]
+  if (!monitor?.escalation_policy_id || !firstStep) return
+
+  const nextAt = new Date(new Date(incident.started_at).getTime() + firstStep.delay_minutes * MINUTE_MS)
+
+  const { error } = await supabase
+    .from('incidents')
+    .update({
+      escalation_policy_id: monitor.escalation_policy_id,
+      escalation_step: 0,
+      escalation_reminders: 0,
+      escalation_next_at: nextAt.toISOString()
+    })
+    .eq('id', incident.id)
+
+  if (error) throw error
+
+  if (nextAt.getTime() <= Date.now()) {
+    await processDueEscalations(new Date(), incident.id)
+  }
+}
+
+/**
+ * Notify the next step (or a reminder) for every open, unacknowledged
+ * incident whose escalation is due
+ */
+export async function processDueEscalations(now: Date = new Date(), incidentId?: string): Promise<EscalationResult[]> {
+  const supabase = getSupabaseAdmin()
+
+  let query = supabase
+    .from('incidents')
+    .select('id, monitor_id, started_at, cause, escalation_policy_id, escalation_step, escalation_reminders, escalation_next_at')
+    .eq('resolved', false)
+    .is('acknowledged_at', null)
+    .not('escalation_next_at', 'is', null)
+    .lte('escalation_next_at', now.toISOString())
+  if (incidentId) {
+    query = query.eq('id', incidentId)
+  }
+
+  const { data: incidents, error } = await query
+    .order('escalation_next_at', { ascending: true })
+    .limit(ESCALATION_BATCH_SIZE)
+
+  if (error) throw error
+
+  const results: EscalationResult[] = []
+  for (const incident of incidents || []) {
+    try {
+      const result = await escalateIncident(incident, now)
+      if (result) results.push(result)
+    } catch (error) {
+      console.error(`Escalation failed for incident ${incident.id}:`, error)
+    }
+  }
+  return results
+}
+
+async function escalateIncident(incident: any, now: Date): Promise<EscalationResult | null> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: policy } = incident.escalation_policy_id
+    ? await supabase
+        .from('escalation_policies')
+        .select('steps, repeat_interval_minutes')
+        .eq('id', incident.escalation_policy_id)
+        .maybeSingle()
+    : { data: null }
+
+  const steps: EscalationStep[] = policy?.steps || []
+  const reminder = incident.escalation_step >= steps.length
+  const stepIndex = reminder ? steps.length - 1 : incident.escalation_step
+  const step = steps[stepIndex]
+
+  const nextAt = !policy || !step
+    ? null
+    : reminder
+      ? (policy.repeat_interval_minutes ? new Date(now.getTime() + policy.repeat_interval_minutes * MINUTE_MS) : null)
+      : getNextEscalationAt(policy, stepIndex, now)
+
+  // Claim the step before sending, so overlapping cron runs notify it once
+  const { data: claimed, error } = await supabase
+    .from('incidents')
+    .update({
+      escalation_step: reminder ? incident.escalation_step : incident.escalation_step + 1,
+      escalation_reminders: reminder ? incident.escalation_reminders + 1 : incident.escalation_reminders,
+      escalation_next_at: nextAt ? nextAt.toISOString() : null
+    })
+    .eq('id', incident.id)
+    .eq('escalation_next_at', incident.escalation_next_at)
+    .is('acknowledged_at', null)
+    .select('id')
+
+  if (error) throw error
+  // Policy deleted or emptied, or another run got here first
+  if (!step || !claimed || claimed.length === 0) return null
+
+  const { data: monitor } = await supabase
+    .from('monitors')
+    .select('name, url, user_id, team_id')
+    .eq('id', incident.monitor_id)
+    .maybeSingle()
+
+  if (!monitor) return null
+
+  const openMinutes = Math.round((now.getTime() - new Date(incident.started_at).getTime()) / MINUTE_MS)
+  const escalation = reminder
+    ? `Reminder: still unacknowledged after ${openMinutes} minutes`
+    : `Escalation step ${stepIndex + 1} of ${steps.length}${openMinutes > 0 ? `, unacknowledged for ${openMinutes} minutes` : ''}`
+
+  const recipients = await getChannelRecipientsByIds(step.channel_ids, monitor)
+  const notificationResult = await sendToChannels(recipients, {
+    monitorName: monitor.name,
+    monitorUrl: monitor.url,
+    status: 'down',
+    errorMessage: incident.cause ? `${incident.cause} (${escalation})` : escalation,
+    acknowledgeUrl: getAcknowledgeUrl(incident.id)
+  })
+
+  if (!notificationResult.success) {
+    console.error(`Failed to send escalation for incident ${incident.id}:`, notificationResult.results)
+  }
+
+  return { incident_id: incident.id, step: stepIndex + 1, reminder, success: notificationResult.success }
+}
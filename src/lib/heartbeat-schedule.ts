@@ -0,0 +1,153 @@
+// When heartbeat pings are due: a fixed interval or a cron schedule, plus a
+// grace period. Pure functions, shared by the checker, the ping route and the UI.
+
+import { parseCronExpression, getNextCronOccurrence, getPreviousCronOccurrence, validateCronExpression, validateTimezone } from './cron'
+
+export interface HeartbeatScheduleConfig {
+  heartbeat_interval?: number | null
+  heartbeat_schedule?: string | null
+  heartbeat_timezone?: string | null
+  heartbeat_grace_seconds?: number | null
+  heartbeat_max_runtime_seconds?: number | null
+  last_heartbeat?: string | null
+  created_at?: string | null
+}
+
+export interface HeartbeatEvaluation {
+  overdue: boolean
+  reason?: string
+  // Set when a started run exceeded its maximum run time
+  timed_out_run?: boolean
+}
+
+export const MIN_HEARTBEAT_INTERVAL_SECONDS = 30
+export const MAX_HEARTBEAT_INTERVAL_SECONDS = 3600
+export const MAX_HEARTBEAT_GRACE_SECONDS = 7 * 24 * 60 * 60
+
+// Default grace for scheduled jobs, which rarely ping on the exact minute
+export const DEFAULT_SCHEDULE_GRACE_SECONDS = 5 * 60
+
+// How far back the checker looks for the last due occurrence (covers monthly jobs)
+const SCHEDULE_LOOKBACK_DAYS = 35
+
+export function getHeartbeatGraceSeconds(config: HeartbeatScheduleConfig): number {
+  if (config.heartbeat_grace_seconds !== null && config.heartbeat_grace_seconds !== undefined) {
+    return config.heartbeat_grace_seconds
+  }
+  if (config.heartbeat_schedule) {
+    return DEFAULT_SCHEDULE_GRACE_SECONDS
+  }
+  // 50% of the interval, at least 30 seconds
+  return Math.max(30, (config.heartbeat_interval || 60) * 0.5)
+}
+
+export function getHeartbeatMaxRuntimeSeconds(config: HeartbeatScheduleConfig): number {
+  return config.heartbeat_max_runtime_seconds || getHeartbeatGraceSeconds(config)
+}
+
+/**
+ * Human-readable description of when pings are expected
+ */
+export function describeHeartbeatSchedule(config: HeartbeatScheduleConfig): string {
+  if (config.heartbeat_schedule) {
+    return `${config.heartbeat_schedule} (${config.heartbeat_timezone || 'UTC'})`
+  }
+  return `every ${config.heartbeat_interval || 60}s`
+}
+
+/**
+ * When the next ping is due (before grace), or null if the schedule has no upcoming occurrence
+ */
+export function getNextExpectedHeartbeat(config: HeartbeatScheduleConfig, now: Date = new Date()): Date | null {
+  if (config.heartbeat_schedule) {
+    return getNextCronOccurrence(parseCronExpression(config.heartbeat_schedule), now, config.heartbeat_timezone || 'UTC')
+  }
+  return new Date(now.getTime() + (config.heartbeat_interval || 60) * 1000)
+}
+
+/**
+ * Whether the monitor is overdue. `runningSince` is the start of a run that has
+ * not finished yet; it counts as a check-in until the run exceeds its max run time.
+ */
+export function evaluateHeartbeat(
+  config: HeartbeatScheduleConfig,
+  now: Date = new Date(),
+  runningSince: Date | null = null
+): HeartbeatEvaluation {
+  const graceSeconds = getHeartbeatGraceSeconds(config)
+
+  if (runningSince) {
+    const maxRuntimeSeconds = getHeartbeatMaxRuntimeSeconds(config)
+    const runningSeconds = Math.round((now.getTime() - runningSince.getTime()) / 1000)
+    if (runningSeconds > maxRuntimeSeconds) {
+      return {
+        overdue: true,
+        timed_out_run: true,
+        reason: `Job started ${runningSeconds}s ago and did not finish within ${maxRuntimeSeconds}s`
+      }
+    }
+  }
+
+  const lastHeartbeat = config.last_heartbeat ? new Date(config.last_heartbeat) : null
+  const lastActivity = runningSince && (!lastHeartbeat || runningSince > lastHeartbeat) ? runningSince : lastHeartbeat
+  const secondsSince = lastActivity ? Math.round((now.getTime() - lastActivity.getTime()) / 1000) : null
+
+  if (config.heartbeat_schedule) {
+    const timezone = config.heartbeat_timezone || 'UTC'
+    const schedule = parseCronExpression(config.heartbeat_schedule)
+    // The most recent occurrence whose grace period has already passed
+    const due = getPreviousCronOccurrence(schedule, new Date(now.getTime() - graceSeconds * 1000), timezone, SCHEDULE_LOOKBACK_DAYS)
+
+    if (!due) return { overdue: false }
+    // Occurrences before the monitor existed are not owed a ping
+    if (config.created_at && new Date(config.created_at) > due) return { overdue: false }
+    if (lastActivity && lastActivity >= due) return { overdue: false }
+
+    return {
+      overdue: true,
+      reason: `Missed scheduled heartbeat due ${due.toISOString()} (${describeHeartbeatSchedule(config)}, last seen ${secondsSince === null ? 'never' : `${secondsSince}s ago`})`
+    }
+  }
+
+  const interval = config.heartbeat_interval || 60
+  if (lastActivity && secondsSince !== null && secondsSince <= interval + graceSeconds) {
+    return { overdue: false }
+  }
+
+  return {
+    overdue: true,
+    reason: `Missed heartbeat (expected every ${interval}s, last seen ${secondsSince === null ? 'never' : `${secondsSince}s ago`})`
+  }
+}
+
+/**
+ * Validate schedule settings. Returns an error message or null.
+ */
+export function validateHeartbeatSchedule(input: HeartbeatScheduleConfig): string | null {
+  if (input.heartbeat_schedule) {
+    const cronError = validateCronExpression(input.heartbeat_schedule)
+    if (cronError) return cronError
+
+    const timezoneError = validateTimezone(input.heartbeat_timezone || 'UTC')
+    if (timezoneError) return timezoneError
+  } else {
+    const interval = input.heartbeat_interval ?? 60
+    if (typeof interval !== 'number' || interval < MIN_HEARTBEAT_INTERVAL_SECONDS || interval > MAX_HEARTBEAT_INTERVAL_SECONDS) {
+      return 'Heartbeat interval must be between 30 seconds and 1 hour'
+    }
+  }
+
+  const grace = input.heartbeat_grace_seconds
+  if (grace !== null && grace !== undefined &&
+      (!Number.isInteger(grace) || grace < 0 || grace > MAX_HEARTBEAT_GRACE_SECONDS)) {
+    return 'Grace period must be between 0 seconds and 7 days'
+  }
+
+  const maxRuntime = input.heartbeat_max_runtime_seconds
+  if (maxRuntime !== null && maxRuntime !== undefined &&
+      (!Number.isInteger(maxRuntime) || maxRuntime < 60 || maxRuntime > MAX_HEARTBEAT_GRACE_SECONDS)) {
+    return 'Maximum run time must be between 1 minute and 7 days'
+  }
+
+  return null
+}
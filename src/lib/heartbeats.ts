@@ -0,0 +1,475 @@
+// Heartbeat (passive) monitors: secret ping tokens, recording received pings
+// and job runs reported through /start, /success and /fail pings
+
+import crypto from 'crypto'
+import { getSupabaseAdmin } from './supabase'
+import { getActiveMaintenance } from './maintenance'
+import { sendNotifications } from './notifications'
+import { startEscalation, getAcknowledgeUrl } from './escalation'
+import { getNextExpectedHeartbeat, type HeartbeatScheduleConfig } from './heartbeat-schedule'
+
+export interface HeartbeatPing {
+  status: 'up' | 'down'
+  message?: string | null
+  response_time?: number | null
+  metadata?: Record<string, any>
+}
+
+export interface HeartbeatMonitor extends HeartbeatScheduleConfig {
+  id: string
+  user_id?: string
+  team_id?: string | null
+  name: string
+  monitor_type?: string
+}
+
+export type HeartbeatPingAction = 'start' | 'success' | 'fail'
+
+export const HEARTBEAT_PING_ACTIONS: HeartbeatPingAction[] = ['start', 'success', 'fail']
+
+export interface HeartbeatRun {
+  id: string
+  monitor_id: string
+  status: 'running' | 'success' | 'failed' | 'timed_out'
+  started_at: string | null
+  finished_at: string | null
+  duration_ms: number | null
+  message: string | null
+  created_at: string
+}
+
+// Longest message or raw body (e.g. a log tail) kept from a ping
+export const MAX_PING_PAYLOAD_LENGTH = 10000
+
+const HEARTBEAT_MONITOR_FIELDS = 'id, user_id, team_id, name, monitor_type, heartbeat_interval, heartbeat_schedule, heartbeat_timezone, heartbeat_grace_seconds, heartbeat_max_runtime_seconds, created_at'
+
+/**
+ * Generate a new ping token. The token is the whole credential for a ping URL.
+ */
+export function generateHeartbeatToken(): string {
+  return crypto.randomBytes(24).toString('hex')
+}
+
+export function getHeartbeatPingUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  return `${baseUrl}/api/ping/${token}`
+}
+
+export async function getMonitorByHeartbeatToken(token: string): Promise<HeartbeatMonitor | null> {
+  if (!token) return null
+
+  const { data: monitor } = await getSupabaseAdmin()
+    .from('monitors')
+    .select(HEARTBEAT_MONITOR_FIELDS)
+    .eq('heartbeat_token', token)
+    .eq('monitor_type', 'heartbeat')
+    .single()
+
+  return monitor
+}
+
+/**
+ * Replace a monitor's ping token, revoking the old ping URL. Callers check
+ * that the user may edit the monitor.
+ */
+export async function rotateHeartbeatToken(monitorId: string): Promise<string | null> {
+  const token = generateHeartbeatToken()
+
+  const { data: monitor, error } = await getSupabaseAdmin()
+    .from('monitors')
+    .update({ heartbeat_token: token })
+    .eq('id', monitorId)
+    .eq('monitor_type', 'heartbeat')
+    .select('id')
+    .single()
+
+  if (error || !monitor) return null
+  return token
+}
+
+/**
+ * Read a ping from query parameters (GET/HEAD) and, for POST, a JSON body.
+ * Body fields win over query parameters. A POST body that is not JSON is kept
+ * as `metadata.log`, so `curl --data-binary @job.log` attaches a log tail.
+ */
+export async function parseHeartbeatPing(request: Request): Promise<HeartbeatPing> {
+  const { searchParams } = new URL(request.url)
+  const rawBody = request.method === 'POST' ? await request.text().catch(() => '') : ''
+
+  let body: any = {}
+  let log: string | null = null
+  if (rawBody.trim()) {
+    try {
+      const parsed = JSON.parse(rawBody)
+      body = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+    } catch {
+      log = rawBody.slice(-MAX_PING_PAYLOAD_LENGTH)
+    }
+  }
+
+  const status = body.status ?? searchParams.get('status') ?? 'up'
+  const message = body.message ?? searchParams.get('message')
+  const responseTime = Number(body.response_time ?? searchParams.get('response_time'))
+  const exitCode = body.exit_code ?? searchParams.get('exit_code')
+
+  const metadata: Record<string, any> = body.metadata && typeof body.metadata === 'object' ? { ...body.metadata } : {}
+  if (exitCode !== null && exitCode !== undefined && exitCode !== '' && Number.isInteger(Number(exitCode))) {
+    metadata.exit_code = Number(exitCode)
+  }
+  if (log) {
+    metadata.log = log
+  }
+
+  return {
+    status: status === 'down' ? 'down' : 'up',
+    message: typeof message === 'string' && message ? message.slice(0, MAX_PING_PAYLOAD_LENGTH) : null,
+    response_time: Number.isFinite(responseTime) && responseTime > 0 ? Math.round(responseTime) : null,
+    metadata
+  }
+}
+
+/**
+ * Incident cause for a reported failure
+ */
+export function describeReportedFailure(ping: HeartbeatPing): string {
+  const exitCode = ping.metadata?.exit_code
+  const prefix = exitCode !== undefined ? `Job failed with exit code ${exitCode}` : 'Job reported a failure'
+  if (!ping.message) return prefix
+  const firstLine = ping.message.split('\n')[0].slice(0, 500)
+  return `${prefix}: ${firstLine}`
+}
+
+/**
+ * Open a 'reported_failure' incident with the client's payload and alert,
+ * unless the monitor already has an open incident
+ */
+async function openReportedFailureIncident(
+  monitor: HeartbeatMonitor,
+  ping: HeartbeatPing,
+  sourceIp: string,
+  now: Date
+): Promise<void> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: openIncidents } = await supabase
+    .from('incidents')
+    .select('id')
+    .eq('monitor_id', monitor.id)
+    .eq('resolved', false)
+    .limit(1)
+
+  if (openIncidents?.[0]) return
+
+  const cause = describeReportedFailure(ping)
+
+  const { data: incident, error: incidentError } = await supabase
+    .from('incidents')
+    .insert({
+      monitor_id: monitor.id,
+      started_at: now.toISOString(),
+      resolved: false,
+      cause,
+      incident_type: 'reported_failure',
+      details: {
+        message: ping.message || null,
+        metadata: ping.metadata || {},
+        source_ip: sourceIp
+      }
+    })
+    .select()
+    .single()
+
+  if (incidentError) {
+    console.error('Failed to create reported failure incident:', incidentError)
+    return
+  }
+
+  // Notifications need the monitor's channel settings
+  const { data: fullMonitor } = await supabase
+    .from('monitors')
+    .select('*')
+    .eq('id', monitor.id)
+    .single()
+
+  if (!fullMonitor) return
+
+  const notificationResult = await sendNotifications(fullMonitor, {
+    monitorName: monitor.name,
+    monitorUrl: fullMonitor.url || 'Heartbeat Monitor',
+    status: 'down',
+    errorMessage: cause,
+    acknowledgeUrl: getAcknowledgeUrl(incident.id)
+  })
+
+  if (notificationResult.success) {
+    console.log(`📢 Reported failure alerts sent via:`, Object.keys(notificationResult.results).join(', '))
+  } else {
+    console.error(`Failed to send reported failure alerts:`, notificationResult.results)
+  }
+
+  await startEscalation(incident).catch(error => {
+    console.error(`Failed to start escalation for incident ${incident.id}:`, error)
+  })
+}
+
+/**
+ * Store a ping, mark the monitor up on an 'up' ping and resolve its open incident
+ */
+export async function recordHeartbeat(
+  monitor: HeartbeatMonitor,
+  ping: HeartbeatPing,
+  sourceIp: string
+): Promise<{ recorded: boolean; next_expected: string | null }> {
+  const supabase = getSupabaseAdmin()
+  const now = new Date()
+  const maintenance = await getActiveMaintenance(monitor)
+
+  // Record the heartbeat in both heartbeats table and uptime_checks for consistency
+  const [heartbeatResult, uptimeCheckResult] = await Promise.allSettled([
+    // Store in heartbeats table (detailed heartbeat data)
+    supabase
+      .from('heartbeats')
+      .insert({
+        monitor_id: monitor.id,
+        status: ping.status,
+        message: ping.message || null,
+        response_time: ping.response_time || null,
+        metadata: ping.metadata || {},
+        source_ip: sourceIp,
+        received_at: now.toISOString()
+      }),
+
+    // Store in uptime_checks table (unified monitoring data for SLA/reporting)
+    supabase
+      .from('uptime_checks')
+      .insert({
+        monitor_id: monitor.id,
+        location: 'heartbeat',
+        status: maintenance ? 'maintenance' : ping.status,
+        response_time: ping.response_time || null,
+        status_code: null, // Not applicable for heartbeats
+        error_message: ping.status === 'down' ? ping.message : null,
+        checked_at: now.toISOString()
+      })
+  ])
+
+  if (heartbeatResult.status === 'rejected') {
+    console.error('Failed to record heartbeat:', heartbeatResult.reason)
+  }
+
+  if (uptimeCheckResult.status === 'rejected') {
+    console.error('Failed to record uptime check for heartbeat:', uptimeCheckResult.reason)
+  }
+
+  const nextExpected = getNextExpectedHeartbeat(monitor, now)?.toISOString() || null
+
+  // Continue if at least one storage succeeded
+  if (heartbeatResult.status === 'rejected' && uptimeCheckResult.status === 'rejected') {
+    return { recorded: false, next_expected: nextExpected }
+  }
+
+  // Update monitor's last heartbeat and status
+  const updateData: any = {
+    last_heartbeat: now.toISOString(),
+    last_checked: now.toISOString()
+  }
+
+  if (ping.status === 'up') {
+    updateData.status = 'up'
+
+    if (ping.response_time) {
+      updateData.last_response_time = ping.response_time
+    }
+  } else if (!maintenance) {
+    // The client told us it failed; no need to wait for a missed heartbeat
+    updateData.status = 'down'
+  }
+
+  const { error: updateError } = await supabase
+    .from('monitors')
+    .update(updateData)
+    .eq('id', monitor.id)
+
+  if (updateError) {
+    console.error('Failed to update monitor:', updateError)
+  }
+
+  // If this heartbeat indicates the service is back up after being down,
+  // resolve any open incidents
+  if (ping.status === 'up') {
+    const { data: openIncident } = await supabase
+      .from('incidents')
+      .select('*')
+      .eq('monitor_id', monitor.id)
+      .eq('resolved', false)
+      .order('started_at', { ascending: false })
+      .limit(1)
+
+    if (openIncident?.[0]) {
+      const incident = openIncident[0]
+      const durationMinutes = Math.round(
+        (now.getTime() - new Date(incident.started_at).getTime()) / (1000 * 60)
+      )
+
+      await supabase
+        .from('incidents')
+        .update({
+          ended_at: now.toISOString(),
+          duration_minutes: durationMinutes,
+          resolved: true,
+          resolution_method: 'heartbeat'
+        })
+        .eq('id', incident.id)
+
+      console.log(`🟢 Heartbeat resolved incident for ${monitor.name} (downtime: ${durationMinutes}m)`)
+    }
+  } else if (!maintenance) {
+    await openReportedFailureIncident(monitor, ping, sourceIp, now)
+  }
+
+  return { recorded: true, next_expected: nextExpected }
+}
+
+/**
+ * Open a run for a /start ping
+ */
+export async function startHeartbeatRun(monitorId: string, now: Date = new Date()): Promise<HeartbeatRun> {
+  const { data: run, error } = await getSupabaseAdmin()
+    .from('heartbeat_runs')
+    .insert({
+      monitor_id: monitorId,
+      status: 'running',
+      started_at: now.toISOString()
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return run
+}
+
+/**
+ * Close the latest open run. Returns null when the job never sent /start.
+ */
+export async function finishHeartbeatRun(
+  monitorId: string,
+  status: 'success' | 'failed',
+  message: string | null,
+  now: Date = new Date()
+): Promise<HeartbeatRun | null> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: openRuns } = await supabase
+    .from('heartbeat_runs')
+    .select('*')
+    .eq('monitor_id', monitorId)
+    .eq('status', 'running')
+    .order('started_at', { ascending: false })
+    .limit(1)
+
+  const openRun = openRuns?.[0]
+  if (!openRun) return null
+
+  const { data: run, error } = await supabase
+    .from('heartbeat_runs')
+    .update({
+      status,
+      finished_at: now.toISOString(),
+      duration_ms: now.getTime() - new Date(openRun.started_at).getTime(),
+      message
+    })
+    .eq('id', openRun.id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return run
+}
+
+/**
+ * Latest unfinished run per monitor
+ */
+export async function getOpenHeartbeatRuns(monitorIds: string[]): Promise<Map<string, HeartbeatRun>> {
+  const openRuns = new Map<string, HeartbeatRun>()
+  if (monitorIds.length === 0) return openRuns
+
+  const { data: runs, error } = await getSupabaseAdmin()
+    .from('heartbeat_runs')
+    .select('*')
+    .in('monitor_id', monitorIds)
+    .eq('status', 'running')
+    .order('started_at', { ascending: false })
+
+  if (error) throw error
+
+  for (const run of runs || []) {
+    if (!openRuns.has(run.monitor_id)) openRuns.set(run.monitor_id, run)
+  }
+  return openRuns
+}
+
+export async function markHeartbeatRunTimedOut(run: HeartbeatRun, now: Date = new Date()): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('heartbeat_runs')
+    .update({
+      status: 'timed_out',
+      finished_at: now.toISOString(),
+      duration_ms: run.started_at ? now.getTime() - new Date(run.started_at).getTime() : null,
+      message: 'Job did not report /success or /fail within its maximum run time'
+    })
+    .eq('id', run.id)
+    .eq('status', 'running')
+
+  if (error) throw error
+}
+
+export async function getHeartbeatRuns(monitorId: string, limit: number = 50): Promise<HeartbeatRun[]> {
+  const { data: runs, error } = await getSupabaseAdmin()
+    .from('heartbeat_runs')
+    .select('*')
+    .eq('monitor_id', monitorId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return runs || []
+}
+
+/**
+ * Handle a ping to /api/ping/<token>[/start|/success|/fail]. A plain ping uses the
+ * reported status; /success and /fail force it. Both close an open run.
+ */
+export async function processHeartbeatPing(
+  monitor: HeartbeatMonitor,
+  ping: HeartbeatPing,
+  action: HeartbeatPingAction | null,
+  sourceIp: string
+): Promise<{ recorded: boolean; next_expected: string | null; run?: HeartbeatRun | null }> {
+  const now = new Date()
+
+  if (action === 'start') {
+    const run = await startHeartbeatRun(monitor.id, now)
+    return { recorded: true, next_expected: getNextExpectedHeartbeat(monitor, now)?.toISOString() || null, run }
+  }
+
+  const status = action === 'success' ? 'up' : action === 'fail' ? 'down' : ping.status
+  const run = await finishHeartbeatRun(monitor.id, status === 'up' ? 'success' : 'failed', ping.message || null, now)
+
+  const result = await recordHeartbeat(
+    monitor,
+    {
+      ...ping,
+      status,
+      metadata: run ? { ...ping.metadata, run_id: run.id, duration_ms: run.duration_ms } : ping.metadata
+    },
+    sourceIp
+  )
+
+  return { ...result, run }
+}
+
+export function getClientIp(request: Request): string {
+  return request.headers.get('x-forwarded-for') ||
+    request.headers.get('x-real-ip') ||
+    'unknown'
+}
@@ -0,0 +1,288 @@
+// HTTP requests timed phase by phase from socket events: DNS lookup, TCP
+// connect, TLS handshake, time to first byte and body download. Server-side
+// only; used by HTTP checks and incident diagnostics.
+
+import http from 'http'
+import https from 'https'
+import zlib from 'zlib'
+import { performance } from 'perf_hooks'
+
+export interface HttpPhaseTimings {
+  dns_time_ms: number
+  connect_time_ms: number
+  tls_time_ms: number
+  ttfb_ms: number // request sent to first response byte, i.e. server think time
+  download_time_ms: number
+}
+
+export const HTTP_PHASES: Array<keyof HttpPhaseTimings> = ['dns_time_ms', 'connect_time_ms', 'tls_time_ms', 'ttfb_ms', 'download_time_ms']
+
+export interface TimedRequestOptions {
+  method?: string
+  headers?: Record<string, string>
+  body?: string
+  timeoutMs?: number
+  maxBodyBytes?: number // decoded body kept for the caller; 0 discards it
+  maxRedirects?: number
+}
+
+export interface TimedResponse {
+  status: number
+  statusText: string
+  headers: Record<string, string>
+  body: string
+  url: string // after redirects
+  redirects: string[] // URLs that redirected, in order
+  timings: HttpPhaseTimings // summed over every redirect hop
+  response_time_ms: number // start to the final response's headers
+  total_time_ms: number // start to the end of the final body
+  body_bytes: number // bytes on the wire for the final body
+}
+
+export class HttpTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timeout after ${timeoutMs}ms`)
+    this.name = 'HttpTimeoutError'
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 15000
+// Same limit as fetch
+const DEFAULT_MAX_REDIRECTS = 20
+
+// Downloads stop here; the phase ends where the transfer was cut
+const MAX_DOWNLOAD_BYTES = 10 * 1024 * 1024
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308]
+
+interface HopResult {
+  response: http.IncomingMessage
+  raw: Buffer
+  timings: HttpPhaseTimings
+  responseAt: number
+}
+
+function emptyTimings(): HttpPhaseTimings {
+  return { dns_time_ms: 0, connect_time_ms: 0, tls_time_ms: 0, ttfb_ms: 0, download_time_ms: 0 }
+}
+
+function createDecompressor(encoding: string | undefined): zlib.Gunzip | zlib.Inflate | zlib.BrotliDecompress | null {
+  // Partial input (a cut download) still decodes as far as it goes
+  switch ((encoding || '').toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.createGunzip({ finishFlush: zlib.constants.Z_SYNC_FLUSH })
+    case 'deflate':
+      return zlib.createInflate({ finishFlush: zlib.constants.Z_SYNC_FLUSH })
+    case 'br':
+      return zlib.createBrotliDecompress({ finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH })
+    default:
+      return null
+  }
+}
+
+// Decompresses as a stream and stops at maxBytes, so a small body that
+// expands to gigabytes is kept truncated instead of being inflated in memory
+function decodeBody(raw: Buffer, encoding: string | undefined, maxBytes: number): Promise<string> {
+  const decompressor = createDecompressor(encoding)
+  if (!decompressor) {
+    return Promise.resolve(raw.subarray(0, maxBytes).toString('utf8'))
+  }
+
+  return new Promise(resolve => {
+    const chunks: Buffer[] = []
+    let size = 0
+    let settled = false
+
+    const finish = (failed: boolean) => {
+      if (settled) return
+      settled = true
+      decompressor.destroy()
+      // Not actually compressed after all
+      resolve(failed && size === 0 ? raw.subarray(0, maxBytes).toString('utf8') : Buffer.concat(chunks).subarray(0, maxBytes).toString('utf8'))
+    }
+
+    decompressor.on('data', (chunk: Buffer) => {
+      chunks.push(chunk)
+      size += chunk.length
+      if (size >= maxBytes) finish(false)
+    })
+    decompressor.on('end', () => finish(false))
+    decompressor.on('error', () => finish(true))
+    decompressor.end(raw)
+  })
+}
+
+// One request without following redirects. Phases are measured on a fresh
+// connection, so every check pays (and reports) DNS, TCP and TLS.
+function requestHop(
+  url: URL,
+  method: string,
+  headers: Record<string, string>,
+  body: string | undefined,
+  keepBody: boolean,
+  signal: { onTimeout?: (error: Error) => void }
+): Promise<HopResult> {
+  return new Promise((resolve, reject) => {
+    const startedAt = performance.now()
+    let lookupAt: number | null = null
+    let connectAt: number | null = null
+    let secureAt: number | null = null
+    let responseAt = 0
+
+    const transport = url.protocol === 'https:' ? https : http
+    const request = transport.request(url, { method, headers, agent: false })
+
+    signal.onTimeout = error => request.destroy(error)
+
+    request.on('socket', socket => {
+      socket.once('lookup', () => { lookupAt = performance.now() })
+      socket.once('connect', () => { connectAt = performance.now() })
+      socket.once('secureConnect', () => { secureAt = performance.now() })
+    })
+
+    request.on('error', reject)
+
+    request.on('response', response => {
+      responseAt = performance.now()
+      const chunks: Buffer[] = []
+      let received = 0
+      let finished = false
+
+      const finish = () => {
+        if (finished) return
+        finished = true
+        const endAt = performance.now()
+
+        // Connecting to an IP address skips the lookup
+        const dnsEnd = lookupAt ?? startedAt
+        const tcpEnd = connectAt ?? dnsEnd
+        const tlsEnd = secureAt ?? tcpEnd
+
+        resolve({
+          response,
+          raw: Buffer.concat(chunks),
+          responseAt,
+          timings: {
+            dns_time_ms: dnsEnd - startedAt,
+            connect_time_ms: tcpEnd - dnsEnd,
+            tls_time_ms: tlsEnd - tcpEnd,
+            ttfb_ms: responseAt - tlsEnd,
+            download_time_ms: endAt - responseAt
+          }
+        })
+      }
+
+      response.on('data', (chunk: Buffer) => {
+        received += chunk.length
+        if (keepBody) chunks.push(chunk)
+        if (received >= MAX_DOWNLOAD_BYTES) {
+          finish()
+          response.destroy()
+        }
+      })
+      response.on('end', finish)
+      response.on('error', reject)
+    })
+
+    if (body) request.write(body)
+    request.end()
+  })
+}
+
+function toHeaderRecord(headers: http.IncomingHttpHeaders): Record<string, string> {
+  const record: Record<string, string> = {}
+  Object.keys(headers).forEach(key => {
+    const value = headers[key]
+    if (value !== undefined) record[key] = Array.isArray(value) ? value.join(', ') : value
+  })
+  return record
+}
+
+/**
+ * Send a request and time each phase, following redirects like fetch does.
+ * Rejects with HttpTimeoutError when the whole exchange, body included,
+ * takes longer than the timeout.
+ */
+export async function timedRequest(url: string, options: TimedRequestOptions = {}): Promise<TimedResponse> {
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS
+  const maxBodyBytes = options.maxBodyBytes || 0
+
+  const signal: { onTimeout?: (error: Error) => void } = {}
+  const timeoutId = setTimeout(() => signal.onTimeout?.(new HttpTimeoutError(timeoutMs)), timeoutMs)
+
+  const startedAt = performance.now()
+  const timings = emptyTimings()
+  const redirects: string[] = []
+
+  let current = new URL(url)
+  let method = (options.method || 'GET').toUpperCase()
+  let body = options.body
+  let headers: Record<string, string> = { ...options.headers }
+  if (!Object.keys(headers).some(name => name.toLowerCase() === 'accept-encoding')) {
+    headers['Accept-Encoding'] = 'gzip, deflate, br'
+  }
+
+  try {
+    for (;;) {
+      const hop = await requestHop(current, method, headers, body, maxBodyBytes > 0, signal)
+      HTTP_PHASES.forEach(phase => { timings[phase] += hop.timings[phase] })
+
+      const status = hop.response.statusCode || 0
+      const location = hop.response.headers.location
+      if (REDIRECT_STATUSES.includes(status) && location && redirects.length < maxRedirects) {
+        redirects.push(current.toString())
+        const next = new URL(location, current)
+
+        // Same rules as fetch: 303, and 301/302 after a POST, become a GET
+        if (status === 303 || ((status === 301 || status === 302) && method === 'POST')) {
+          method = 'GET'
+          body = undefined
+        }
+        // Credentials are not sent to another origin
+        if (next.origin !== current.origin) {
+          headers = Object.keys(headers)
+            .filter(name => name.toLowerCase() !== 'authorization')
+            .reduce<Record<string, string>>((kept, name) => ({ ...kept, [name]: headers[name] }), {})
+        }
+
+        current = next
+        continue
+      }
+
+      const totalTime = performance.now() - startedAt
+      const roundedTimings = emptyTimings()
+      HTTP_PHASES.forEach(phase => { roundedTimings[phase] = Math.round(timings[phase]) })
+
+      return {
+        status,
+        statusText: hop.response.statusMessage || '',
+        headers: toHeaderRecord(hop.response.headers),
+        body: maxBodyBytes > 0 ? (await decodeBody(hop.raw, hop.response.headers['content-encoding'], maxBodyBytes)).slice(0, maxBodyBytes) : '',
+        url: current.toString(),
+        redirects,
+        timings: roundedTimings,
+        response_time_ms: Math.round(hop.responseAt - startedAt),
+        total_time_ms: Math.round(totalTime),
+        body_bytes: Number(hop.response.headers['content-length']) || hop.raw.length
+      }
+    }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Average of each phase over checks that recorded timings, or null when none did
+ */
+export function averagePhaseTimings(rows: Array<Partial<Record<keyof HttpPhaseTimings, number | null>>>): HttpPhaseTimings | null {
+  const timed = rows.filter(row => row.ttfb_ms !== null && row.ttfb_ms !== undefined)
+  if (timed.length === 0) return null
+
+  const average = emptyTimings()
+  HTTP_PHASES.forEach(phase => {
+    average[phase] = Math.round(timed.reduce((sum, row) => sum + (row[phase] || 0), 0) / timed.length)
+  })
+  return average
+}
@@ -0,0 +1,261 @@
+// Incident lifecycle: status updates (investigating, identified, monitoring,
+// resolved), severity, acknowledgement and manual resolution
+
+import { getSupabaseAdmin } from './supabase'
+import { getMonitorRole, scopeToWorkspace, type TeamRole, type Workspace } from './teams'
+import type { Incident, IncidentUpdate, IncidentLifecycleStatus, IncidentSeverity } from '@/types'
+
+export const INCIDENT_STATUSES: IncidentLifecycleStatus[] = ['investigating', 'identified', 'monitoring', 'resolved']
+
+export const INCIDENT_SEVERITIES: IncidentSeverity[] = ['minor', 'major', 'critical']
+
+export const MAX_UPDATE_MESSAGE_LENGTH = 5000
+
+export interface IncidentUpdateInput {
+  status: IncidentLifecycleStatus
+  message: string
+  severity?: IncidentSeverity
+  is_public?: boolean
+}
+
+/**
+ * Validate an update payload. Returns an error message or null.
+ */
+export function validateIncidentUpdate(input: any): string | null {
+  if (!input || !INCIDENT_STATUSES.includes(input.status)) {
+    return `Status must be one of: ${INCIDENT_STATUSES.join(', ')}`
+  }
+  if (typeof input.message !== 'string' || !input.message.trim()) {
+    return 'Message is required'
+  }
+  if (input.message.length > MAX_UPDATE_MESSAGE_LENGTH) {
+    return `Message must be at most ${MAX_UPDATE_MESSAGE_LENGTH} characters`
+  }
+  if (input.severity !== undefined && !INCIDENT_SEVERITIES.includes(input.severity)) {
+    return `Severity must be one of: ${INCIDENT_SEVERITIES.join(', ')}`
+  }
+  if (input.is_public !== undefined && typeof input.is_public !== 'boolean') {
+    return 'is_public must be a boolean'
+  }
+  return null
+}
+
+/**
+ * Load an incident with the user's role on its monitor, or null when the
+ * monitor is not visible to them
+ */
+export async function getAccessibleIncident(
+  incidentId: string,
+  userId: string
+): Promise<{ incident: Incident; role: TeamRole } | null> {
+  const { data: incident } = await getSupabaseAdmin()
+    .from('incidents')
+    .select('*')
+    .eq('id', incidentId)
+    .maybeSingle()
+
+  if (!incident) return null
+
+  const role = await getMonitorRole(incident.monitor_id, userId)
+  return role ? { incident, role } : null
+}
+
+/**
+ * Load an incident whose monitor belongs to the workspace, or null
+ */
+export async function getWorkspaceIncident(workspace: Workspace, incidentId: string): Promise<Incident | null> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: incident } = await supabase
+    .from('incidents')
+    .select('*')
+    .eq('id', incidentId)
+    .maybeSingle()
+
+  if (!incident) return null
+
+  const { data: monitor } = await scopeToWorkspace(
+    supabase.from('monitors').select('id').eq('id', incident.monitor_id),
+    workspace
+  ).maybeSingle()
+
+  return monitor ? incident : null
+}
+
+/**
+ * Most recent incidents across the workspace's monitors, newest first, with
+ * their updates attached
+ */
+export async function getWorkspaceIncidents(
+  workspace: Workspace,
+  options: { monitorId?: string; resolved?: boolean; limit: number }
+): Promise<Incident[]> {
+  const supabase = getSupabaseAdmin()
+
+  let monitorQuery = scopeToWorkspace(supabase.from('monitors').select('id'), workspace)
+  if (options.monitorId) {
+    monitorQuery = monitorQuery.eq('id', options.monitorId)
+  }
+
+  const { data: monitors, error: monitorsError } = await monitorQuery
+  if (monitorsError) throw monitorsError
+  if (!monitors || monitors.length === 0) return []
+
+  let query = supabase
+    .from('incidents')
+    .select('*')
+    .in('monitor_id', monitors.map(monitor => monitor.id))
+    .order('started_at', { ascending: false })
+    .limit(options.limit)
+
+  if (options.resolved !== undefined) {
+    query = query.eq('resolved', options.resolved)
+  }
+
+  const { data: incidents, error } = await query
+  if (error) throw error
+
+  return attachIncidentUpdates(incidents || [])
+}
+
+export async function getIncidentUpdates(incidentId: string, publicOnly = false): Promise<IncidentUpdate[]> {
+  let query = getSupabaseAdmin()
+    .from('incident_updates')
+    .select('*')
+    .eq('incident_id', incidentId)
+    .order('created_at', { ascending: true })
+
+  if (publicOnly) {
+    query = query.eq('is_public', true)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Attach each incident's updates (oldest first) as `updates`
+ */
+export async function attachIncidentUpdates(incidents: Incident[], publicOnly = false): Promise<Incident[]> {
+  if (incidents.length === 0) return incidents
+
+  let query = getSupabaseAdmin()
+    .from('incident_updates')
+    .select('*')
+    .in('incident_id', incidents.map(incident => incident.id))
+    .order('created_at', { ascending: true })
+
+  if (publicOnly) {
+    query = query.eq('is_public', true)
+  }
+
+  const { data: updates, error } = await query
+  if (error) throw error
+
+  return incidents.map(incident => ({
+    ...incident,
+    // Reported failure payloads (logs, exit codes) are for responders only
+    details: publicOnly ? undefined : incident.details,
+    updates: (updates || []).filter(update => update.incident_id === incident.id)
+  }))
+}
+
+/**
+ * Record an update and move the incident to its step. A 'resolved' update
+ * closes the incident manually.
+ */
+export async function postIncidentUpdate(
+  incident: Incident,
+  input: IncidentUpdateInput,
+  userId: string
+): Promise<{ update: IncidentUpdate; incident: Incident }> {
+  const supabaseAdmin = getSupabaseAdmin()
+  const isPublic = input.is_public !== false
+  const now = new Date()
+
+  const { data: update, error } = await supabaseAdmin
+    .from('incident_updates')
+    .insert({
+      incident_id: incident.id,
+      status: input.status,
+      message: input.message.trim(),
+      severity: input.severity || null,
+      is_public: isPublic,
+      created_by: userId
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  const incidentData: any = {
+    investigating: input.status === 'investigating',
+    identified: input.status === 'identified',
+    monitoring: input.status === 'monitoring'
+  }
+
+  // Internal notes stay off the incident row, which public pages read
+  if (isPublic) {
+    incidentData.public_message = update.message
+  }
+  if (input.severity) {
+    incidentData.severity = input.severity
+  }
+
+  if (input.status === 'resolved' && !incident.resolved) {
+    incidentData.resolved = true
+    incidentData.ended_at = now.toISOString()
+    incidentData.duration_minutes = Math.round(
+      (now.getTime() - new Date(incident.started_at).getTime()) / (1000 * 60)
+    )
+    incidentData.resolution_method = 'manual'
+    incidentData.resolved_by = userId
+  }
+
+  // Any update counts as taking ownership, which also stops escalation
+  if (!incident.acknowledged_at) {
+    incidentData.acknowledged_at = now.toISOString()
+    incidentData.acknowledged_by = userId
+    incidentData.escalation_next_at = null
+  }
+
+  const { data: updatedIncident, error: incidentError } = await supabaseAdmin
+    .from('incidents')
+    .update(incidentData)
+    .eq('id', incident.id)
+    .select()
+    .single()
+
+  if (incidentError) throw incidentError
+
+  return { update, incident: updatedIncident }
+}
+
+/**
+ * Mark an incident as acknowledged and stop its escalation. Acknowledging
+ * twice keeps the first acknowledgement. `userId` is null for someone
+ * acknowledging from an alert link without signing in; `name` records who.
+ */
+export async function acknowledgeIncident(
+  incident: Incident,
+  userId: string | null,
+  name: string | null = null
+): Promise<Incident> {
+  if (incident.acknowledged_at) return incident
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('incidents')
+    .update({
+      acknowledged_at: new Date().toISOString(),
+      acknowledged_by: userId,
+      acknowledged_by_name: name,
+      escalation_next_at: null
+    })
+    .eq('id', incident.id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
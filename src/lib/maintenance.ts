@@ -0,0 +1,260 @@
+// Planned maintenance windows: one-off or recurring (cron) periods during which
+// checks are recorded as 'maintenance', no incidents or alerts are raised and
+// the time is excluded from uptime and SLA figures
+
+import { getSupabaseAdmin } from './supabase'
+import { parseCronExpression, getCronOccurrences, getPreviousCronOccurrence, validateCronExpression, validateTimezone } from './cron'
+import { scopeToWorkspace, type Workspace } from './teams'
+
+export interface MaintenanceWindow {
+  id: string
+  user_id?: string | null
+  team_id?: string | null
+  monitor_id?: string | null // single monitor
+  monitor_ids?: string[] | null // group of monitors
+  name: string
+  description?: string | null
+  start_time: string // one-off: window start, recurring: series start
+  end_time?: string | null // one-off: window end, recurring: series end (null = no end)
+  recurrence_cron?: string | null // start of each occurrence
+  duration_minutes?: number | null // length of each occurrence
+  timezone?: string | null
+  active: boolean
+  created_at?: string
+}
+
+export interface MaintenancePeriod {
+  start: Date
+  end: Date
+  window_id: string
+  name: string
+}
+
+// Longest recurring occurrence, which bounds how far back an occurrence can still be open
+export const MAX_MAINTENANCE_DURATION_MINUTES = 7 * 24 * 60
+
+export type MaintenanceTarget = { id: string; user_id?: string; team_id?: string | null }
+
+/**
+ * A window without monitors covers every monitor in its workspace
+ */
+export function windowAppliesTo(window: MaintenanceWindow, monitor: MaintenanceTarget): boolean {
+  if (window.monitor_id) {
+    return window.monitor_id === monitor.id
+  }
+  if (window.monitor_ids && window.monitor_ids.length > 0) {
+    return window.monitor_ids.includes(monitor.id)
+  }
+  if (window.team_id) {
+    return window.team_id === monitor.team_id
+  }
+  return !!window.user_id && window.user_id === monitor.user_id && !monitor.team_id
+}
+
+function parseWindowCron(window: MaintenanceWindow) {
+  try {
+    return parseCronExpression(window.recurrence_cron!)
+  } catch {
+    console.warn(`Ignoring maintenance window ${window.id} with invalid cron "${window.recurrence_cron}"`)
+    return null
+  }
+}
+
+/**
+ * Expand a window into concrete periods overlapping [rangeStart, rangeEnd)
+ */
+export function getMaintenancePeriods(window: MaintenanceWindow, rangeStart: Date, rangeEnd: Date): MaintenancePeriod[] {
+  if (!window.active) return []
+
+  const seriesStart = new Date(window.start_time)
+  const seriesEnd = window.end_time ? new Date(window.end_time) : null
+
+  if (!window.recurrence_cron) {
+    if (!seriesEnd || seriesEnd <= rangeStart || seriesStart >= rangeEnd) return []
+    return [{ start: seriesStart, end: seriesEnd, window_id: window.id, name: window.name }]
+  }
+
+  const durationMs = (window.duration_minutes || 60) * 60 * 1000
+  const searchStart = new Date(Math.max(seriesStart.getTime(), rangeStart.getTime() - durationMs))
+  const searchEnd = new Date(Math.min(seriesEnd?.getTime() ?? Infinity, rangeEnd.getTime()))
+  if (searchStart >= searchEnd) return []
+
+  const schedule = parseWindowCron(window)
+  if (!schedule) return []
+
+  return getCronOccurrences(schedule, searchStart, searchEnd, window.timezone || 'UTC')
+    .map(start => ({
+      start,
+      end: new Date(start.getTime() + durationMs),
+      window_id: window.id,
+      name: window.name
+    }))
+    .filter(period => period.end > rangeStart)
+}
+
+/**
+ * The window's period containing `at`, if any. Occurrences of a window all
+ * last the same time, so if any is open, the latest one started by `at` is.
+ */
+function getActivePeriod(window: MaintenanceWindow, at: Date): MaintenancePeriod | null {
+  if (!window.active) return null
+
+  const seriesStart = new Date(window.start_time)
+  const seriesEnd = window.end_time ? new Date(window.end_time) : null
+
+  if (!window.recurrence_cron) {
+    if (!seriesEnd || at < seriesStart || at >= seriesEnd) return null
+    return { start: seriesStart, end: seriesEnd, window_id: window.id, name: window.name }
+  }
+
+  const schedule = parseWindowCron(window)
+  if (!schedule) return null
+
+  // Occurrences start strictly before the series end
+  const latestStart = seriesEnd && seriesEnd <= at ? new Date(seriesEnd.getTime() - 1) : at
+  const durationMs = (window.duration_minutes || 60) * 60 * 1000
+  const start = getPreviousCronOccurrence(schedule, latestStart, window.timezone || 'UTC', durationMs / (24 * 60 * 60 * 1000))
+  if (!start || start < seriesStart) return null
+
+  const end = new Date(start.getTime() + durationMs)
+  return end > at ? { start, end, window_id: window.id, name: window.name } : null
+}
+
+/**
+ * The period containing `at`, if any
+ */
+export function findActivePeriod(windows: MaintenanceWindow[], at: Date = new Date()): MaintenancePeriod | null {
+  for (const window of windows) {
+    const period = getActivePeriod(window, at)
+    if (period) return period
+  }
+  return null
+}
+
+export function isWithinPeriods(date: Date, periods: MaintenancePeriod[]): boolean {
+  return periods.some(period => period.start <= date && date < period.end)
+}
+
+// Monitors per windows query, keeping the filter within URL length limits
+const WINDOW_QUERY_BATCH_SIZE = 100
+
+/**
+ * Active windows that may cover any of the given monitors
+ */
+export async function fetchMaintenanceWindows(monitors: MaintenanceTarget[]): Promise<MaintenanceWindow[]> {
+  const windowsById = new Map<string, MaintenanceWindow>()
+
+  for (let i = 0; i < monitors.length; i += WINDOW_QUERY_BATCH_SIZE) {
+    const batch = monitors.slice(i, i + WINDOW_QUERY_BATCH_SIZE)
+    const monitorIds = batch.map(monitor => monitor.id).join(',')
+    const teamIds = Array.from(new Set(batch.map(monitor => monitor.team_id).filter(Boolean)))
+    const userIds = Array.from(new Set(batch.filter(monitor => !monitor.team_id).map(monitor => monitor.user_id).filter(Boolean)))
+
+    // Windows naming one of the monitors, plus workspace-wide windows of their teams and owners
+    const workspaceWide = 'monitor_id.is.null,or(monitor_ids.is.null,monitor_ids.eq.{})'
+    const filters = [`monitor_id.in.(${monitorIds})`, `monitor_ids.ov.{${monitorIds}}`]
+    if (teamIds.length > 0) {
+      filters.push(`and(${workspaceWide},team_id.in.(${teamIds.join(',')}))`)
+    }
+    if (userIds.length > 0) {
+      filters.push(`and(${workspaceWide},team_id.is.null,user_id.in.(${userIds.join(',')}))`)
+    }
+
+    const { data: windows, error } = await getSupabaseAdmin()
+      .from('maintenance_windows')
+      .select('*')
+      .eq('active', true)
+      .or(filters.join(','))
+
+    if (error) throw error
+
+    for (const window of windows || []) {
+      if (batch.some(monitor => windowAppliesTo(window, monitor))) {
+        windowsById.set(window.id, window)
+      }
+    }
+  }
+
+  return Array.from(windowsById.values())
+}
+
+/**
+ * Maintenance periods for one monitor within a date range
+ */
+export async function getMonitorMaintenancePeriods(
+  monitor: MaintenanceTarget,
+  rangeStart: Date,
+  rangeEnd: Date
+): Promise<MaintenancePeriod[]> {
+  const windows = await fetchMaintenanceWindows([monitor])
+  return windows.flatMap(window => getMaintenancePeriods(window, rangeStart, rangeEnd))
+}
+
+/**
+ * The maintenance period a monitor is in right now, if any
+ */
+export async function getActiveMaintenance(monitor: MaintenanceTarget): Promise<MaintenancePeriod | null> {
+  return findActivePeriod(await fetchMaintenanceWindows([monitor]))
+}
+
+/**
+ * Whether every targeted monitor belongs to the workspace
+ */
+export async function ownsMonitors(workspace: Workspace, window: Pick<MaintenanceWindow, 'monitor_id' | 'monitor_ids'>): Promise<boolean> {
+  const targetIds = Array.from(new Set([window.monitor_id, ...(window.monitor_ids || [])].filter(Boolean) as string[]))
+  if (targetIds.length === 0) return true
+
+  const { count, error } = await scopeToWorkspace(
+    getSupabaseAdmin().from('monitors').select('id', { count: 'exact', head: true }),
+    workspace
+  )
+    .in('id', targetIds)
+
+  if (error) throw error
+  return count === targetIds.length
+}
+
+/**
+ * Validate a create/update payload. Returns an error message or null.
+ */
+export function validateMaintenanceWindow(input: Partial<MaintenanceWindow>): string | null {
+  if (!input.name || typeof input.name !== 'string') {
+    return 'Name is required'
+  }
+
+  const start = input.start_time ? new Date(input.start_time) : null
+  if (!start || isNaN(start.getTime())) {
+    return 'A valid start time is required'
+  }
+
+  const end = input.end_time ? new Date(input.end_time) : null
+  if (end && isNaN(end.getTime())) {
+    return 'End time is invalid'
+  }
+  if (end && end <= start) {
+    return 'End time must be after the start time'
+  }
+
+  if (input.recurrence_cron) {
+    const cronError = validateCronExpression(input.recurrence_cron)
+    if (cronError) return cronError
+
+    if (!Number.isInteger(input.duration_minutes) || input.duration_minutes! < 1 ||
+        input.duration_minutes! > MAX_MAINTENANCE_DURATION_MINUTES) {
+      return `Duration must be between 1 and ${MAX_MAINTENANCE_DURATION_MINUTES} minutes`
+    }
+
+    if (input.timezone) {
+      const timezoneError = validateTimezone(input.timezone)
+      if (timezoneError) return timezoneError
+    }
+  } else if (!end) {
+    return 'One-off maintenance windows need an end time'
+  }
+
+  if (input.monitor_ids && (!Array.isArray(input.monitor_ids) || input.monitor_ids.some(id => typeof id !== 'string'))) {
+    return 'monitor_ids must be an array of monitor IDs'
+  }
+
+  return null
+}
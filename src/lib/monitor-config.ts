@@ -0,0 +1,703 @@
+// Monitors as code: export a workspace's monitors as a declarative YAML or
+// JSON file, and plan and apply such a file against the workspace. Monitors
+// are matched by a stable `key`. Heartbeat monitors are not managed here.
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import { getSupabaseAdmin } from './supabase'
+import { validateCheckInterval } from './scheduler'
+import { encryptMonitorSecrets, decryptMonitorSecrets } from './encryption'
+import { updateMonitorSSLInfo } from './ssl-unified'
+import { validateMonitorUpdate, getNotificationChannels } from './monitors'
+import {
+  scopeToWorkspace,
+  changesNotificationTargets,
+  hasTeamRole,
+  hasMonitorCapacity,
+  NOTIFICATION_TARGET_FIELDS,
+  type Workspace
+} from './teams'
+
+export const MONITOR_CONFIG_VERSION = 1
+
+export const MAX_CONFIG_MONITORS = 500
+
+const CONFIG_KEY_PATTERN = /^[a-z0-9][a-z0-9._-]{0,99}$/
+
+const MONITOR_TYPES = ['http', 'ping', 'port', 'dns']
+
+const REQUEST_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD']
+
+// Settings a config file can declare, in export order. Check credentials are
+// left out so they never end up in a repository.
+export const MONITOR_CONFIG_FIELDS = [
+  'name',
+  'url',
+  'monitor_type',
+  'request_method',
+  'request_headers',
+  'request_body',
+  'port_number',
+  'check_interval_seconds',
+  'alert_threshold',
+  'failure_locations_threshold',
+  'confirmation_recheck',
+  'keyword_check',
+  'dns_record_type',
+  'dns_resolver',
+  'dns_expected_values',
+  'dns_match_mode',
+  'expected_status_codes',
+  'assertions',
+  'degraded_threshold_ms',
+  'degraded_percentile',
+  'ssl_enabled',
+  'domain_enabled',
+  'domain_alert_days',
+  'tags',
+  ...NOTIFICATION_TARGET_FIELDS
+] as const
+
+export type MonitorConfigField = typeof MONITOR_CONFIG_FIELDS[number]
+
+// Only exported for DNS monitors, where they mean something
+const DNS_CONFIG_FIELDS: MonitorConfigField[] = ['dns_record_type', 'dns_resolver', 'dns_expected_values', 'dns_match_mode']
+
+// Webhook URLs and phone numbers are secrets: a file may set them, but exports
+// leave them out and refer to notification channels by name instead
+const SECRET_CONFIG_FIELDS: MonitorConfigField[] = ['slack_webhook_url', 'discord_webhook_url', 'webhook_url', 'alert_sms']
+
+// Request headers that carry credentials. Exports leave them out, and an
+// import keeps the monitor's current ones unless the file names them.
+const SECRET_HEADER_PATTERN = /^(authorization|proxy-authorization|cookie)$|api[-_]?key|token|secret|password|session|signature/i
+
+/**
+ * `channels` names the workspace notification channels routed to the monitor
+ */
+export type MonitorConfigEntry = { key: string; channels?: string[] } & Partial<Record<MonitorConfigField, any>>
+
+export interface MonitorConfig {
+  version: number
+  monitors: MonitorConfigEntry[]
+}
+
+export type MonitorConfigChange =
+  | { action: 'create'; key: string; name: string }
+  | { action: 'update'; key: string; id: string; name: string; fields: string[] }
+  | { action: 'delete'; key: string; id: string; name: string }
+
+/**
+ * What applying a config would do. `unchanged`, `undeclared` and `unmanaged`
+ * are keys and monitors left alone: undeclared monitors were imported before
+ * but are missing from the file, and are only deleted when pruning;
+ * unmanaged monitors have never been imported, so they are never deleted.
+ */
+export interface MonitorConfigPlan {
+  changes: MonitorConfigChange[]
+  unchanged: string[]
+  undeclared: Array<{ id: string; key: string; name: string }>
+  unmanaged: Array<{ id: string; name: string }>
+  changes_notification_targets: boolean
+}
+
+const STRING_FIELDS: MonitorConfigField[] = [
+  'name', 'url', 'request_body', 'keyword_check', ...NOTIFICATION_TARGET_FIELDS
+]
+
+const BOOLEAN_FIELDS: MonitorConfigField[] = ['confirmation_recheck', 'ssl_enabled', 'domain_enabled']
+
+/**
+ * Parse a config file. YAML is a superset of JSON, so both are accepted.
+ */
+export function parseMonitorConfig(text: string): { config: MonitorConfig; error?: never } | { config?: never; error: string } {
+  let document: any
+  try {
+    document = parseYaml(text)
+  } catch (error) {
+    return { error: `Invalid YAML or JSON: ${error instanceof Error ? error.message : String(error)}` }
+  }
+
+  if (!document || typeof document !== 'object' || !Array.isArray(document.monitors)) {
+    return { error: 'The file must have a top-level "monitors" list' }
+  }
+  if (document.version !== undefined && document.version !== MONITOR_CONFIG_VERSION) {
+    return { error: `Unsupported config version ${document.version}; expected ${MONITOR_CONFIG_VERSION}` }
+  }
+
+  return { config: { version: MONITOR_CONFIG_VERSION, monitors: document.monitors } }
+}
+
+function validateEntry(entry: any): string | null {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return 'must be a mapping of monitor settings'
+  }
+
+  const unknown = Object.keys(entry).filter(field =>
+    field !== 'key' && field !== 'channels' && !MONITOR_CONFIG_FIELDS.includes(field as MonitorConfigField))
+  if (unknown.length > 0) {
+    return `has unknown fields: ${unknown.join(', ')}`
+  }
+
+  if (typeof entry.key !== 'string' || !CONFIG_KEY_PATTERN.test(entry.key)) {
+    return 'key must be lowercase letters, digits, ".", "_" or "-", starting with a letter or digit'
+  }
+  if (typeof entry.name !== 'string' || !entry.name.trim()) {
+    return 'name is required'
+  }
+  if (typeof entry.url !== 'string' || !entry.url.trim()) {
+    return 'url is required'
+  }
+
+  for (const field of STRING_FIELDS) {
+    if (entry[field] !== undefined && entry[field] !== null && typeof entry[field] !== 'string') {
+      return `${field} must be a string`
+    }
+  }
+  for (const field of BOOLEAN_FIELDS) {
+    if (entry[field] !== undefined && typeof entry[field] !== 'boolean') {
+      return `${field} must be true or false`
+    }
+  }
+
+  if (entry.monitor_type !== undefined && !MONITOR_TYPES.includes(entry.monitor_type)) {
+    return `monitor_type must be one of: ${MONITOR_TYPES.join(', ')}`
+  }
+  if (entry.request_method !== undefined && !REQUEST_METHODS.includes(entry.request_method)) {
+    return `request_method must be one of: ${REQUEST_METHODS.join(', ')}`
+  }
+  if (entry.request_headers !== undefined && entry.request_headers !== null) {
+    const headers = entry.request_headers
+    if (typeof headers !== 'object' || Array.isArray(headers) ||
+        !Object.keys(headers).every(name => typeof headers[name] === 'string')) {
+      return 'request_headers must be a mapping of header names to string values'
+    }
+  }
+  if (entry.port_number !== undefined && entry.port_number !== null &&
+      (!Number.isInteger(entry.port_number) || entry.port_number < 1 || entry.port_number > 65535)) {
+    return 'port_number must be between 1 and 65535'
+  }
+  if (entry.check_interval_seconds !== undefined) {
+    const intervalError = validateCheckInterval(entry.check_interval_seconds)
+    if (intervalError) return intervalError
+  }
+  if (entry.channels !== undefined &&
+      (!Array.isArray(entry.channels) || !entry.channels.every((name: unknown) => typeof name === 'string' && name.trim()))) {
+    return 'channels must be a list of notification channel names'
+  }
+
+  return validateMonitorUpdate(entry)
+}
+
+/**
+ * Validate every monitor in a config. Returns one message per problem.
+ */
+export function validateMonitorConfig(config: MonitorConfig): string[] {
+  if (config.monitors.length > MAX_CONFIG_MONITORS) {
+    return [`A config can declare at most ${MAX_CONFIG_MONITORS} monitors`]
+  }
+
+  const errors: string[] = []
+  const seen: Record<string, boolean> = {}
+
+  config.monitors.forEach((entry, index) => {
+    const label = entry && typeof entry.key === 'string' ? `monitors[${index}] (${entry.key})` : `monitors[${index}]`
+    const error = validateEntry(entry)
+    if (error) {
+      errors.push(`${label} ${error.charAt(0).toLowerCase()}${error.slice(1)}`)
+    }
+    if (entry && typeof entry.key === 'string') {
+      if (seen[entry.key]) errors.push(`${label} repeats key "${entry.key}"`)
+      seen[entry.key] = true
+    }
+  })
+
+  return errors
+}
+
+function slugify(name: string): string {
+  const slug = (name || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 90)
+  return slug || 'monitor'
+}
+
+/**
+ * Key for every monitor: its stored config_key, or one derived from its name
+ * for monitors never imported. Derived keys are deterministic (oldest first,
+ * numbered on collision), so an exported file re-imports onto the same
+ * monitors instead of duplicating them.
+ */
+function assignConfigKeys(monitors: any[]): Record<string, string> {
+  const keys: Record<string, string> = {}
+  const taken: Record<string, boolean> = {}
+
+  monitors.forEach(monitor => {
+    if (monitor.config_key) {
+      keys[monitor.id] = monitor.config_key
+      taken[monitor.config_key] = true
+    }
+  })
+
+  monitors
+    .filter(monitor => !monitor.config_key)
+    .sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''))
+    .forEach(monitor => {
+      const base = slugify(monitor.name)
+      let key = base
+      for (let n = 2; taken[key]; n++) {
+        key = `${base}-${n}`
+      }
+      keys[monitor.id] = key
+      taken[key] = true
+    })
+
+  return keys
+}
+
+async function getManageableMonitors(workspace: Workspace): Promise<any[]> {
+  const { data, error } = await scopeToWorkspace(
+    getSupabaseAdmin().from('monitors').select('*'),
+    workspace
+  )
+    .neq('monitor_type', 'heartbeat')
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map(decryptMonitorSecrets)
+}
+
+function parseHeaders(value: unknown): Record<string, string> | null {
+  if (!value) return null
+  if (typeof value === 'object') return value as Record<string, string>
+  try {
+    return JSON.parse(String(value))
+  } catch {
+    return null
+  }
+}
+
+function withoutSecretHeaders(headers: Record<string, string>): Record<string, string> {
+  const kept: Record<string, string> = {}
+  Object.keys(headers).forEach(name => {
+    if (!SECRET_HEADER_PATTERN.test(name)) kept[name] = headers[name]
+  })
+  return kept
+}
+
+/**
+ * The headers to store for an entry: the file's, plus the monitor's current
+ * credential headers the file does not name. `null` clears all of them.
+ */
+function mergeSecretHeaders(declared: Record<string, string> | null, current: unknown): Record<string, string> | null {
+  if (!declared) return null
+
+  const merged = { ...declared }
+  const declaredNames = Object.keys(declared).map(name => name.toLowerCase())
+  const currentHeaders = parseHeaders(current) || {}
+  Object.keys(currentHeaders).forEach(name => {
+    if (SECRET_HEADER_PATTERN.test(name) && !declaredNames.includes(name.toLowerCase())) {
+      merged[name] = currentHeaders[name]
+    }
+  })
+  return merged
+}
+
+interface ChannelDirectory {
+  idsByName: Record<string, string[]>
+  namesByMonitor: Record<string, string[]>
+}
+
+/**
+ * The workspace's notification channels by name, and the channels each
+ * monitor is routed to directly (tag routes follow the monitor's tags)
+ */
+async function getChannelDirectory(workspace: Workspace): Promise<ChannelDirectory> {
+  const { data, error } = await scopeToWorkspace(
+    getSupabaseAdmin().from('notification_channels').select('id, name, notification_channel_routes(monitor_id)'),
+    workspace
+  )
+
+  if (error) throw error
+
+  const directory: ChannelDirectory = { idsByName: {}, namesByMonitor: {} }
+  ;(data || []).forEach((channel: any) => {
+    directory.idsByName[channel.name] = [...(directory.idsByName[channel.name] || []), channel.id]
+    ;(channel.notification_channel_routes || []).forEach((route: { monitor_id: string | null }) => {
+      if (!route.monitor_id) return
+      directory.namesByMonitor[route.monitor_id] = [...(directory.namesByMonitor[route.monitor_id] || []), channel.name]
+    })
+  })
+  Object.keys(directory.namesByMonitor).forEach(monitorId => {
+    directory.namesByMonitor[monitorId] = directory.namesByMonitor[monitorId]
+      .filter((name, index, all) => all.indexOf(name) === index)
+      .sort()
+  })
+  return directory
+}
+
+/**
+ * Channel names in the config that match no channel, or more than one
+ */
+function validateChannelReferences(config: MonitorConfig, directory: ChannelDirectory): string[] {
+  const errors: string[] = []
+  config.monitors.forEach((entry, index) => {
+    (entry.channels || []).forEach(name => {
+      const matches = directory.idsByName[name.trim()] || []
+      if (matches.length === 0) {
+        errors.push(`monitors[${index}] (${entry.key}) names unknown notification channel "${name}"`)
+      } else if (matches.length > 1) {
+        errors.push(`monitors[${index}] (${entry.key}) names notification channel "${name}", which is not unique; rename one of them`)
+      }
+    })
+  })
+  return errors
+}
+
+function declaredChannelNames(entry: MonitorConfigEntry): string[] {
+  return (entry.channels || [])
+    .map(name => name.trim())
+    .filter((name, index, all) => all.indexOf(name) === index)
+    .sort()
+}
+
+/**
+ * Route exactly the named channels to a monitor
+ */
+async function setMonitorChannels(monitorId: string, names: string[], directory: ChannelDirectory): Promise<void> {
+  const supabase = getSupabaseAdmin()
+
+  const { error: deleteError } = await supabase
+    .from('notification_channel_routes')
+    .delete()
+    .eq('monitor_id', monitorId)
+
+  if (deleteError) throw deleteError
+  if (names.length === 0) return
+
+  const { error } = await supabase
+    .from('notification_channel_routes')
+    .insert(names.map(name => ({ channel_id: directory.idsByName[name][0], monitor_id: monitorId })))
+
+  if (error) throw error
+}
+
+/**
+ * A stored monitor's value in config form: blank strings, empty tag lists and
+ * nulls are the same, and headers are a mapping rather than a JSON string
+ */
+function toConfigValue(field: MonitorConfigField, value: any): any {
+  if (field === 'request_headers') {
+    const headers = parseHeaders(value)
+    return headers && Object.keys(headers).length > 0 ? headers : null
+  }
+  if (field === 'tags' || field === 'dns_expected_values') {
+    return Array.isArray(value) && value.length > 0 ? value : null
+  }
+  if (value === undefined || value === '') return null
+  return value
+}
+
+// JSON with sorted object keys, so header order does not count as a change
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+function changedFields(monitor: any, entry: MonitorConfigEntry, directory: ChannelDirectory): string[] {
+  const fields: string[] = MONITOR_CONFIG_FIELDS.filter(field => {
+    if (entry[field] === undefined) return false
+    const declared = field === 'request_headers'
+      ? mergeSecretHeaders(parseHeaders(entry[field]), monitor[field])
+      : entry[field]
+    return canonicalJson(toConfigValue(field, declared)) !== canonicalJson(toConfigValue(field, monitor[field]))
+  })
+
+  if (entry.channels !== undefined &&
+      canonicalJson(declaredChannelNames(entry)) !== canonicalJson(directory.namesByMonitor[monitor.id] || [])) {
+    fields.push('channels')
+  }
+  return fields
+}
+
+/**
+ * Compare a validated config with the workspace's monitors. Fields left out
+ * of an entry keep their current value; `null` clears them. Imported monitors
+ * missing from the file are deleted only with `prune`.
+ */
+export async function planMonitorConfig(
+  workspace: Workspace,
+  config: MonitorConfig,
+  creatorEmail: string | null | undefined,
+  directory: ChannelDirectory,
+  prune: boolean
+): Promise<MonitorConfigPlan> {
+  const monitors = await getManageableMonitors(workspace)
+  const keys = assignConfigKeys(monitors)
+  const byKey: Record<string, any> = {}
+  monitors.forEach(monitor => {
+    byKey[keys[monitor.id]] = monitor
+  })
+
+  const declared: Record<string, boolean> = {}
+  const plan: MonitorConfigPlan = { changes: [], unchanged: [], undeclared: [], unmanaged: [], changes_notification_targets: false }
+
+  config.monitors.forEach(entry => {
+    declared[entry.key] = true
+    const monitor = byKey[entry.key]
+
+    if (!monitor) {
+      plan.changes.push({ action: 'create', key: entry.key, name: entry.name })
+      if (changesNotificationTargets({ alert_email: creatorEmail }, entry) || declaredChannelNames(entry).length > 0) {
+        plan.changes_notification_targets = true
+      }
+      return
+    }
+
+    const fields = changedFields(monitor, entry, directory)
+    // Adopting a monitor that was never imported stores its key
+    if (!monitor.config_key) fields.push('key')
+
+    if (fields.length === 0) {
+      plan.unchanged.push(entry.key)
+      return
+    }
+
+    plan.changes.push({ action: 'update', key: entry.key, id: monitor.id, name: entry.name, fields })
+    if (fields.some(field => field === 'channels' || (NOTIFICATION_TARGET_FIELDS as readonly string[]).includes(field))) {
+      plan.changes_notification_targets = true
+    }
+  })
+
+  monitors.forEach(monitor => {
+    const key = keys[monitor.id]
+    if (declared[key]) return
+
+    if (monitor.config_key && prune) {
+      plan.changes.push({ action: 'delete', key, id: monitor.id, name: monitor.name })
+    } else if (monitor.config_key) {
+      plan.undeclared.push({ id: monitor.id, key, name: monitor.name })
+    } else {
+      plan.unmanaged.push({ id: monitor.id, name: monitor.name })
+    }
+  })
+
+  return plan
+}
+
+/**
+ * Number of monitors the plan adds to the workspace, net of deletions
+ */
+export function getPlanMonitorGrowth(plan: MonitorConfigPlan): number {
+  return plan.changes.reduce((growth, change) =>
+    growth + (change.action === 'create' ? 1 : change.action === 'delete' ? -1 : 0), 0)
+}
+
+function toMonitorRow(entry: MonitorConfigEntry, fields: readonly MonitorConfigField[]): Record<string, any> {
+  const row: Record<string, any> = {}
+  fields.forEach(field => {
+    if (entry[field] === undefined) return
+    row[field] = field === 'request_headers'
+      ? (entry[field] ? JSON.stringify(entry[field]) : null)
+      : field === 'tags' || field === 'dns_expected_values' ? (entry[field] || []) : entry[field]
+  })
+  return row
+}
+
+/**
+ * Apply a plan made from the same config. Deletions run first to free plan
+ * capacity; a failure part-way leaves the earlier changes applied, and
+ * re-running the import finishes the rest.
+ */
+export async function applyMonitorConfigPlan(
+  workspace: Workspace,
+  config: MonitorConfig,
+  plan: MonitorConfigPlan,
+  creatorEmail: string | null | undefined,
+  directory: ChannelDirectory
+): Promise<void> {
+  const supabase = getSupabaseAdmin()
+  const entries: Record<string, MonitorConfigEntry> = {}
+  config.monitors.forEach(entry => {
+    entries[entry.key] = entry
+  })
+
+  const deletions = plan.changes.filter(change => change.action === 'delete')
+  if (deletions.length > 0) {
+    const { error } = await supabase
+      .from('monitors')
+      .delete()
+      .in('id', deletions.map(change => change.id as string))
+
+    if (error) throw error
+  }
+
+  for (const change of plan.changes) {
+    if (change.action !== 'update') continue
+
+    const entry = entries[change.key]
+    const { data: current } = await supabase
+      .from('monitors')
+      .select('request_headers, slack_webhook_url, discord_webhook_url, alert_sms, webhook_url')
+      .eq('id', change.id)
+      .single()
+
+    const row = toMonitorRow(entry, MONITOR_CONFIG_FIELDS)
+    if (entry.request_headers !== undefined) {
+      const headers = mergeSecretHeaders(parseHeaders(entry.request_headers), current?.request_headers)
+      row.request_headers = headers ? JSON.stringify(headers) : null
+    }
+    row.config_key = change.key
+    row.notification_channels = getNotificationChannels({ ...decryptMonitorSecrets(current || {}), ...row })
+
+    const { error } = await supabase
+      .from('monitors')
+      .update(encryptMonitorSecrets({ ...row, secrets_encrypted: true }))
+      .eq('id', change.id)
+
+    if (error) throw error
+
+    if (change.fields.includes('channels')) {
+      await setMonitorChannels(change.id, declaredChannelNames(entry), directory)
+    }
+  }
+
+  for (const change of plan.changes) {
+    if (change.action !== 'create') continue
+
+    const entry = entries[change.key]
+    const row = {
+      ...toMonitorRow(entry, MONITOR_CONFIG_FIELDS),
+      user_id: workspace.userId,
+      team_id: workspace.teamId,
+      config_key: change.key,
+      alert_email: entry.alert_email || creatorEmail || null,
+      status: 'unknown',
+      secrets_encrypted: true
+    }
+
+    const { data: monitor, error } = await supabase
+      .from('monitors')
+      .insert(encryptMonitorSecrets({ ...row, notification_channels: getNotificationChannels(row) }))
+      .select('id, url, ssl_enabled')
+      .single()
+
+    if (error) throw error
+
+    if (entry.channels !== undefined) {
+      await setMonitorChannels(monitor.id, declaredChannelNames(entry), directory)
+    }
+
+    if (monitor.ssl_enabled !== false) {
+      // Run SSL check in background - don't wait for it
+      updateMonitorSSLInfo(monitor.id, monitor.url).catch(error => {
+        console.error(`Background SSL check failed for monitor ${monitor.id}:`, error)
+      })
+    }
+  }
+}
+
+export type MonitorConfigImportResult =
+  | { success: true; dry_run: boolean; applied: boolean; summary: Record<string, number>; plan: MonitorConfigPlan }
+  | { success: false; status: number; error: string; errors?: string[] }
+
+/**
+ * Parse, validate and plan a config file, then apply it unless this is a dry
+ * run. Planning only reads, so any role may dry-run; applying needs the
+ * member role, and admin when notification targets change or monitors are
+ * deleted.
+ */
+export async function importMonitorConfig(
+  workspace: Workspace,
+  text: string,
+  options: { dryRun: boolean; prune: boolean; creatorEmail: string | null | undefined }
+): Promise<MonitorConfigImportResult> {
+  const parsed = parseMonitorConfig(text)
+  if (parsed.error !== undefined) {
+    return { success: false, status: 400, error: parsed.error }
+  }
+
+  const errors = validateMonitorConfig(parsed.config)
+  if (errors.length > 0) {
+    return { success: false, status: 400, error: 'Invalid monitor config', errors }
+  }
+
+  const directory = await getChannelDirectory(workspace)
+  const channelErrors = validateChannelReferences(parsed.config, directory)
+  if (channelErrors.length > 0) {
+    return { success: false, status: 400, error: 'Invalid monitor config', errors: channelErrors }
+  }
+
+  const plan = await planMonitorConfig(workspace, parsed.config, options.creatorEmail, directory, options.prune)
+  const count = (action: MonitorConfigChange['action']) => plan.changes.filter(change => change.action === action).length
+  const summary = {
+    create: count('create'),
+    update: count('update'),
+    delete: count('delete'),
+    unchanged: plan.unchanged.length,
+    undeclared: plan.undeclared.length,
+    unmanaged: plan.unmanaged.length
+  }
+
+  if (options.dryRun || plan.changes.length === 0) {
+    return { success: true, dry_run: options.dryRun, applied: false, summary, plan }
+  }
+
+  // Deleting a monitor also deletes its check history
+  const required = plan.changes_notification_targets || summary.delete > 0 ? 'admin' : 'member'
+  if (!hasTeamRole(workspace.role, required)) {
+    return { success: false, status: 403, error: `This action requires the ${required} role` }
+  }
+
+  const growth = getPlanMonitorGrowth(plan)
+  if (workspace.teamId && growth > 0 && !(await hasMonitorCapacity(workspace.teamId, growth))) {
+    return { success: false, status: 403, error: 'This team has reached the monitor limit of its plan' }
+  }
+
+  await applyMonitorConfigPlan(workspace, parsed.config, plan, options.creatorEmail, directory)
+
+  return { success: true, dry_run: false, applied: true, summary, plan }
+}
+
+/**
+ * The workspace's monitors as a config file, in the same shape the import
+ * accepts. Empty settings are left out, and so are secrets: webhook URLs,
+ * SMS numbers and credential headers. Channels routed to a monitor are listed
+ * by name.
+ */
+export async function exportMonitorConfig(workspace: Workspace): Promise<MonitorConfig> {
+  const monitors = await getManageableMonitors(workspace)
+  const keys = assignConfigKeys(monitors)
+  const directory = await getChannelDirectory(workspace)
+
+  return {
+    version: MONITOR_CONFIG_VERSION,
+    monitors: monitors.map(monitor => {
+      const entry: MonitorConfigEntry = { key: keys[monitor.id] }
+      MONITOR_CONFIG_FIELDS.forEach(field => {
+        if (monitor.monitor_type !== 'dns' && DNS_CONFIG_FIELDS.includes(field)) return
+        if (SECRET_CONFIG_FIELDS.includes(field)) return
+        let value = toConfigValue(field, monitor[field])
+        if (field === 'request_headers' && value) {
+          value = withoutSecretHeaders(value)
+          if (Object.keys(value).length === 0) value = null
+        }
+        if (value !== null && !(Array.isArray(value) && value.length === 0)) {
+          entry[field] = value
+        }
+      })
+      const channels = directory.namesByMonitor[monitor.id]
+      if (channels && channels.length > 0) entry.channels = channels
+      return entry
+    })
+  }
+}
+
+export function formatMonitorConfig(config: MonitorConfig, format: 'yaml' | 'json'): string {
+  return format === 'json'
+    ? JSON.stringify(config, null, 2) + '\n'
+    : stringifyYaml(config)
+}
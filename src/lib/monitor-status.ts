@@ -0,0 +1,114 @@
+// Public single-monitor status page payload (/status/[id]): only fields that
+// are safe to show anonymously, never alert targets or request credentials
+import { getSupabaseAdmin } from './supabase'
+import { getActiveMaintenance } from './maintenance'
+import { attachIncidentUpdates } from './incidents'
+import type { Monitor, UptimeStats, Incident } from '@/types'
+
+export type PublicMonitor = Pick<
+  Monitor,
+  'id' | 'name' | 'url' | 'status' | 'monitor_type' | 'last_checked' | 'check_interval' | 'check_interval_seconds'
+>
+
+export interface PublicMonitorStatus {
+  monitor: PublicMonitor
+  stats: UptimeStats
+  incidents: Incident[]
+}
+
+/**
+ * Returns null when the monitor does not exist, or { isPrivate: true } when
+ * its owner turned the status page off.
+ */
+export async function getPublicMonitorStatus(id: string): Promise<PublicMonitorStatus | { isPrivate: true } | null> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: monitor, error } = await supabase
+    .from('monitors')
+    .select('id, user_id, team_id, name, url, status, monitor_type, last_checked, check_interval, check_interval_seconds, status_page_public')
+    .eq('id', id)
+    .single()
+
+  if (error || !monitor) {
+    return null
+  }
+
+  if (monitor.status_page_public === false) {
+    return { isPrivate: true }
+  }
+
+  const now = new Date()
+  const day24Ago = new Date(now.getTime() - 24 * 60 * 60 * 1000)
+  const days7Ago = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
+  const days30Ago = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
+
+  const { data: checks24h } = await supabase
+    .from('uptime_checks')
+    .select('status, response_time')
+    .eq('monitor_id', id)
+    .gte('checked_at', day24Ago.toISOString())
+
+  const { data: checks7d } = await supabase
+    .from('uptime_checks')
+    .select('status')
+    .eq('monitor_id', id)
+    .gte('checked_at', days7Ago.toISOString())
+
+  const { data: checks30d } = await supabase
+    .from('uptime_checks')
+    .select('status')
+    .eq('monitor_id', id)
+    .gte('checked_at', days30Ago.toISOString())
+
+  const { data: recentIncidents } = await supabase
+    .from('incidents')
+    .select('*')
+    .eq('monitor_id', id)
+    .order('started_at', { ascending: false })
+    .limit(10)
+
+  const incidents = await attachIncidentUpdates(recentIncidents || [], true)
+
+  // Planned maintenance is excluded from uptime
+  const calculateUptime = (allChecks: any[]) => {
+    const checks = (allChecks || []).filter(check => check.status !== 'maintenance')
+    if (checks.length === 0) return null
+    const upChecks = checks.filter(check => check.status === 'up').length
+    return (upChecks / checks.length) * 100
+  }
+
+  const maintenance = await getActiveMaintenance(monitor)
+
+  const validResponseTimes = checks24h?.filter(check =>
+    check.response_time && check.status === 'up'
+  ).map(check => check.response_time) || []
+
+  const avgResponseTime = validResponseTimes.length > 0
+    ? validResponseTimes.reduce((sum, time) => sum + time, 0) / validResponseTimes.length
+    : 0
+
+  const stats: UptimeStats = {
+    uptime_24h: calculateUptime(checks24h || []),
+    uptime_7d: calculateUptime(checks7d || []),
+    uptime_30d: calculateUptime(checks30d || []),
+    avg_response_time: Math.round(avgResponseTime),
+    total_incidents: incidents.length,
+    current_incident: incidents.find(i => !i.resolved),
+    current_maintenance: maintenance ? { name: maintenance.name, ends_at: maintenance.end.toISOString() } : null
+  }
+
+  return {
+    monitor: {
+      id: monitor.id,
+      name: monitor.name,
+      url: monitor.url,
+      status: monitor.status,
+      monitor_type: monitor.monitor_type,
+      last_checked: monitor.last_checked,
+      check_interval: monitor.check_interval,
+      check_interval_seconds: monitor.check_interval_seconds
+    },
+    stats,
+    incidents
+  }
+}
@@ -1,3 +1,20 @@
+import {
+  getMonitorAssertions,
+  MAX_ASSERTION_BODY_BYTES,
+  type ResponseAssertion
+} from './assertions'
+import { runAssertions } from './assertion-runner'
+import { HttpTimeoutError, timedRequest, type HttpPhaseTimings } from './http-timing'
+import {
+  evaluateDnsAnswer,
+  formatCaaRecord,
+  getDnsHostname,
+  normalizeDnsValue,
+  type DnsMatchMode,
+  type DnsMonitorSettings,
+  type DnsRecordType
+} from './dns-records'
+
 interface MonitorConfig {
   url: string
   method?: string
@@ -8,6 +25,8 @@ interface MonitorConfig {
   authPassword?: string
   authToken?: string
   timeoutMs?: number
+  expectedStatusCodes?: number[]
+  assertions?: ResponseAssertion[]
 }
 
 export async function checkWebsiteHealth(config: MonitorConfig | string, timeoutMs: number = 15000) {
@@ -27,13 +46,12 @@ export async function checkWebsiteHealth(config: MonitorConfig | string, timeout
     authUsername,
     authPassword,
     authToken,
-    timeoutMs: configTimeout = timeoutMs
+    timeoutMs: configTimeout = timeoutMs,
+    expectedStatusCodes = [],
+    assertions = []
   } = config
   
   try {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), configTimeout)
-    
     // Build headers
     const requestHeaders: Record<string, string> = {
       'User-Agent': 'SimpleUptime/1.0 Monitor',
@@ -57,33 +75,70 @@ export async function checkWebsiteHealth(config: MonitorConfig | string, timeout
       requestHeaders['Content-Type'] = 'application/json'
     }
     
-    const response = await fetch(url, {
-      method: method.toUpperCase(),
+    // The body download shares the request timeout; it is only kept when
+    // assertions need it, but always timed
+    const response = await timedRequest(url, {
+      method,
       headers: requestHeaders,
       body: body || undefined,
-      signal: controller.signal,
+      timeoutMs: configTimeout,
+      maxBodyBytes: assertions.length > 0 ? MAX_ASSERTION_BODY_BYTES : 0
     })
     
-    clearTimeout(timeoutId)
-    const responseTime = Date.now() - startTime
+    const responseTime = response.response_time_ms
+    const timings = response.timings
+    
+    // An explicit status code set replaces the default 2xx check
+    const statusOk = expectedStatusCodes.length > 0
+      ? expectedStatusCodes.includes(response.status)
+      : response.status >= 200 && response.status < 300
+    
+    if (!statusOk) {
+      return {
+        success: true,
+        status: 'down',
+        statusCode: response.status,
+        responseTime,
+        timings,
+        error: expectedStatusCodes.length > 0
+          ? `HTTP ${response.status}: expected ${expectedStatusCodes.join(', ')}`
+          : `HTTP ${response.status}: ${response.statusText}`
+      }
+    }
+    
+    if (assertions.length > 0) {
+      const { passed, failures } = await runAssertions(response.body, assertions)
+      if (!passed) {
+        return {
+          success: true,
+          status: 'down',
+          statusCode: response.status,
+          responseTime,
+          timings,
+          error: `Assertion failed: ${failures.join('; ')}`
+        }
+      }
+    }
     
     return {
       success: true,
-      status: response.ok ? 'up' : 'down',
+      status: 'up',
       statusCode: response.status,
       responseTime,
-      error: response.ok ? null : `HTTP ${response.status}: ${response.statusText}`
+      timings,
+      error: null
     }
   } catch (error: any) {
     const responseTime = Date.now() - startTime
     
-    if (error.name === 'AbortError') {
+    if (error instanceof HttpTimeoutError) {
       return {
         success: false,
         status: 'timeout',
         statusCode: null,
         responseTime,
-        error: `Request timeout after ${configTimeout}ms`
+        timings: null,
+        error: error.message
       }
     }
     
@@ -98,13 +153,13 @@ export async function checkWebsiteHealth(config: MonitorConfig | string, timeout
         status: 'error',
         statusCode: null,
         responseTime,
+        timings: null,
         error: standardError.message
       }
     }
   }
 }
 
-// Ping monitoring function
 export async function checkPingHealth(hostname: string, timeoutMs: number = 5000) {
   const startTime = Date.now()
   
@@ -298,7 +353,104 @@ export async function checkPortHealth(hostname: string, port: number, timeoutMs:
   }
 }
 
-export function determineOverallStatus(locationResults: Array<{ status: string }>) {
+interface DnsCheckConfig {
+  hostname: string
+  recordType: DnsRecordType
+  resolver?: string | null
+  expectedValues?: string[]
+  matchMode?: DnsMatchMode
+  timeoutMs?: number
+}
+
+// DNS record monitoring function (server-side only). `values` is the answer
+// when the resolver gave a definitive one (records, no records or no such
+// name) and null when it failed to answer.
+export async function checkDnsHealth(config: DnsCheckConfig) {
+  const startTime = Date.now()
+  const {
+    hostname,
+    recordType,
+    resolver: server,
+    expectedValues = [],
+    matchMode = 'exact',
+    timeoutMs = 15000
+  } = config
+  
+  try {
+    const { Resolver } = await import('dns/promises')
+    // The second try waits twice as long, so both fit in the timeout
+    const resolver = new Resolver({ timeout: Math.floor(timeoutMs / 3), tries: 2 })
+    if (server) resolver.setServers([server])
+    
+    let values: string[]
+    switch (recordType) {
+      case 'AAAA':
+        values = await resolver.resolve6(hostname)
+        break
+      case 'CNAME':
+        values = await resolver.resolveCname(hostname)
+        break
+      case 'MX':
+        values = (await resolver.resolveMx(hostname)).map(record => `${record.priority} ${record.exchange}`)
+        break
+      case 'TXT':
+        values = (await resolver.resolveTxt(hostname)).map(chunks => chunks.join(''))
+        break
+      case 'NS':
+        values = await resolver.resolveNs(hostname)
+        break
+      case 'CAA':
+        values = (await resolver.resolveCaa(hostname)).map(formatCaaRecord)
+        break
+      case 'A':
+      default:
+        values = await resolver.resolve4(hostname)
+    }
+    
+    const responseTime = Date.now() - startTime
+    const normalized = Array.from(new Set(values.map(value => normalizeDnsValue(recordType, value)))).sort()
+    const mismatch = evaluateDnsAnswer(recordType, normalized, expectedValues, matchMode)
+    
+    return {
+      success: true,
+      status: mismatch ? 'down' : 'up',
+      statusCode: null,
+      responseTime,
+      values: normalized,
+      error: mismatch ? `${recordType} ${hostname}: ${mismatch}` : null
+    }
+  } catch (error: any) {
+    const responseTime = Date.now() - startTime
+    
+    // The records are gone: a definitive, empty answer
+    if (error.code === 'ENODATA' || error.code === 'ENOTFOUND') {
+      return {
+        success: true,
+        status: 'down',
+        statusCode: null,
+        responseTime,
+        values: [],
+        error: error.code === 'ENOTFOUND'
+          ? `${hostname} does not exist (NXDOMAIN)`
+          : `No ${recordType} records for ${hostname}`
+      }
+    }
+    
+    return {
+      success: false,
+      status: error.code === 'ETIMEOUT' ? 'timeout' : 'error',
+      statusCode: null,
+      responseTime,
+      values: null,
+      error: `DNS lookup failed${server ? ` at ${server}` : ''}: ${error.code || error.message}`
+    }
+  }
+}
+
+export function determineOverallStatus(
+  locationResults: Array<{ status: string }>,
+  requiredDownLocations?: number | null
+) {
   const downCount = locationResults.filter(r => 
     r.status === 'down' || r.status === 'timeout' || r.status === 'error'
   ).length
@@ -306,8 +458,11 @@ export function determineOverallStatus(locationResults: Array<{ status: string }
   const totalLocations = locationResults.length
   
   // Site is considered down if majority of locations report it as down
-  // For 5 locations: 3+ must agree, for 3 locations: 2+ must agree
-  const threshold = totalLocations >= 5 ? 3 : 2
+  // For 5 locations: 3+ must agree, for 3 locations: 2+ must agree, a single location decides alone.
+  // A per-monitor "M of N" setting overrides the majority, capped at the locations that reported.
+  const threshold = requiredDownLocations && requiredDownLocations > 0
+    ? Math.min(requiredDownLocations, totalLocations)
+    : Math.floor(totalLocations / 2) + 1
   return downCount >= threshold ? 'down' : 'up'
 }
 
@@ -320,4 +475,137 @@ export function calculateAverageResponseTime(locationResults: Array<{ status: st
   
   const totalTime = successfulChecks.reduce((sum, r) => sum + (r.responseTime || 0), 0)
   return Math.round(totalTime / successfulChecks.length)
-}
\ No newline at end of file
+}
+
+// Nearest-rank percentile of response times from locations that reported up
+export function getResponseTimePercentile(
+  locationResults: Array<{ status: string; response_time?: number | null }>,
+  percentile: number
+): number | null {
+  const times = locationResults
+    .filter(r => r.status === 'up' && r.response_time)
+    .map(r => r.response_time as number)
+    .sort((a, b) => a - b)
+  
+  if (times.length === 0) return null
+  
+  const rank = Math.ceil((Math.min(Math.max(percentile, 1), 100) / 100) * times.length)
+  return times[rank - 1]
+}
+
+export interface MonitorCheckTarget extends DnsMonitorSettings {
+  id: string
+  url: string
+  monitor_type?: string | null
+  port_number?: number | null
+  request_method?: string | null
+  request_headers?: string | null
+  request_body?: string | null
+  auth_type?: 'none' | 'basic' | 'bearer' | 'header' | null
+  auth_username?: string | null
+  auth_password?: string | null
+  auth_token?: string | null
+  expected_status_codes?: number[] | null
+  assertions?: ResponseAssertion[] | string | null
+  keyword_check?: string | null
+}
+
+export interface MonitorCheckResult {
+  status: string
+  response_time: number
+  status_code: number | null
+  error_message: string | null
+  // HTTP checks that got a response also carry their phase timings
+  dns_time_ms?: number | null
+  connect_time_ms?: number | null
+  tls_time_ms?: number | null
+  ttfb_ms?: number | null
+  download_time_ms?: number | null
+  // DNS checks with a definitive answer carry the records, normalized and sorted
+  dns_values?: string[] | null
+}
+
+// Run a single check for a monitor from the given location. Shared by the
+// check-websites cron and remote probe agents.
+export async function checkMonitor(monitor: MonitorCheckTarget, location: string): Promise<MonitorCheckResult> {
+  const monitorType = monitor.monitor_type || 'http'
+  
+  try {
+    let result: any
+    
+    switch (monitorType) {
+      case 'ping':
+        result = await checkPingHealth(monitor.url, 15000)
+        break
+        
+      case 'port':
+        const hostname = new URL(monitor.url).hostname
+        const port = monitor.port_number || 80
+        result = await checkPortHealth(hostname, port, 15000)
+        break
+        
+      case 'dns':
+        result = await checkDnsHealth({
+          hostname: getDnsHostname(monitor.url),
+          recordType: monitor.dns_record_type || 'A',
+          resolver: monitor.dns_resolver || null,
+          expectedValues: monitor.dns_expected_values || [],
+          matchMode: monitor.dns_match_mode || 'exact',
+          timeoutMs: 15000
+        })
+        break
+        
+      case 'http':
+      default:
+        // Parse custom headers
+        let customHeaders = {}
+        if (monitor.request_headers) {
+          try {
+            customHeaders = JSON.parse(monitor.request_headers)
+          } catch (e) {
+            console.warn(`Invalid headers for monitor ${monitor.id}:`, e)
+          }
+        }
+        
+        // Add location-specific user agent
+        customHeaders = {
+          'User-Agent': `SimpleUptime/1.0 (${location})`,
+          ...customHeaders
+        }
+        
+        result = await checkWebsiteHealth({
+          url: monitor.url,
+          method: monitor.request_method || 'GET',
+          headers: customHeaders,
+          body: monitor.request_body || undefined,
+          authType: monitor.auth_type || 'none',
+          authUsername: monitor.auth_username || undefined,
+          authPassword: monitor.auth_password || undefined,
+          authToken: monitor.auth_token || undefined,
+          timeoutMs: 15000,
+          expectedStatusCodes: monitor.expected_status_codes || [],
+          assertions: getMonitorAssertions(monitor)
+        })
+        break
+    }
+    
+    const timings: HttpPhaseTimings | null = result.timings || null
+    return {
+      status: result.status,
+      response_time: result.responseTime,
+      status_code: result.statusCode,
+      error_message: result.error,
+      ...(timings || {}),
+      ...(result.values !== undefined ? { dns_values: result.values } : {})
+    }
+  } catch (error) {
+    const { logError } = await import('./error-handler')
+    const standardError = logError(error, 'Monitor check')
+    return {
+      status: 'error',
+      response_time: 15000,
+      status_code: null,
+      error_message: standardError.message
+    }
+  }
+}
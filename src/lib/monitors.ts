@@ -0,0 +1,352 @@
+// Monitor create and update rules shared by the dashboard routes and the
+// /api/v1 REST API, so both validate and store settings the same way
+
+import { getSupabaseAdmin } from './supabase'
+import { validateCheckInterval, DEFAULT_CHECK_INTERVAL_SECONDS } from './scheduler'
+import { validateAssertions, validateStatusCodes } from './assertions'
+import { updateMonitorSSLInfo } from './ssl-unified'
+import { encryptMonitorSecrets, decryptMonitorSecrets } from './encryption'
+import { changesNotificationTargets, scopeToWorkspace, type Workspace } from './teams'
+import { validateDnsMonitorSettings } from './dns-records'
+import { validateDomainAlertDays } from './domain-expiry'
+
+// Credentials that are never returned by the REST API
+const API_HIDDEN_MONITOR_FIELDS = ['auth_password', 'auth_token', 'heartbeat_token', 'secrets_encrypted']
+
+export const MONITOR_TAG_PATTERN = /^[a-z0-9][a-z0-9._-]{0,49}$/
+
+export const MAX_MONITOR_TAGS = 20
+
+// Types checked by the check-websites cron; heartbeat monitors have their own routes
+export const CHECKED_MONITOR_TYPES = ['http', 'ping', 'port', 'dns']
+
+/**
+ * Validate a list of monitor tags. Returns an error message or null.
+ */
+export function validateMonitorTags(tags: unknown): string | null {
+  if (!Array.isArray(tags)) {
+    return 'Tags must be a list'
+  }
+  if (tags.length > MAX_MONITOR_TAGS) {
+    return `A monitor can have at most ${MAX_MONITOR_TAGS} tags`
+  }
+  if (!tags.every(tag => typeof tag === 'string' && MONITOR_TAG_PATTERN.test(tag))) {
+    return 'Tags must be lowercase letters, digits, ".", "_" or "-", starting with a letter or digit'
+  }
+  return null
+}
+
+/**
+ * Validate a new monitor. Returns an error message or null.
+ */
+export function validateNewMonitor(input: Record<string, any>): string | null {
+  if (!input.url || !input.name) {
+    return 'URL and name are required'
+  }
+  if (input.monitor_type !== undefined && !CHECKED_MONITOR_TYPES.includes(input.monitor_type)) {
+    return `Monitor type must be one of: ${CHECKED_MONITOR_TYPES.join(', ')}`
+  }
+  if (input.tags !== undefined) {
+    const tagsError = validateMonitorTags(input.tags)
+    if (tagsError) return tagsError
+  }
+  const dnsError = validateDnsMonitorSettings(input)
+  if (dnsError) return dnsError
+  return validateCheckInterval(
+    input.check_interval_seconds === undefined ? DEFAULT_CHECK_INTERVAL_SECONDS : input.check_interval_seconds
+  )
+}
+
+/**
+ * Validate a monitor update. A name is required; other fields are only
+ * checked when present. Returns an error message or null.
+ */
+export function validateMonitorUpdate(input: Record<string, any>): string | null {
+  const {
+    name,
+    check_interval_seconds,
+    alert_threshold,
+    failure_locations_threshold,
+    degraded_threshold_ms,
+    degraded_percentile,
+    expected_status_codes,
+    assertions,
+    tags,
+    domain_alert_days
+  } = input
+
+  if (!name) {
+    return 'Name is required'
+  }
+
+  if (check_interval_seconds !== undefined) {
+    const intervalError = validateCheckInterval(check_interval_seconds)
+    if (intervalError) return intervalError
+  }
+
+  if (alert_threshold !== undefined && (!Number.isInteger(alert_threshold) || alert_threshold < 1 || alert_threshold > 10)) {
+    return 'Alert threshold must be between 1 and 10 consecutive failures'
+  }
+
+  if (failure_locations_threshold !== undefined && failure_locations_threshold !== null &&
+      (!Number.isInteger(failure_locations_threshold) || failure_locations_threshold < 1)) {
+    return 'Failing locations threshold must be a positive number'
+  }
+
+  if (degraded_threshold_ms !== undefined && degraded_threshold_ms !== null &&
+      (!Number.isInteger(degraded_threshold_ms) || degraded_threshold_ms < 1)) {
+    return 'Degraded threshold must be a positive number of milliseconds'
+  }
+
+  if (degraded_percentile !== undefined && (!Number.isInteger(degraded_percentile) || degraded_percentile < 1 || degraded_percentile > 100)) {
+    return 'Degraded percentile must be between 1 and 100'
+  }
+
+  if (expected_status_codes !== undefined) {
+    const statusCodesError = validateStatusCodes(expected_status_codes)
+    if (statusCodesError) return statusCodesError
+  }
+
+  if (assertions !== undefined) {
+    const assertionsError = validateAssertions(assertions)
+    if (assertionsError) return assertionsError
+  }
+
+  if (tags !== undefined && tags !== null) {
+    const tagsError = validateMonitorTags(tags)
+    if (tagsError) return tagsError
+  }
+
+  // null goes back to the default thresholds
+  if (domain_alert_days !== undefined && domain_alert_days !== null) {
+    const alertDaysError = validateDomainAlertDays(domain_alert_days)
+    if (alertDaysError) return alertDaysError
+  }
+
+  return validateDnsMonitorSettings(input)
+}
+
+/**
+ * Notification targets requested for a new monitor, to compare against the
+ * creator's own email when they are not an admin
+ */
+export function newMonitorChangesNotificationTargets(input: Record<string, any>, creatorEmail: string | null | undefined): boolean {
+  const { alert_email, slack_webhook_url, discord_webhook_url, alert_sms, webhook_url } = input
+  return changesNotificationTargets(
+    { alert_email: creatorEmail },
+    { alert_email, slack_webhook_url, discord_webhook_url, alert_sms, webhook_url }
+  )
+}
+
+/**
+ * Whether an update would change where an existing monitor's alerts go
+ */
+export async function updateChangesNotificationTargets(monitorId: string, input: Record<string, any>): Promise<boolean> {
+  const { alert_email, slack_webhook_url, discord_webhook_url, alert_sms, webhook_url } = input
+
+  const { data: current } = await getSupabaseAdmin()
+    .from('monitors')
+    .select('alert_email, slack_webhook_url, discord_webhook_url, alert_sms, webhook_url')
+    .eq('id', monitorId)
+    .single()
+
+  return changesNotificationTargets(decryptMonitorSecrets(current || {}), {
+    alert_email, slack_webhook_url, discord_webhook_url, alert_sms, webhook_url
+  })
+}
+
+/**
+ * Channels a monitor alerts on: email, plus each channel with a target set
+ */
+export function getNotificationChannels(targets: Record<string, any>): string[] {
+  const channels = ['email']
+  if (targets.slack_webhook_url) channels.push('slack')
+  if (targets.discord_webhook_url) channels.push('discord')
+  if (targets.alert_sms) channels.push('sms')
+  if (targets.webhook_url) channels.push('webhook')
+  return channels
+}
+
+/**
+ * The DNS monitor settings present in the input, in their stored form
+ */
+function getDnsSettings(input: Record<string, any>): Record<string, any> {
+  const { dns_record_type, dns_resolver, dns_expected_values, dns_match_mode } = input
+  const settings: Record<string, any> = {}
+  if (dns_record_type) settings.dns_record_type = dns_record_type
+  if (dns_resolver !== undefined) settings.dns_resolver = (dns_resolver || '').trim() || null
+  if (dns_expected_values !== undefined) settings.dns_expected_values = (dns_expected_values || []).map((value: string) => value.trim())
+  if (dns_match_mode) settings.dns_match_mode = dns_match_mode
+  return settings
+}
+
+/**
+ * Create a monitor in the workspace and start its first SSL check in the
+ * background. Callers validate the input and check the caller's role.
+ */
+export async function createMonitor(
+  workspace: Workspace,
+  input: Record<string, any>,
+  defaultAlertEmail: string | null | undefined
+): Promise<any> {
+  const {
+    url,
+    name,
+    alert_email,
+    ssl_enabled,
+    domain_enabled,
+    slack_webhook_url,
+    discord_webhook_url,
+    alert_sms,
+    webhook_url,
+    tags,
+    check_interval_seconds = DEFAULT_CHECK_INTERVAL_SECONDS,
+    monitor_type = 'http',
+    port_number
+  } = input
+
+  // Encrypt sensitive data before storing
+  const monitorData = {
+    user_id: workspace.userId,
+    team_id: workspace.teamId,
+    url,
+    name,
+    monitor_type,
+    port_number: port_number || null,
+    alert_email: alert_email || defaultAlertEmail || null,
+    status: 'unknown',
+    // Default to true, except for DNS monitors which have no certificate to check
+    ssl_enabled: ssl_enabled === undefined ? monitor_type !== 'dns' : ssl_enabled !== false,
+    domain_enabled: domain_enabled !== false, // Default to true
+    slack_webhook_url: slack_webhook_url || null,
+    discord_webhook_url: discord_webhook_url || null,
+    alert_sms: alert_sms || null,
+    webhook_url: webhook_url || null,
+    tags: tags || [],
+    check_interval_seconds,
+    ...getDnsSettings(input),
+    secrets_encrypted: true
+  }
+
+  const { data: monitor, error } = await getSupabaseAdmin()
+    .from('monitors')
+    .insert(encryptMonitorSecrets(monitorData))
+    .select()
+    .single()
+
+  if (error) throw error
+
+  // Immediately check SSL if enabled
+  if (monitor.ssl_enabled) {
+    // Run SSL check in background - don't wait for it
+    updateMonitorSSLInfo(monitor.id, monitor.url).catch(error => {
+      console.error(`Background SSL check failed for monitor ${monitor.id}:`, error)
+    })
+  }
+
+  return monitor
+}
+
+/**
+ * Apply a validated update. Name, alert email, SSL and domain checks are
+ * always written; other settings only when present in the input.
+ */
+export async function updateMonitor(monitorId: string, input: Record<string, any>): Promise<any> {
+  const {
+    name,
+    alert_email,
+    ssl_enabled,
+    domain_enabled,
+    monitor_type,
+    request_method,
+    request_headers,
+    auth_type,
+    auth_username,
+    auth_password,
+    auth_token,
+    port_number,
+    slack_webhook_url,
+    discord_webhook_url,
+    alert_sms,
+    webhook_url,
+    check_interval_seconds,
+    alert_threshold,
+    failure_locations_threshold,
+    confirmation_recheck,
+    keyword_check,
+    expected_status_codes,
+    assertions,
+    degraded_threshold_ms,
+    degraded_percentile,
+    tags,
+    domain_alert_days
+  } = input
+
+  const updateData: any = {
+    name,
+    alert_email,
+    ssl_enabled: ssl_enabled !== false,
+    domain_enabled: domain_enabled !== false,
+    notification_channels: getNotificationChannels(input)
+  }
+
+  // Only update enhanced fields if they are provided
+  if (monitor_type) updateData.monitor_type = monitor_type
+  if (request_method) updateData.request_method = request_method
+  if (request_headers !== undefined) updateData.request_headers = request_headers
+  if (auth_type) updateData.auth_type = auth_type
+  if (auth_username !== undefined) updateData.auth_username = auth_username
+  if (auth_password !== undefined) updateData.auth_password = auth_password
+  if (auth_token !== undefined) updateData.auth_token = auth_token
+  if (port_number !== undefined) updateData.port_number = port_number
+  if (slack_webhook_url !== undefined) updateData.slack_webhook_url = slack_webhook_url
+  if (discord_webhook_url !== undefined) updateData.discord_webhook_url = discord_webhook_url
+  if (alert_sms !== undefined) updateData.alert_sms = alert_sms
+  if (webhook_url !== undefined) updateData.webhook_url = webhook_url
+  if (check_interval_seconds !== undefined) updateData.check_interval_seconds = check_interval_seconds
+  if (alert_threshold !== undefined) updateData.alert_threshold = alert_threshold
+  if (failure_locations_threshold !== undefined) updateData.failure_locations_threshold = failure_locations_threshold
+  if (confirmation_recheck !== undefined) updateData.confirmation_recheck = confirmation_recheck !== false
+  if (keyword_check !== undefined) updateData.keyword_check = keyword_check || null
+  if (expected_status_codes !== undefined) updateData.expected_status_codes = expected_status_codes
+  if (assertions !== undefined) updateData.assertions = assertions
+  if (degraded_threshold_ms !== undefined) updateData.degraded_threshold_ms = degraded_threshold_ms
+  if (degraded_percentile !== undefined) updateData.degraded_percentile = degraded_percentile
+  if (tags !== undefined) updateData.tags = tags || []
+  if (domain_alert_days !== undefined) updateData.domain_alert_days = domain_alert_days
+  Object.assign(updateData, getDnsSettings(input))
+
+  const { data: monitor, error } = await getSupabaseAdmin()
+    .from('monitors')
+    .update(encryptMonitorSecrets(updateData))
+    .eq('id', monitorId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return monitor
+}
+
+/**
+ * Load a monitor that belongs to the workspace, or null
+ */
+export async function getWorkspaceMonitor(workspace: Workspace, monitorId: string): Promise<any | null> {
+  const { data: monitor } = await scopeToWorkspace(
+    getSupabaseAdmin().from('monitors').select('*').eq('id', monitorId),
+    workspace
+  ).maybeSingle()
+
+  return monitor
+}
+
+/**
+ * A monitor as returned by the REST API: notification targets decrypted,
+ * check credentials and the heartbeat ping token left out
+ */
+export function toApiMonitor(monitor: Record<string, any>): Record<string, any> {
+  const decrypted = decryptMonitorSecrets(monitor)
+  API_HIDDEN_MONITOR_FIELDS.forEach(field => {
+    delete decrypted[field]
+  })
+  return decrypted
+}
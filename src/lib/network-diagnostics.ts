@@ -1,6 +1,10 @@
 // Enhanced network diagnostics for incident analysis
 // This provides detailed troubleshooting data when sites go down
 
+import { runDNSDiagnostics, type DNSResult } from './dns-diagnostics'
+
+export type { DNSResult } from './dns-diagnostics'
+
 export interface NetworkDiagnostics {
   dns_resolution: DNSResult
   traceroute: TracerouteResult  
@@ -10,17 +14,6 @@ export interface NetworkDiagnostics {
   timestamp: string
 }
 
-export interface DNSResult {
-  success: boolean
-  resolved_ips: string[]
-  resolution_time_ms: number
-  nameservers: string[]
-  dns_errors: string[]
-  cname_chain: string[]
-  mx_records: string[]
-  txt_records: string[]
-}
-
 export interface TracerouteResult {
   success: boolean
   total_hops: number
@@ -42,9 +35,11 @@ export interface TracerouteHop {
 }
 
 export interface HTTPDiagnostics {
-  connection_time_ms: number
+  dns_time_ms: number
+  connection_time_ms: number // TCP connect only
   ssl_handshake_time_ms: number
-  first_byte_time_ms: number
+  first_byte_time_ms: number // from the start of the request
+  download_time_ms: number
   total_time_ms: number
   response_headers: Record<string, string>
   status_code: number
@@ -123,60 +118,14 @@ export async function runNetworkDiagnostics(url: string, location = 'us-east'):
   }
 }
 
-// DNS lookup with detailed information
+// DNS lookup through the checker's own resolver and the authoritative nameservers
 async function performDNSLookup(hostname: string): Promise<DNSResult> {
   try {
-    const startTime = Date.now()
-    
-    // Basic DNS resolution
-    const response = await fetch(`https://dns.google/resolve?name=${hostname}&type=A`)
-    const dnsData = await response.json()
-    
-    const resolutionTime = Date.now() - startTime
-    
-    const resolved_ips = dnsData.Answer 
-      ? dnsData.Answer.filter((a: any) => a.type === 1).map((a: any) => a.data)
-      : []
-    
-    // Get additional DNS records
-    const [cnameResponse, mxResponse, txtResponse] = await Promise.allSettled([
-      fetch(`https://dns.google/resolve?name=${hostname}&type=CNAME`),
-      fetch(`https://dns.google/resolve?name=${hostname}&type=MX`),
-      fetch(`https://dns.google/resolve?name=${hostname}&type=TXT`)
-    ])
-    
-    const cname_chain = cnameResponse.status === 'fulfilled' 
-      ? await cnameResponse.value.json().then(d => d.Answer?.map((a: any) => a.data) || [])
-      : []
-      
-    const mx_records = mxResponse.status === 'fulfilled'
-      ? await mxResponse.value.json().then(d => d.Answer?.map((a: any) => a.data) || [])
-      : []
-      
-    const txt_records = txtResponse.status === 'fulfilled'
-      ? await txtResponse.value.json().then(d => d.Answer?.map((a: any) => a.data) || [])
-      : []
-    
-    return {
-      success: resolved_ips.length > 0,
-      resolved_ips,
-      resolution_time_ms: resolutionTime,
-      nameservers: dnsData.Authority?.map((a: any) => a.data) || [],
-      dns_errors: dnsData.Status !== 0 ? [`DNS Status: ${dnsData.Status}`] : [],
-      cname_chain,
-      mx_records,
-      txt_records
-    }
+    return await runDNSDiagnostics(hostname)
   } catch (error: any) {
     return {
-      success: false,
-      resolved_ips: [],
-      resolution_time_ms: 0,
-      nameservers: [],
-      dns_errors: [error.message],
-      cname_chain: [],
-      mx_records: [],
-      txt_records: []
+      ...getDefaultDNSResult(),
+      dns_errors: [error.message]
     }
   }
 }
@@ -328,77 +277,42 @@ async function performSimulatedTraceroute(hostname: string): Promise<TracerouteR
   }
 }
 
-// Detailed HTTP diagnostics with more accurate timing
+// Detailed HTTP diagnostics, timed from socket events
 async function performHTTPDiagnostics(url: string): Promise<HTTPDiagnostics> {
   const startTime = Date.now()
-  let dnsTime = 0
-  let connectTime = 0
-  let sslTime = 0
-  let firstByteTime = 0
   
   try {
-    // For better timing accuracy, we'll use multiple timing points
-    const dnsStart = Date.now()
-    
-    // Get hostname for DNS timing simulation
-    const hostname = new URL(url).hostname
-    
-    // Simulate DNS resolution timing (rough estimate)
-    try {
-      const dns = require('dns').promises
-      await dns.lookup(hostname)
-      dnsTime = Date.now() - dnsStart
-    } catch {
-      dnsTime = Math.round(Math.random() * 50 + 10) // 10-60ms estimate
-    }
-    
-    const connectStart = Date.now()
-    const response = await fetch(url, {
+    const { timedRequest } = await import('./http-timing')
+    const response = await timedRequest(url, {
       method: 'HEAD',
-      signal: AbortSignal.timeout(15000)
+      timeoutMs: 15000
     })
     
-    firstByteTime = Date.now() - startTime
-    const totalTime = Date.now() - startTime
-    connectTime = Math.max(0, firstByteTime - dnsTime)
-    
-    // Estimate SSL handshake time for HTTPS
-    sslTime = url.startsWith('https') ? Math.round(connectTime * 0.4) : 0
-    const tcpConnectTime = connectTime - sslTime
-    
-    // Extract headers
-    const headers: Record<string, string> = {}
-    response.headers.forEach((value, key) => {
-      headers[key] = value
-    })
-    
-    // Build redirect chain
-    const redirectChain = [url]
-    if (response.redirected && response.url !== url) {
-      redirectChain.push(response.url)
-    }
-    
     return {
-      connection_time_ms: Math.round(tcpConnectTime),
-      ssl_handshake_time_ms: sslTime,
-      first_byte_time_ms: firstByteTime,
-      total_time_ms: totalTime,
-      response_headers: headers,
+      dns_time_ms: response.timings.dns_time_ms,
+      connection_time_ms: response.timings.connect_time_ms,
+      ssl_handshake_time_ms: response.timings.tls_time_ms,
+      first_byte_time_ms: response.response_time_ms,
+      download_time_ms: response.timings.download_time_ms,
+      total_time_ms: response.total_time_ms,
+      response_headers: response.headers,
       status_code: response.status,
       status_text: response.statusText,
-      response_size_bytes: parseInt(headers['content-length'] || '0'),
-      redirect_chain: redirectChain,
-      content_type: headers['content-type'] || 'unknown',
-      server_info: headers['server'] || 'unknown',
+      response_size_bytes: parseInt(response.headers['content-length'] || '0'),
+      redirect_chain: [...response.redirects, response.url],
+      content_type: response.headers['content-type'] || 'unknown',
+      server_info: response.headers['server'] || 'unknown',
       error_details: null
     }
   } catch (error: any) {
     const failureTime = Date.now() - startTime
     
     return {
+      dns_time_ms: 0,
       connection_time_ms: 0,
       ssl_handshake_time_ms: 0,
       first_byte_time_ms: 0,
+      download_time_ms: 0,
       total_time_ms: failureTime,
       response_headers: {},
       status_code: 0,
@@ -513,20 +427,28 @@ function getDefaultDNSResult(): DNSResult {
   return {
     success: false,
     resolved_ips: [],
+    ipv6_addresses: [],
     resolution_time_ms: 0,
+    zone: null,
     nameservers: [],
     dns_errors: ['DNS lookup failed'],
     cname_chain: [],
     mx_records: [],
-    txt_records: []
+    txt_records: [],
+    soa_record: null,
+    caa_records: [],
+    resolvers: [],
+    resolver_disagreements: []
   }
 }
 
 function getDefaultHTTPDiagnostics(): HTTPDiagnostics {
   return {
+    dns_time_ms: 0,
     connection_time_ms: 0,
     ssl_handshake_time_ms: 0,
     first_byte_time_ms: 0,
+    download_time_ms: 0,
     total_time_ms: 0,
     response_headers: {},
     status_code: 0,
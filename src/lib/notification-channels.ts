@@ -0,0 +1,410 @@
+// Reusable notification channels: a workspace's email, Slack, Discord,
+// webhook and SMS destinations, managed once and routed to monitors directly
+// or by monitor tag. Targets are stored encrypted. Email and SMS channels can
+// target an on-call schedule instead, reaching whoever is on call.
+
+import { getSupabaseAdmin } from './supabase'
+import { encryptData, decryptData } from './encryption'
+import { MONITOR_TAG_PATTERN } from './monitors'
+import { getOnCallContact } from './oncall'
+import { hasTeamRole, scopeToWorkspace, type Workspace } from './teams'
+
+export type NotificationChannelType = 'email' | 'slack' | 'discord' | 'webhook' | 'sms'
+
+export const NOTIFICATION_CHANNEL_TYPES: NotificationChannelType[] = ['email', 'slack', 'discord', 'webhook', 'sms']
+
+export type NotificationEvent = 'down' | 'up' | 'degraded' | 'ssl_expiring' | 'domain_expiring' | 'sla_breach' | 'dns_changed'
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = ['down', 'up', 'degraded', 'ssl_expiring', 'domain_expiring', 'sla_breach', 'dns_changed']
+
+export const MAX_CHANNEL_NAME_LENGTH = 100
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// E.164, as Twilio expects
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/
+
+// Channel types that can reach the on-call person of a schedule
+export const SCHEDULE_CHANNEL_TYPES: NotificationChannelType[] = ['email', 'sms']
+
+const CHANNEL_FIELDS = 'id, user_id, team_id, name, type, target, schedule_id, events, created_at, updated_at, notification_channel_routes(monitor_id, tag)'
+
+export interface NotificationChannel {
+  id: string
+  user_id: string
+  team_id: string | null
+  name: string
+  type: NotificationChannelType
+  target: string | null // decrypted; null for schedule channels or when the caller may not manage channels
+  schedule_id: string | null // on-call schedule the channel notifies instead of a fixed target
+  events: NotificationEvent[]
+  monitor_ids: string[]
+  tags: string[]
+  created_at: string
+  updated_at: string
+}
+
+export interface NotificationChannelInput {
+  name: string
+  type: NotificationChannelType
+  target?: string | null
+  schedule_id?: string | null
+  events: NotificationEvent[]
+  monitor_ids?: string[]
+  tags?: string[]
+}
+
+/**
+ * Where one notification goes: a channel with its decrypted target, or the
+ * contact of whoever is on call for schedule channels
+ */
+export interface ChannelRecipient {
+  id: string
+  name: string
+  type: NotificationChannelType
+  target: string
+}
+
+export function isNotificationChannelType(value: unknown): value is NotificationChannelType {
+  return typeof value === 'string' && NOTIFICATION_CHANNEL_TYPES.includes(value as NotificationChannelType)
+}
+
+export function isNotificationEvent(value: unknown): value is NotificationEvent {
+  return typeof value === 'string' && NOTIFICATION_EVENTS.includes(value as NotificationEvent)
+}
+
+// Channel targets are secrets, so only those who may change them see them
+export function canManageNotificationChannels(workspace: Workspace): boolean {
+  return hasTeamRole(workspace.role, 'admin')
+}
+
+function validateTarget(type: NotificationChannelType, target: unknown): string | null {
+  if (typeof target !== 'string' || !target.trim()) {
+    return 'A target is required'
+  }
+
+  const value = target.trim()
+  if (type === 'email') {
+    return EMAIL_PATTERN.test(value) ? null : 'Email channels need a valid email address'
+  }
+  if (type === 'sms') {
+    return PHONE_PATTERN.test(value) ? null : 'SMS channels need a phone number in international format, e.g. +14155550123'
+  }
+
+  try {
+    const url = new URL(value)
+    if (url.protocol === 'https:' || url.protocol === 'http:') return null
+  } catch {
+    // Reported below
+  }
+  return `${type === 'webhook' ? 'Webhook' : type === 'slack' ? 'Slack' : 'Discord'} channels need an http(s) webhook URL`
+}
+
+/**
+ * Validate a channel to create or replace. Returns an error message or null.
+ */
+export function validateNotificationChannelInput(input: Record<string, any>): string | null {
+  const { name, type, target, schedule_id, events, monitor_ids, tags } = input
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Channel name is required'
+  }
+  if (name.trim().length > MAX_CHANNEL_NAME_LENGTH) {
+    return `Channel name must be at most ${MAX_CHANNEL_NAME_LENGTH} characters`
+  }
+  if (!isNotificationChannelType(type)) {
+    return `Type must be one of: ${NOTIFICATION_CHANNEL_TYPES.join(', ')}`
+  }
+
+  if (schedule_id !== undefined && schedule_id !== null) {
+    if (typeof schedule_id !== 'string' || !schedule_id) {
+      return 'schedule_id must be an on-call schedule ID'
+    }
+    if (!SCHEDULE_CHANNEL_TYPES.includes(type)) {
+      return 'Only email and SMS channels can notify an on-call schedule'
+    }
+  } else {
+    const targetError = validateTarget(type, target)
+    if (targetError) return targetError
+  }
+
+  if (!Array.isArray(events) || events.length === 0) {
+    return 'At least one event is required'
+  }
+  if (!events.every(isNotificationEvent)) {
+    return `Events must be any of: ${NOTIFICATION_EVENTS.join(', ')}`
+  }
+
+  if (monitor_ids !== undefined && (!Array.isArray(monitor_ids) || !monitor_ids.every(id => typeof id === 'string'))) {
+    return 'monitor_ids must be a list of monitor IDs'
+  }
+  if (tags !== undefined && (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string' && MONITOR_TAG_PATTERN.test(tag)))) {
+    return 'Tags must be lowercase letters, digits, ".", "_" or "-", starting with a letter or digit'
+  }
+
+  return null
+}
+
+/**
+ * Check that every routed monitor belongs to the workspace. Returns an error
+ * message or null.
+ */
+export async function validateChannelMonitors(workspace: Workspace, monitorIds: string[] = []): Promise<string | null> {
+  const ids = unique(monitorIds)
+  if (ids.length === 0) return null
+
+  const { data, error } = await scopeToWorkspace(
+    getSupabaseAdmin().from('monitors').select('id').in('id', ids),
+    workspace
+  )
+
+  if (error) throw error
+  return (data || []).length === ids.length ? null : 'Channels can only be routed to monitors in the current workspace'
+}
+
+/**
+ * Check that a channel's on-call schedule belongs to the workspace. Returns
+ * an error message or null.
+ */
+export async function validateChannelSchedule(workspace: Workspace, scheduleId?: string | null): Promise<string | null> {
+  if (!scheduleId) return null
+
+  const { data, error } = await scopeToWorkspace(
+    getSupabaseAdmin().from('oncall_schedules').select('id').eq('id', scheduleId),
+    workspace
+  ).maybeSingle()
+
+  if (error) throw error
+  return data ? null : 'Channels can only notify on-call schedules in the current workspace'
+}
+
+function unique(values: string[]): string[] {
+  return values.filter((value, index) => values.indexOf(value) === index)
+}
+
+function toNotificationChannel(row: any, revealTarget: boolean): NotificationChannel {
+  const routes: Array<{ monitor_id: string | null; tag: string | null }> = row.notification_channel_routes || []
+
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    team_id: row.team_id,
+    name: row.name,
+    type: row.type,
+    target: revealTarget && row.target ? decryptData(row.target) : null,
+    schedule_id: row.schedule_id || null,
+    events: row.events || [],
+    monitor_ids: routes.filter(route => route.monitor_id).map(route => route.monitor_id as string),
+    tags: routes.filter(route => route.tag).map(route => route.tag as string).sort(),
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  }
+}
+
+async function setChannelRoutes(channelId: string, monitorIds: string[] = [], tags: string[] = []): Promise<void> {
+  const supabase = getSupabaseAdmin()
+
+  const { error: deleteError } = await supabase
+    .from('notification_channel_routes')
+    .delete()
+    .eq('channel_id', channelId)
+
+  if (deleteError) throw deleteError
+
+  const routes = [
+    ...unique(monitorIds).map(monitorId => ({ channel_id: channelId, monitor_id: monitorId })),
+    ...unique(tags).map(tag => ({ channel_id: channelId, tag }))
+  ]
+  if (routes.length === 0) return
+
+  const { error } = await supabase.from('notification_channel_routes').insert(routes)
+  if (error) throw error
+}
+
+function toChannelRow(input: NotificationChannelInput) {
+  return {
+    name: input.name.trim(),
+    type: input.type,
+    target: input.schedule_id ? null : encryptData((input.target || '').trim()),
+    schedule_id: input.schedule_id || null,
+    // Kept in a fixed order so events read cleanly in the dashboard
+    events: NOTIFICATION_EVENTS.filter(event => input.events.includes(event))
+  }
+}
+
+export async function getWorkspaceNotificationChannels(workspace: Workspace): Promise<NotificationChannel[]> {
+  const { data, error } = await scopeToWorkspace(
+    getSupabaseAdmin().from('notification_channels').select(CHANNEL_FIELDS),
+    workspace
+  ).order('created_at', { ascending: true })
+
+  if (error) throw error
+
+  const revealTargets = canManageNotificationChannels(workspace)
+  return (data || []).map(row => toNotificationChannel(row, revealTargets))
+}
+
+/**
+ * Load a channel that belongs to the workspace, or null
+ */
+export async function getWorkspaceNotificationChannel(workspace: Workspace, channelId: string): Promise<NotificationChannel | null> {
+  const { data } = await scopeToWorkspace(
+    getSupabaseAdmin().from('notification_channels').select(CHANNEL_FIELDS).eq('id', channelId),
+    workspace
+  ).maybeSingle()
+
+  return data ? toNotificationChannel(data, canManageNotificationChannels(workspace)) : null
+}
+
+/**
+ * Create a channel in the workspace with its routes. Callers validate the
+ * input, the routed monitors and the caller's role.
+ */
+export async function createNotificationChannel(
+  workspace: Workspace,
+  input: NotificationChannelInput
+): Promise<NotificationChannel> {
+  const { data: channel, error } = await getSupabaseAdmin()
+    .from('notification_channels')
+    .insert({ ...toChannelRow(input), user_id: workspace.userId, team_id: workspace.teamId })
+    .select('id')
+    .single()
+
+  if (error) throw error
+
+  await setChannelRoutes(channel.id, input.monitor_ids, input.tags)
+  return (await getWorkspaceNotificationChannel(workspace, channel.id)) as NotificationChannel
+}
+
+/**
+ * Replace a channel's settings and routes. Returns null when the channel is
+ * not in the workspace.
+ */
+export async function updateNotificationChannel(
+  workspace: Workspace,
+  channelId: string,
+  input: NotificationChannelInput
+): Promise<NotificationChannel | null> {
+  const { data: channel, error } = await scopeToWorkspace(
+    getSupabaseAdmin()
+      .from('notification_channels')
+      .update({ ...toChannelRow(input), updated_at: new Date().toISOString() })
+      .eq('id', channelId),
+    workspace
+  )
+    .select('id')
+    .maybeSingle()
+
+  if (error) throw error
+  if (!channel) return null
+
+  await setChannelRoutes(channelId, input.monitor_ids, input.tags)
+  return getWorkspaceNotificationChannel(workspace, channelId)
+}
+
+/**
+ * Delete a channel and its routes. Returns false when it is not in the
+ * workspace.
+ */
+export async function deleteNotificationChannel(workspace: Workspace, channelId: string): Promise<boolean> {
+  const { data, error } = await scopeToWorkspace(
+    getSupabaseAdmin().from('notification_channels').delete().eq('id', channelId),
+    workspace
+  ).select('id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+/**
+ * Channels routed to a monitor, directly or through one of its tags, that
+ * subscribe to the event
+ */
+export async function getChannelRecipients(monitorId: string, event: NotificationEvent): Promise<ChannelRecipient[]> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: monitor } = await supabase
+    .from('monitors')
+    .select('user_id, team_id, tags')
+    .eq('id', monitorId)
+    .maybeSingle()
+
+  if (!monitor) return []
+
+  const tags: string[] = monitor.tags || []
+  const routesQuery = supabase.from('notification_channel_routes').select('channel_id')
+  const { data: routes, error } = tags.length > 0
+    ? await routesQuery.or(`monitor_id.eq.${monitorId},tag.in.(${tags.map(tag => `"${tag}"`).join(',')})`)
+    : await routesQuery.eq('monitor_id', monitorId)
+
+  if (error) throw error
+
+  return loadChannelRecipients((routes || []).map(route => route.channel_id), monitor, event)
+}
+
+/**
+ * Recipients for specific channels, e.g. an escalation step, regardless of
+ * the events they subscribe to
+ */
+export async function getChannelRecipientsByIds(
+  channelIds: string[],
+  monitor: { user_id: string; team_id?: string | null }
+): Promise<ChannelRecipient[]> {
+  return loadChannelRecipients(channelIds, monitor)
+}
+
+// Only channels in the monitor's own workspace count, so a tag or a stale ID
+// never reaches another account's channels
+async function loadChannelRecipients(
+  channelIds: string[],
+  monitor: { user_id: string; team_id?: string | null },
+  event?: NotificationEvent
+): Promise<ChannelRecipient[]> {
+  const ids = unique(channelIds)
+  if (ids.length === 0) return []
+
+  let query = getSupabaseAdmin()
+    .from('notification_channels')
+    .select('id, user_id, team_id, name, type, target, schedule_id')
+    .in('id', ids)
+  if (event) {
+    query = query.contains('events', [event])
+  }
+
+  const { data: channels, error } = await query
+  if (error) throw error
+
+  const recipients: ChannelRecipient[] = []
+  for (const channel of channels || []) {
+    const inWorkspace = monitor.team_id
+      ? channel.team_id === monitor.team_id
+      : !channel.team_id && channel.user_id === monitor.user_id
+    if (!inWorkspace) continue
+
+    try {
+      const target = channel.schedule_id
+        ? await getOnCallTarget(channel.schedule_id, channel.type)
+        : decryptData(channel.target)
+      if (!target) {
+        console.warn(`Skipping notification channel ${channel.id}: nobody on call can be reached by ${channel.type}`)
+        continue
+      }
+      recipients.push({ id: channel.id, name: channel.name, type: channel.type, target })
+    } catch (error) {
+      // One unreadable channel must not hold back the others
+      console.error(`Skipping notification channel ${channel.id}:`, error)
+    }
+  }
+  return recipients
+}
+
+/**
+ * Where a schedule channel reaches whoever is on call right now: their email,
+ * or the on-call phone number they set for SMS. Null when nobody is on call or
+ * they have no phone number.
+ */
+export async function getOnCallTarget(scheduleId: string, type: NotificationChannelType): Promise<string | null> {
+  const contact = await getOnCallContact(scheduleId)
+  if (!contact) return null
+  return type === 'sms' ? contact.phone : type === 'email' ? contact.email : null
+}
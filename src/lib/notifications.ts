@@ -1,16 +1,18 @@
 // Enhanced notification system supporting multiple channels
 import { Monitor } from '@/types'
 import { notificationLogger } from './logger'
+import { getChannelRecipients, isNotificationEvent, type ChannelRecipient, type NotificationChannelType } from './notification-channels'
 
 interface NotificationData {
   monitorName: string
   monitorUrl: string
-  status: 'down' | 'up' | 'test' | 'sla_breach'
+  status: 'down' | 'up' | 'degraded' | 'test' | 'sla_breach' | 'ssl_expiring' | 'domain_expiring' | 'dns_changed'
   responseTime?: number
   statusCode?: number
   errorMessage?: string
   downtime?: string
   testMode?: boolean
+  acknowledgeUrl?: string // signed link that acknowledges the incident and stops escalation
 }
 
 interface NotificationResult {
@@ -28,14 +30,26 @@ export async function sendSlackNotification(
     const color = data.status === 'down' ? '#ff0000' : 
                   data.status === 'test' ? '#0066cc' : 
                   data.status === 'sla_breach' ? '#ff8c00' : 
+                  data.status === 'ssl_expiring' ? '#f59e0b' : 
+                  data.status === 'domain_expiring' ? '#f59e0b' : 
+                  data.status === 'dns_changed' ? '#6366f1' : 
+                  data.status === 'degraded' ? '#f5a623' : 
                   '#00ff00'
     const emoji = data.status === 'down' ? '🚨' : 
                   data.status === 'test' ? '🧪' : 
                   data.status === 'sla_breach' ? '📊' : 
+                  data.status === 'ssl_expiring' ? '🔒' : 
+                  data.status === 'domain_expiring' ? '🌐' : 
+                  data.status === 'dns_changed' ? '🧭' : 
+                  data.status === 'degraded' ? '🐢' : 
                   '✅'
     const statusText = data.status === 'down' ? 'DOWN' : 
                        data.status === 'test' ? 'TEST ALERT' : 
                        data.status === 'sla_breach' ? 'SLA BREACH' : 
+                       data.status === 'ssl_expiring' ? 'EXPIRING SSL' : 
+                       data.status === 'domain_expiring' ? 'EXPIRING DOMAIN' : 
+                       data.status === 'dns_changed' ? 'CHANGING DNS RECORDS' : 
+                       data.status === 'degraded' ? 'DEGRADED' : 
                        'BACK UP'
     
     const payload = {
@@ -66,12 +80,36 @@ export async function sendSlackNotification(
                 value: data.statusCode.toString(),
                 short: true
               }] : [])
+            ] : data.status === 'degraded' ? [
+              {
+                title: 'Details',
+                value: data.errorMessage || 'Response time above threshold',
+                short: false
+              }
             ] : data.status === 'sla_breach' ? [
               {
                 title: 'SLA Breach Details',
                 value: data.errorMessage || 'SLA targets not met',
                 short: false
               }
+            ] : data.status === 'ssl_expiring' ? [
+              {
+                title: 'Certificate',
+                value: data.errorMessage || 'SSL certificate expires soon',
+                short: false
+              }
+            ] : data.status === 'domain_expiring' ? [
+              {
+                title: 'Domain',
+                value: data.errorMessage || 'Domain registration expires soon',
+                short: false
+              }
+            ] : data.status === 'dns_changed' ? [
+              {
+                title: 'DNS Records',
+                value: data.errorMessage || 'DNS records changed',
+                short: false
+              }
             ] : [
               {
                 title: 'Response Time',
@@ -83,7 +121,12 @@ export async function sendSlackNotification(
                 value: data.downtime,
                 short: true
               }] : [])
-            ])
+            ]),
+            ...(data.acknowledgeUrl ? [{
+              title: 'Acknowledge',
+              value: `<${data.acknowledgeUrl}|Acknowledge this incident>`,
+              short: false
+            }] : [])
           ],
           footer: 'SimpleUptime',
           ts: Math.floor(Date.now() / 1000)
@@ -118,14 +161,26 @@ export async function sendDiscordNotification(
     const color = data.status === 'down' ? 0xff0000 : 
                   data.status === 'test' ? 0x0066cc : 
                   data.status === 'sla_breach' ? 0xff8c00 : 
+                  data.status === 'ssl_expiring' ? 0xf59e0b : 
+                  data.status === 'domain_expiring' ? 0xf59e0b : 
+                  data.status === 'dns_changed' ? 0x6366f1 : 
+                  data.status === 'degraded' ? 0xf5a623 : 
                   0x00ff00
     const emoji = data.status === 'down' ? '🚨' : 
                   data.status === 'test' ? '🧪' : 
                   data.status === 'sla_breach' ? '📊' : 
+                  data.status === 'ssl_expiring' ? '🔒' : 
+                  data.status === 'domain_expiring' ? '🌐' : 
+                  data.status === 'dns_changed' ? '🧭' : 
+                  data.status === 'degraded' ? '🐢' : 
                   '✅'
     const statusText = data.status === 'down' ? 'DOWN' : 
                        data.status === 'test' ? 'TEST ALERT' : 
                        data.status === 'sla_breach' ? 'SLA BREACH' : 
+                       data.status === 'ssl_expiring' ? 'EXPIRING SSL' : 
+                       data.status === 'domain_expiring' ? 'EXPIRING DOMAIN' : 
+                       data.status === 'dns_changed' ? 'CHANGING DNS RECORDS' : 
+                       data.status === 'degraded' ? 'DEGRADED' : 
                        'BACK UP'
     
     const embed = {
@@ -154,12 +209,36 @@ export async function sendDiscordNotification(
             value: data.statusCode.toString(),
             inline: true
           }] : [])
+        ] : data.status === 'degraded' ? [
+          {
+            name: 'Details',
+            value: data.errorMessage || 'Response time above threshold',
+            inline: false
+          }
         ] : data.status === 'sla_breach' ? [
           {
             name: 'SLA Breach Details',
             value: data.errorMessage || 'SLA targets not met',
             inline: false
           }
+        ] : data.status === 'ssl_expiring' ? [
+          {
+            name: 'Certificate',
+            value: data.errorMessage || 'SSL certificate expires soon',
+            inline: false
+          }
+        ] : data.status === 'domain_expiring' ? [
+          {
+            name: 'Domain',
+            value: data.errorMessage || 'Domain registration expires soon',
+            inline: false
+          }
+        ] : data.status === 'dns_changed' ? [
+          {
+            name: 'DNS Records',
+            value: data.errorMessage || 'DNS records changed',
+            inline: false
+          }
         ] : [
           {
             name: 'Response Time',
@@ -171,7 +250,12 @@ export async function sendDiscordNotification(
             value: data.downtime,
             inline: true
           }] : [])
-        ])
+        ]),
+        ...(data.acknowledgeUrl ? [{
+          name: 'Acknowledge',
+          value: `[Acknowledge this incident](${data.acknowledgeUrl})`,
+          inline: false
+        }] : [])
       ],
       footer: {
         text: 'SimpleUptime'
@@ -219,10 +303,18 @@ export async function sendSMSNotification(
     const emoji = data.status === 'down' ? '🚨' : 
                   data.status === 'test' ? '🧪' : 
                   data.status === 'sla_breach' ? '📊' : 
+                  data.status === 'ssl_expiring' ? '🔒' : 
+                  data.status === 'domain_expiring' ? '🌐' : 
+                  data.status === 'dns_changed' ? '🧭' : 
+                  data.status === 'degraded' ? '🐢' : 
                   '✅'
     const statusText = data.status === 'down' ? 'DOWN' : 
                        data.status === 'test' ? 'TEST ALERT' : 
                        data.status === 'sla_breach' ? 'SLA BREACH' : 
+                       data.status === 'ssl_expiring' ? 'EXPIRING SSL' : 
+                       data.status === 'domain_expiring' ? 'EXPIRING DOMAIN' : 
+                       data.status === 'dns_changed' ? 'CHANGING DNS RECORDS' : 
+                       data.status === 'degraded' ? 'DEGRADED' : 
                        'BACK UP'
     
     let message = `${emoji} ${data.monitorName} is ${statusText}\n${data.monitorUrl}`
@@ -236,6 +328,14 @@ export async function sendSMSNotification(
       message += `\nThis is a test notification. Response Time: ${data.responseTime || 250}ms`
     } else if (data.status === 'sla_breach') {
       message += `\n${data.errorMessage || 'SLA targets not met'}`
+    } else if (data.status === 'ssl_expiring') {
+      message += `\n${data.errorMessage || 'SSL certificate expires soon'}`
+    } else if (data.status === 'domain_expiring') {
+      message += `\n${data.errorMessage || 'Domain registration expires soon'}`
+    } else if (data.status === 'dns_changed') {
+      message += `\n${data.errorMessage || 'DNS records changed'}`
+    } else if (data.status === 'degraded') {
+      message += `\n${data.errorMessage || 'Response time above threshold'}`
     } else if (data.downtime) {
       message += `\nDowntime: ${data.downtime}`
     }
@@ -248,6 +348,11 @@ export async function sendSMSNotification(
       message = message.substring(0, 157) + '...'
     }
 
+    // Added after trimming so the link is never cut
+    if (data.acknowledgeUrl) {
+      message += `\nAck: ${data.acknowledgeUrl}`
+    }
+
     // Send SMS using official Twilio SDK
     const result = await client.messages.create({
       body: message,
@@ -278,6 +383,10 @@ export async function sendWebhookNotification(
       event: data.status === 'down' ? 'monitor.down' : 
              data.status === 'test' ? 'monitor.test' : 
              data.status === 'sla_breach' ? 'monitor.sla_breach' : 
+             data.status === 'ssl_expiring' ? 'monitor.ssl_expiring' : 
+             data.status === 'domain_expiring' ? 'monitor.domain_expiring' : 
+             data.status === 'dns_changed' ? 'monitor.dns_changed' : 
+             data.status === 'degraded' ? 'monitor.degraded' : 
              'monitor.up',
       timestamp: new Date().toISOString(),
       monitor: {
@@ -289,7 +398,8 @@ export async function sendWebhookNotification(
         error_message: data.errorMessage,
         downtime_duration: data.downtime,
         test_mode: data.testMode || false
-      }
+      },
+      acknowledge_url: data.acknowledgeUrl || null
     }
 
     const response = await fetch(webhookUrl, {
@@ -330,7 +440,8 @@ export async function sendEmailNotification(
         incident: {
           id: `incident-${Date.now()}`,
           cause: data.errorMessage || 'Service is down'
-        }
+        },
+        acknowledgeUrl: data.acknowledgeUrl
       })
     } else if (data.status === 'up') {
       await sendUpAlert({
@@ -357,6 +468,18 @@ export async function sendEmailNotification(
           cause: 'This is a test notification from SimpleUptime'
         }
       })
+    } else if (data.status === 'degraded') {
+      await sendDownAlert({
+        recipient: email,
+        monitorName: `[DEGRADED] ${data.monitorName}`,
+        monitorUrl: data.monitorUrl,
+        alertType: 'down',
+        timestamp: new Date().toISOString(),
+        incident: {
+          id: `degraded-${Date.now()}`,
+          cause: data.errorMessage || 'Response time above threshold'
+        }
+      })
     } else if (data.status === 'sla_breach') {
       await sendDownAlert({
         recipient: email,
@@ -369,6 +492,42 @@ export async function sendEmailNotification(
           cause: data.errorMessage || 'SLA targets not met'
         }
       })
+    } else if (data.status === 'ssl_expiring') {
+      await sendDownAlert({
+        recipient: email,
+        monitorName: `[SSL EXPIRING] ${data.monitorName}`,
+        monitorUrl: data.monitorUrl,
+        alertType: 'down',
+        timestamp: new Date().toISOString(),
+        incident: {
+          id: `ssl-expiring-${Date.now()}`,
+          cause: data.errorMessage || 'SSL certificate expires soon'
+        }
+      })
+    } else if (data.status === 'domain_expiring') {
+      await sendDownAlert({
+        recipient: email,
+        monitorName: `[DOMAIN EXPIRING] ${data.monitorName}`,
+        monitorUrl: data.monitorUrl,
+        alertType: 'down',
+        timestamp: new Date().toISOString(),
+        incident: {
+          id: `domain-expiring-${Date.now()}`,
+          cause: data.errorMessage || 'Domain registration expires soon'
+        }
+      })
+    } else if (data.status === 'dns_changed') {
+      await sendDownAlert({
+        recipient: email,
+        monitorName: `[DNS CHANGED] ${data.monitorName}`,
+        monitorUrl: data.monitorUrl,
+        alertType: 'down',
+        timestamp: new Date().toISOString(),
+        incident: {
+          id: `dns-changed-${Date.now()}`,
+          cause: data.errorMessage || 'DNS records changed'
+        }
+      })
     }
     
     return { success: true, deliveryId: `email-${Date.now()}` }
@@ -417,76 +576,72 @@ async function sendNotificationWithRetry(
   return { success: false, error: lastError.message }
 }
 
-// Main notification dispatcher
-export async function sendNotifications(
-  monitor: Monitor,
+const CHANNEL_SENDERS: Record<NotificationChannelType, (target: string, data: NotificationData) => Promise<NotificationResult>> = {
+  email: sendEmailNotification,
+  slack: sendSlackNotification,
+  discord: sendDiscordNotification,
+  webhook: sendWebhookNotification,
+  sms: sendSMSNotification
+}
+
+const CHANNEL_LABELS: Record<NotificationChannelType, string> = {
+  email: 'Email',
+  slack: 'Slack',
+  discord: 'Discord',
+  webhook: 'Webhook',
+  sms: 'SMS'
+}
+
+interface Delivery {
+  key: string // name in the returned results
+  type: NotificationChannelType
+  target: string
+}
+
+function toDelivery(recipient: ChannelRecipient): Delivery {
+  return { key: `channel:${recipient.id}`, type: recipient.type, target: recipient.target }
+}
+
+/**
+ * Send a single notification to a channel, without retries
+ */
+export function sendChannelNotification(
+  channel: Pick<ChannelRecipient, 'type' | 'target'>,
+  data: NotificationData
+): Promise<NotificationResult> {
+  return CHANNEL_SENDERS[channel.type](channel.target, data)
+}
+
+// Notification channels routed to the monitor for this event. Tests and
+// failed lookups resolve to none, so the monitor's own targets still go out.
+async function getChannelDeliveries(monitorId: string | undefined, data: NotificationData): Promise<Delivery[]> {
+  if (!monitorId || !isNotificationEvent(data.status)) return []
+
+  try {
+    const recipients = await getChannelRecipients(monitorId, data.status)
+    return recipients.map(toDelivery)
+  } catch (error) {
+    console.error(`Failed to resolve notification channels for monitor ${monitorId}:`, error)
+    return []
+  }
+}
+
+async function deliverNotifications(
+  deliveries: Delivery[],
   data: NotificationData
 ): Promise<{ success: boolean; results: Record<string, NotificationResult> }> {
   const results: Record<string, NotificationResult> = {}
-  
-  // Check all possible notification channels with retry logic
-  const channelPromises: Promise<void>[] = []
-  
-  // Slack notification
-  if (monitor.slack_webhook_url) {
-    channelPromises.push(
-      sendNotificationWithRetry(
-        () => sendSlackNotification(monitor.slack_webhook_url!, data),
-        'Slack'
-      ).then(result => {
-        results.slack = result
-      })
-    )
-  }
-  
-  // Discord notification  
-  if (monitor.discord_webhook_url) {
-    channelPromises.push(
-      sendNotificationWithRetry(
-        () => sendDiscordNotification(monitor.discord_webhook_url!, data),
-        'Discord'
-      ).then(result => {
-        results.discord = result
-      })
-    )
-  }
-  
-  // SMS notification
-  if (monitor.alert_sms) {
-    channelPromises.push(
-      sendNotificationWithRetry(
-        () => sendSMSNotification(monitor.alert_sms!, data),
-        'SMS'
-      ).then(result => {
-        results.sms = result
-      })
-    )
-  }
-  
-  // Webhook notification
-  if (monitor.webhook_url) {
-    channelPromises.push(
-      sendNotificationWithRetry(
-        () => sendWebhookNotification(monitor.webhook_url!, data),
-        'Webhook'
-      ).then(result => {
-        results.webhook = result
-      })
-    )
-  }
-  
-  // Email notification
-  if (monitor.alert_email) {
-    channelPromises.push(
-      sendNotificationWithRetry(
-        () => sendEmailNotification(monitor.alert_email!, data),
-        'Email'
-      ).then(result => {
-        results.email = result
-      })
-    )
-  }
-  
+
+  // Send to every channel with retry logic
+  const channelPromises = deliveries.map(delivery =>
+    sendNotificationWithRetry(
+      () => CHANNEL_SENDERS[delivery.type](delivery.target, data),
+      CHANNEL_LABELS[delivery.type]
+    ).then(result => {
+      results[delivery.key] = result
+    })
+  )
+
   // Wait for all notifications to complete (with error handling)
   await Promise.allSettled(channelPromises.map(async (promise) => {
     try {
@@ -495,9 +650,55 @@ export async function sendNotifications(
       console.error('Notification channel error:', error)
     }
   }))
-  
+
   // Check if at least one notification succeeded
   const overallSuccess = Object.values(results).some(result => result.success)
-  
+
   return { success: overallSuccess, results }
-}
\ No newline at end of file
+}
+
+// Main notification dispatcher: the monitor's own targets, plus the
+// notification channels routed to it that subscribe to the event
+export async function sendNotifications(
+  monitor: Monitor,
+  data: NotificationData
+): Promise<{ success: boolean; results: Record<string, NotificationResult> }> {
+  const deliveries: Delivery[] = []
+
+  if (monitor.slack_webhook_url) deliveries.push({ key: 'slack', type: 'slack', target: monitor.slack_webhook_url })
+  if (monitor.discord_webhook_url) deliveries.push({ key: 'discord', type: 'discord', target: monitor.discord_webhook_url })
+  if (monitor.alert_sms) deliveries.push({ key: 'sms', type: 'sms', target: monitor.alert_sms })
+  if (monitor.webhook_url) deliveries.push({ key: 'webhook', type: 'webhook', target: monitor.webhook_url })
+  if (monitor.alert_email) deliveries.push({ key: 'email', type: 'email', target: monitor.alert_email })
+
+  const channelDeliveries = await getChannelDeliveries(monitor.id, data)
+  channelDeliveries.forEach(delivery => {
+    // A channel pointing at one of the monitor's own targets is only sent once
+    if (!deliveries.some(existing => existing.type === delivery.type && existing.target === delivery.target)) {
+      deliveries.push(delivery)
+    }
+  })
+
+  return deliverNotifications(deliveries, data)
+}
+
+/**
+ * Notify only the channels routed to a monitor, for events its own targets
+ * are not sent through this dispatcher (SSL expiry has its own email)
+ */
+export async function sendChannelNotifications(
+  monitorId: string,
+  data: NotificationData
+): Promise<{ success: boolean; results: Record<string, NotificationResult> }> {
+  return deliverNotifications(await getChannelDeliveries(monitorId, data), data)
+}
+
+/**
+ * Notify specific channels, e.g. one escalation step
+ */
+export async function sendToChannels(
+  recipients: ChannelRecipient[],
+  data: NotificationData
+): Promise<{ success: boolean; results: Record<string, NotificationResult> }> {
+  return deliverNotifications(recipients.map(toDelivery), data)
+}
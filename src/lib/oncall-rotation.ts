@@ -0,0 +1,267 @@
+// Who is on call when: daily or weekly rotations that hand off at a local
+// time in the schedule's timezone, with overrides on top. Pure functions,
+// shared by the resolver, the iCal feed and the API.
+
+import { validateTimezone } from './cron'
+
+export type RotationType = 'daily' | 'weekly'
+
+export const ROTATION_TYPES: RotationType[] = ['daily', 'weekly']
+
+export const MAX_ROTATION_PARTICIPANTS = 50
+
+// Longest override, so a typo cannot hand someone a year of pages
+export const MAX_OVERRIDE_DAYS = 90
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+const HANDOFF_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+
+// Handoffs enumerated per timeline, well above a quarter of daily shifts
+const MAX_TIMELINE_SHIFTS = 1000
+
+export interface RotationConfig {
+  rotation_type: RotationType
+  handoff_time: string // HH:MM, local to the timezone
+  timezone: string
+  rotation_start: string // YYYY-MM-DD; the first participant's first shift starts at its handoff
+  participants: string[] // user IDs in rotation order
+}
+
+export interface OnCallOverride {
+  id: string
+  user_id: string
+  starts_at: string
+  ends_at: string
+  created_at?: string
+}
+
+export interface OnCallShift {
+  user_id: string
+  starts_at: Date
+  ends_at: Date
+  override: boolean
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+// Local calendar day (days since 1970-01-01) and minute of day in the timezone
+function getLocalTime(date: Date, timezone: string): { day: number; minutes: number } {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    })
+    formatters.set(timezone, formatter)
+  }
+
+  const parts: Record<string, string> = {}
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value
+  }
+
+  return {
+    day: Math.floor(Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day)) / DAY_MS),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  }
+}
+
+function getOffsetMs(date: Date, timezone: string): number {
+  const local = getLocalTime(date, timezone)
+  return local.day * DAY_MS + local.minutes * MINUTE_MS - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS
+}
+
+// The instant a local day and time occur in the timezone. Times skipped by a
+// DST change resolve to the instant after the gap.
+function toInstant(day: number, minutes: number, timezone: string): Date {
+  const local = day * DAY_MS + minutes * MINUTE_MS
+  const firstGuess = local - getOffsetMs(new Date(local), timezone)
+  const offset = getOffsetMs(new Date(firstGuess), timezone)
+  return new Date(local - offset)
+}
+
+function parseHandoffMinutes(handoffTime: string): number {
+  const match = HANDOFF_TIME_PATTERN.exec(handoffTime)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : 0
+}
+
+function parseDay(date: string): number | null {
+  const match = DATE_PATTERN.exec(date)
+  if (!match) return null
+
+  const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  // Rejects dates like 2024-02-30 that Date.UTC rolls over
+  return new Date(time).toISOString().slice(0, 10) === date ? time / DAY_MS : null
+}
+
+/**
+ * Validate a rotation. Returns an error message or null.
+ */
+export function validateRotationConfig(input: Record<string, any>): string | null {
+  const { rotation_type, handoff_time, timezone, rotation_start, participants } = input
+
+  if (!ROTATION_TYPES.includes(rotation_type)) {
+    return `Rotation type must be one of: ${ROTATION_TYPES.join(', ')}`
+  }
+  if (typeof handoff_time !== 'string' || !HANDOFF_TIME_PATTERN.test(handoff_time)) {
+    return 'Handoff time must be HH:MM in 24-hour time'
+  }
+
+  const timezoneError = validateTimezone(timezone)
+  if (timezoneError) return timezoneError
+
+  if (typeof rotation_start !== 'string' || parseDay(rotation_start) === null) {
+    return 'Rotation start must be a date (YYYY-MM-DD)'
+  }
+
+  if (!Array.isArray(participants) || participants.length === 0) {
+    return 'A rotation needs at least one participant'
+  }
+  if (participants.length > MAX_ROTATION_PARTICIPANTS) {
+    return `A rotation can have at most ${MAX_ROTATION_PARTICIPANTS} participants`
+  }
+  if (!participants.every(id => typeof id === 'string')) {
+    return 'participants must be a list of user IDs'
+  }
+
+  return null
+}
+
+/**
+ * Validate an override. Returns an error message or null.
+ */
+export function validateOverride(input: Record<string, any>, now: Date = new Date()): string | null {
+  const { user_id, starts_at, ends_at } = input
+
+  if (typeof user_id !== 'string' || !user_id) {
+    return 'An override needs the user who covers it'
+  }
+
+  const startsAt = new Date(starts_at)
+  const endsAt = new Date(ends_at)
+  if (typeof starts_at !== 'string' || isNaN(startsAt.getTime()) || typeof ends_at !== 'string' || isNaN(endsAt.getTime())) {
+    return 'starts_at and ends_at must be ISO 8601 timestamps'
+  }
+  if (endsAt <= startsAt) {
+    return 'An override must end after it starts'
+  }
+  if (endsAt <= now) {
+    return 'An override must end in the future'
+  }
+  if (endsAt.getTime() - startsAt.getTime() > MAX_OVERRIDE_DAYS * DAY_MS) {
+    return `An override can last at most ${MAX_OVERRIDE_DAYS} days`
+  }
+
+  return null
+}
+
+/**
+ * The rotation shift covering a moment, ignoring overrides, or null before
+ * the rotation starts or when it has no participants
+ */
+export function getRotationShift(config: RotationConfig, at: Date): OnCallShift | null {
+  const startDay = parseDay(config.rotation_start)
+  if (startDay === null || config.participants.length === 0) return null
+
+  const handoffMinutes = parseHandoffMinutes(config.handoff_time)
+  const shiftDays = config.rotation_type === 'weekly' ? 7 : 1
+
+  // Before today's handoff, the previous day's shift is still running
+  const local = getLocalTime(at, config.timezone)
+  const day = local.minutes < handoffMinutes ? local.day - 1 : local.day
+  if (day < startDay) return null
+
+  const shiftIndex = Math.floor((day - startDay) / shiftDays)
+  const shiftStartDay = startDay + shiftIndex * shiftDays
+
+  return {
+    user_id: config.participants[shiftIndex % config.participants.length],
+    starts_at: toInstant(shiftStartDay, handoffMinutes, config.timezone),
+    ends_at: toInstant(shiftStartDay + shiftDays, handoffMinutes, config.timezone),
+    override: false
+  }
+}
+
+// The override covering a moment; the most recently created wins
+function getActiveOverride(overrides: OnCallOverride[], at: Date): OnCallOverride | null {
+  const time = at.getTime()
+  let active: OnCallOverride | null = null
+  for (const override of overrides) {
+    if (new Date(override.starts_at).getTime() > time || new Date(override.ends_at).getTime() <= time) continue
+    if (!active || (override.created_at || '') >= (active.created_at || '')) {
+      active = override
+    }
+  }
+  return active
+}
+
+/**
+ * Who is on call at a moment, or null when nobody is
+ */
+export function getOnCallAt(
+  config: RotationConfig,
+  overrides: OnCallOverride[],
+  at: Date
+): { user_id: string; override: boolean } | null {
+  const override = getActiveOverride(overrides, at)
+  if (override) return { user_id: override.user_id, override: true }
+
+  const shift = getRotationShift(config, at)
+  return shift ? { user_id: shift.user_id, override: false } : null
+}
+
+/**
+ * Consecutive shifts between two moments with overrides applied, clipped to
+ * the range. Back-to-back shifts of the same person are merged.
+ */
+export function getOnCallShifts(config: RotationConfig, overrides: OnCallOverride[], from: Date, to: Date): OnCallShift[] {
+  const boundaries = [from.getTime(), to.getTime()]
+  const addBoundary = (time: number) => {
+    if (time > from.getTime() && time < to.getTime()) boundaries.push(time)
+  }
+
+  overrides.forEach(override => {
+    addBoundary(new Date(override.starts_at).getTime())
+    addBoundary(new Date(override.ends_at).getTime())
+  })
+
+  const startDay = parseDay(config.rotation_start)
+  if (startDay !== null) {
+    // The rotation's own start is a handoff too, when it falls in the range
+    const rotationStart = toInstant(startDay, parseHandoffMinutes(config.handoff_time), config.timezone)
+    addBoundary(rotationStart.getTime())
+
+    let shift = getRotationShift(config, from.getTime() < rotationStart.getTime() ? rotationStart : from)
+    for (let i = 0; shift && shift.ends_at < to && i < MAX_TIMELINE_SHIFTS; i++) {
+      addBoundary(shift.ends_at.getTime())
+      shift = getRotationShift(config, shift.ends_at)
+    }
+  }
+
+  const times = boundaries
+    .sort((a, b) => a - b)
+    .filter((time, index, all) => index === 0 || time !== all[index - 1])
+
+  const shifts: OnCallShift[] = []
+  for (let i = 0; i < times.length - 1; i++) {
+    const onCall = getOnCallAt(config, overrides, new Date(times[i]))
+    if (!onCall) continue
+
+    const previous = shifts[shifts.length - 1]
+    if (previous && previous.user_id === onCall.user_id && previous.override === onCall.override &&
+        previous.ends_at.getTime() === times[i]) {
+      previous.ends_at = new Date(times[i + 1])
+    } else {
+      shifts.push({ user_id: onCall.user_id, starts_at: new Date(times[i]), ends_at: new Date(times[i + 1]), override: onCall.override })
+    }
+  }
+  return shifts
+}
@@ -0,0 +1,484 @@
+// On-call schedules: rotations of workspace members with overrides, the
+// "who is on call now" resolver behind schedule-targeted notification
+// channels, and each schedule's iCal feed.
+
+import crypto from 'crypto'
+import { getSupabaseAdmin } from './supabase'
+import { encryptData, decryptData } from './encryption'
+import { scopeToWorkspace, getTeamMembers, type Workspace } from './teams'
+import {
+  getOnCallAt,
+  getOnCallShifts,
+  validateRotationConfig,
+  MAX_OVERRIDE_DAYS,
+  type RotationConfig,
+  type RotationType,
+  type OnCallOverride
+} from './oncall-rotation'
+
+export const MAX_SCHEDULE_NAME_LENGTH = 100
+
+// E.164, as Twilio expects
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Shifts shown in the dashboard
+const UPCOMING_SHIFT_DAYS = 28
+
+// Window of the iCal feed around now
+const CALENDAR_PAST_DAYS = 30
+const CALENDAR_FUTURE_DAYS = 90
+
+const SCHEDULE_FIELDS = 'id, user_id, team_id, name, rotation_type, handoff_time, timezone, rotation_start, participants, ical_token, created_at, updated_at, oncall_overrides(id, user_id, starts_at, ends_at, created_at)'
+
+export interface WorkspaceMember {
+  user_id: string
+  email: string | null
+}
+
+export interface OnCallShiftSummary {
+  user_id: string
+  email: string | null
+  starts_at: string
+  ends_at: string
+  override: boolean
+}
+
+export interface OnCallSchedule {
+  id: string
+  user_id: string
+  team_id: string | null
+  name: string
+  rotation_type: RotationType
+  handoff_time: string
+  timezone: string
+  rotation_start: string
+  participants: string[]
+  overrides: OnCallOverride[] // current and upcoming
+  on_call: OnCallShiftSummary | null
+  upcoming_shifts: OnCallShiftSummary[]
+  ical_url: string
+  created_at: string
+  updated_at: string
+}
+
+export interface OnCallScheduleInput extends RotationConfig {
+  name: string
+}
+
+export interface OnCallContact {
+  user_id: string
+  email: string | null
+  phone: string | null
+}
+
+/**
+ * Validate a schedule to create or replace. Returns an error message or null.
+ */
+export function validateScheduleInput(input: Record<string, any>): string | null {
+  const { name } = input
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Schedule name is required'
+  }
+  if (name.trim().length > MAX_SCHEDULE_NAME_LENGTH) {
+    return `Schedule name must be at most ${MAX_SCHEDULE_NAME_LENGTH} characters`
+  }
+
+  return validateRotationConfig(input)
+}
+
+export function validateOnCallPhone(phone: unknown): string | null {
+  if (phone === null || phone === '') return null
+  return typeof phone === 'string' && PHONE_PATTERN.test(phone.trim())
+    ? null
+    : 'Phone number must be in international format, e.g. +14155550123'
+}
+
+/**
+ * People who can be on call in the workspace: the team's members, or the
+ * user alone in a personal workspace
+ */
+export async function getWorkspaceMembers(workspace: Workspace): Promise<WorkspaceMember[]> {
+  if (workspace.teamId) {
+    const members = await getTeamMembers(workspace.teamId)
+    return members.map(member => ({ user_id: member.user_id, email: member.email }))
+  }
+
+  const { data } = await getSupabaseAdmin()
+    .from('profiles')
+    .select('email')
+    .eq('id', workspace.userId)
+    .maybeSingle()
+
+  return [{ user_id: workspace.userId, email: data?.email ?? null }]
+}
+
+/**
+ * Check that every user is a member of the workspace. Returns an error
+ * message or null.
+ */
+export async function validateWorkspaceMembers(workspace: Workspace, userIds: string[]): Promise<string | null> {
+  const members = await getWorkspaceMembers(workspace)
+  return userIds.every(id => members.some(member => member.user_id === id))
+    ? null
+    : 'Only members of the current workspace can be on call'
+}
+
+export function generateIcalToken(): string {
+  return crypto.randomBytes(24).toString('hex')
+}
+
+export function getScheduleCalendarUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  return `${baseUrl}/api/public/oncall/${token}`
+}
+
+// Members who left the team drop out of the rotation instead of being paged
+function toRotationConfig(row: any, members: WorkspaceMember[]): RotationConfig {
+  return {
+    rotation_type: row.rotation_type,
+    handoff_time: row.handoff_time,
+    timezone: row.timezone,
+    rotation_start: row.rotation_start,
+    participants: (row.participants || []).filter((id: string) => members.some(member => member.user_id === id))
+  }
+}
+
+function toOverrides(row: any): OnCallOverride[] {
+  return (row.oncall_overrides || [])
+    .map((override: OnCallOverride) => ({ ...override }))
+    .sort((a: OnCallOverride, b: OnCallOverride) => a.starts_at.localeCompare(b.starts_at))
+}
+
+function toShiftSummaries(
+  config: RotationConfig,
+  overrides: OnCallOverride[],
+  members: WorkspaceMember[],
+  from: Date,
+  to: Date
+): OnCallShiftSummary[] {
+  return getOnCallShifts(config, overrides, from, to).map(shift => ({
+    user_id: shift.user_id,
+    email: members.find(member => member.user_id === shift.user_id)?.email ?? null,
+    starts_at: shift.starts_at.toISOString(),
+    ends_at: shift.ends_at.toISOString(),
+    override: shift.override
+  }))
+}
+
+function toOnCallSchedule(row: any, members: WorkspaceMember[], now: Date): OnCallSchedule {
+  const config = toRotationConfig(row, members)
+  const overrides = toOverrides(row)
+  // Starts far enough back that the current shift keeps its real start, even
+  // when it is a long override
+  const shifts = toShiftSummaries(
+    config,
+    overrides,
+    members,
+    new Date(now.getTime() - MAX_OVERRIDE_DAYS * DAY_MS),
+    new Date(now.getTime() + UPCOMING_SHIFT_DAYS * DAY_MS)
+  ).filter(shift => new Date(shift.ends_at) > now)
+  const current = shifts[0] && new Date(shifts[0].starts_at) <= now ? shifts[0] : null
+
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    team_id: row.team_id,
+    name: row.name,
+    rotation_type: row.rotation_type,
+    handoff_time: row.handoff_time,
+    timezone: row.timezone,
+    rotation_start: row.rotation_start,
+    participants: row.participants || [],
+    overrides: overrides.filter(override => new Date(override.ends_at) > now),
+    on_call: current,
+    upcoming_shifts: shifts,
+    ical_url: getScheduleCalendarUrl(row.ical_token),
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  }
+}
+
+function toScheduleRow(input: OnCallScheduleInput) {
+  return {
+    name: input.name.trim(),
+    rotation_type: input.rotation_type,
+    handoff_time: input.handoff_time,
+    timezone: input.timezone,
+    rotation_start: input.rotation_start,
+    participants: input.participants
+  }
+}
+
+export async function getWorkspaceOnCallSchedules(workspace: Workspace): Promise<OnCallSchedule[]> {
+  const [{ data, error }, members] = await Promise.all([
+    scopeToWorkspace(
+      getSupabaseAdmin().from('oncall_schedules').select(SCHEDULE_FIELDS),
+      workspace
+    ).order('created_at', { ascending: true }),
+    getWorkspaceMembers(workspace)
+  ])
+
+  if (error) throw error
+
+  const now = new Date()
+  return (data || []).map(row => toOnCallSchedule(row, members, now))
+}
+
+/**
+ * Load a schedule that belongs to the workspace, or null
+ */
+export async function getWorkspaceOnCallSchedule(workspace: Workspace, scheduleId: string): Promise<OnCallSchedule | null> {
+  const { data } = await scopeToWorkspace(
+    getSupabaseAdmin().from('oncall_schedules').select(SCHEDULE_FIELDS).eq('id', scheduleId),
+    workspace
+  ).maybeSingle()
+
+  return data ? toOnCallSchedule(data, await getWorkspaceMembers(workspace), new Date()) : null
+}
+
+/**
+ * Create a schedule in the workspace. Callers validate the input, the
+ * participants and the caller's role.
+ */
+export async function createOnCallSchedule(workspace: Workspace, input: OnCallScheduleInput): Promise<OnCallSchedule> {
+  const { data: schedule, error } = await getSupabaseAdmin()
+    .from('oncall_schedules')
+    .insert({
+      ...toScheduleRow(input),
+      user_id: workspace.userId,
+      team_id: workspace.teamId,
+      ical_token: generateIcalToken()
+    })
+    .select('id')
+    .single()
+
+  if (error) throw error
+  return (await getWorkspaceOnCallSchedule(workspace, schedule.id)) as OnCallSchedule
+}
+
+/**
+ * Replace a schedule's rotation. Returns null when the schedule is not in
+ * the workspace.
+ */
+export async function updateOnCallSchedule(
+  workspace: Workspace,
+  scheduleId: string,
+  input: OnCallScheduleInput
+): Promise<OnCallSchedule | null> {
+  const { data: schedule, error } = await scopeToWorkspace(
+    getSupabaseAdmin()
+      .from('oncall_schedules')
+      .update({ ...toScheduleRow(input), updated_at: new Date().toISOString() })
+      .eq('id', scheduleId),
+    workspace
+  )
+    .select('id')
+    .maybeSingle()
+
+  if (error) throw error
+  if (!schedule) return null
+
+  return getWorkspaceOnCallSchedule(workspace, scheduleId)
+}
+
+/**
+ * Delete a schedule with its overrides and the notification channels that
+ * target it. Returns false when it is not in the workspace.
+ */
+export async function deleteOnCallSchedule(workspace: Workspace, scheduleId: string): Promise<boolean> {
+  const { data, error } = await scopeToWorkspace(
+    getSupabaseAdmin().from('oncall_schedules').delete().eq('id', scheduleId),
+    workspace
+  ).select('id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+/**
+ * Replace a schedule's iCal feed URL, e.g. after it was shared too widely.
+ * Returns null when the schedule is not in the workspace.
+ */
+export async function regenerateIcalToken(workspace: Workspace, scheduleId: string): Promise<OnCallSchedule | null> {
+  const { data: schedule, error } = await scopeToWorkspace(
+    getSupabaseAdmin()
+      .from('oncall_schedules')
+      .update({ ical_token: generateIcalToken(), updated_at: new Date().toISOString() })
+      .eq('id', scheduleId),
+    workspace
+  )
+    .select('id')
+    .maybeSingle()
+
+  if (error) throw error
+  if (!schedule) return null
+
+  return getWorkspaceOnCallSchedule(workspace, scheduleId)
+}
+
+/**
+ * Put someone on call for a while. Callers validate the override, that the
+ * schedule is in the workspace and that the user is a member.
+ */
+export async function createOnCallOverride(
+  scheduleId: string,
+  input: { user_id: string; starts_at: string; ends_at: string },
+  createdBy: string
+): Promise<OnCallOverride> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('oncall_overrides')
+    .insert({
+      schedule_id: scheduleId,
+      user_id: input.user_id,
+      starts_at: new Date(input.starts_at).toISOString(),
+      ends_at: new Date(input.ends_at).toISOString(),
+      created_by: createdBy
+    })
+    .select('id, user_id, starts_at, ends_at, created_at')
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Remove an override from a schedule. Returns false when there is none.
+ */
+export async function deleteOnCallOverride(scheduleId: string, overrideId: string): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('oncall_overrides')
+    .delete()
+    .eq('id', overrideId)
+    .eq('schedule_id', scheduleId)
+    .select('id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+export async function getOnCallPhone(userId: string): Promise<string | null> {
+  const { data } = await getSupabaseAdmin()
+    .from('profiles')
+    .select('oncall_phone')
+    .eq('id', userId)
+    .maybeSingle()
+
+  return data?.oncall_phone ? decryptData(data.oncall_phone) : null
+}
+
+export async function setOnCallPhone(userId: string, phone: string | null): Promise<void> {
+  const value = phone ? phone.trim() : null
+
+  const { error } = await getSupabaseAdmin()
+    .from('profiles')
+    .update({ oncall_phone: value ? encryptData(value) : null })
+    .eq('id', userId)
+
+  if (error) throw error
+}
+
+/**
+ * Who is on call on a schedule at a moment, with where to reach them, or
+ * null when nobody is
+ */
+export async function getOnCallContact(scheduleId: string, at: Date = new Date()): Promise<OnCallContact | null> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: schedule } = await supabase
+    .from('oncall_schedules')
+    .select(SCHEDULE_FIELDS)
+    .eq('id', scheduleId)
+    .maybeSingle()
+
+  if (!schedule) return null
+
+  const members = await getWorkspaceMembers({ userId: schedule.user_id, teamId: schedule.team_id, role: 'owner' })
+  const onCall = getOnCallAt(toRotationConfig(schedule, members), toOverrides(schedule), at)
+  // An override for someone who has since left the team covers nobody
+  if (!onCall || !members.some(member => member.user_id === onCall.user_id)) return null
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('email, oncall_phone')
+    .eq('id', onCall.user_id)
+    .maybeSingle()
+
+  return {
+    user_id: onCall.user_id,
+    email: profile?.email ?? null,
+    phone: profile?.oncall_phone ? decryptData(profile.oncall_phone) : null
+  }
+}
+
+function escapeIcalText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+function formatIcalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldIcalLine(line: string): string {
+  const chunks: string[] = []
+  for (let i = 0; i < line.length; i += 73) {
+    chunks.push(line.slice(i, i + 73))
+  }
+  return chunks.join('\r\n ')
+}
+
+/**
+ * The iCal feed for the schedule behind a feed token, or null when the token
+ * matches none. Each shift, with overrides applied, is one event.
+ */
+export async function getScheduleCalendar(token: string, now: Date = new Date()): Promise<string | null> {
+  if (!token) return null
+
+  const { data: schedule } = await getSupabaseAdmin()
+    .from('oncall_schedules')
+    .select(SCHEDULE_FIELDS)
+    .eq('ical_token', token)
+    .maybeSingle()
+
+  if (!schedule) return null
+
+  const members = await getWorkspaceMembers({ userId: schedule.user_id, teamId: schedule.team_id, role: 'owner' })
+  const shifts = toShiftSummaries(
+    toRotationConfig(schedule, members),
+    toOverrides(schedule),
+    members,
+    new Date(now.getTime() - CALENDAR_PAST_DAYS * DAY_MS),
+    new Date(now.getTime() + CALENDAR_FUTURE_DAYS * DAY_MS)
+  )
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Simple Uptime//On-call schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcalText(`On call: ${schedule.name}`)}`
+  ]
+
+  shifts.forEach(shift => {
+    const person = shift.email || 'Unknown member'
+    lines.push(
+      'BEGIN:VEVENT',
+      // Stable per shift, so calendar apps update events instead of duplicating them
+      `UID:${schedule.id}-${formatIcalDate(new Date(shift.starts_at))}-${shift.user_id}@oncall`,
+      `DTSTAMP:${formatIcalDate(now)}`,
+      `DTSTART:${formatIcalDate(new Date(shift.starts_at))}`,
+      `DTEND:${formatIcalDate(new Date(shift.ends_at))}`,
+      `SUMMARY:${escapeIcalText(`${person} on call${shift.override ? ' (override)' : ''}`)}`,
+      `DESCRIPTION:${escapeIcalText(`${schedule.name} on-call shift`)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    )
+  })
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldIcalLine).join('\r\n') + '\r\n'
+}
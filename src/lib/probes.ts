@@ -0,0 +1,375 @@
+// Distributed probe agents: registration, authentication, job queue and check rounds
+
+import crypto from 'crypto'
+import { getSupabaseAdmin } from './supabase'
+import { decryptMonitorSecrets } from './encryption'
+import { evaluateCheckResults, PRIMARY_LOCATION, type LocationCheckResult } from './check-evaluation'
+import type { MonitorCheckResult, MonitorCheckTarget } from './monitoring'
+import { HTTP_PHASES } from './http-timing'
+import { cronLogger } from './logger'
+import { getActiveMaintenance } from './maintenance'
+
+// Agents that have not polled within this window are not given new jobs
+export const PROBE_STALE_AFTER_MS = 5 * 60 * 1000
+
+// Rounds are evaluated with whatever results arrived once this passes
+export const CHECK_ROUND_TIMEOUT_MS = 90 * 1000
+
+// Records kept from an agent's DNS answer; real answers are far smaller
+const MAX_PROBE_DNS_VALUES = 100
+
+export interface ProbeAgent {
+  id: string
+  location: string
+  name?: string
+  enabled: boolean
+  version?: string
+  last_seen_at?: string
+  created_at: string
+}
+
+export interface ProbeJob {
+  id: string
+  round_id: string
+  monitor_id: string
+  location: string
+  status: 'pending' | 'claimed' | 'completed' | 'expired'
+  claimed_by?: string
+  result?: MonitorCheckResult
+}
+
+/**
+ * Hash an agent token for storage and lookup
+ */
+export function hashProbeToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Generate a new agent token (shown to the operator once)
+ */
+export function generateProbeToken(): string {
+  return `probe_${crypto.randomBytes(32).toString('hex')}`
+}
+
+/**
+ * Register a new agent for a location
+ */
+export async function registerProbeAgent(location: string, name?: string): Promise<{ agent: ProbeAgent; token: string }> {
+  const token = generateProbeToken()
+
+  const { data: agent, error } = await getSupabaseAdmin()
+    .from('probe_agents')
+    .insert({
+      location,
+      name: name || null,
+      token_hash: hashProbeToken(token)
+    })
+    .select('id, location, name, enabled, version, last_seen_at, created_at')
+    .single()
+
+  if (error) throw error
+
+  return { agent, token }
+}
+
+/**
+ * Resolve the agent behind a `Authorization: Bearer <token>` header and mark it as seen
+ */
+export async function authenticateProbe(request: Request): Promise<ProbeAgent | null> {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const supabaseAdmin = getSupabaseAdmin()
+  const { data: agent } = await supabaseAdmin
+    .from('probe_agents')
+    .select('id, location, name, enabled, version, last_seen_at, created_at')
+    .eq('token_hash', hashProbeToken(authHeader.slice('Bearer '.length).trim()))
+    .single()
+
+  if (!agent || !agent.enabled) {
+    return null
+  }
+
+  await supabaseAdmin
+    .from('probe_agents')
+    .update({
+      last_seen_at: new Date().toISOString(),
+      version: request.headers.get('x-probe-version') || agent.version || null
+    })
+    .eq('id', agent.id)
+
+  return agent
+}
+
+/**
+ * Locations with at least one enabled agent that polled recently
+ */
+export async function getActiveProbeLocations(): Promise<string[]> {
+  const { data: agents, error } = await getSupabaseAdmin()
+    .from('probe_agents')
+    .select('location')
+    .eq('enabled', true)
+    .gte('last_seen_at', new Date(Date.now() - PROBE_STALE_AFTER_MS).toISOString())
+
+  if (error) throw error
+
+  return Array.from(new Set((agents || []).map(a => a.location)))
+    .filter(location => location !== PRIMARY_LOCATION)
+}
+
+/**
+ * Open a check round holding the primary result and queue jobs for remote locations
+ */
+export async function startCheckRound(
+  monitorId: string,
+  localResult: LocationCheckResult,
+  remoteLocations: string[]
+): Promise<string> {
+  const supabaseAdmin = getSupabaseAdmin()
+  const now = Date.now()
+
+  const { data: round, error } = await supabaseAdmin
+    .from('check_rounds')
+    .insert({
+      monitor_id: monitorId,
+      started_at: new Date(now).toISOString(),
+      expires_at: new Date(now + CHECK_ROUND_TIMEOUT_MS).toISOString(),
+      locations: [localResult.location, ...remoteLocations],
+      local_result: localResult
+    })
+    .select('id')
+    .single()
+
+  if (error) throw error
+
+  const { error: jobsError } = await supabaseAdmin
+    .from('probe_jobs')
+    .insert(remoteLocations.map(location => ({
+      round_id: round.id,
+      monitor_id: monitorId,
+      location
+    })))
+
+  if (jobsError) throw jobsError
+
+  // The round counts as the monitor's check, so later cron runs do not find it
+  // due again while the agents are still reporting
+  const { error: monitorError } = await supabaseAdmin
+    .from('monitors')
+    .update({ last_checked: new Date(now).toISOString() })
+    .eq('id', monitorId)
+
+  if (monitorError) throw monitorError
+
+  return round.id
+}
+
+/**
+ * Monitors with a check round still waiting for its agents
+ */
+export async function getMonitorsWithOpenRounds(): Promise<Set<string>> {
+  const { data: rounds, error } = await getSupabaseAdmin()
+    .from('check_rounds')
+    .select('monitor_id')
+    .is('completed_at', null)
+
+  if (error) throw error
+
+  return new Set((rounds || []).map(round => round.monitor_id as string))
+}
+
+/**
+ * Claim pending jobs for an agent and attach the monitor configuration to each
+ */
+export async function claimProbeJobs(agent: ProbeAgent, limit: number) {
+  const supabaseAdmin = getSupabaseAdmin()
+
+  const { data: jobs, error } = await supabaseAdmin.rpc('claim_probe_jobs', {
+    p_agent_id: agent.id,
+    p_location: agent.location,
+    p_limit: limit
+  })
+
+  if (error) throw error
+  if (!jobs || jobs.length === 0) return []
+
+  const { data: monitors, error: monitorsError } = await supabaseAdmin
+    .from('monitors')
+    .select('id, url, monitor_type, port_number, request_method, request_headers, request_body, auth_type, auth_username, auth_password, auth_token, expected_status_codes, assertions, keyword_check, dns_record_type, dns_resolver, dns_expected_values, dns_match_mode')
+    .in('id', Array.from(new Set((jobs as ProbeJob[]).map(job => job.monitor_id))))
+
+  if (monitorsError) throw monitorsError
+
+  const monitorsById = new Map((monitors || []).map(m => [m.id, decryptMonitorSecrets(m) as MonitorCheckTarget]))
+
+  return (jobs as ProbeJob[])
+    .filter(job => monitorsById.has(job.monitor_id))
+    .map(job => ({
+      job_id: job.id,
+      monitor: monitorsById.get(job.monitor_id)!
+    }))
+}
+
+/**
+ * Store results posted by an agent and evaluate any rounds they complete
+ */
+export async function recordProbeResults(
+  agent: ProbeAgent,
+  results: Array<MonitorCheckResult & { job_id: string }>
+): Promise<{ accepted: number; rejected: string[] }> {
+  const supabaseAdmin = getSupabaseAdmin()
+  const rejected: string[] = []
+  const touchedRounds = new Set<string>()
+
+  for (const result of results) {
+    const checkResult: MonitorCheckResult = {
+      status: result.status,
+      response_time: result.response_time,
+      status_code: result.status_code ?? null,
+      error_message: result.error_message ?? null
+    }
+
+    // Phase timings from older agents are absent; anything that is not a
+    // duration is dropped rather than stored
+    HTTP_PHASES.forEach(phase => {
+      const value = result[phase]
+      if (typeof value === 'number' && isFinite(value) && value >= 0) {
+        checkResult[phase] = Math.round(value)
+      }
+    })
+
+    if (Array.isArray(result.dns_values) && result.dns_values.every(value => typeof value === 'string')) {
+      checkResult.dns_values = result.dns_values.slice(0, MAX_PROBE_DNS_VALUES)
+    }
+
+    const { data: job } = await supabaseAdmin
+      .from('probe_jobs')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        result: checkResult
+      })
+      .eq('id', result.job_id)
+      .eq('claimed_by', agent.id)
+      .eq('status', 'claimed')
+      .select('id, round_id, monitor_id')
+      .single()
+
+    if (!job) {
+      rejected.push(result.job_id)
+      continue
+    }
+
+    await supabaseAdmin
+      .from('uptime_checks')
+      .insert({
+        monitor_id: job.monitor_id,
+        location: agent.location,
+        round_id: job.round_id,
+        probe_agent_id: agent.id,
+        ...checkResult
+      })
+
+    touchedRounds.add(job.round_id)
+  }
+
+  for (const roundId of Array.from(touchedRounds)) {
+    const { count } = await supabaseAdmin
+      .from('probe_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('round_id', roundId)
+      .in('status', ['pending', 'claimed'])
+
+    if (count === 0) {
+      await completeCheckRound(roundId)
+    }
+  }
+
+  return { accepted: results.length - rejected.length, rejected }
+}
+
+/**
+ * Evaluate rounds whose remote jobs did not all report before the timeout
+ */
+export async function completeExpiredRounds(): Promise<number> {
+  const { data: rounds, error } = await getSupabaseAdmin()
+    .from('check_rounds')
+    .select('id')
+    .is('completed_at', null)
+    .lt('expires_at', new Date().toISOString())
+
+  if (error) throw error
+
+  let completed = 0
+  for (const round of rounds || []) {
+    if (await completeCheckRound(round.id)) {
+      completed++
+    }
+  }
+  return completed
+}
+
+/**
+ * Close a round exactly once and evaluate the monitor status from its results.
+ * Returns false if another caller already completed it.
+ */
+async function completeCheckRound(roundId: string): Promise<boolean> {
+  const supabaseAdmin = getSupabaseAdmin()
+
+  const { data: round } = await supabaseAdmin
+    .from('check_rounds')
+    .update({ completed_at: new Date().toISOString() })
+    .eq('id', roundId)
+    .is('completed_at', null)
+    .select('id, monitor_id, local_result')
+    .single()
+
+  if (!round) {
+    return false
+  }
+
+  // Anything still outstanding missed the round
+  await supabaseAdmin
+    .from('probe_jobs')
+    .update({ status: 'expired' })
+    .eq('round_id', roundId)
+    .in('status', ['pending', 'claimed'])
+
+  const { data: jobs } = await supabaseAdmin
+    .from('probe_jobs')
+    .select('location, result')
+    .eq('round_id', roundId)
+    .eq('status', 'completed')
+
+  const { data: monitor } = await supabaseAdmin
+    .from('monitors')
+    .select('*')
+    .eq('id', round.monitor_id)
+    .single()
+
+  if (!monitor) {
+    return true
+  }
+
+  // A window that started while the round was open suppresses its evaluation
+  if (await getActiveMaintenance(monitor)) {
+    cronLogger.info(`Skipping evaluation of round ${roundId} during maintenance`, { monitorId: monitor.id })
+    return true
+  }
+
+  const locationResults: LocationCheckResult[] = [
+    round.local_result,
+    ...(jobs || []).map(job => ({ location: job.location, ...job.result }))
+  ]
+
+  try {
+    await evaluateCheckResults(monitor, locationResults)
+  } catch (error) {
+    cronLogger.error(`Failed to evaluate check round ${roundId}`, error as Error, { monitorId: monitor.id })
+  }
+
+  return true
+}
@@ -0,0 +1,111 @@
+// Check scheduling: decides which monitors are due on a given cron tick
+
+export const MIN_CHECK_INTERVAL_SECONDS = 30
+export const MAX_CHECK_INTERVAL_SECONDS = 3600
+export const DEFAULT_CHECK_INTERVAL_SECONDS = 300
+
+// Intervals offered in the dashboard (seconds)
+export const CHECK_INTERVAL_OPTIONS = [30, 60, 120, 300, 600, 900, 1800, 3600]
+
+export interface SchedulableMonitor {
+  id: string
+  check_interval?: number | null // minutes (legacy column)
+  check_interval_seconds?: number | null
+  last_checked?: string | null
+}
+
+export interface ScheduledCheck<T extends SchedulableMonitor> {
+  monitor: T
+  runAt: Date
+  intervalSeconds: number
+}
+
+/**
+ * Resolve a monitor's check interval in seconds, clamped to the supported range.
+ * `check_interval_seconds` takes precedence over the legacy minutes column.
+ */
+export function getCheckIntervalSeconds(monitor: SchedulableMonitor): number {
+  let seconds = DEFAULT_CHECK_INTERVAL_SECONDS
+
+  if (monitor.check_interval_seconds && monitor.check_interval_seconds > 0) {
+    seconds = monitor.check_interval_seconds
+  } else if (monitor.check_interval && monitor.check_interval > 0) {
+    seconds = monitor.check_interval * 60
+  }
+
+  return Math.min(MAX_CHECK_INTERVAL_SECONDS, Math.max(MIN_CHECK_INTERVAL_SECONDS, Math.round(seconds)))
+}
+
+/**
+ * Validate a requested check interval (seconds). Returns an error message or null.
+ */
+export function validateCheckInterval(seconds: unknown): string | null {
+  if (typeof seconds !== 'number' || !Number.isInteger(seconds)) {
+    return 'Check interval must be a whole number of seconds'
+  }
+  if (seconds < MIN_CHECK_INTERVAL_SECONDS || seconds > MAX_CHECK_INTERVAL_SECONDS) {
+    return `Check interval must be between ${MIN_CHECK_INTERVAL_SECONDS} seconds and ${MAX_CHECK_INTERVAL_SECONDS / 60} minutes`
+  }
+  return null
+}
+
+/**
+ * Stable per-monitor phase offset within its interval. Hashing the monitor id
+ * spreads monitors sharing an interval evenly instead of bursting at :00.
+ */
+export function getScheduleOffsetMs(monitorId: string, intervalMs: number): number {
+  // FNV-1a
+  let hash = 0x811c9dc5
+  for (let i = 0; i < monitorId.length; i++) {
+    hash ^= monitorId.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash % intervalMs
+}
+
+/**
+ * Plan the checks that fall inside the window [now, now + windowMs).
+ *
+ * Each monitor is checked on fixed slots `k * interval + offset`. A monitor that
+ * missed its latest slot (or was never checked) runs immediately; further slots
+ * inside the window are scheduled at their exact time, so an interval shorter
+ * than the cron tick yields several checks per tick.
+ */
+export function scheduleDueChecks<T extends SchedulableMonitor>(
+  monitors: T[],
+  now: Date,
+  windowMs: number
+): ScheduledCheck<T>[] {
+  const nowMs = now.getTime()
+  const windowEnd = nowMs + windowMs
+  const scheduled: ScheduledCheck<T>[] = []
+
+  for (const monitor of monitors) {
+    const intervalSeconds = getCheckIntervalSeconds(monitor)
+    const intervalMs = intervalSeconds * 1000
+    const offsetMs = getScheduleOffsetMs(monitor.id, intervalMs)
+
+    const latestSlot = Math.floor((nowMs - offsetMs) / intervalMs) * intervalMs + offsetMs
+    const lastChecked = monitor.last_checked ? new Date(monitor.last_checked).getTime() : null
+
+    if (lastChecked === null || lastChecked < latestSlot) {
+      scheduled.push({ monitor, runAt: new Date(nowMs), intervalSeconds })
+    }
+
+    for (let slot = latestSlot + intervalMs; slot < windowEnd; slot += intervalMs) {
+      scheduled.push({ monitor, runAt: new Date(slot), intervalSeconds })
+    }
+  }
+
+  return scheduled.sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+}
+
+/**
+ * Next time a monitor is expected to be checked.
+ */
+export function getNextCheckAt(monitor: SchedulableMonitor, now: Date = new Date()): Date {
+  const intervalMs = getCheckIntervalSeconds(monitor) * 1000
+  const offsetMs = getScheduleOffsetMs(monitor.id, intervalMs)
+  const nextSlot = (Math.floor((now.getTime() - offsetMs) / intervalMs) + 1) * intervalMs + offsetMs
+  return new Date(nextSlot)
+}
@@ -0,0 +1,99 @@
+// Server-side session helpers for API routes and server components
+import { createServerClient, type CookieOptions } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import type { User } from '@supabase/supabase-js'
+import { resolveWorkspace, getMonitorRole, hasTeamRole, type TeamRole, type Workspace } from './teams'
+
+// Selected team workspace; absent means the personal workspace
+export const CURRENT_TEAM_COOKIE = 'current_team'
+
+/**
+ * Supabase client bound to the request's auth cookies, mirroring middleware.ts.
+ * Cookie writes only succeed in route handlers; server components ignore them.
+ */
+export function createSessionClient() {
+  const cookieStore = cookies()
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          try {
+            cookieStore.set({ name, value, ...options })
+          } catch {
+            // Called from a server component; middleware refreshes the session
+          }
+        },
+        remove(name: string, options: CookieOptions) {
+          try {
+            cookieStore.set({ name, value: '', ...options })
+          } catch {
+            // Called from a server component; middleware refreshes the session
+          }
+        },
+      },
+    }
+  )
+}
+
+/**
+ * Resolve the signed-in user for the current request. getUser() verifies the
+ * JWT with Supabase Auth rather than trusting the cookie contents.
+ */
+export async function getSessionUser(): Promise<User | null> {
+  const supabase = createSessionClient()
+  const { data: { user }, error } = await supabase.auth.getUser()
+
+  if (error || !user) {
+    return null
+  }
+
+  return user
+}
+
+/**
+ * The workspace the caller has selected with the team switcher. A stale
+ * selection (left the team, team deleted) falls back to the personal workspace.
+ */
+export async function getWorkspace(user: User): Promise<Workspace> {
+  return resolveWorkspace(user.id, cookies().get(CURRENT_TEAM_COOKIE)?.value)
+}
+
+export function unauthorizedResponse() {
+  return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+}
+
+export function forbiddenResponse(required: TeamRole) {
+  return NextResponse.json({ error: `This action requires the ${required} role` }, { status: 403 })
+}
+
+export function monitorNotFoundResponse() {
+  return NextResponse.json({ error: 'Monitor not found' }, { status: 404 })
+}
+
+/**
+ * Check the caller's access to a monitor. Monitors the caller cannot see at
+ * all get 404, so IDs owned by other accounts are not disclosed; visible
+ * monitors where the caller's role is too low get 403.
+ */
+export async function authorizeMonitor(
+  monitorId: string,
+  userId: string,
+  required: TeamRole = 'viewer'
+): Promise<{ role: TeamRole; response?: never } | { role?: never; response: NextResponse }> {
+  const role = await getMonitorRole(monitorId, userId)
+
+  if (!role) {
+    return { response: monitorNotFoundResponse() }
+  }
+  if (!hasTeamRole(role, required)) {
+    return { response: forbiddenResponse(required) }
+  }
+  return { role }
+}
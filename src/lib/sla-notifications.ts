@@ -3,6 +3,7 @@ import { Monitor } from '@/types'
 import { SLACalculation, SLA_TARGETS, calculateMultipleSLAs, detectSLABreaches, getDateRangeForPeriod, formatSLAPercentage, formatDowntime } from '@/lib/sla'
 import { sendNotifications } from '@/lib/notifications'
 import { supabaseAdmin } from '@/lib/supabase'
+import { fetchMaintenanceWindows, findActivePeriod, getMaintenancePeriods } from '@/lib/maintenance'
 
 interface SLABreachNotificationData {
   monitorName: string
@@ -19,6 +20,13 @@ export async function checkAndNotifySLABreaches(monitor: Monitor): Promise<void>
   try {
     // Get recent uptime checks for the monitor
     const { startDate, endDate } = getDateRangeForPeriod('monthly')
+
+    // No breach alerts during planned work; past maintenance is excluded from the SLA
+    const maintenanceWindows = await fetchMaintenanceWindows([monitor])
+    if (findActivePeriod(maintenanceWindows)) {
+      return
+    }
+    const maintenance = maintenanceWindows.flatMap(window => getMaintenancePeriods(window, startDate, endDate))
     
     const { data: checks, error } = await supabaseAdmin!
       .from('uptime_checks')
@@ -33,11 +41,13 @@ export async function checkAndNotifySLABreaches(monitor: Monitor): Promise<void>
       return
     }
 
-    // Get incident data for accurate downtime calculation
+    // Get incident data for accurate downtime calculation (degraded
+    // incidents are slow but up, so they are not downtime)
     const { data: incidents, error: incidentsError } = await supabaseAdmin!
       .from('incidents')
       .select('started_at, ended_at, duration_minutes, resolved')
       .eq('monitor_id', monitor.id)
+      .neq('incident_type', 'degraded')
       .gte('started_at', startDate.toISOString())
       .lte('started_at', endDate.toISOString())
       .order('started_at', { ascending: true })
@@ -57,7 +67,8 @@ export async function checkAndNotifySLABreaches(monitor: Monitor): Promise<void>
       'monthly',
       startDate,
       endDate,
-      incidents || []
+      incidents || [],
+      maintenance
     )
 
     // Detect breaches
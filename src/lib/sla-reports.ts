@@ -0,0 +1,58 @@
+// Server-side SLA reports: loads a monitor's checks and planned maintenance
+// for a date range and runs the calculations in ./sla
+
+import { getSupabaseAdmin } from './supabase'
+import { calculateMultipleSLAs, generateSLAReport, TIME_PERIODS, type SLATarget } from './sla'
+import { getMonitorMaintenancePeriods, type MaintenanceTarget } from './maintenance'
+
+export interface SLAReportMonitor extends MaintenanceTarget {
+  name: string
+  url: string
+}
+
+/**
+ * Build the SLA report for a monitor over a date range. Planned maintenance
+ * is excluded from the SLA.
+ */
+export async function getMonitorSLAReport(
+  monitor: SLAReportMonitor,
+  targets: SLATarget[],
+  period: keyof typeof TIME_PERIODS,
+  startDate: Date,
+  endDate: Date
+) {
+  const { data: checks, error } = await getSupabaseAdmin()
+    .from('uptime_checks')
+    .select('status, checked_at, response_time')
+    .eq('monitor_id', monitor.id)
+    .gte('checked_at', startDate.toISOString())
+    .lte('checked_at', endDate.toISOString())
+    .order('checked_at', { ascending: true })
+
+  if (error) throw error
+
+  const maintenance = await getMonitorMaintenancePeriods(monitor, startDate, endDate)
+
+  const calculations = calculateMultipleSLAs(
+    checks || [],
+    targets,
+    period,
+    startDate,
+    endDate,
+    undefined,
+    maintenance
+  )
+
+  return {
+    ...generateSLAReport(monitor.id, monitor.name, calculations),
+    metadata: {
+      period,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      totalChecks: checks?.length || 0,
+      maintenancePeriods: maintenance.length,
+      monitorUrl: monitor.url,
+      calculatedAt: new Date().toISOString()
+    }
+  }
+}
@@ -82,17 +82,50 @@ export function calculateAllowedDowntime(target: SLATarget, period: keyof typeof
   return Math.floor(downtimeAllowed)
 }
 
+// Planned maintenance excluded from SLA figures
+export type ExcludedPeriod = { start: Date; end: Date }
+
+/**
+ * Minutes of [start, end) covered by the periods, counting overlaps once
+ */
+export function getCoveredMinutes(periods: ExcludedPeriod[], start: number, end: number): number {
+  const clipped = periods
+    .map(p => [Math.max(p.start.getTime(), start), Math.min(p.end.getTime(), end)])
+    .filter(([s, e]) => e > s)
+    .sort((a, b) => a[0] - b[0])
+
+  let totalMs = 0
+  let cursor = -Infinity
+  for (const [s, e] of clipped) {
+    const from = Math.max(s, cursor)
+    if (e > from) {
+      totalMs += e - from
+      cursor = e
+    }
+  }
+  return totalMs / (1000 * 60)
+}
+
 /**
  * Calculate SLA compliance for a given period
  */
 export function calculateSLA(
-  checks: Array<{ status: string; checked_at: string; response_time?: number }>,
+  allChecks: Array<{ status: string; checked_at: string; response_time?: number }>,
   target: SLATarget,
   period: keyof typeof TIME_PERIODS,
   startDate: Date,
   endDate: Date,
-  incidents?: Array<{ started_at: string; ended_at?: string; duration_minutes?: number; resolved: boolean }>
+  incidents?: Array<{ started_at: string; ended_at?: string; duration_minutes?: number; resolved: boolean }>,
+  maintenance: ExcludedPeriod[] = []
 ): SLACalculation {
+  // Checks taken during maintenance count neither as up nor down
+  const checks = allChecks.filter(check => {
+    if (check.status === 'maintenance') return false
+    const checkedAt = new Date(check.checked_at)
+    return !maintenance.some(p => p.start <= checkedAt && checkedAt < p.end)
+  })
+  const maintenanceMinutes = getCoveredMinutes(maintenance, startDate.getTime(), endDate.getTime())
+
   const totalChecks = checks.length
   const upChecks = checks.filter(check => check.status === 'up').length
   const downChecks = totalChecks - upChecks
@@ -106,29 +139,32 @@ export function calculateSLA(
   if (incidents && incidents.length > 0) {
     // Use real incident data for accurate downtime calculation
     actualDowntime = incidents.reduce((total, incident) => {
+      const start = new Date(incident.started_at).getTime()
+      let end: number
       if (incident.duration_minutes) {
-        return total + incident.duration_minutes
+        end = start + incident.duration_minutes * 60 * 1000
       } else if (incident.ended_at) {
         // Calculate duration from start/end times
-        const start = new Date(incident.started_at).getTime()
-        const end = new Date(incident.ended_at).getTime()
-        return total + (end - start) / (1000 * 60)
+        end = new Date(incident.ended_at).getTime()
       } else if (!incident.resolved) {
         // Ongoing incident - calculate from start to now
-        const start = new Date(incident.started_at).getTime()
-        const now = Math.min(Date.now(), endDate.getTime())
-        return total + (now - start) / (1000 * 60)
+        end = Math.min(Date.now(), endDate.getTime())
+      } else {
+        return total
       }
-      return total
+      // Downtime inside a maintenance window does not count
+      return total + (end - start) / (1000 * 60) - getCoveredMinutes(maintenance, start, end)
     }, 0)
   } else {
     // Fallback: estimate downtime based on check frequency
-    const periodMinutes = (endDate.getTime() - startDate.getTime()) / (1000 * 60)
-    actualDowntime = (downChecks / totalChecks) * periodMinutes
+    const periodMinutes = (endDate.getTime() - startDate.getTime()) / (1000 * 60) - maintenanceMinutes
+    actualDowntime = totalChecks > 0 ? (downChecks / totalChecks) * periodMinutes : 0
   }
 
-  // Calculate allowed downtime
-  const allowedDowntime = calculateAllowedDowntime(target, period)
+  // Calculate allowed downtime over the time outside maintenance
+  const allowedDowntime = maintenanceMinutes > 0
+    ? Math.floor((TIME_PERIODS[period] - maintenanceMinutes) * (1 - target.percentage / 100))
+    : calculateAllowedDowntime(target, period)
 
   // Calculate remaining budget
   const remainingBudget = allowedDowntime - actualDowntime
@@ -169,14 +205,15 @@ export function calculateMultipleSLAs(
   period: keyof typeof TIME_PERIODS,
   startDate?: Date,
   endDate?: Date,
-  incidents?: Array<{ started_at: string; ended_at?: string; duration_minutes?: number; resolved: boolean }>
+  incidents?: Array<{ started_at: string; ended_at?: string; duration_minutes?: number; resolved: boolean }>,
+  maintenance: ExcludedPeriod[] = []
 ): SLACalculation[] {
   const { startDate: start, endDate: end } = startDate && endDate 
     ? { startDate, endDate }
     : getDateRangeForPeriod(period)
 
   return targets.map(target => 
-    calculateSLA(checks, target, period, start, end, incidents)
+    calculateSLA(checks, target, period, start, end, incidents, maintenance)
   )
 }
 
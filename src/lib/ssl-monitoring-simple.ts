@@ -13,15 +13,8 @@ export interface SSLCheckResult {
   error_message: string | null
 }
 
-export interface DomainCheckResult {
-  domain_valid: boolean
-  expires_at: string | null
-  days_until_expiry: number | null
-  registrar: string | null
-  name_servers: string[]
-  warning_level: 'none' | 'warning' | 'critical'
-  error_message: string | null
-}
+// Domain checks have a single implementation, with RDAP and WHOIS lookups
+export { checkDomainExpiration, type DomainCheckResult } from './ssl-monitoring'
 
 export async function checkSSLCertificate(hostname: string, port: number = 443): Promise<SSLCheckResult> {
   try {
@@ -103,46 +96,6 @@ export async function checkSSLCertificate(hostname: string, port: number = 443):
   }
 }
 
-export async function checkDomainExpiration(domain: string): Promise<DomainCheckResult> {
-  try {
-    const dns = require('dns').promises
-    
-    try {
-      const nameservers = await dns.resolveNs(domain)
-      
-      return {
-        domain_valid: true,
-        expires_at: null, // Requires WHOIS API
-        days_until_expiry: null,
-        registrar: null, // Requires WHOIS API
-        name_servers: nameservers,
-        warning_level: 'none',
-        error_message: 'Domain expiration check requires WHOIS API integration'
-      }
-    } catch (error: any) {
-      return {
-        domain_valid: false,
-        expires_at: null,
-        days_until_expiry: null,
-        registrar: null,
-        name_servers: [],
-        warning_level: 'critical',
-        error_message: error.message || 'Domain lookup failed'
-      }
-    }
-  } catch (error: any) {
-    return {
-      domain_valid: false,
-      expires_at: null,
-      days_until_expiry: null,
-      registrar: null,
-      name_servers: [],
-      warning_level: 'critical',
-      error_message: error.message || 'Domain check failed'
-    }
-  }
-}
-
 export function extractDomainFromUrl(url: string): string {
   try {
     const urlObj = new URL(url)
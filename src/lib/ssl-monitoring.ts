@@ -1,5 +1,7 @@
 import * as tls from 'tls'
 import * as crypto from 'crypto'
+import { lookupDomainRegistration, DomainNotFoundError } from './domain-lookup'
+import { getDaysUntilExpiry, PROBLEM_DOMAIN_STATUSES } from './domain-expiry'
 
 export interface SSLCheckResult {
   certificate_valid: boolean
@@ -14,11 +16,14 @@ export interface SSLCheckResult {
 }
 
 export interface DomainCheckResult {
+  domain: string | null // the registered domain, e.g. example.co.uk for www.example.co.uk
   domain_valid: boolean
   expires_at: string | null
   days_until_expiry: number | null
   registrar: string | null
   name_servers: string[]
+  status_codes: string[] // EPP status codes, e.g. clientTransferProhibited, clientHold
+  lookup_source: 'rdap' | 'whois' | null
   warning_level: 'none' | 'warning' | 'critical'
   error_message: string | null
 }
@@ -147,115 +152,48 @@ export async function checkSSLCertificate(hostname: string, port: number = 443):
   })
 }
 
-export async function checkDomainExpiration(domain: string): Promise<DomainCheckResult> {
+/**
+ * Registration expiry, registrar, EPP statuses and nameservers for the
+ * domain a hostname belongs to, from RDAP or WHOIS
+ */
+export async function checkDomainExpiration(hostname: string): Promise<DomainCheckResult> {
   try {
-    const whoisJson = require('whois-json')
-    const dns = require('dns').promises
-    
-    // Get nameservers via DNS
-    let nameservers: string[] = []
-    try {
-      nameservers = await dns.resolveNs(domain)
-    } catch {
-      // Continue with WHOIS even if DNS fails
+    const registration = await lookupDomainRegistration(hostname)
+    const daysUntilExpiry = getDaysUntilExpiry(registration.expires_at)
+    const problemStatuses = registration.status_codes.filter(status => PROBLEM_DOMAIN_STATUSES.includes(status))
+
+    let warningLevel: 'none' | 'warning' | 'critical' = 'none'
+    if (problemStatuses.length > 0 || (daysUntilExpiry !== null && daysUntilExpiry <= 7)) {
+      warningLevel = 'critical'
+    } else if (daysUntilExpiry !== null && daysUntilExpiry <= 30) {
+      warningLevel = 'warning'
     }
-    
-    try {
-      // Perform WHOIS lookup
-      const whoisData = await whoisJson(domain)
-      
-      if (!whoisData) {
-        return {
-          domain_valid: false,
-          expires_at: null,
-          days_until_expiry: null,
-          registrar: null,
-          name_servers: nameservers,
-          warning_level: 'critical',
-          error_message: 'No WHOIS data found for domain'
-        }
-      }
-      
-      // Extract expiration date - try multiple common field names
-      let expirationDate: Date | null = null
-      const expirationFields = [
-        'registryExpiryDate',
-        'registrarExpirationDate', 
-        'expirationDate',
-        'expiry',
-        'expires',
-        'expiryDate',
-        'registrar_registration_expiration_date',
-        'registry_expiry_date'
-      ]
-      
-      for (const field of expirationFields) {
-        const value = whoisData[field]
-        if (value) {
-          const date = new Date(value)
-          if (!isNaN(date.getTime())) {
-            expirationDate = date
-            break
-          }
-        }
-      }
-      
-      // Extract registrar - try multiple common field names
-      let registrar: string | null = null
-      const registrarFields = ['registrar', 'registrarName', 'sponsoring_registrar']
-      for (const field of registrarFields) {
-        if (whoisData[field]) {
-          registrar = whoisData[field]
-          break
-        }
-      }
-      
-      // Calculate days until expiry
-      let daysUntilExpiry: number | null = null
-      let warningLevel: 'none' | 'warning' | 'critical' = 'none'
-      
-      if (expirationDate) {
-        const now = new Date()
-        daysUntilExpiry = Math.floor((expirationDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
-        
-        // Set warning levels
-        if (daysUntilExpiry <= 7) {
-          warningLevel = 'critical'
-        } else if (daysUntilExpiry <= 30) {
-          warningLevel = 'warning'
-        }
-      }
-      
-      return {
-        domain_valid: true,
-        expires_at: expirationDate ? expirationDate.toISOString() : null,
-        days_until_expiry: daysUntilExpiry,
-        registrar: registrar,
-        name_servers: nameservers,
-        warning_level: warningLevel,
-        error_message: expirationDate ? null : 'Could not parse domain expiration date from WHOIS data'
-      }
-      
-    } catch (whoisError: any) {
-      // Fallback: if WHOIS fails, still return nameserver info
-      return {
-        domain_valid: nameservers.length > 0,
-        expires_at: null,
-        days_until_expiry: null,
-        registrar: null,
-        name_servers: nameservers,
-        warning_level: 'none',
-        error_message: `WHOIS lookup failed: ${whoisError.message}`
-      }
+
+    return {
+      domain: registration.domain,
+      domain_valid: problemStatuses.length === 0 && (daysUntilExpiry === null || daysUntilExpiry >= 0),
+      expires_at: registration.expires_at,
+      days_until_expiry: daysUntilExpiry,
+      registrar: registration.registrar,
+      name_servers: registration.name_servers,
+      status_codes: registration.status_codes,
+      lookup_source: registration.source,
+      warning_level: warningLevel,
+      error_message: registration.expires_at ? null : `The ${registration.source.toUpperCase()} record has no expiration date`
     }
   } catch (error: any) {
+    const notFound = error instanceof DomainNotFoundError
     return {
+      domain: null,
       domain_valid: false,
       expires_at: null,
       days_until_expiry: null,
       registrar: null,
       name_servers: [],
-      warning_level: 'critical',
+      status_codes: [],
+      lookup_source: null,
+      // A lookup that failed says nothing about the domain; one that found no registration does
+      warning_level: notFound ? 'critical' : 'none',
       error_message: error.message || 'Domain check failed'
     }
   }
@@ -0,0 +1,111 @@
+// Middleware routing for status pages: custom domains (Host header) and
+// password protection. Runs in the edge runtime.
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { getSupabaseAdmin } from './supabase'
+import { getStatusPageCookieName, verifyStatusPageSession } from './status-page-session'
+
+interface StatusPageAccessInfo {
+  id: string
+  slug: string
+  password_protected: boolean
+  password_updated_at: string | null
+}
+
+const STATUS_PAGE_PATH = /^\/s\/([^/]+)(\/unlock)?\/?$/
+const STATUS_PAGE_API_PATH = /^\/api\/public\/status-pages\/([^/]+)(\/unlock)?\/?$/
+
+/**
+ * Hosts other than the app's own (and local/preview hosts) may be status page custom domains
+ */
+function isPossibleCustomDomain(host: string): boolean {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL
+  if (!appUrl || !host) return false
+  if (host === new URL(appUrl).hostname) return false
+  return host !== 'localhost' && host !== '127.0.0.1' && !host.endsWith('.vercel.app')
+}
+
+async function findStatusPage(column: 'slug' | 'custom_domain', value: string): Promise<StatusPageAccessInfo | null> {
+  let query = getSupabaseAdmin()
+    .from('status_pages')
+    .select('id, slug, password_protected, password_updated_at')
+    .eq(column, value.toLowerCase())
+
+  // A domain routes to a page only once its owner has verified it
+  if (column === 'custom_domain') {
+    query = query.not('custom_domain_verified_at', 'is', null)
+  }
+
+  const { data: page } = await query.single()
+  return page
+}
+
+async function hasAccess(req: NextRequest, page: StatusPageAccessInfo): Promise<boolean> {
+  if (!page.password_protected) return true
+  return verifyStatusPageSession(req.cookies.get(getStatusPageCookieName(page.id))?.value, page)
+}
+
+/**
+ * Route a request that targets a status page. Returns null for requests that
+ * are not status page traffic, so the regular middleware handles them.
+ */
+export async function routeStatusPageRequest(req: NextRequest): Promise<NextResponse | null> {
+  const host = (req.headers.get('host') || '').split(':')[0].toLowerCase()
+  const pathname = req.nextUrl.pathname
+
+  if (isPossibleCustomDomain(host)) {
+    const page = await findStatusPage('custom_domain', host)
+    if (page) {
+      return routeCustomDomain(req, page, pathname)
+    }
+  }
+
+  const match = STATUS_PAGE_PATH.exec(pathname) || STATUS_PAGE_API_PATH.exec(pathname)
+  if (!match) return null
+
+  const page = await findStatusPage('slug', decodeURIComponent(match[1]))
+  // Unknown slugs fall through to the page, which renders a 404
+  if (!page) return NextResponse.next()
+
+  const isUnlock = !!match[2]
+  if (isUnlock || await hasAccess(req, page)) {
+    return NextResponse.next()
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Password required' }, { status: 401 })
+  }
+  return NextResponse.redirect(new URL(`/s/${page.slug}/unlock`, req.url))
+}
+
+/**
+ * On a custom domain `/` is the page and `/unlock` its password form; the page's
+ * own API stays reachable for refreshes. Nothing else from the app is served.
+ */
+async function routeCustomDomain(req: NextRequest, page: StatusPageAccessInfo, pathname: string): Promise<NextResponse> {
+  const apiBase = `/api/public/status-pages/${page.slug}`
+
+  if (pathname === '/unlock') {
+    return NextResponse.rewrite(new URL(`/s/${page.slug}/unlock`, req.url))
+  }
+  if (pathname === `/s/${page.slug}/unlock` || pathname === `${apiBase}/unlock`) {
+    return NextResponse.next()
+  }
+
+  const isPage = pathname === '/' || pathname === `/s/${page.slug}`
+  const isApi = pathname === apiBase
+
+  if (!isPage && !isApi) {
+    return new NextResponse('Not found', { status: 404 })
+  }
+
+  if (!(await hasAccess(req, page))) {
+    return isApi
+      ? NextResponse.json({ error: 'Password required' }, { status: 401 })
+      : NextResponse.redirect(new URL('/unlock', req.url))
+  }
+
+  return isPage
+    ? NextResponse.rewrite(new URL(`/s/${page.slug}`, req.url))
+    : NextResponse.next()
+}
@@ -0,0 +1,93 @@
+// Signed session cookies for password-protected status pages.
+// Uses Web Crypto only so it runs in middleware (edge) as well as in routes.
+
+export const STATUS_PAGE_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60
+
+// A shorter secret could be brute-forced from a single signed cookie
+export const MIN_SESSION_SECRET_LENGTH = 32
+
+export function getStatusPageCookieName(pageId: string): string {
+  return `sp_session_${pageId}`
+}
+
+/**
+ * Whether sessions can be signed. Without a dedicated secret no session is
+ * issued or accepted, so protected pages stay locked.
+ */
+export function isStatusPageSessionConfigured(): boolean {
+  const secret = process.env.STATUS_PAGE_SESSION_SECRET
+  return !!secret && secret.length >= MIN_SESSION_SECRET_LENGTH
+}
+
+function getSessionSecret(): string {
+  if (!isStatusPageSessionConfigured()) {
+    throw new Error(`STATUS_PAGE_SESSION_SECRET must be set to at least ${MIN_SESSION_SECRET_LENGTH} characters`)
+  }
+  return process.env.STATUS_PAGE_SESSION_SECRET as string
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  let binary = ''
+  const view = new Uint8Array(bytes)
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i])
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+async function sign(payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return toBase64Url(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload)))
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+/**
+ * Issue a session token: `<pageId>.<issuedAt>.<expiresAt>.<signature>` (times in ms)
+ */
+export async function createStatusPageSession(pageId: string, now: Date = new Date()): Promise<string> {
+  const issuedAt = now.getTime()
+  const payload = `${pageId}.${issuedAt}.${issuedAt + STATUS_PAGE_SESSION_TTL_SECONDS * 1000}`
+  return `${payload}.${await sign(payload)}`
+}
+
+/**
+ * Whether a token unlocks the page. Tokens issued before the last password change are rejected.
+ */
+export async function verifyStatusPageSession(
+  token: string | undefined,
+  page: { id: string; password_updated_at?: string | null },
+  now: Date = new Date()
+): Promise<boolean> {
+  if (!token || !isStatusPageSessionConfigured()) return false
+
+  const parts = token.split('.')
+  if (parts.length !== 4) return false
+
+  const [pageId, issuedAtText, expiresAtText, signature] = parts
+  if (pageId !== page.id) return false
+
+  const expected = await sign(`${pageId}.${issuedAtText}.${expiresAtText}`)
+  if (!constantTimeEqual(signature, expected)) return false
+
+  if (Number(expiresAtText) <= now.getTime()) return false
+
+  if (page.password_updated_at && Number(issuedAtText) < new Date(page.password_updated_at).getTime()) {
+    return false
+  }
+
+  return true
+}
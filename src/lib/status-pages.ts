@@ -0,0 +1,547 @@
+// Multi-monitor status pages: validation and the public page payload
+// (component statuses, 90-day uptime bars, active incidents and maintenance)
+
+import crypto from 'crypto'
+import { promises as dns } from 'dns'
+import { promisify } from 'util'
+import { getSupabaseAdmin } from './supabase'
+import { attachIncidentUpdates } from './incidents'
+import { scopeToWorkspace } from './teams'
+import { fetchMaintenanceWindows, getMaintenancePeriods, windowAppliesTo, findActivePeriod } from './maintenance'
+import type { IncidentUpdate, IncidentSeverity } from '@/types'
+
+export const STATUS_PAGE_HISTORY_DAYS = 90
+
+// Upcoming maintenance is announced this far ahead
+export const MAINTENANCE_LOOKAHEAD_DAYS = 7
+
+export const MIN_STATUS_PAGE_PASSWORD_LENGTH = 8
+
+// Unlock attempts allowed per window, from one client and against one page.
+// Counted in memory, so each server instance keeps its own counts.
+const UNLOCK_ATTEMPT_WINDOW_MS = 15 * 60 * 1000
+const MAX_UNLOCK_ATTEMPTS_PER_IP = 20
+const MAX_UNLOCK_ATTEMPTS_PER_PAGE = 100
+
+const scryptAsync = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+const unlockAttempts = new Map<string, { count: number; resetAt: number }>()
+
+// A custom domain only serves its page once the owner has published this TXT
+// record, so nobody can claim a domain they do not control
+const CUSTOM_DOMAIN_RECORD_PREFIX = '_simple-uptime'
+const CUSTOM_DOMAIN_RECORD_VALUE_PREFIX = 'simple-uptime-verification='
+
+const SLUG_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/
+
+export interface StatusPageGroup {
+  name: string
+  monitor_ids: string[]
+}
+
+export interface StatusPage {
+  id: string
+  user_id?: string | null
+  team_id?: string | null
+  slug: string
+  title: string
+  description?: string | null
+  logo_url?: string | null
+  theme_color: string
+  monitors_to_show: string[]
+  component_groups: StatusPageGroup[]
+  show_uptime_percentage: boolean
+  show_response_times: boolean
+  public: boolean
+  password_protected?: boolean
+  password_updated_at?: string | null
+  custom_domain?: string | null
+  custom_domain_token?: string | null
+  custom_domain_verified_at?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+/** Row as stored, including the password hash that is never sent to clients */
+export type StatusPageRecord = StatusPage & { password_hash?: string | null }
+
+/** What the page's owners see: no password hash, plus the TXT record that verifies the custom domain */
+export type OwnerStatusPage = StatusPage & { custom_domain_record: { name: string; value: string } | null }
+
+export type ComponentStatus = 'operational' | 'degraded' | 'outage' | 'maintenance' | 'unknown'
+
+export type OverallStatus = 'operational' | 'degraded' | 'partial_outage' | 'major_outage' | 'maintenance'
+
+export interface StatusPageComponent {
+  id: string
+  name: string
+  status: ComponentStatus
+  response_time: number | null
+  uptime: number | null
+  daily: Array<{ date: string; uptime: number | null }>
+}
+
+export interface StatusPageIncident {
+  id: string
+  monitor_id: string
+  monitor_name: string
+  started_at: string
+  incident_type?: string
+  severity?: IncidentSeverity
+  public_message?: string | null
+  identified?: boolean
+  monitoring?: boolean
+  updates: IncidentUpdate[]
+}
+
+export interface StatusPageMaintenance {
+  window_id: string
+  name: string
+  description?: string | null
+  start: string
+  end: string
+  in_progress: boolean
+  components: string[]
+}
+
+export interface StatusPageData {
+  page: Pick<StatusPage, 'id' | 'slug' | 'title' | 'description' | 'logo_url' | 'theme_color' | 'show_uptime_percentage' | 'show_response_times'>
+  overall_status: OverallStatus
+  groups: Array<{ name: string | null; components: StatusPageComponent[] }>
+  incidents: StatusPageIncident[]
+  maintenance: StatusPageMaintenance[]
+  generated_at: string
+}
+
+/**
+ * Every monitor shown on the page, in display order and without duplicates
+ */
+export function getStatusPageMonitorIds(page: Pick<StatusPage, 'monitors_to_show' | 'component_groups'>): string[] {
+  const ids = [
+    ...(page.component_groups || []).flatMap(group => group.monitor_ids),
+    ...(page.monitors_to_show || [])
+  ]
+  return ids.filter((id, index) => ids.indexOf(id) === index)
+}
+
+/**
+ * Validate a create/update payload. Returns an error message or null.
+ */
+export function validateStatusPage(input: Partial<StatusPage>): string | null {
+  if (!input.title || typeof input.title !== 'string' || input.title.length > 100) {
+    return 'Title is required (max 100 characters)'
+  }
+
+  if (typeof input.slug !== 'string' || !SLUG_PATTERN.test(input.slug)) {
+    return 'Slug must be 1-63 lowercase letters, numbers or hyphens, and cannot start or end with a hyphen'
+  }
+
+  if (input.theme_color && !COLOR_PATTERN.test(input.theme_color)) {
+    return 'Theme color must be a hex color such as #2563eb'
+  }
+
+  if (input.logo_url) {
+    try {
+      const url = new URL(input.logo_url)
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        return 'Logo URL must use http or https'
+      }
+    } catch {
+      return 'Logo URL is invalid'
+    }
+  }
+
+  if (input.custom_domain) {
+    const domainError = validateCustomDomain(input.custom_domain)
+    if (domainError) return domainError
+  }
+
+  if (input.monitors_to_show !== undefined &&
+      (!Array.isArray(input.monitors_to_show) || input.monitors_to_show.some(id => typeof id !== 'string'))) {
+    return 'monitors_to_show must be an array of monitor IDs'
+  }
+
+  if (input.component_groups !== undefined) {
+    if (!Array.isArray(input.component_groups)) {
+      return 'component_groups must be an array'
+    }
+    for (const group of input.component_groups) {
+      if (!group || typeof group.name !== 'string' || !group.name.trim()) {
+        return 'Every component group needs a name'
+      }
+      if (!Array.isArray(group.monitor_ids) || group.monitor_ids.some(id => typeof id !== 'string')) {
+        return `Group "${group.name}" must list monitor IDs`
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validate a custom domain host name. Returns an error message or null.
+ */
+export function validateCustomDomain(domain: string): string | null {
+  if (!HOSTNAME_PATTERN.test(domain)) {
+    return 'Custom domain must be a host name such as status.example.com'
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL
+  if (appUrl && new URL(appUrl).hostname === domain) {
+    return 'Custom domain cannot be the app domain'
+  }
+
+  return null
+}
+
+/**
+ * Validate a new password for a page. A protected page needs either a stored
+ * hash or a new password; a blank password keeps the current one.
+ */
+export function validateStatusPagePassword(
+  password: unknown,
+  passwordProtected: boolean,
+  hasStoredPassword: boolean
+): string | null {
+  if (password !== undefined && password !== null && password !== '') {
+    if (typeof password !== 'string' || password.length < MIN_STATUS_PAGE_PASSWORD_LENGTH) {
+      return `Password must be at least ${MIN_STATUS_PAGE_PASSWORD_LENGTH} characters`
+    }
+    return null
+  }
+
+  if (passwordProtected && !hasStoredPassword) {
+    return 'A password is required to protect this status page'
+  }
+
+  return null
+}
+
+export function normalizeCustomDomain(domain: unknown): string | null {
+  return typeof domain === 'string' && domain.trim() ? domain.trim().toLowerCase() : null
+}
+
+/**
+ * Hash a status page password as `scrypt$<salt>$<hash>`
+ */
+export async function hashStatusPagePassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16)
+  const hash = await scryptAsync(password, salt, 64)
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`
+}
+
+export async function verifyStatusPagePassword(password: string, storedHash: string | null | undefined): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = (storedHash || '').split('$')
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false
+
+  const expected = Buffer.from(hashHex, 'hex')
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length)
+  return crypto.timingSafeEqual(actual, expected)
+}
+
+function consumeAttempt(key: string, limit: number, now: number): number | null {
+  const entry = unlockAttempts.get(key)
+  if (!entry || entry.resetAt <= now) {
+    unlockAttempts.set(key, { count: 1, resetAt: now + UNLOCK_ATTEMPT_WINDOW_MS })
+    return null
+  }
+  if (entry.count >= limit) {
+    return Math.ceil((entry.resetAt - now) / 1000)
+  }
+  entry.count++
+  return null
+}
+
+/**
+ * Count an unlock attempt against the client and the page. Returns the
+ * seconds to wait when either is over its limit, or null to go ahead.
+ */
+export function limitUnlockAttempt(pageId: string, clientIp: string): number | null {
+  const now = Date.now()
+
+  // Drop finished windows so the map stays bounded by recent clients
+  if (unlockAttempts.size > 10000) {
+    unlockAttempts.forEach((entry, key) => {
+      if (entry.resetAt <= now) unlockAttempts.delete(key)
+    })
+  }
+
+  return consumeAttempt(`ip:${clientIp}`, MAX_UNLOCK_ATTEMPTS_PER_IP, now) ??
+    consumeAttempt(`page:${pageId}`, MAX_UNLOCK_ATTEMPTS_PER_PAGE, now)
+}
+
+/**
+ * Page as returned to its owner: the password hash never leaves the server
+ */
+export function toOwnerStatusPage(page: StatusPageRecord): OwnerStatusPage {
+  const { password_hash, ...rest } = page
+  return { ...rest, custom_domain_record: getCustomDomainRecord(page) }
+}
+
+function getComponentStatus(monitorStatus: string | undefined, inMaintenance: boolean): ComponentStatus {
+  if (inMaintenance) return 'maintenance'
+  switch (monitorStatus) {
+    case 'up':
+      return 'operational'
+    case 'degraded':
+      return 'degraded'
+    case 'down':
+      return 'outage'
+    default:
+      return 'unknown'
+  }
+}
+
+export function getOverallStatus(components: StatusPageComponent[]): OverallStatus {
+  const known = components.filter(component => component.status !== 'unknown')
+  const outages = known.filter(component => component.status === 'outage').length
+
+  if (outages > 0) {
+    return outages === known.length ? 'major_outage' : 'partial_outage'
+  }
+  if (known.some(component => component.status === 'degraded')) return 'degraded'
+  if (known.some(component => component.status === 'maintenance')) return 'maintenance'
+  return 'operational'
+}
+
+/**
+ * Daily uptime per monitor for the last `days` UTC days, oldest first
+ */
+async function getDailyUptime(monitorIds: string[], days: number, now: Date) {
+  const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1)))
+
+  const { data: rows, error } = await getSupabaseAdmin().rpc('status_page_daily_uptime', {
+    p_monitor_ids: monitorIds,
+    p_since: since.toISOString()
+  })
+
+  if (error) throw error
+
+  const dates: string[] = []
+  for (let i = 0; i < days; i++) {
+    dates.push(new Date(since.getTime() + i * 24 * 60 * 60 * 1000).toISOString().split('T')[0])
+  }
+
+  const counts = new Map<string, { up: number; total: number }>()
+  for (const row of (rows || []) as Array<{ monitor_id: string; day: string; up_count: number; total_count: number }>) {
+    counts.set(`${row.monitor_id}:${row.day}`, { up: Number(row.up_count), total: Number(row.total_count) })
+  }
+
+  const result = new Map<string, { uptime: number | null; daily: Array<{ date: string; uptime: number | null }> }>()
+  for (const monitorId of monitorIds) {
+    let up = 0
+    let total = 0
+    const daily = dates.map(date => {
+      const count = counts.get(`${monitorId}:${date}`)
+      if (!count || count.total === 0) return { date, uptime: null }
+      up += count.up
+      total += count.total
+      return { date, uptime: (count.up / count.total) * 100 }
+    })
+    result.set(monitorId, { uptime: total > 0 ? (up / total) * 100 : null, daily })
+  }
+  return result
+}
+
+/**
+ * Everything the public page renders. Only monitors owned by the page owner are shown,
+ * and incidents expose their public updates rather than raw error causes.
+ */
+export async function getStatusPageData(page: StatusPage): Promise<StatusPageData> {
+  const supabaseAdmin = getSupabaseAdmin()
+  const now = new Date()
+  const monitorIds = getStatusPageMonitorIds(page)
+
+  // Only monitors from the page's own workspace are shown
+  const { data: monitorRows, error } = monitorIds.length > 0
+    ? await scopeToWorkspace(
+        supabaseAdmin.from('monitors').select('id, user_id, team_id, name, status, last_response_time').in('id', monitorIds),
+        { userId: page.user_id || '', teamId: page.team_id || null, role: 'viewer' }
+      )
+    : { data: [], error: null }
+
+  if (error) throw error
+
+  const monitors = monitorRows || []
+  const monitorsById = new Map(monitors.map(monitor => [monitor.id, monitor]))
+  const visibleIds = monitorIds.filter(id => monitorsById.has(id))
+
+  const [uptime, windows, openIncidents] = await Promise.all([
+    visibleIds.length > 0 ? getDailyUptime(visibleIds, STATUS_PAGE_HISTORY_DAYS, now) : Promise.resolve(new Map()),
+    fetchMaintenanceWindows(monitors),
+    visibleIds.length > 0
+      ? supabaseAdmin
+          .from('incidents')
+          .select('*')
+          .in('monitor_id', visibleIds)
+          .eq('resolved', false)
+          .order('started_at', { ascending: false })
+      : Promise.resolve({ data: [], error: null })
+  ])
+
+  if (openIncidents.error) throw openIncidents.error
+
+  const buildComponent = (id: string): StatusPageComponent => {
+    const monitor = monitorsById.get(id)!
+    const inMaintenance = !!findActivePeriod(windows.filter(window => windowAppliesTo(window, monitor)), now)
+    const history = uptime.get(id)
+    return {
+      id,
+      name: monitor.name,
+      status: getComponentStatus(monitor.status, inMaintenance),
+      response_time: page.show_response_times ? monitor.last_response_time ?? null : null,
+      uptime: history?.uptime ?? null,
+      daily: history?.daily || []
+    }
+  }
+
+  const grouped = new Set<string>()
+  const groups: StatusPageData['groups'] = (page.component_groups || []).map(group => ({
+    name: group.name,
+    components: group.monitor_ids
+      .filter(id => monitorsById.has(id) && !grouped.has(id))
+      .map(id => {
+        grouped.add(id)
+        return buildComponent(id)
+      })
+  })).filter(group => group.components.length > 0)
+
+  const ungrouped = visibleIds.filter(id => !grouped.has(id))
+  if (ungrouped.length > 0) {
+    groups.push({ name: null, components: ungrouped.map(buildComponent) })
+  }
+
+  const incidents = (await attachIncidentUpdates(openIncidents.data || [], true)).map(incident => ({
+    id: incident.id,
+    monitor_id: incident.monitor_id,
+    monitor_name: monitorsById.get(incident.monitor_id)?.name,
+    started_at: incident.started_at,
+    incident_type: incident.incident_type,
+    severity: incident.severity,
+    public_message: incident.public_message,
+    identified: incident.identified,
+    monitoring: incident.monitoring,
+    updates: incident.updates || []
+  }))
+
+  const lookahead = new Date(now.getTime() + MAINTENANCE_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000)
+  const maintenance: StatusPageMaintenance[] = []
+  for (const window of windows) {
+    const next = getMaintenancePeriods(window, now, lookahead)[0]
+    if (!next) continue
+    maintenance.push({
+      window_id: window.id,
+      name: window.name,
+      description: window.description,
+      start: next.start.toISOString(),
+      end: next.end.toISOString(),
+      in_progress: next.start <= now,
+      components: monitors.filter(monitor => windowAppliesTo(window, monitor)).map(monitor => monitor.name)
+    })
+  }
+  maintenance.sort((a, b) => a.start.localeCompare(b.start))
+
+  return {
+    page: {
+      id: page.id,
+      slug: page.slug,
+      title: page.title,
+      description: page.description,
+      logo_url: page.logo_url,
+      theme_color: page.theme_color,
+      show_uptime_percentage: page.show_uptime_percentage,
+      show_response_times: page.show_response_times
+    },
+    overall_status: getOverallStatus(groups.flatMap(group => group.components)),
+    groups,
+    incidents,
+    maintenance,
+    generated_at: now.toISOString()
+  }
+}
+
+export async function getStatusPageBySlug(slug: string): Promise<StatusPageRecord | null> {
+  const { data: page } = await getSupabaseAdmin()
+    .from('status_pages')
+    .select('*')
+    .eq('slug', slug.toLowerCase())
+    .single()
+
+  return page
+}
+
+export async function isSlugTaken(slug: string, excludeId?: string): Promise<boolean> {
+  let query = getSupabaseAdmin()
+    .from('status_pages')
+    .select('id', { count: 'exact', head: true })
+    .eq('slug', slug)
+
+  if (excludeId) {
+    query = query.neq('id', excludeId)
+  }
+
+  const { count, error } = await query
+  if (error) throw error
+  return (count || 0) > 0
+}
+
+/**
+ * Whether another page has already verified the domain. Unverified claims do
+ * not block anyone.
+ */
+export async function isCustomDomainTaken(domain: string, excludeId?: string): Promise<boolean> {
+  let query = getSupabaseAdmin()
+    .from('status_pages')
+    .select('id', { count: 'exact', head: true })
+    .eq('custom_domain', domain)
+    .not('custom_domain_verified_at', 'is', null)
+
+  if (excludeId) {
+    query = query.neq('id', excludeId)
+  }
+
+  const { count, error } = await query
+  if (error) throw error
+  return (count || 0) > 0
+}
+
+/**
+ * Fields to store when a page's custom domain is set or changed: a fresh
+ * verification token, and the domain unverified until the TXT record is found
+ */
+export function getCustomDomainChanges(domain: string | null): Pick<StatusPage, 'custom_domain' | 'custom_domain_token' | 'custom_domain_verified_at'> {
+  return {
+    custom_domain: domain,
+    custom_domain_token: domain ? crypto.randomBytes(16).toString('hex') : null,
+    custom_domain_verified_at: null
+  }
+}
+
+/**
+ * The TXT record that proves control of the page's custom domain
+ */
+export function getCustomDomainRecord(page: Pick<StatusPage, 'custom_domain' | 'custom_domain_token'>): { name: string; value: string } | null {
+  if (!page.custom_domain || !page.custom_domain_token) return null
+  return {
+    name: `${CUSTOM_DOMAIN_RECORD_PREFIX}.${page.custom_domain}`,
+    value: `${CUSTOM_DOMAIN_RECORD_VALUE_PREFIX}${page.custom_domain_token}`
+  }
+}
+
+/**
+ * Whether the page's verification TXT record is published
+ */
+export async function hasCustomDomainRecord(page: Pick<StatusPage, 'custom_domain' | 'custom_domain_token'>): Promise<boolean> {
+  const record = getCustomDomainRecord(page)
+  if (!record) return false
+
+  try {
+    const records = await dns.resolveTxt(record.name)
+    return records.some(chunks => chunks.join('').trim() === record.value)
+  } catch {
+    // ENOTFOUND / ENODATA: not published (yet)
+    return false
+  }
+}
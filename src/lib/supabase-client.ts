@@ -1,6 +1,7 @@
-import { createClient } from '@supabase/supabase-js'
+import { createBrowserClient } from '@supabase/ssr'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
\ No newline at end of file
+// Keeps the session in cookies so middleware and API routes can read it
+export const supabase = createBrowserClient(supabaseUrl, supabaseAnonKey)
\ No newline at end of file
@@ -0,0 +1,408 @@
+// Team workspaces: membership, role checks and email invitations. Monitors,
+// maintenance windows and status pages belong either to a team (team_id) or
+// to their creator's personal workspace (team_id null).
+
+import crypto from 'crypto'
+import { getSupabaseAdmin } from './supabase'
+import { sendTeamInvitation } from './email'
+
+export type TeamRole = 'owner' | 'admin' | 'member' | 'viewer'
+
+export const TEAM_ROLES: TeamRole[] = ['owner', 'admin', 'member', 'viewer']
+
+// Roles that can be handed out by invitation or role change; ownership is fixed
+export const ASSIGNABLE_TEAM_ROLES: TeamRole[] = ['admin', 'member', 'viewer']
+
+export const INVITATION_TTL_DAYS = 7
+
+export const MAX_TEAM_NAME_LENGTH = 100
+
+const ROLE_RANK: Record<TeamRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3
+}
+
+export interface Team {
+  id: string
+  name: string
+  owner_id: string
+  plan?: string | null
+  max_monitors?: number | null
+  created_at?: string
+}
+
+export interface TeamWithRole extends Team {
+  role: TeamRole
+}
+
+export interface TeamMember {
+  user_id: string
+  email: string | null
+  role: TeamRole
+  joined_at: string
+}
+
+export interface TeamInvitation {
+  id: string
+  team_id: string
+  email: string
+  role: TeamRole
+  invited_by?: string | null
+  expires_at: string
+  accepted_at?: string | null
+  created_at?: string
+}
+
+/**
+ * Where a request operates: a team, or the user's personal workspace
+ * (teamId null), in which the user is always the owner.
+ */
+export interface Workspace {
+  userId: string
+  teamId: string | null
+  role: TeamRole
+}
+
+export function hasTeamRole(role: TeamRole | null | undefined, required: TeamRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required]
+}
+
+export function isTeamRole(value: unknown): value is TeamRole {
+  return typeof value === 'string' && TEAM_ROLES.includes(value as TeamRole)
+}
+
+export function validateTeamName(name: unknown): string | null {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Team name is required'
+  }
+  if (name.trim().length > MAX_TEAM_NAME_LENGTH) {
+    return `Team name must be at most ${MAX_TEAM_NAME_LENGTH} characters`
+  }
+  return null
+}
+
+export function validateInvitation(input: { email?: unknown; role?: unknown }): string | null {
+  if (typeof input.email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email.trim())) {
+    return 'A valid email address is required'
+  }
+  if (input.role !== undefined && !ASSIGNABLE_TEAM_ROLES.includes(input.role as TeamRole)) {
+    return `Role must be one of: ${ASSIGNABLE_TEAM_ROLES.join(', ')}`
+  }
+  return null
+}
+
+// Where a monitor's alerts are delivered; changing these needs the admin role
+export const NOTIFICATION_TARGET_FIELDS = [
+  'alert_email',
+  'slack_webhook_url',
+  'discord_webhook_url',
+  'alert_sms',
+  'webhook_url'
+] as const
+
+/**
+ * Whether an update would change any notification target. Fields left out of
+ * the update are unchanged; empty strings and null are the same.
+ */
+export function changesNotificationTargets(current: Record<string, any>, update: Record<string, any>): boolean {
+  return NOTIFICATION_TARGET_FIELDS.some(field =>
+    update[field] !== undefined && (update[field] || null) !== (current[field] || null)
+  )
+}
+
+/**
+ * Restrict a query on a workspace-owned table to the given workspace
+ */
+export function scopeToWorkspace<Q>(query: Q, workspace: Workspace): Q {
+  // Supabase's builder generics are too deep to constrain here
+  const builder = query as any
+  return workspace.teamId
+    ? builder.eq('team_id', workspace.teamId)
+    : builder.eq('user_id', workspace.userId).is('team_id', null)
+}
+
+export async function getTeamRole(teamId: string, userId: string): Promise<TeamRole | null> {
+  const { data } = await getSupabaseAdmin()
+    .from('team_members')
+    .select('role')
+    .eq('team_id', teamId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return data && isTeamRole(data.role) ? data.role : null
+}
+
+/**
+ * Resolve the requested team into a workspace, falling back to the personal
+ * workspace when no team is selected or the user is no longer a member.
+ */
+export async function resolveWorkspace(userId: string, teamId?: string | null): Promise<Workspace> {
+  if (teamId) {
+    const role = await getTeamRole(teamId, userId)
+    if (role) {
+      return { userId, teamId, role }
+    }
+  }
+  return { userId, teamId: null, role: 'owner' }
+}
+
+/**
+ * The caller's role on a monitor: 'owner' for their personal monitors, their
+ * team role for team monitors, or null when they cannot see it at all.
+ */
+export async function getMonitorRole(monitorId: string, userId: string): Promise<TeamRole | null> {
+  const { data: monitor } = await getSupabaseAdmin()
+    .from('monitors')
+    .select('user_id, team_id')
+    .eq('id', monitorId)
+    .maybeSingle()
+
+  if (!monitor) return null
+  if (monitor.team_id) return getTeamRole(monitor.team_id, userId)
+  return monitor.user_id === userId ? 'owner' : null
+}
+
+export async function getUserTeams(userId: string): Promise<TeamWithRole[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('team_members')
+    .select('role, teams(id, name, owner_id, plan, max_monitors, created_at)')
+    .eq('user_id', userId)
+
+  if (error) throw error
+
+  return (data || [])
+    .filter((row: any) => row.teams && isTeamRole(row.role))
+    .map((row: any) => ({ ...row.teams, role: row.role }))
+    .sort((a: Team, b: Team) => a.name.localeCompare(b.name))
+}
+
+export async function getTeam(teamId: string): Promise<Team | null> {
+  const { data } = await getSupabaseAdmin()
+    .from('teams')
+    .select('id, name, owner_id, plan, max_monitors, created_at')
+    .eq('id', teamId)
+    .maybeSingle()
+
+  return data
+}
+
+export async function createTeam(name: string, ownerId: string): Promise<Team> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: team, error } = await supabase
+    .from('teams')
+    .insert({ name: name.trim(), owner_id: ownerId })
+    .select('id, name, owner_id, plan, max_monitors, created_at')
+    .single()
+
+  if (error) throw error
+
+  const { error: memberError } = await supabase
+    .from('team_members')
+    .insert({ team_id: team.id, user_id: ownerId, role: 'owner' })
+
+  if (memberError) {
+    await supabase.from('teams').delete().eq('id', team.id)
+    throw memberError
+  }
+
+  return team
+}
+
+export async function getTeamMembers(teamId: string): Promise<TeamMember[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('team_members')
+    .select('user_id, role, joined_at, profiles(email)')
+    .eq('team_id', teamId)
+    .order('joined_at', { ascending: true })
+
+  if (error) throw error
+
+  return (data || []).map((row: any) => ({
+    user_id: row.user_id,
+    email: row.profiles?.email ?? null,
+    role: row.role,
+    joined_at: row.joined_at
+  }))
+}
+
+export async function getPendingInvitations(teamId: string): Promise<TeamInvitation[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('team_invitations')
+    .select('id, team_id, email, role, invited_by, expires_at, accepted_at, created_at')
+    .eq('team_id', teamId)
+    .is('accepted_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function updateTeamMemberRole(teamId: string, userId: string, role: TeamRole): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('team_members')
+    .update({ role })
+    .eq('team_id', teamId)
+    .eq('user_id', userId)
+    .select('user_id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+export async function removeTeamMember(teamId: string, userId: string): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('team_members')
+    .delete()
+    .eq('team_id', teamId)
+    .eq('user_id', userId)
+    .select('user_id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+export async function revokeInvitation(teamId: string, invitationId: string): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('team_invitations')
+    .delete()
+    .eq('team_id', teamId)
+    .eq('id', invitationId)
+    .is('accepted_at', null)
+    .select('id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+/**
+ * Whether the team can take `additional` more monitors under its plan limit
+ */
+export async function hasMonitorCapacity(teamId: string, additional = 1): Promise<boolean> {
+  const supabase = getSupabaseAdmin()
+  const team = await getTeam(teamId)
+  if (!team?.max_monitors) return true
+
+  const { count, error } = await supabase
+    .from('monitors')
+    .select('id', { count: 'exact', head: true })
+    .eq('team_id', teamId)
+
+  if (error) throw error
+  return (count || 0) + additional <= team.max_monitors
+}
+
+function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+export function getInvitationUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  return `${baseUrl.replace(/\/$/, '')}/teams/invite/${token}`
+}
+
+/**
+ * Create an invitation and email the accept link. Re-inviting an address
+ * replaces its pending invitation, so only the newest link works.
+ */
+export async function createInvitation(
+  team: Team,
+  email: string,
+  role: TeamRole,
+  invitedBy: { id: string; email?: string | null }
+): Promise<{ invitation: TeamInvitation; url: string; emailed: boolean }> {
+  const supabase = getSupabaseAdmin()
+  const normalizedEmail = email.trim().toLowerCase()
+  const token = crypto.randomBytes(32).toString('hex')
+
+  await supabase
+    .from('team_invitations')
+    .delete()
+    .eq('team_id', team.id)
+    .eq('email', normalizedEmail)
+    .is('accepted_at', null)
+
+  const { data: invitation, error } = await supabase
+    .from('team_invitations')
+    .insert({
+      team_id: team.id,
+      email: normalizedEmail,
+      role,
+      token_hash: hashInvitationToken(token),
+      invited_by: invitedBy.id,
+      expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    })
+    .select('id, team_id, email, role, invited_by, expires_at, accepted_at, created_at')
+    .single()
+
+  if (error) throw error
+
+  const url = getInvitationUrl(token)
+  const result = await sendTeamInvitation({
+    recipient: normalizedEmail,
+    teamName: team.name,
+    role,
+    acceptUrl: url,
+    inviterEmail: invitedBy.email,
+    expiresInDays: INVITATION_TTL_DAYS
+  })
+
+  return { invitation, url, emailed: result.success }
+}
+
+export type AcceptInvitationResult =
+  | { success: true; team: Team; role: TeamRole }
+  | { success: false; status: number; error: string }
+
+/**
+ * Accept an invitation for the signed-in user, whose email must match the
+ * invited address. Existing members keep the higher of the two roles.
+ */
+export async function acceptInvitation(
+  token: string,
+  user: { id: string; email?: string | null }
+): Promise<AcceptInvitationResult> {
+  const supabase = getSupabaseAdmin()
+
+  const { data: invitation } = await supabase
+    .from('team_invitations')
+    .select('id, team_id, email, role, expires_at, accepted_at')
+    .eq('token_hash', hashInvitationToken(token))
+    .maybeSingle()
+
+  if (!invitation || invitation.accepted_at) {
+    return { success: false, status: 404, error: 'Invitation not found or already used' }
+  }
+
+  if (new Date(invitation.expires_at) <= new Date()) {
+    return { success: false, status: 410, error: 'Invitation has expired' }
+  }
+
+  if (!user.email || user.email.toLowerCase() !== invitation.email) {
+    return { success: false, status: 403, error: `This invitation was sent to ${invitation.email}` }
+  }
+
+  const team = await getTeam(invitation.team_id)
+  if (!team) {
+    return { success: false, status: 404, error: 'Team no longer exists' }
+  }
+
+  const currentRole = await getTeamRole(team.id, user.id)
+  const role: TeamRole = hasTeamRole(currentRole, invitation.role) ? currentRole! : invitation.role
+
+  const { error } = await supabase
+    .from('team_members')
+    .upsert({ team_id: team.id, user_id: user.id, role }, { onConflict: 'team_id,user_id' })
+
+  if (error) throw error
+
+  await supabase
+    .from('team_invitations')
+    .update({ accepted_at: new Date().toISOString() })
+    .eq('id', invitation.id)
+
+  return { success: true, team, role }
+}
@@ -31,10 +31,24 @@ export function formatDuration(minutes: number): string {
   return remainingHours > 0 ? `${days}d ${remainingHours}h` : `${days}d`
 }
 
+export function formatCheckInterval(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} seconds`
+  }
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) {
+    return minutes === 1 ? '1 minute' : `${minutes} minutes`
+  }
+  const hours = Math.round(minutes / 60)
+  return hours === 1 ? '1 hour' : `${hours} hours`
+}
+
 export function getStatusColor(status: string): string {
   switch (status) {
     case 'up':
       return 'text-green-600 bg-green-100'
+    case 'degraded':
+      return 'text-yellow-600 bg-yellow-100'
     case 'down':
       return 'text-red-600 bg-red-100'
     default:
@@ -46,9 +60,45 @@ export function getStatusDot(status: string): string {
   switch (status) {
     case 'up':
       return 'bg-green-500'
+    case 'degraded':
+      return 'bg-yellow-500'
     case 'down':
       return 'bg-red-500'
     default:
       return 'bg-gray-500'
   }
-}
\ No newline at end of file
+}
+export function getIncidentStatus(incident: { resolved: boolean; identified?: boolean; monitoring?: boolean }): string {
+  if (incident.resolved) return 'resolved'
+  if (incident.monitoring) return 'monitoring'
+  if (incident.identified) return 'identified'
+  return 'investigating'
+}
+
+export function getIncidentStatusLabel(status: string): string {
+  switch (status) {
+    case 'investigating':
+      return 'Investigating'
+    case 'identified':
+      return 'Identified'
+    case 'monitoring':
+      return 'Monitoring'
+    case 'resolved':
+      return 'Resolved'
+    default:
+      return status
+  }
+}
+
+export function getSeverityColor(severity?: string | null): string {
+  switch (severity) {
+    case 'critical':
+      return 'bg-red-100 text-red-800'
+    case 'major':
+      return 'bg-orange-100 text-orange-800'
+    case 'minor':
+      return 'bg-yellow-100 text-yellow-800'
+    default:
+      return 'bg-gray-100 text-gray-700'
+  }
+}
@@ -0,0 +1,127 @@
+// Probe agent: runs monitor checks from its own location for a SimpleUptime server.
+//
+// Usage:
+//   PROBE_SERVER_URL=https://uptime.example.com PROBE_TOKEN=probe_... npm run probe
+//
+// Without PROBE_TOKEN, set PROBE_REGISTRATION_SECRET and PROBE_LOCATION to register
+// once; the agent prints its token and exits.
+
+import { checkMonitor, type MonitorCheckResult, type MonitorCheckTarget } from '@/lib/monitoring'
+import { createLogger } from '@/lib/logger'
+import { getEnvNumber, getEnvVar } from '@/lib/env-validation'
+
+const AGENT_VERSION = '1.0.0'
+
+const logger = createLogger('Probe')
+
+interface ClaimedJob {
+  job_id: string
+  monitor: MonitorCheckTarget
+}
+
+async function register(serverUrl: string) {
+  const response = await fetch(`${serverUrl}/api/probes/register`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${getEnvVar('PROBE_REGISTRATION_SECRET')}`
+    },
+    body: JSON.stringify({
+      location: getEnvVar('PROBE_LOCATION'),
+      name: process.env.PROBE_NAME
+    })
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(`Registration failed: ${data.error || response.status}`)
+  }
+
+  console.log(`Registered agent ${data.agent.id} for location "${data.agent.location}"`)
+  console.log(`PROBE_TOKEN=${data.token}`)
+}
+
+async function pollOnce(serverUrl: string, token: string, concurrency: number): Promise<number> {
+  const headers = {
+    'Authorization': `Bearer ${token}`,
+    'X-Probe-Version': AGENT_VERSION
+  }
+
+  const jobsResponse = await fetch(`${serverUrl}/api/probes/jobs?limit=${concurrency * 2}`, { headers })
+  if (!jobsResponse.ok) {
+    throw new Error(`Failed to fetch jobs: HTTP ${jobsResponse.status}`)
+  }
+
+  const { location, jobs } = await jobsResponse.json() as { location: string; jobs: ClaimedJob[] }
+  if (jobs.length === 0) {
+    return 0
+  }
+
+  const results: Array<MonitorCheckResult & { job_id: string }> = []
+  let nextIndex = 0
+
+  const runWorker = async () => {
+    while (nextIndex < jobs.length) {
+      const job = jobs[nextIndex++]
+      const result = await checkMonitor(job.monitor, location)
+      results.push({ job_id: job.job_id, ...result })
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, runWorker))
+
+  const resultsResponse = await fetch(`${serverUrl}/api/probes/results`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ results })
+  })
+
+  if (!resultsResponse.ok) {
+    throw new Error(`Failed to post results: HTTP ${resultsResponse.status}`)
+  }
+
+  const { accepted, rejected } = await resultsResponse.json()
+  logger.info(`Completed ${jobs.length} checks`, { location, accepted, rejected: rejected.length })
+
+  return jobs.length
+}
+
+async function main() {
+  const serverUrl = getEnvVar('PROBE_SERVER_URL').replace(/\/$/, '')
+
+  if (!process.env.PROBE_TOKEN) {
+    await register(serverUrl)
+    return
+  }
+
+  const token = process.env.PROBE_TOKEN
+  const pollIntervalMs = getEnvNumber('PROBE_POLL_INTERVAL_SECONDS', 5) * 1000
+  const concurrency = getEnvNumber('PROBE_CONCURRENCY', 5)
+
+  logger.info(`Probe agent ${AGENT_VERSION} polling ${serverUrl}`, { pollIntervalMs, concurrency })
+
+  let stopping = false
+  process.on('SIGINT', () => { stopping = true })
+  process.on('SIGTERM', () => { stopping = true })
+
+  while (!stopping) {
+    let processed = 0
+    try {
+      processed = await pollOnce(serverUrl, token, concurrency)
+    } catch (error) {
+      logger.error('Poll failed', error as Error)
+    }
+
+    // Drain the queue without waiting while there is work
+    if (processed === 0 && !stopping) {
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs))
+    }
+  }
+
+  logger.info('Probe agent stopped')
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
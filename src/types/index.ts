@@ -1,12 +1,17 @@
+import type { ResponseAssertion } from '@/lib/assertions'
+import type { DnsMatchMode, DnsRecordType } from '@/lib/dns-records'
+
 export interface Monitor {
   id: string
   user_id: string
+  team_id?: string | null // owning team; null = personal workspace
   url: string
   name: string
-  status: 'up' | 'down' | 'unknown'
+  status: 'up' | 'degraded' | 'down' | 'unknown'
   created_at: string
   alert_email?: string
-  check_interval: number
+  check_interval: number // minutes (legacy)
+  check_interval_seconds?: number // overrides check_interval when set
   last_checked?: string
   last_status_code?: number
   last_response_time?: number
@@ -21,8 +26,11 @@ export interface Monitor {
   domain_expiry_date?: string
   domain_registrar?: string
   domain_days_until_expiry?: number
+  domain_status_codes?: string[] // EPP status codes from the last lookup
+  domain_alert_days?: number[] | null // days before expiry to alert at
+  domain_alerted_days?: number | null // threshold last alerted at
   // Enhanced monitoring features
-  monitor_type?: 'http' | 'ping' | 'port' | 'heartbeat'
+  monitor_type?: 'http' | 'ping' | 'port' | 'dns' | 'heartbeat'
   request_method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD'
   request_headers?: string // JSON string of headers
   request_body?: string
@@ -36,22 +44,62 @@ export interface Monitor {
   discord_webhook_url?: string
   webhook_url?: string
   alert_sms?: string
+  tags?: string[] // labels that route notification channels to this monitor
+  escalation_policy_id?: string | null
   // Heartbeat monitoring fields
   heartbeat_interval?: number // seconds between expected heartbeats
   last_heartbeat?: string // ISO timestamp of last heartbeat received
+  heartbeat_token?: string | null // secret in the ping URL /api/ping/<token>
+  heartbeat_schedule?: string | null // cron expression; replaces heartbeat_interval when set
+  heartbeat_timezone?: string | null
+  heartbeat_grace_seconds?: number | null // null = default grace period
+  heartbeat_max_runtime_seconds?: number | null // how long a /start-ed run may take
   // Status page visibility
   status_page_public?: boolean
+  // Failure confirmation
+  alert_threshold?: number // consecutive failed rounds before marking down
+  failure_locations_threshold?: number | null // locations that must fail (null = majority)
+  confirmation_recheck?: boolean
+  consecutive_failures?: number
+  // Response assertions (HTTP monitors)
+  keyword_check?: string | null
+  expected_status_codes?: number[]
+  assertions?: ResponseAssertion[]
+  // Latency threshold for the degraded state
+  degraded_threshold_ms?: number | null // null = never degraded
+  degraded_percentile?: number // percentile of location response times compared to the threshold
+  // DNS record monitors; url holds the hostname
+  dns_record_type?: DnsRecordType | null
+  dns_resolver?: string | null // resolver IP, optionally with :port; null = system resolver
+  dns_expected_values?: string[] | null
+  dns_match_mode?: DnsMatchMode | null
+  dns_current_values?: string[] | null // last definitive answer from the primary checker
+  // Monitors as code
+  config_key?: string | null // key in an imported config file; null = never imported
 }
 
 export interface UptimeCheck {
   id: string
   monitor_id: string
-  location: 'us-east' | 'us-west' | 'europe' | 'asia-pacific' | 'south-america' | 'heartbeat'
-  status: 'up' | 'down' | 'timeout' | 'error'
+  location: string // primary checker location, a probe agent location, or 'heartbeat'
+  status: 'up' | 'down' | 'timeout' | 'error' | 'maintenance'
   response_time?: number
   status_code?: number
   error_message?: string
   checked_at: string
+  round_id?: string
+  probe_agent_id?: string
+  dns_values?: string[] | null // DNS monitors: the records this location saw
+}
+
+// A change in a DNS monitor's records, as seen by the primary checker
+export interface DnsRecordChange {
+  id: string
+  monitor_id: string
+  record_type: DnsRecordType
+  previous_values: string[]
+  current_values: string[] // empty when the records disappeared
+  changed_at: string
 }
 
 export interface Incident {
@@ -62,6 +110,47 @@ export interface Incident {
   duration_minutes?: number
   cause?: string
   resolved: boolean
+  incident_type?: 'monitoring_check' | 'degraded' | 'missed_heartbeat' | 'reported_failure'
+  severity?: IncidentSeverity
+  status_update?: string | null
+  public_message?: string | null
+  investigating?: boolean
+  identified?: boolean
+  monitoring?: boolean
+  resolution_method?: 'monitoring_check' | 'heartbeat' | 'manual' | null
+  acknowledged_at?: string | null
+  acknowledged_by?: string | null
+  acknowledged_by_name?: string | null // email, or the name given on an acknowledge link
+  resolved_by?: string | null
+  // Escalation policy state
+  escalation_policy_id?: string | null
+  escalation_step?: number // steps already notified
+  escalation_reminders?: number
+  escalation_next_at?: string | null // null = not escalating
+  updates?: IncidentUpdate[]
+  details?: IncidentFailureDetails | null
+}
+
+// Payload of a heartbeat that reported a failure
+export interface IncidentFailureDetails {
+  message?: string | null
+  metadata?: Record<string, any>
+  source_ip?: string
+}
+
+export type IncidentSeverity = 'minor' | 'major' | 'critical'
+
+export type IncidentLifecycleStatus = 'investigating' | 'identified' | 'monitoring' | 'resolved'
+
+export interface IncidentUpdate {
+  id: string
+  incident_id: string
+  status: IncidentLifecycleStatus
+  message: string
+  severity?: IncidentSeverity | null
+  is_public: boolean
+  created_at: string
+  created_by?: string | null
 }
 
 export interface AlertSent {
@@ -89,4 +178,5 @@ export interface UptimeStats {
   avg_response_time: number
   total_incidents: number
   current_incident?: Incident
+  current_maintenance?: { name: string; ends_at: string } | null
 }
\ No newline at end of file